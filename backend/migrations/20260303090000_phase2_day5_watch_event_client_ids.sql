@@ -0,0 +1,13 @@
+-- TeachTok Phase 2 Day 5.3:
+-- Client-generated event IDs so retried watch-event uploads are recorded once per learner.
+
+BEGIN;
+
+ALTER TABLE public.watch_events
+  ADD COLUMN IF NOT EXISTS client_event_id uuid;
+
+CREATE UNIQUE INDEX IF NOT EXISTS watch_events_user_client_event_idx
+  ON public.watch_events (user_id, client_event_id)
+  WHERE client_event_id IS NOT NULL;
+
+COMMIT;
@@ -0,0 +1,13 @@
+-- TeachTok Phase 2 Day 5.3:
+-- Track when each video_progress row last saw playback so late-arriving watch events
+-- cannot move the resume position backwards, and recent progress can be listed quickly.
+
+BEGIN;
+
+ALTER TABLE public.video_progress
+  ADD COLUMN IF NOT EXISTS last_watched_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS video_progress_user_updated_idx
+  ON public.video_progress (user_id, updated_at DESC);
+
+COMMIT;
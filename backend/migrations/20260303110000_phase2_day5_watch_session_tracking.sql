@@ -0,0 +1,42 @@
+-- TeachTok Phase 2 Day 5.5:
+-- Link watch_sessions to client playback session IDs and keep the last observed position
+-- so the API can accumulate watch_seconds from watch_events position deltas.
+
+BEGIN;
+
+ALTER TABLE public.watch_sessions
+  ADD COLUMN IF NOT EXISTS client_session_id uuid,
+  ADD COLUMN IF NOT EXISTS last_position_seconds integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_event_at timestamptz,
+  ADD COLUMN IF NOT EXISTS end_reason text;
+
+DO $$
+BEGIN
+  ALTER TABLE public.watch_sessions
+    ADD CONSTRAINT watch_sessions_end_reason_chk
+    CHECK (end_reason IS NULL OR end_reason IN ('pause', 'complete', 'inactivity'));
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END
+$$;
+
+DO $$
+BEGIN
+  ALTER TABLE public.watch_sessions
+    ADD CONSTRAINT watch_sessions_last_position_non_negative_chk
+    CHECK (last_position_seconds >= 0);
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END
+$$;
+
+-- At most one open session per client playback session and video.
+CREATE UNIQUE INDEX IF NOT EXISTS watch_sessions_open_client_session_idx
+  ON public.watch_sessions (user_id, client_session_id, video_id)
+  WHERE ended_at IS NULL AND client_session_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS watch_sessions_user_open_idx
+  ON public.watch_sessions (user_id, last_event_at)
+  WHERE ended_at IS NULL;
+
+COMMIT;
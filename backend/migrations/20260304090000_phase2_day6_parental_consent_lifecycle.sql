@@ -0,0 +1,26 @@
+-- TeachTok Phase 2 Day 6.1:
+-- Track consent revocation and index the latest consent per child so the API can
+-- resolve pending/approved/expired/revoked lifecycle state on every gated request.
+
+BEGIN;
+
+ALTER TABLE public.parental_consents
+  ADD COLUMN IF NOT EXISTS revoked_at timestamptz;
+
+DO $$
+BEGIN
+  ALTER TABLE public.parental_consents
+    ADD CONSTRAINT parental_consents_revoked_requires_revoked_at_chk
+    CHECK (
+      consent_status <> 'revoked'::public.consent_status
+      OR revoked_at IS NOT NULL
+    );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END
+$$;
+
+CREATE INDEX IF NOT EXISTS parental_consents_child_created_idx
+  ON public.parental_consents (child_user_id, created_at DESC);
+
+COMMIT;
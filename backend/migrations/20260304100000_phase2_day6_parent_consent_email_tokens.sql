@@ -0,0 +1,28 @@
+-- TeachTok Phase 2 Day 6.2:
+-- Email-verified parent consent: pending requests carry a hashed, expiring
+-- link token, and parent denials are timestamped.
+
+BEGIN;
+
+ALTER TABLE public.parental_consents
+  ADD COLUMN IF NOT EXISTS rejected_at timestamptz;
+
+DO $$
+BEGIN
+  ALTER TABLE public.parental_consents
+    ADD CONSTRAINT parental_consents_email_pending_requires_token_chk
+    CHECK (
+      consent_method <> 'email_verification'
+      OR consent_status <> 'pending'::public.consent_status
+      OR (token_hash IS NOT NULL AND token_expires_at IS NOT NULL)
+    );
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END
+$$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS parental_consents_token_hash_uidx
+  ON public.parental_consents (token_hash)
+  WHERE token_hash IS NOT NULL;
+
+COMMIT;
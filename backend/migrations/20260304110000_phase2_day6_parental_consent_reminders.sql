@@ -0,0 +1,25 @@
+-- TeachTok Phase 2 Day 6.3:
+-- Record every consent renewal reminder so the scheduled job never sends the
+-- same 30-day or 7-day notice twice for one consent.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.parental_consent_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  consent_id uuid NOT NULL REFERENCES public.parental_consents (id) ON DELETE CASCADE,
+  reminder_kind text NOT NULL,
+  recipient_email text NOT NULL,
+  sent_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT parental_consent_reminders_kind_chk
+    CHECK (reminder_kind IN ('expiry_30_day', 'expiry_7_day')),
+  CONSTRAINT parental_consent_reminders_consent_kind_key
+    UNIQUE (consent_id, reminder_kind)
+);
+
+CREATE INDEX IF NOT EXISTS parental_consents_approved_expires_idx
+  ON public.parental_consents (expires_at)
+  WHERE consent_status = 'approved'::public.consent_status;
+
+ALTER TABLE public.parental_consent_reminders ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
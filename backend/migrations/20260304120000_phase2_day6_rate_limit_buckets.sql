@@ -0,0 +1,48 @@
+-- TeachTok Phase 2 Day 6.4:
+-- Shared fixed-window counters for auth and onboarding rate limits, so every
+-- backend instance enforces the same budget when RATE_LIMIT_STORE=supabase.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+  bucket_key text PRIMARY KEY,
+  hit_count integer NOT NULL DEFAULT 0,
+  expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS rate_limit_buckets_expires_at_idx
+  ON public.rate_limit_buckets (expires_at);
+
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+-- Counts one hit in a single statement: a lapsed window restarts at 1, an open
+-- window increments in place.
+CREATE OR REPLACE FUNCTION public.consume_rate_limit(
+  p_bucket_key text,
+  p_window_seconds integer,
+  p_now timestamptz
+)
+RETURNS TABLE (hit_count integer, expires_at timestamptz)
+LANGUAGE sql
+AS $$
+  INSERT INTO public.rate_limit_buckets AS bucket (bucket_key, hit_count, expires_at)
+  VALUES (p_bucket_key, 1, p_now + make_interval(secs => p_window_seconds))
+  ON CONFLICT (bucket_key) DO UPDATE
+    SET
+      hit_count = CASE
+        WHEN bucket.expires_at <= p_now THEN 1
+        ELSE bucket.hit_count + 1
+      END,
+      expires_at = CASE
+        WHEN bucket.expires_at <= p_now THEN EXCLUDED.expires_at
+        ELSE bucket.expires_at
+      END
+  RETURNING bucket.hit_count, bucket.expires_at;
+$$;
+
+REVOKE ALL ON FUNCTION public.consume_rate_limit(text, integer, timestamptz)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_rate_limit(text, integer, timestamptz)
+  TO service_role;
+
+COMMIT;
@@ -0,0 +1,39 @@
+-- TeachTok Phase 2 Day 6.5:
+-- Track consecutive failed sign-ins per account so repeated failures lock the
+-- account with growing backoff, and let the backend map a login email to its
+-- auth user without listing every user.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.account_login_lockouts (
+  user_id uuid PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  failed_attempt_count integer NOT NULL DEFAULT 0,
+  lockout_count integer NOT NULL DEFAULT 0,
+  locked_until timestamptz,
+  last_failed_at timestamptz,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT account_login_lockouts_counts_chk
+    CHECK (failed_attempt_count >= 0 AND lockout_count >= 0)
+);
+
+ALTER TABLE public.account_login_lockouts ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.find_auth_user_id_by_email(p_email text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT id
+  FROM auth.users
+  WHERE lower(email) = lower(trim(p_email))
+  LIMIT 1;
+$$;
+
+REVOKE ALL ON FUNCTION public.find_auth_user_id_by_email(text)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_auth_user_id_by_email(text)
+  TO service_role;
+
+COMMIT;
@@ -0,0 +1,28 @@
+-- TeachTok Phase 2 Day 6.6:
+-- Let the backend end every session for an account without holding one of
+-- its access tokens, so a parent can sign a linked child out of all devices.
+-- Deleting auth.sessions cascades to that session's refresh tokens.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.revoke_user_sessions(p_user_id uuid)
+RETURNS integer
+LANGUAGE sql
+VOLATILE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  WITH revoked AS (
+    DELETE FROM auth.sessions
+    WHERE user_id = p_user_id
+    RETURNING id
+  )
+  SELECT count(*)::integer FROM revoked;
+$$;
+
+REVOKE ALL ON FUNCTION public.revoke_user_sessions(uuid)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_user_sessions(uuid)
+  TO service_role;
+
+COMMIT;
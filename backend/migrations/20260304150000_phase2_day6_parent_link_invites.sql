@@ -0,0 +1,24 @@
+-- TeachTok Phase 2 Day 6.7:
+-- Let a learner start a parent link by handing out a short-lived, single-use
+-- invite code. Only the SHA-256 hash of each code is stored.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.parent_link_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  child_user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  code_hash text NOT NULL UNIQUE,
+  expires_at timestamptz NOT NULL,
+  redeemed_at timestamptz,
+  redeemed_by_parent_user_id uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  revoked_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS parent_link_invites_child_open_idx
+  ON public.parent_link_invites (child_user_id)
+  WHERE redeemed_at IS NULL AND revoked_at IS NULL;
+
+ALTER TABLE public.parent_link_invites ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
@@ -0,0 +1,70 @@
+-- TeachTok Phase 2 Day 6.8:
+-- Give each parent-child link a guardian role. A child has at most one active
+-- primary guardian, who manages restrictions and invites co-guardians (who can
+-- view history) and coach viewers (who only see weekly aggregates).
+
+BEGIN;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_type WHERE typname = 'guardian_role'
+  ) THEN
+    CREATE TYPE public.guardian_role AS ENUM (
+      'primary',
+      'co_guardian',
+      'coach_viewer'
+    );
+  END IF;
+END
+$$;
+
+ALTER TABLE public.parent_child_links
+  ADD COLUMN IF NOT EXISTS guardian_role public.guardian_role NOT NULL DEFAULT 'primary';
+
+-- Children who already have several active parents keep the earliest linked
+-- one as primary; the rest become co-guardians so nobody loses history access.
+WITH ranked_active_links AS (
+  SELECT
+    id,
+    row_number() OVER (
+      PARTITION BY child_user_id
+      ORDER BY linked_at NULLS LAST, created_at, id
+    ) AS link_rank
+  FROM public.parent_child_links
+  WHERE relationship_status = 'active'::public.parent_child_relationship_status
+)
+UPDATE public.parent_child_links pcl
+SET guardian_role = 'co_guardian'
+FROM ranked_active_links ranked
+WHERE pcl.id = ranked.id
+  AND ranked.link_rank > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS parent_child_links_one_active_primary_idx
+  ON public.parent_child_links (child_user_id)
+  WHERE guardian_role = 'primary'
+    AND relationship_status = 'active'::public.parent_child_relationship_status;
+
+-- Row-level history access follows the role: coach viewers only get the
+-- aggregates the backend computes for them.
+CREATE OR REPLACE FUNCTION public.is_active_parent_of(
+  p_child_user_id uuid,
+  p_parent_user_id uuid DEFAULT auth.uid()
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.parent_child_links pcl
+    WHERE pcl.child_user_id = p_child_user_id
+      AND pcl.parent_user_id = COALESCE(p_parent_user_id, auth.uid())
+      AND pcl.relationship_status = 'active'::public.parent_child_relationship_status
+      AND pcl.guardian_role IN ('primary', 'co_guardian')
+  );
+$$;
+
+COMMIT;
@@ -0,0 +1,42 @@
+-- TeachTok Phase 2 Day 6.9:
+-- Per-child screen-time limits set by the primary guardian: an optional daily
+-- watch-minute budget and optional allowed viewing windows, evaluated in the
+-- child's local time zone.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.child_time_limits (
+  child_user_id uuid PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  daily_watch_minutes integer,
+  time_zone text NOT NULL DEFAULT 'UTC',
+  -- [{ "days": ["mon", ...], "startTime": "07:00", "endTime": "21:00" }]
+  allowed_windows jsonb NOT NULL DEFAULT '[]'::jsonb,
+  updated_by_parent_user_id uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT child_time_limits_daily_watch_minutes_chk
+    CHECK (daily_watch_minutes IS NULL OR daily_watch_minutes BETWEEN 5 AND 1440),
+  CONSTRAINT child_time_limits_allowed_windows_array_chk
+    CHECK (jsonb_typeof(allowed_windows) = 'array')
+);
+
+DROP TRIGGER IF EXISTS set_child_time_limits_updated_at ON public.child_time_limits;
+CREATE TRIGGER set_child_time_limits_updated_at
+BEFORE UPDATE ON public.child_time_limits
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.child_time_limits ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS child_time_limits_select_scoped ON public.child_time_limits;
+CREATE POLICY child_time_limits_select_scoped
+ON public.child_time_limits
+FOR SELECT
+TO authenticated
+USING (
+  child_user_id = auth.uid()
+  OR public.is_active_parent_of(child_user_id)
+  OR public.is_admin()
+);
+
+COMMIT;
@@ -0,0 +1,48 @@
+-- TeachTok Phase 2 Day 6.10:
+-- Let parent restrictions block a single content tag or a single video as well
+-- as a whole content type. Each restriction row now carries exactly one target.
+
+BEGIN;
+
+ALTER TABLE public.parent_content_restrictions
+  ADD COLUMN IF NOT EXISTS id uuid NOT NULL DEFAULT gen_random_uuid(),
+  ADD COLUMN IF NOT EXISTS content_tag_id uuid REFERENCES public.content_tags (id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS video_id uuid REFERENCES public.videos (id) ON DELETE CASCADE;
+
+ALTER TABLE public.parent_content_restrictions
+  DROP CONSTRAINT IF EXISTS parent_content_restrictions_pkey;
+
+ALTER TABLE public.parent_content_restrictions
+  ADD CONSTRAINT parent_content_restrictions_pkey PRIMARY KEY (id);
+
+ALTER TABLE public.parent_content_restrictions
+  ALTER COLUMN content_type_id DROP NOT NULL;
+
+ALTER TABLE public.parent_content_restrictions
+  DROP CONSTRAINT IF EXISTS parent_content_restrictions_single_target_chk;
+
+ALTER TABLE public.parent_content_restrictions
+  ADD CONSTRAINT parent_content_restrictions_single_target_chk
+    CHECK (num_nonnulls(content_type_id, content_tag_id, video_id) = 1);
+
+CREATE UNIQUE INDEX IF NOT EXISTS parent_content_restrictions_content_type_unique_idx
+  ON public.parent_content_restrictions (parent_user_id, child_user_id, content_type_id)
+  WHERE content_type_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS parent_content_restrictions_content_tag_unique_idx
+  ON public.parent_content_restrictions (parent_user_id, child_user_id, content_tag_id)
+  WHERE content_tag_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS parent_content_restrictions_video_unique_idx
+  ON public.parent_content_restrictions (parent_user_id, child_user_id, video_id)
+  WHERE video_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS parent_content_restrictions_content_tag_idx
+  ON public.parent_content_restrictions (content_tag_id)
+  WHERE content_tag_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS parent_content_restrictions_video_idx
+  ON public.parent_content_restrictions (video_id)
+  WHERE video_id IS NOT NULL;
+
+COMMIT;
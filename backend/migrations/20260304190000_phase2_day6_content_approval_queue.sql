@@ -0,0 +1,70 @@
+-- TeachTok Phase 2 Day 6.11:
+-- Parent approval mode: when a child's settings require approval, the feed
+-- only serves videos a parent approved. Decisions are kept per child and video
+-- so rejected clips stay out of the approval queue.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.child_content_approval_settings (
+  child_user_id uuid PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+  approval_required boolean NOT NULL DEFAULT false,
+  updated_by_parent_user_id uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+DROP TRIGGER IF EXISTS set_child_content_approval_settings_updated_at ON public.child_content_approval_settings;
+CREATE TRIGGER set_child_content_approval_settings_updated_at
+BEFORE UPDATE ON public.child_content_approval_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.child_content_approval_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS child_content_approval_settings_select_scoped ON public.child_content_approval_settings;
+CREATE POLICY child_content_approval_settings_select_scoped
+ON public.child_content_approval_settings
+FOR SELECT
+TO authenticated
+USING (
+  child_user_id = auth.uid()
+  OR public.is_active_parent_of(child_user_id)
+  OR public.is_admin()
+);
+
+CREATE TABLE IF NOT EXISTS public.child_video_approvals (
+  child_user_id uuid NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  video_id uuid NOT NULL REFERENCES public.videos (id) ON DELETE CASCADE,
+  decision text NOT NULL,
+  decided_by_parent_user_id uuid REFERENCES auth.users (id) ON DELETE SET NULL,
+  decided_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (child_user_id, video_id),
+  CONSTRAINT child_video_approvals_decision_chk
+    CHECK (decision IN ('approved', 'rejected'))
+);
+
+CREATE INDEX IF NOT EXISTS child_video_approvals_video_idx
+  ON public.child_video_approvals (video_id);
+
+DROP TRIGGER IF EXISTS set_child_video_approvals_updated_at ON public.child_video_approvals;
+CREATE TRIGGER set_child_video_approvals_updated_at
+BEFORE UPDATE ON public.child_video_approvals
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at();
+
+ALTER TABLE public.child_video_approvals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS child_video_approvals_select_scoped ON public.child_video_approvals;
+CREATE POLICY child_video_approvals_select_scoped
+ON public.child_video_approvals
+FOR SELECT
+TO authenticated
+USING (
+  child_user_id = auth.uid()
+  OR public.is_active_parent_of(child_user_id)
+  OR public.is_admin()
+);
+
+COMMIT;
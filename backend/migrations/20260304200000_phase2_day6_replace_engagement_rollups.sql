@@ -0,0 +1,64 @@
+-- TeachTok Phase 2 Day 6.12:
+-- Swap a date range of engagement rollups in one transaction so readers never
+-- see a half-rebuilt range. Rebuilds from the scheduled job and the admin
+-- endpoint take the same advisory lock, so overlapping runs queue up instead
+-- of clashing on the primary key.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.replace_engagement_daily_rollups(
+  p_from_date date,
+  p_to_date date,
+  p_user_id uuid,
+  p_rows jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_inserted_count integer;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('engagement_daily_rollups'));
+
+  DELETE FROM public.engagement_daily_rollups
+  WHERE date BETWEEN p_from_date AND p_to_date
+    AND (p_user_id IS NULL OR user_id = p_user_id);
+
+  INSERT INTO public.engagement_daily_rollups (
+    user_id,
+    content_type_id,
+    date,
+    watch_seconds,
+    completions,
+    active_minutes
+  )
+  SELECT
+    rollup.user_id,
+    rollup.content_type_id,
+    rollup.date,
+    rollup.watch_seconds,
+    rollup.completions,
+    rollup.active_minutes
+  FROM jsonb_to_recordset(coalesce(p_rows, '[]'::jsonb)) AS rollup (
+    user_id uuid,
+    content_type_id uuid,
+    date date,
+    watch_seconds integer,
+    completions integer,
+    active_minutes integer
+  );
+
+  GET DIAGNOSTICS v_inserted_count = ROW_COUNT;
+
+  RETURN v_inserted_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.replace_engagement_daily_rollups(date, date, uuid, jsonb)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.replace_engagement_daily_rollups(date, date, uuid, jsonb)
+  TO service_role;
+
+COMMIT;
@@ -0,0 +1,85 @@
+-- TeachTok Phase 2 Day 6.13:
+-- Count a failed sign-in and apply any lockout in one statement. The account's
+-- lockout row is locked for the update, so parallel failures each count once
+-- instead of overwriting each other's increment.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.record_failed_login(
+  p_user_id uuid,
+  p_now timestamptz,
+  p_threshold integer,
+  p_base_seconds integer,
+  p_max_seconds integer,
+  p_failure_memory_seconds integer
+)
+RETURNS TABLE (
+  failed_attempt_count integer,
+  lockout_count integer,
+  locked_until timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_lockout public.account_login_lockouts%ROWTYPE;
+  v_failed_attempt_count integer;
+  v_lockout_count integer;
+  v_locked_until timestamptz;
+BEGIN
+  INSERT INTO public.account_login_lockouts (user_id, updated_at)
+  VALUES (p_user_id, p_now)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT *
+  INTO v_lockout
+  FROM public.account_login_lockouts
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  -- Failures older than the memory window no longer count toward the next
+  -- lockout or its backoff.
+  IF v_lockout.last_failed_at IS NULL
+    OR v_lockout.last_failed_at <= p_now - make_interval(secs => p_failure_memory_seconds) THEN
+    v_lockout.failed_attempt_count := 0;
+    v_lockout.lockout_count := 0;
+  END IF;
+
+  v_failed_attempt_count := v_lockout.failed_attempt_count + 1;
+  v_lockout_count := v_lockout.lockout_count;
+  v_locked_until := NULL;
+
+  IF v_failed_attempt_count >= p_threshold THEN
+    v_lockout_count := v_lockout_count + 1;
+    v_locked_until := p_now + make_interval(
+      secs => least(
+        p_max_seconds::double precision,
+        p_base_seconds * power(2, v_lockout_count - 1)
+      )
+    );
+  END IF;
+
+  UPDATE public.account_login_lockouts AS lockout
+  SET
+    failed_attempt_count = CASE
+      WHEN v_locked_until IS NULL THEN v_failed_attempt_count
+      ELSE 0
+    END,
+    lockout_count = v_lockout_count,
+    locked_until = v_locked_until,
+    last_failed_at = p_now,
+    updated_at = p_now
+  WHERE lockout.user_id = p_user_id;
+
+  RETURN QUERY
+  SELECT v_failed_attempt_count, v_lockout_count, v_locked_until;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_failed_login(uuid, timestamptz, integer, integer, integer, integer)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_failed_login(uuid, timestamptz, integer, integer, integer, integer)
+  TO service_role;
+
+COMMIT;
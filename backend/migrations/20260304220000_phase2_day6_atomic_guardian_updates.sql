@@ -0,0 +1,97 @@
+-- TeachTok Phase 2 Day 6.14:
+-- Apply multi-step guardian changes in one transaction. Handing over the
+-- primary role demotes the current primary and promotes the new one together,
+-- and saving restrictions swaps the child's whole set, so a failure part-way
+-- can no longer leave a child with no primary guardian or no restrictions.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.set_guardian_role(
+  p_link_id uuid,
+  p_child_user_id uuid,
+  p_primary_user_id uuid,
+  p_guardian_role public.guardian_role
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM 1
+  FROM public.parent_child_links
+  WHERE child_user_id = p_child_user_id
+  FOR UPDATE;
+
+  IF p_guardian_role = 'primary'::public.guardian_role THEN
+    UPDATE public.parent_child_links
+    SET guardian_role = 'co_guardian'::public.guardian_role
+    WHERE parent_user_id = p_primary_user_id
+      AND child_user_id = p_child_user_id;
+  END IF;
+
+  UPDATE public.parent_child_links
+  SET guardian_role = p_guardian_role
+  WHERE id = p_link_id
+    AND child_user_id = p_child_user_id
+    AND relationship_status = 'active'::public.parent_child_relationship_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Active guardian link % was not found for child %.',
+      p_link_id, p_child_user_id;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_guardian_role(uuid, uuid, uuid, public.guardian_role)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_guardian_role(uuid, uuid, uuid, public.guardian_role)
+  TO service_role;
+
+-- Restrictions belong to the child and only the primary guardian edits them,
+-- so this also clears rows left by a guardian who handed over primary.
+CREATE OR REPLACE FUNCTION public.replace_parent_content_restrictions(
+  p_parent_user_id uuid,
+  p_child_user_id uuid,
+  p_content_type_ids uuid[],
+  p_content_tag_ids uuid[],
+  p_video_ids uuid[]
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(
+    hashtext('parent_content_restrictions'),
+    hashtext(p_child_user_id::text)
+  );
+
+  DELETE FROM public.parent_content_restrictions
+  WHERE child_user_id = p_child_user_id;
+
+  INSERT INTO public.parent_content_restrictions (
+    parent_user_id,
+    child_user_id,
+    content_type_id,
+    content_tag_id,
+    video_id
+  )
+  SELECT p_parent_user_id, p_child_user_id, target.content_type_id, NULL, NULL
+  FROM unnest(coalesce(p_content_type_ids, '{}'::uuid[])) AS target (content_type_id)
+  UNION ALL
+  SELECT p_parent_user_id, p_child_user_id, NULL, target.content_tag_id, NULL
+  FROM unnest(coalesce(p_content_tag_ids, '{}'::uuid[])) AS target (content_tag_id)
+  UNION ALL
+  SELECT p_parent_user_id, p_child_user_id, NULL, NULL, target.video_id
+  FROM unnest(coalesce(p_video_ids, '{}'::uuid[])) AS target (video_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.replace_parent_content_restrictions(uuid, uuid, uuid[], uuid[], uuid[])
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.replace_parent_content_restrictions(uuid, uuid, uuid[], uuid[], uuid[])
+  TO service_role;
+
+COMMIT;
@@ -13,6 +13,8 @@ import { MuxModule } from './modules/mux/mux.module';
 import { OnboardingModule } from './modules/onboarding/onboarding.module';
 import { ParentModule } from './modules/parent/parent.module';
 import { ProfilesModule } from './modules/profiles/profiles.module';
+import { RateLimitModule } from './modules/rate-limit/rate-limit.module';
+import { SchedulerModule } from './modules/scheduler/scheduler.module';
 import { SupabaseModule } from './modules/supabase/supabase.module';
 import { UsersModule } from './modules/users/users.module';
 
@@ -23,6 +25,8 @@ import { UsersModule } from './modules/users/users.module';
       validate: validateEnv,
     }),
     SupabaseModule,
+    SchedulerModule,
+    RateLimitModule,
     AuthModule,
     UsersModule,
     ProfilesModule,
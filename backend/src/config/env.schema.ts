@@ -1,5 +1,20 @@
 import { z } from 'zod';
 
+// Budgets are written as "<attempts>/<window seconds>", e.g. "10/900".
+const rateLimitBudgetSchema = (defaultBudget: string) =>
+  z
+    .string()
+    .regex(/^\d+\/\d+$/, 'Rate limit budgets must look like "10/900".')
+    .default(defaultBudget)
+    .transform((value) => {
+      const [limit, windowSeconds] = value.split('/').map(Number);
+
+      return { limit, windowSeconds };
+    })
+    .refine((budget) => budget.limit > 0 && budget.windowSeconds > 0, {
+      message: 'Rate limit budgets need a positive limit and window.',
+    });
+
 const envSchema = z
   .object({
     NODE_ENV: z
@@ -10,12 +25,69 @@ const envSchema = z
       .string()
       .min(1)
       .default('http://localhost:3000,http://localhost:3001'),
+    TRUST_PROXY_HOPS: z.coerce.number().int().min(0).default(0),
     SUPABASE_URL: z.string().url().optional(),
     SUPABASE_SERVICE_ROLE_KEY: z.string().min(1).optional(),
     MUX_TOKEN_ID: z.string().min(1).optional(),
     MUX_TOKEN_SECRET: z.string().min(1).optional(),
     MUX_WEBHOOK_SIGNING_SECRET: z.string().min(1).optional(),
+    MUX_SIGNING_KEY_ID: z.string().min(1).optional(),
+    MUX_SIGNING_KEY_PRIVATE_KEY: z.string().min(1).optional(),
+    MUX_PLAYBACK_TOKEN_TTL_SECONDS: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(3600),
     CONSENT_POLICY_VERSION: z.string().min(1).default('v1'),
+    PARENT_CONSENT_TOKEN_SECRET: z.string().min(32).optional(),
+    PARENT_CONSENT_TOKEN_TTL_HOURS: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(72),
+    PARENT_CONSENT_LINK_BASE_URL: z
+      .string()
+      .url()
+      .default('http://localhost:3000/parent-consent'),
+    MAIL_TRANSPORT: z.enum(['console', 'file', 'smtp']).default('console'),
+    MAIL_FROM: z.string().min(1).default('TeachTok <no-reply@teachtok.local>'),
+    MAIL_FILE_PATH: z.string().min(1).default('.mail/outbox.jsonl'),
+    SMTP_URL: z.string().url().optional(),
+    SCHEDULER_ENABLED: z
+      .enum(['true', 'false'])
+      .transform((value) => value === 'true')
+      .optional(),
+    RATE_LIMIT_STORE: z.enum(['memory', 'supabase']).default('memory'),
+    RATE_LIMIT_SIGNUP: rateLimitBudgetSchema('5/3600'),
+    RATE_LIMIT_LOGIN: rateLimitBudgetSchema('10/900'),
+    RATE_LIMIT_REFRESH: rateLimitBudgetSchema('60/900'),
+    RATE_LIMIT_CHANGE_EMAIL: rateLimitBudgetSchema('5/3600'),
+    RATE_LIMIT_ONBOARDING: rateLimitBudgetSchema('30/900'),
+    RATE_LIMIT_PARENT_CONSENT_LINK: rateLimitBudgetSchema('30/900'),
+    RATE_LIMIT_PARENT_LINK_INVITE: rateLimitBudgetSchema('10/3600'),
+    RATE_LIMIT_PARENT_LINK_INVITE_REDEEM: rateLimitBudgetSchema('10/900'),
+    LOGIN_LOCKOUT_THRESHOLD: z.coerce.number().int().positive().default(5),
+    LOGIN_LOCKOUT_BASE_SECONDS: z.coerce.number().int().positive().default(60),
+    LOGIN_LOCKOUT_MAX_SECONDS: z.coerce.number().int().positive().default(3600),
+    PARENT_LINK_INVITE_TTL_MINUTES: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(30),
+    PARENT_LINK_INVITE_BASE_URL: z
+      .string()
+      .url()
+      .default('http://localhost:3000/settings'),
+    WATCH_SESSION_IDLE_TIMEOUT_SECONDS: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(300),
+    WATCH_EVENT_MAX_AGE_SECONDS: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(86400),
   })
   .refine(
     (env) =>
@@ -36,6 +108,39 @@ const envSchema = z
       path: ['MUX_TOKEN_ID'],
     },
   )
+  .refine(
+    (env) =>
+      (!env.MUX_SIGNING_KEY_ID && !env.MUX_SIGNING_KEY_PRIVATE_KEY) ||
+      (Boolean(env.MUX_SIGNING_KEY_ID) &&
+        Boolean(env.MUX_SIGNING_KEY_PRIVATE_KEY)),
+    {
+      message:
+        'MUX_SIGNING_KEY_ID and MUX_SIGNING_KEY_PRIVATE_KEY must both be set together.',
+      path: ['MUX_SIGNING_KEY_ID'],
+    },
+  )
+  .refine(
+    (env) =>
+      env.RATE_LIMIT_STORE !== 'supabase' ||
+      (Boolean(env.SUPABASE_URL) && Boolean(env.SUPABASE_SERVICE_ROLE_KEY)),
+    {
+      message:
+        'SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required when RATE_LIMIT_STORE is supabase.',
+      path: ['RATE_LIMIT_STORE'],
+    },
+  )
+  .refine(
+    (env) => env.LOGIN_LOCKOUT_MAX_SECONDS >= env.LOGIN_LOCKOUT_BASE_SECONDS,
+    {
+      message:
+        'LOGIN_LOCKOUT_MAX_SECONDS must be at least LOGIN_LOCKOUT_BASE_SECONDS.',
+      path: ['LOGIN_LOCKOUT_MAX_SECONDS'],
+    },
+  )
+  .refine((env) => env.MAIL_TRANSPORT !== 'smtp' || Boolean(env.SMTP_URL), {
+    message: 'SMTP_URL is required when MAIL_TRANSPORT is smtp.',
+    path: ['SMTP_URL'],
+  })
   .refine(
     (env) =>
       env.NODE_ENV !== 'production' ||
@@ -71,6 +176,7 @@ const envSchema = z
   );
 
 export type Env = z.infer<typeof envSchema>;
+export type RateLimitBudget = Env['RATE_LIMIT_LOGIN'];
 
 export function validateEnv(config: Record<string, unknown>): Env {
   return envSchema.parse(config);
@@ -1,13 +1,18 @@
 import { NestFactory } from '@nestjs/core';
 import { ConfigService } from '@nestjs/config';
+import type { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     rawBody: true,
   });
   const configService = app.get(ConfigService);
 
+  // Only the proxies we run may set the client address; anything further left
+  // in X-Forwarded-For is client-supplied.
+  app.set('trust proxy', configService.get<number>('TRUST_PROXY_HOPS') ?? 0);
+
   const allowedOrigins = (configService.get<string>('CORS_ORIGINS') ?? '')
     .split(',')
     .map((origin) => origin.trim())
@@ -0,0 +1,28 @@
+import { Body, Controller, Post, Req, UseGuards } from '@nestjs/common';
+import {
+  BearerAuthGuard,
+  type AuthenticatedRequest,
+} from '../auth/bearer-auth.guard';
+import { parseRebuildEngagementRollupsInput } from './admin.schemas';
+import { AdminService } from './admin.service';
+
+@Controller('v1/admin/engagement-rollups')
+export class AdminEngagementRollupsController {
+  constructor(private readonly adminService: AdminService) {}
+
+  @UseGuards(BearerAuthGuard)
+  @Post('rebuild')
+  async rebuildEngagementRollups(
+    @Body() payload: unknown,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const input = parseRebuildEngagementRollupsInput(payload);
+
+    return {
+      data: await this.adminService.rebuildEngagementRollups(
+        request.authUser.id,
+        input,
+      ),
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Put,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  BearerAuthGuard,
+  type AuthenticatedRequest,
+} from '../auth/bearer-auth.guard';
+import { parseListAdminUsersQuery, parseUserId } from './admin.schemas';
+import { AdminService } from './admin.service';
+
+@Controller('v1/admin/users')
+export class AdminUsersController {
+  constructor(private readonly adminService: AdminService) {}
+
+  @UseGuards(BearerAuthGuard)
+  @Get()
+  async listUsers(
+    @Query() query: unknown,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const parsedQuery = parseListAdminUsersQuery(query);
+
+    return {
+      data: await this.adminService.listUsers(request.authUser.id, parsedQuery),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard)
+  @Get(':userId')
+  async getUser(
+    @Param('userId') rawUserId: string,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const userId = parseUserId(rawUserId);
+
+    return {
+      data: await this.adminService.getUserDetail(request.authUser.id, userId),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard)
+  @Put(':userId/unlock')
+  async unlockUser(
+    @Param('userId') rawUserId: string,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const userId = parseUserId(rawUserId);
+
+    return {
+      data: await this.adminService.clearUserLoginLockout(
+        request.authUser.id,
+        userId,
+      ),
+    };
+  }
+}
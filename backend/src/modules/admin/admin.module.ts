@@ -1,10 +1,22 @@
 import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { HistoryModule } from '../history/history.module';
+import { OnboardingModule } from '../onboarding/onboarding.module';
+import { ParentModule } from '../parent/parent.module';
 import { AdminContentTagsController } from './admin-content-tags.controller';
+import { AdminEngagementRollupsController } from './admin-engagement-rollups.controller';
+import { AdminUsersController } from './admin-users.controller';
 import { AdminController } from './admin.controller';
 import { AdminService } from './admin.service';
 
 @Module({
-  controllers: [AdminController, AdminContentTagsController],
+  imports: [AuthModule, HistoryModule, OnboardingModule, ParentModule],
+  controllers: [
+    AdminController,
+    AdminContentTagsController,
+    AdminEngagementRollupsController,
+    AdminUsersController,
+  ],
   providers: [AdminService],
 })
 export class AdminModule {}
@@ -139,6 +139,42 @@ const listAdminVideosQuerySchema = z.object({
   status: videoStatusSchema.optional(),
 });
 
+const userIdSchema = z.string().uuid('User ID must be a valid UUID.');
+
+export const adminUserAgeBucketSchema = z.enum([
+  'under_13',
+  '13_to_17',
+  '18_plus',
+  'unknown',
+]);
+
+const listAdminUsersQuerySchema = z.object({
+  accountType: z.enum(['learner', 'parent', 'admin']).optional(),
+  ageBucket: adminUserAgeBucketSchema.optional(),
+  consentStatus: z
+    .enum([
+      'not_required',
+      'missing',
+      'pending',
+      'approved',
+      'reconsent_required',
+      'expired',
+      'revoked',
+    ])
+    .optional(),
+  limit: z.coerce
+    .number()
+    .int('Limit must be a whole number.')
+    .min(1, 'Limit must be at least 1.')
+    .max(100, 'Limit must be at most 100.')
+    .default(25),
+  offset: z.coerce
+    .number()
+    .int('Offset must be a whole number.')
+    .min(0, 'Offset must be non-negative.')
+    .default(0),
+});
+
 const createAdminContentTagSchema = z.object({
   name: z
     .string()
@@ -179,8 +215,43 @@ const updateAdminContentTagSchema = z
 
 export type CreateAdminVideoInput = z.infer<typeof createAdminVideoSchema>;
 export type UpdateAdminVideoInput = z.infer<typeof updateAdminVideoSchema>;
+const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must use the YYYY-MM-DD format.')
+  .refine(
+    (value) => !Number.isNaN(Date.parse(`${value}T00:00:00.000Z`)),
+    'Dates must be valid calendar dates.',
+  );
+
+const MAX_ROLLUP_RANGE_DAYS = 31;
+
+const rebuildEngagementRollupsSchema = z
+  .object({
+    fromDate: isoDateSchema,
+    toDate: isoDateSchema,
+    userId: z.string().uuid('User ID must be a valid UUID.').optional(),
+  })
+  .refine((value) => value.fromDate <= value.toDate, {
+    message: 'From date must be on or before to date.',
+    path: ['toDate'],
+  })
+  .refine(
+    (value) =>
+      Date.parse(value.toDate) - Date.parse(value.fromDate) <
+      MAX_ROLLUP_RANGE_DAYS * 24 * 60 * 60 * 1000,
+    {
+      message: `Rollup ranges can cover at most ${MAX_ROLLUP_RANGE_DAYS} days.`,
+      path: ['toDate'],
+    },
+  );
+
 export type ListAdminVideosQuery = z.infer<typeof listAdminVideosQuerySchema>;
+export type ListAdminUsersQuery = z.infer<typeof listAdminUsersQuerySchema>;
+export type AdminUserAgeBucket = z.infer<typeof adminUserAgeBucketSchema>;
 export type VideoStatus = z.infer<typeof videoStatusSchema>;
+export type RebuildEngagementRollupsInput = z.infer<
+  typeof rebuildEngagementRollupsSchema
+>;
 export type CreateAdminContentTagInput = z.infer<
   typeof createAdminContentTagSchema
 >;
@@ -282,3 +353,43 @@ export function parseListAdminVideosQuery(
 
   return parsed.data;
 }
+
+export function parseUserId(rawValue: unknown): string {
+  const parsed = userIdSchema.safeParse(rawValue);
+
+  if (!parsed.success) {
+    throw new BadRequestException('User ID was invalid.');
+  }
+
+  return parsed.data;
+}
+
+export function parseListAdminUsersQuery(
+  payload: unknown,
+): ListAdminUsersQuery {
+  const parsed = listAdminUsersQuerySchema.safeParse(payload);
+
+  if (!parsed.success) {
+    throw new BadRequestException({
+      message: 'Invalid admin user list query.',
+      errors: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  return parsed.data;
+}
+
+export function parseRebuildEngagementRollupsInput(
+  payload: unknown,
+): RebuildEngagementRollupsInput {
+  const parsed = rebuildEngagementRollupsSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    throw new BadRequestException({
+      message: 'Invalid engagement rollup rebuild payload.',
+      errors: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  return parsed.data;
+}
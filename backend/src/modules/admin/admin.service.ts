@@ -7,21 +7,44 @@ import {
   ServiceUnavailableException,
 } from '@nestjs/common';
 import { z } from 'zod';
+import {
+  LoginLockoutService,
+  type LoginLockoutState,
+} from '../auth/login-lockout.service';
 import { contentTypeIdSchema } from '../content/content-id.schema';
 import type { ContentTypeSummary } from '../content/content.service';
+import {
+  EngagementRollupsService,
+  type EngagementRollupRunResult,
+} from '../history/engagement-rollups.service';
+import { calculateAgeInYears } from '../onboarding/onboarding.schemas';
+import {
+  ParentalConsentService,
+  type ParentalConsentHistoryEntry,
+  type ParentalConsentState,
+} from '../onboarding/parental-consent.service';
+import {
+  ParentService,
+  type ParentLinkSummary,
+} from '../parent/parent.service';
 import { SupabaseService } from '../supabase/supabase.service';
 import type {
+  AdminUserAgeBucket,
   CreateAdminContentTagInput,
   CreateAdminVideoInput,
+  ListAdminUsersQuery,
   ListAdminVideosQuery,
+  RebuildEngagementRollupsInput,
   UpdateAdminContentTagInput,
   UpdateAdminVideoInput,
   VideoStatus,
 } from './admin.schemas';
 import { videoStatusSchema } from './admin.schemas';
 
+const accountTypeSchema = z.enum(['learner', 'parent', 'admin']);
+
 const profileAccountTypeRowSchema = z.object({
-  account_type: z.enum(['learner', 'parent', 'admin']),
+  account_type: accountTypeSchema,
 });
 
 const persistedVideoStatusSchema = z
@@ -91,6 +114,40 @@ const contentTagSlugRowSchema = z.object({
   slug: z.string(),
 });
 
+const adminUserProfileRowSchema = z.object({
+  id: z.string().uuid(),
+  username: z.string(),
+  display_name: z.string().nullable(),
+  account_type: accountTypeSchema,
+  email_verified_at: z.union([dateTimeLikeSchema, z.null()]),
+  created_at: dateTimeLikeSchema,
+});
+
+const adminUserAgeGateRowSchema = z.object({
+  user_id: z.string().uuid(),
+  birthdate: z.string(),
+  calculated_age_at_signup: integerLikeSchema,
+  country_code: z.string(),
+  created_at: dateTimeLikeSchema,
+});
+
+const accountSecurityEventRowSchema = z.object({
+  id: z.string().uuid(),
+  event_type: z.string(),
+  ip_address: z.string().nullable(),
+  user_agent: z.string().nullable(),
+  event_metadata: z.record(z.string(), z.unknown()),
+  created_at: dateTimeLikeSchema,
+});
+
+type AdminUserProfileRow = z.infer<typeof adminUserProfileRowSchema>;
+type AdminUserAgeGateRow = z.infer<typeof adminUserAgeGateRowSchema>;
+
+const ADMIN_USER_PROFILE_COLUMNS =
+  'id, username, display_name, account_type, email_verified_at, created_at';
+const ADMIN_USER_SCAN_BATCH_SIZE = 200;
+const RECENT_SECURITY_EVENT_LIMIT = 20;
+
 export type AdminVideoSummary = {
   id: string;
   title: string;
@@ -118,9 +175,58 @@ export type AdminContentTagSummary = {
   updatedAt: string;
 };
 
+export type AdminUserSummary = {
+  id: string;
+  username: string;
+  displayName: string | null;
+  accountType: z.infer<typeof accountTypeSchema>;
+  emailVerifiedAt: string | null;
+  createdAt: string;
+  age: number | null;
+  ageBucket: AdminUserAgeBucket;
+  consentStatus: ParentalConsentState['status'];
+  accessMode: ParentalConsentState['accessMode'];
+};
+
+export type AdminUserListPage = {
+  users: AdminUserSummary[];
+  nextOffset: number | null;
+};
+
+export type AdminUserDetail = {
+  profile: AdminUserSummary;
+  ageGate: {
+    birthdate: string;
+    calculatedAgeAtSignup: number;
+    countryCode: string;
+    createdAt: string;
+  } | null;
+  consent: ParentalConsentState;
+  consentHistory: ParentalConsentHistoryEntry[];
+  parentLinks: {
+    asParent: ParentLinkSummary[];
+    asChild: ParentLinkSummary[];
+  };
+  loginLockout: LoginLockoutState;
+  recentSecurityEvents: Array<{
+    id: string;
+    eventType: string;
+    ipAddress: string | null;
+    userAgent: string | null;
+    eventMetadata: Record<string, unknown>;
+    createdAt: string;
+  }>;
+};
+
 @Injectable()
 export class AdminService {
-  constructor(private readonly supabaseService: SupabaseService) {}
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly engagementRollupsService: EngagementRollupsService,
+    private readonly parentalConsentService: ParentalConsentService,
+    private readonly parentService: ParentService,
+    private readonly loginLockoutService: LoginLockoutService,
+  ) {}
 
   async listVideos(
     adminUserId: string,
@@ -875,6 +981,314 @@ export class AdminService {
     return normalizedSlug;
   }
 
+  async rebuildEngagementRollups(
+    adminUserId: string,
+    input: RebuildEngagementRollupsInput,
+  ): Promise<EngagementRollupRunResult> {
+    await this.assertAdminAccount(adminUserId);
+
+    return this.engagementRollupsService.rebuildDailyRollups(input);
+  }
+
+  // Age bucket and consent status live outside profiles, so the list scans
+  // profiles newest first in batches and filters after summarizing. The
+  // returned offset resumes the scan after the last listed profile.
+  async listUsers(
+    adminUserId: string,
+    query: ListAdminUsersQuery,
+  ): Promise<AdminUserListPage> {
+    await this.assertAdminAccount(adminUserId);
+    const client = this.getClientOrThrow();
+    const now = new Date();
+    const users: AdminUserSummary[] = [];
+
+    for (
+      let scanOffset = query.offset;
+      ;
+      scanOffset += ADMIN_USER_SCAN_BATCH_SIZE
+    ) {
+      let profileQuery = client
+        .from('profiles')
+        .select(ADMIN_USER_PROFILE_COLUMNS);
+
+      if (query.accountType) {
+        profileQuery = profileQuery.eq('account_type', query.accountType);
+      }
+
+      const { data: profileRows, error: profileError } = await profileQuery
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: true })
+        .range(scanOffset, scanOffset + ADMIN_USER_SCAN_BATCH_SIZE - 1);
+
+      if (profileError) {
+        throw new InternalServerErrorException('Failed to load admin users.');
+      }
+
+      const parsedProfileRows = z
+        .array(adminUserProfileRowSchema)
+        .safeParse(profileRows ?? []);
+
+      if (!parsedProfileRows.success) {
+        throw new InternalServerErrorException(
+          'Admin users payload was invalid.',
+        );
+      }
+
+      const summaries = await this.summarizeUsers(parsedProfileRows.data, now);
+
+      for (const [index, summary] of summaries.entries()) {
+        if (
+          (query.ageBucket && summary.ageBucket !== query.ageBucket) ||
+          (query.consentStatus && summary.consentStatus !== query.consentStatus)
+        ) {
+          continue;
+        }
+
+        if (users.length === query.limit) {
+          return { users, nextOffset: scanOffset + index };
+        }
+
+        users.push(summary);
+      }
+
+      if (parsedProfileRows.data.length < ADMIN_USER_SCAN_BATCH_SIZE) {
+        return { users, nextOffset: null };
+      }
+    }
+  }
+
+  async getUserDetail(
+    adminUserId: string,
+    userId: string,
+  ): Promise<AdminUserDetail> {
+    await this.assertAdminAccount(adminUserId);
+    const client = this.getClientOrThrow();
+    const now = new Date();
+
+    const { data: profileRow, error: profileError } = await client
+      .from('profiles')
+      .select(ADMIN_USER_PROFILE_COLUMNS)
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (profileError) {
+      throw new InternalServerErrorException('Failed to load user profile.');
+    }
+
+    if (!profileRow) {
+      throw new NotFoundException('User was not found.');
+    }
+
+    const parsedProfileRow = adminUserProfileRowSchema.safeParse(profileRow);
+
+    if (!parsedProfileRow.success) {
+      throw new InternalServerErrorException(
+        'User profile payload was invalid.',
+      );
+    }
+
+    const ageGateByUserId = await this.loadAgeGatesByUserId([userId]);
+    const ageGate = ageGateByUserId.get(userId) ?? null;
+    const [
+      consentStateByUserId,
+      consentHistory,
+      parentLinks,
+      loginLockout,
+      securityEvents,
+    ] = await Promise.all([
+      this.parentalConsentService.describeConsentStates([userId], now),
+      this.parentalConsentService.listConsentHistory(userId),
+      this.parentService.listMyLinks(userId),
+      this.loginLockoutService.getLockoutState(userId),
+      this.loadRecentSecurityEvents(userId),
+    ]);
+    const consent = consentStateByUserId.get(userId);
+
+    if (!consent) {
+      throw new InternalServerErrorException(
+        'User consent state could not be resolved.',
+      );
+    }
+
+    return {
+      profile: this.mapAdminUserSummary(
+        parsedProfileRow.data,
+        ageGate,
+        consent,
+        now,
+      ),
+      ageGate: ageGate
+        ? {
+            birthdate: ageGate.birthdate,
+            calculatedAgeAtSignup: ageGate.calculated_age_at_signup,
+            countryCode: ageGate.country_code,
+            createdAt: ageGate.created_at,
+          }
+        : null,
+      consent,
+      consentHistory,
+      parentLinks: {
+        asParent: parentLinks.asParent,
+        asChild: parentLinks.asChild,
+      },
+      loginLockout,
+      recentSecurityEvents: securityEvents,
+    };
+  }
+
+  async clearUserLoginLockout(
+    adminUserId: string,
+    userId: string,
+  ): Promise<LoginLockoutState> {
+    await this.assertAdminAccount(adminUserId);
+    const client = this.getClientOrThrow();
+
+    const { data: profileRow, error: profileError } = await client
+      .from('profiles')
+      .select('id')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (profileError) {
+      throw new InternalServerErrorException('Failed to load user profile.');
+    }
+
+    if (!profileRow) {
+      throw new NotFoundException('User was not found.');
+    }
+
+    return this.loginLockoutService.clearLockout(userId, adminUserId);
+  }
+
+  private async summarizeUsers(
+    profileRows: AdminUserProfileRow[],
+    now: Date,
+  ): Promise<AdminUserSummary[]> {
+    const userIds = profileRows.map((row) => row.id);
+    const ageGateByUserId = await this.loadAgeGatesByUserId(userIds);
+    const consentStateByUserId =
+      await this.parentalConsentService.describeConsentStates(userIds, now);
+
+    return profileRows.map((row) => {
+      const consentState = consentStateByUserId.get(row.id);
+
+      if (!consentState) {
+        throw new InternalServerErrorException(
+          'User consent state could not be resolved.',
+        );
+      }
+
+      return this.mapAdminUserSummary(
+        row,
+        ageGateByUserId.get(row.id) ?? null,
+        consentState,
+        now,
+      );
+    });
+  }
+
+  private mapAdminUserSummary(
+    row: AdminUserProfileRow,
+    ageGate: AdminUserAgeGateRow | null,
+    consentState: ParentalConsentState,
+    now: Date,
+  ): AdminUserSummary {
+    const age = ageGate
+      ? calculateAgeInYears(new Date(`${ageGate.birthdate}T00:00:00Z`), now)
+      : null;
+
+    return {
+      id: row.id,
+      username: row.username,
+      displayName: row.display_name,
+      accountType: row.account_type,
+      emailVerifiedAt: row.email_verified_at,
+      createdAt: row.created_at,
+      age,
+      ageBucket:
+        age === null
+          ? 'unknown'
+          : age < 13
+            ? 'under_13'
+            : age < 18
+              ? '13_to_17'
+              : '18_plus',
+      consentStatus: consentState.status,
+      accessMode: consentState.accessMode,
+    };
+  }
+
+  private async loadAgeGatesByUserId(
+    userIds: string[],
+  ): Promise<Map<string, AdminUserAgeGateRow>> {
+    if (userIds.length === 0) {
+      return new Map();
+    }
+
+    const client = this.getClientOrThrow();
+
+    const { data: ageGateRows, error: ageGateError } = await client
+      .from('age_gates')
+      .select(
+        'user_id, birthdate, calculated_age_at_signup, country_code, created_at',
+      )
+      .in('user_id', userIds);
+
+    if (ageGateError) {
+      throw new InternalServerErrorException('Failed to load age gates.');
+    }
+
+    const parsedAgeGateRows = z
+      .array(adminUserAgeGateRowSchema)
+      .safeParse(ageGateRows ?? []);
+
+    if (!parsedAgeGateRows.success) {
+      throw new InternalServerErrorException('Age-gate payload was invalid.');
+    }
+
+    return new Map(parsedAgeGateRows.data.map((row) => [row.user_id, row]));
+  }
+
+  private async loadRecentSecurityEvents(
+    userId: string,
+  ): Promise<AdminUserDetail['recentSecurityEvents']> {
+    const client = this.getClientOrThrow();
+
+    const { data: eventRows, error: eventError } = await client
+      .from('account_security_events')
+      .select(
+        'id, event_type, ip_address, user_agent, event_metadata, created_at',
+      )
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(RECENT_SECURITY_EVENT_LIMIT);
+
+    if (eventError) {
+      throw new InternalServerErrorException(
+        'Failed to load account security events.',
+      );
+    }
+
+    const parsedEventRows = z
+      .array(accountSecurityEventRowSchema)
+      .safeParse(eventRows ?? []);
+
+    if (!parsedEventRows.success) {
+      throw new InternalServerErrorException(
+        'Account security event payload was invalid.',
+      );
+    }
+
+    return parsedEventRows.data.map((row) => ({
+      id: row.id,
+      eventType: row.event_type,
+      ipAddress: row.ip_address,
+      userAgent: row.user_agent,
+      eventMetadata: row.event_metadata,
+      createdAt: row.created_at,
+    }));
+  }
+
   private async assertAdminAccount(userId: string): Promise<void> {
     const client = this.getClientOrThrow();
 
@@ -901,7 +1315,9 @@ export class AdminService {
     }
 
     if (parsedProfileRow.data.account_type !== 'admin') {
-      throw new ForbiddenException('Only admin accounts can manage videos.');
+      throw new ForbiddenException(
+        'Only admin accounts can use admin controls.',
+      );
     }
   }
 
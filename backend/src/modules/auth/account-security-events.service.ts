@@ -0,0 +1,87 @@
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { isIP } from 'node:net';
+import { SupabaseService } from '../supabase/supabase.service';
+
+export type AccountSecurityContext = {
+  ipAddress: string | null;
+  userAgent: string | null;
+};
+
+export type AccountSecurityEventInput = {
+  userId: string;
+  eventType: string;
+  eventMetadata: Record<string, unknown>;
+};
+
+export function getAccountSecurityContext(
+  request: Request,
+): AccountSecurityContext {
+  const forwardedForHeader = request.headers['x-forwarded-for'];
+  const forwardedForIp =
+    typeof forwardedForHeader === 'string'
+      ? (forwardedForHeader.split(',')[0]?.trim() ?? null)
+      : null;
+  const ipAddress =
+    forwardedForIp ?? request.ip ?? request.socket.remoteAddress ?? null;
+  const userAgentHeader = request.headers['user-agent'];
+  const userAgent =
+    typeof userAgentHeader === 'string' ? userAgentHeader : null;
+
+  return { ipAddress, userAgent };
+}
+
+@Injectable()
+export class AccountSecurityEventsService {
+  private readonly logger = new Logger(AccountSecurityEventsService.name);
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async recordAccountSecurityEvent(
+    input: AccountSecurityEventInput,
+    context: AccountSecurityContext,
+  ): Promise<void> {
+    const client = this.getClientOrThrow();
+    const { error } = await client.from('account_security_events').insert({
+      user_id: input.userId,
+      event_type: input.eventType,
+      ip_address: this.normalizeIpAddress(context.ipAddress),
+      user_agent: context.userAgent,
+      event_metadata: input.eventMetadata,
+    });
+
+    if (error) {
+      this.logger.warn(
+        `Failed to record account security event (${input.eventType}) for user ${input.userId}.`,
+      );
+    }
+  }
+
+  private getClientOrThrow() {
+    try {
+      return this.supabaseService.getServiceClient();
+    } catch {
+      throw new ServiceUnavailableException(
+        'Authentication service is not configured yet. Set backend Supabase credentials.',
+      );
+    }
+  }
+
+  private normalizeIpAddress(candidateIp: string | null): string | null {
+    if (!candidateIp) {
+      return null;
+    }
+
+    const normalizedIp = candidateIp.trim();
+
+    if (!normalizedIp || isIP(normalizedIp) === 0) {
+      return null;
+    }
+
+    return normalizedIp;
+  }
+}
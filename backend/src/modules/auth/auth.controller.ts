@@ -1,4 +1,7 @@
 import { Body, Controller, Post, Req, UseGuards } from '@nestjs/common';
+import { RateLimit, RateLimitGuard } from '../rate-limit/rate-limit.guard';
+import type { Request } from 'express';
+import { getAccountSecurityContext } from './account-security-events.service';
 import { AuthService } from './auth.service';
 import {
   BearerAuthGuard,
@@ -7,6 +10,7 @@ import {
 import {
   parseChangeEmailInput,
   parseLoginInput,
+  parseRefreshSessionInput,
   parseSignupInput,
 } from './auth.schemas';
 
@@ -14,6 +18,8 @@ import {
 export class AuthController {
   constructor(private readonly authService: AuthService) {}
 
+  @UseGuards(RateLimitGuard)
+  @RateLimit('signup')
   @Post('signup')
   async signup(@Body() payload: unknown) {
     const input = parseSignupInput(payload);
@@ -23,38 +29,72 @@ export class AuthController {
     };
   }
 
+  @UseGuards(RateLimitGuard)
+  @RateLimit('login')
   @Post('login')
-  async login(@Body() payload: unknown) {
+  async login(@Body() payload: unknown, @Req() request: Request) {
     const input = parseLoginInput(payload);
 
     return {
-      data: await this.authService.login(input),
+      data: await this.authService.login(
+        input,
+        getAccountSecurityContext(request),
+      ),
     };
   }
 
   @UseGuards(BearerAuthGuard)
+  @Post('logout')
+  async logout(@Req() request: AuthenticatedRequest) {
+    return {
+      data: await this.authService.logout(
+        request.authUser.id,
+        request.authAccessToken,
+        'local',
+        getAccountSecurityContext(request),
+      ),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard)
+  @Post('logout-all')
+  async logoutAll(@Req() request: AuthenticatedRequest) {
+    return {
+      data: await this.authService.logout(
+        request.authUser.id,
+        request.authAccessToken,
+        'global',
+        getAccountSecurityContext(request),
+      ),
+    };
+  }
+
+  @UseGuards(RateLimitGuard)
+  @RateLimit('refresh')
+  @Post('refresh')
+  async refresh(@Body() payload: unknown) {
+    const input = parseRefreshSessionInput(payload);
+
+    return {
+      data: await this.authService.refreshSession(input),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard, RateLimitGuard)
+  @RateLimit('change_email')
   @Post('change-email')
   async changeEmail(
     @Body() payload: unknown,
     @Req() request: AuthenticatedRequest,
   ) {
     const input = parseChangeEmailInput(payload);
-    const forwardedForHeader = request.headers['x-forwarded-for'];
-    const forwardedForIp =
-      typeof forwardedForHeader === 'string'
-        ? (forwardedForHeader.split(',')[0]?.trim() ?? null)
-        : null;
-    const ipAddress =
-      forwardedForIp ?? request.ip ?? request.socket.remoteAddress ?? null;
-    const userAgentHeader = request.headers['user-agent'];
-    const userAgent =
-      typeof userAgentHeader === 'string' ? userAgentHeader : null;
 
     return {
-      data: await this.authService.changeEmail(request.authUser.id, input, {
-        ipAddress,
-        userAgent,
-      }),
+      data: await this.authService.changeEmail(
+        request.authUser.id,
+        input,
+        getAccountSecurityContext(request),
+      ),
     };
   }
 }
@@ -1,11 +1,20 @@
 import { Module } from '@nestjs/common';
+import { MailModule } from '../mail/mail.module';
+import { AccountSecurityEventsService } from './account-security-events.service';
 import { BearerAuthGuard } from './bearer-auth.guard';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
+import { LoginLockoutService } from './login-lockout.service';
 
 @Module({
+  imports: [MailModule],
   controllers: [AuthController],
-  providers: [AuthService, BearerAuthGuard],
-  exports: [AuthService],
+  providers: [
+    AuthService,
+    AccountSecurityEventsService,
+    LoginLockoutService,
+    BearerAuthGuard,
+  ],
+  exports: [AuthService, AccountSecurityEventsService, LoginLockoutService],
 })
 export class AuthModule {}
@@ -42,6 +42,32 @@ describe('auth payload schemas', () => {
     ).toThrow(BadRequestException);
   });
 
+  it.each([
+    ['a common password', 'Password123'],
+    ['a common password with swapped characters', 'P@ssw0rd2026!'],
+    ['a common word with a year', 'Summer2026'],
+    ['the username', 'Learner_123Rocks'],
+    ['the email local part', 'MyJordanrules9'],
+  ])('rejects signup passwords built from %s', (_label, password) => {
+    let fieldErrors: Record<string, string[]> | undefined;
+
+    try {
+      parseSignupInput({
+        email: 'jordanrules@example.com',
+        username: 'learner_123',
+        password,
+      });
+    } catch (error) {
+      fieldErrors = (
+        (error as BadRequestException).getResponse() as {
+          errors: Record<string, string[]>;
+        }
+      ).errors;
+    }
+
+    expect(fieldErrors?.password).toEqual([expect.any(String)]);
+  });
+
   it('rejects signup payload when username is missing', () => {
     expect(() =>
       parseSignupInput({
@@ -1,5 +1,6 @@
 import { BadRequestException } from '@nestjs/common';
 import { z } from 'zod';
+import { findPasswordDenylistIssue } from './password-denylist';
 
 const passwordSchema = z
   .string()
@@ -9,34 +10,53 @@ const passwordSchema = z
   .regex(/[a-z]/, 'Password must include at least one lowercase letter.')
   .regex(/[0-9]/, 'Password must include at least one number.');
 
-const signupSchema = z.object({
+const signupSchema = z
+  .object({
+    email: z
+      .string()
+      .trim()
+      .email('Enter a valid email address.')
+      .max(320)
+      .transform((value) => value.toLowerCase()),
+    username: z
+      .string()
+      .trim()
+      .min(3, 'Username must be at least 3 characters.')
+      .max(32, 'Username must be at most 32 characters.')
+      .regex(
+        /^[a-zA-Z0-9_]+$/,
+        'Username can contain only letters, numbers, and underscores.',
+      ),
+    password: passwordSchema,
+    accountType: z.enum(['learner', 'parent']).default('learner'),
+  })
+  .superRefine((input, context) => {
+    const issue = findPasswordDenylistIssue(input.password, {
+      username: input.username,
+      email: input.email,
+    });
+
+    if (issue) {
+      context.addIssue({ code: 'custom', path: ['password'], message: issue });
+    }
+  });
+
+const loginSchema = z.object({
   email: z
     .string()
     .trim()
     .email('Enter a valid email address.')
     .max(320)
     .transform((value) => value.toLowerCase()),
-  username: z
-    .string()
-    .trim()
-    .min(3, 'Username must be at least 3 characters.')
-    .max(32, 'Username must be at most 32 characters.')
-    .regex(
-      /^[a-zA-Z0-9_]+$/,
-      'Username can contain only letters, numbers, and underscores.',
-    ),
-  password: passwordSchema,
-  accountType: z.enum(['learner', 'parent']).default('learner'),
+  password: z.string().min(1, 'Password is required.').max(128),
 });
 
-const loginSchema = z.object({
-  email: z
+const refreshSessionSchema = z.object({
+  refreshToken: z
     .string()
     .trim()
-    .email('Enter a valid email address.')
-    .max(320)
-    .transform((value) => value.toLowerCase()),
-  password: z.string().min(1, 'Password is required.').max(128),
+    .min(1, 'Refresh token is required.')
+    .max(2048),
 });
 
 const changeEmailSchema = z.object({
@@ -51,6 +71,7 @@ const changeEmailSchema = z.object({
 
 export type SignupInput = z.infer<typeof signupSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
+export type RefreshSessionInput = z.infer<typeof refreshSessionSchema>;
 export type ChangeEmailInput = z.infer<typeof changeEmailSchema>;
 
 export function parseSignupInput(payload: unknown): SignupInput {
@@ -91,3 +112,18 @@ export function parseLoginInput(payload: unknown): LoginInput {
 
   return parsed.data;
 }
+
+export function parseRefreshSessionInput(
+  payload: unknown,
+): RefreshSessionInput {
+  const parsed = refreshSessionSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    throw new BadRequestException({
+      message: 'Invalid refresh payload.',
+      errors: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  return parsed.data;
+}
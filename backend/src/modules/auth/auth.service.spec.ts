@@ -27,6 +27,17 @@ describe('AuthService', () => {
     getServiceClient: jest.fn(() => serviceClientMock),
   };
 
+  const loginLockoutServiceMock = {
+    assertLoginAllowed: jest.fn(),
+    recordFailedLogin: jest.fn(),
+    recordSuccessfulLogin: jest.fn(),
+  };
+
+  const securityContext = {
+    ipAddress: '203.0.113.7',
+    userAgent: 'jest',
+  };
+
   let service: AuthService;
 
   beforeEach(() => {
@@ -34,7 +45,12 @@ describe('AuthService', () => {
     fromMock.mockReturnValue({
       select: selectMock,
     });
-    service = new AuthService(supabaseServiceMock as never);
+    loginLockoutServiceMock.assertLoginAllowed.mockResolvedValue('user-123');
+    service = new AuthService(
+      supabaseServiceMock as never,
+      { recordAccountSecurityEvent: jest.fn() } as never,
+      loginLockoutServiceMock as never,
+    );
   });
 
   it('returns a session payload when login credentials are valid', async () => {
@@ -68,15 +84,21 @@ describe('AuthService', () => {
         error: null,
       });
 
-    const result = await service.login({
-      email: 'bodie.tharaldson@gmail.com',
-      password: 'testingTest1234',
-    });
+    const result = await service.login(
+      {
+        email: 'bodie.tharaldson@gmail.com',
+        password: 'testingTest1234',
+      },
+      securityContext,
+    );
 
     expect(signInWithPasswordMock).toHaveBeenCalledWith({
       email: 'bodie.tharaldson@gmail.com',
       password: 'testingTest1234',
     });
+    expect(loginLockoutServiceMock.recordSuccessfulLogin).toHaveBeenCalledWith(
+      'user-123',
+    );
     expect(fromMock).toHaveBeenNthCalledWith(1, 'profiles');
     expect(fromMock).toHaveBeenNthCalledWith(2, 'age_gates');
     expect(selectMock).toHaveBeenCalledWith('user_id');
@@ -108,10 +130,34 @@ describe('AuthService', () => {
     });
 
     await expect(
-      service.login({
-        email: 'bodie.tharaldson@gmail.com',
-        password: 'wrong-password',
-      }),
+      service.login(
+        {
+          email: 'bodie.tharaldson@gmail.com',
+          password: 'wrong-password',
+        },
+        securityContext,
+      ),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(loginLockoutServiceMock.recordFailedLogin).toHaveBeenCalledWith(
+      'user-123',
+      securityContext,
+    );
+  });
+
+  it('does not attempt sign-in while the account is locked', async () => {
+    loginLockoutServiceMock.assertLoginAllowed.mockRejectedValue(
+      new UnauthorizedException('Invalid email or password.'),
+    );
+
+    await expect(
+      service.login(
+        {
+          email: 'bodie.tharaldson@gmail.com',
+          password: 'testingTest1234',
+        },
+        securityContext,
+      ),
     ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(signInWithPasswordMock).not.toHaveBeenCalled();
   });
 });
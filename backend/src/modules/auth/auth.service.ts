@@ -3,14 +3,23 @@ import {
   ConflictException,
   Injectable,
   InternalServerErrorException,
-  Logger,
   ServiceUnavailableException,
   UnauthorizedException,
 } from '@nestjs/common';
-import { isIP } from 'node:net';
 import { z } from 'zod';
 import { SupabaseService } from '../supabase/supabase.service';
-import type { ChangeEmailInput, LoginInput, SignupInput } from './auth.schemas';
+import {
+  AccountSecurityEventsService,
+  type AccountSecurityContext,
+} from './account-security-events.service';
+import type { Session, User } from '@supabase/supabase-js';
+import type {
+  ChangeEmailInput,
+  LoginInput,
+  RefreshSessionInput,
+  SignupInput,
+} from './auth.schemas';
+import { LoginLockoutService } from './login-lockout.service';
 
 type AccountType = 'learner' | 'parent' | 'admin';
 
@@ -31,6 +40,14 @@ export type ChangeEmailResult = {
   emailVerified: boolean;
 };
 
+export type LogoutScope = 'local' | 'global';
+
+export type LogoutResult = {
+  userId: string;
+  scope: LogoutScope;
+  signedOutAt: string;
+};
+
 export type LoginResult = {
   accessToken: string;
   refreshToken: string;
@@ -45,16 +62,13 @@ export type LoginResult = {
   };
 };
 
-type AccountSecurityContext = {
-  ipAddress: string | null;
-  userAgent: string | null;
-};
-
 @Injectable()
 export class AuthService {
-  private readonly logger = new Logger(AuthService.name);
-
-  constructor(private readonly supabaseService: SupabaseService) {}
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly accountSecurityEventsService: AccountSecurityEventsService,
+    private readonly loginLockoutService: LoginLockoutService,
+  ) {}
 
   async signup(input: SignupInput): Promise<SignupResult> {
     const client = this.getClientOrThrow();
@@ -169,7 +183,7 @@ export class AuthService {
       );
     }
 
-    await this.recordAccountSecurityEvent(
+    await this.accountSecurityEventsService.recordAccountSecurityEvent(
       {
         userId,
         eventType: 'email_changed',
@@ -188,8 +202,14 @@ export class AuthService {
     };
   }
 
-  async login(input: LoginInput): Promise<LoginResult> {
+  async login(
+    input: LoginInput,
+    context: AccountSecurityContext,
+  ): Promise<LoginResult> {
     const client = this.getClientOrThrow();
+    const knownUserId = await this.loginLockoutService.assertLoginAllowed(
+      input.email,
+    );
 
     const { data, error } = await client.auth.signInWithPassword({
       email: input.email,
@@ -197,13 +217,110 @@ export class AuthService {
     });
 
     if (error || !data.session || !data.user) {
+      if (knownUserId) {
+        await this.loginLockoutService.recordFailedLogin(knownUserId, context);
+      }
+
       throw new UnauthorizedException('Invalid email or password.');
     }
 
+    await this.loginLockoutService.recordSuccessfulLogin(data.user.id);
+
+    return this.buildLoginResult(data.session, data.user, input.email);
+  }
+
+  // 'local' ends the session behind this access token; 'global' ends every
+  // session for the account.
+  async logout(
+    userId: string,
+    accessToken: string,
+    scope: LogoutScope,
+    context: AccountSecurityContext,
+  ): Promise<LogoutResult> {
+    const client = this.getClientOrThrow();
+
+    const { error } = await client.auth.admin.signOut(accessToken, scope);
+
+    if (error) {
+      throw new InternalServerErrorException('Failed to sign out.');
+    }
+
+    await this.accountSecurityEventsService.recordAccountSecurityEvent(
+      {
+        userId,
+        eventType: scope === 'global' ? 'logout_all' : 'logout',
+        eventMetadata: { scope },
+      },
+      context,
+    );
+
+    return {
+      userId,
+      scope,
+      signedOutAt: new Date().toISOString(),
+    };
+  }
+
+  // Ends every session for an account on someone else's behalf, such as a
+  // parent signing a linked child out of all devices.
+  async revokeAllSessions(
+    userId: string,
+    revokedByUserId: string,
+    context: AccountSecurityContext,
+  ): Promise<LogoutResult> {
+    const client = this.getClientOrThrow();
+
+    const { error } = await client.rpc('revoke_user_sessions', {
+      p_user_id: userId,
+    });
+
+    if (error) {
+      throw new InternalServerErrorException('Failed to sign out sessions.');
+    }
+
+    await this.accountSecurityEventsService.recordAccountSecurityEvent(
+      {
+        userId,
+        eventType: 'sessions_revoked',
+        eventMetadata: { scope: 'global', revokedByUserId },
+      },
+      context,
+    );
+
+    return {
+      userId,
+      scope: 'global',
+      signedOutAt: new Date().toISOString(),
+    };
+  }
+
+  // Exchanges a refresh token for a new session so clients can stay signed in
+  // past the access token lifetime without re-entering a password.
+  async refreshSession(input: RefreshSessionInput): Promise<LoginResult> {
+    const client = this.getClientOrThrow();
+
+    const { data, error } = await client.auth.refreshSession({
+      refresh_token: input.refreshToken,
+    });
+
+    if (error || !data.session || !data.user) {
+      throw new UnauthorizedException('Session expired. Please sign in again.');
+    }
+
+    return this.buildLoginResult(data.session, data.user, null);
+  }
+
+  private async buildLoginResult(
+    session: Session,
+    user: User,
+    fallbackEmail: string | null,
+  ): Promise<LoginResult> {
+    const client = this.getClientOrThrow();
+
     const { data: profile, error: profileError } = await client
       .from('profiles')
       .select('account_type')
-      .eq('id', data.user.id)
+      .eq('id', user.id)
       .maybeSingle();
 
     if (profileError) {
@@ -228,7 +345,7 @@ export class AuthService {
     const { data: ageGateRecord, error: ageGateError } = await client
       .from('age_gates')
       .select('user_id')
-      .eq('user_id', data.user.id)
+      .eq('user_id', user.id)
       .maybeSingle();
 
     if (ageGateError) {
@@ -236,15 +353,15 @@ export class AuthService {
     }
 
     return {
-      accessToken: data.session.access_token,
-      refreshToken: data.session.refresh_token,
-      expiresIn: data.session.expires_in,
-      tokenType: data.session.token_type,
+      accessToken: session.access_token,
+      refreshToken: session.refresh_token,
+      expiresIn: session.expires_in,
+      tokenType: session.token_type,
       user: {
-        id: data.user.id,
-        email: data.user.email ?? input.email,
+        id: user.id,
+        email: user.email ?? fallbackEmail ?? '',
         accountType,
-        emailVerified: Boolean(data.user.email_confirmed_at),
+        emailVerified: Boolean(user.email_confirmed_at),
         hasCompletedAgeGate:
           accountType === 'learner' ? Boolean(ageGateRecord) : true,
       },
@@ -268,42 +385,4 @@ export class AuthService {
       message.toLowerCase().includes('already exists')
     );
   }
-
-  private async recordAccountSecurityEvent(
-    input: {
-      userId: string;
-      eventType: string;
-      eventMetadata: Record<string, unknown>;
-    },
-    context: AccountSecurityContext,
-  ): Promise<void> {
-    const client = this.getClientOrThrow();
-    const { error } = await client.from('account_security_events').insert({
-      user_id: input.userId,
-      event_type: input.eventType,
-      ip_address: this.normalizeIpAddress(context.ipAddress),
-      user_agent: context.userAgent,
-      event_metadata: input.eventMetadata,
-    });
-
-    if (error) {
-      this.logger.warn(
-        `Failed to record account security event (${input.eventType}) for user ${input.userId}.`,
-      );
-    }
-  }
-
-  private normalizeIpAddress(candidateIp: string | null): string | null {
-    if (!candidateIp) {
-      return null;
-    }
-
-    const normalizedIp = candidateIp.trim();
-
-    if (!normalizedIp || isIP(normalizedIp) === 0) {
-      return null;
-    }
-
-    return normalizedIp;
-  }
 }
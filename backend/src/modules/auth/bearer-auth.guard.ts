@@ -13,6 +13,7 @@ export type AuthenticatedRequest = Request & {
     id: string;
     email: string | null;
   };
+  authAccessToken: string;
 };
 
 @Injectable()
@@ -45,6 +46,7 @@ export class BearerAuthGuard implements CanActivate {
       id: data.user.id,
       email: data.user.email ?? null,
     };
+    request.authAccessToken = token;
 
     return true;
   }
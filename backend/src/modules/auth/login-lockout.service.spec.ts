@@ -0,0 +1,220 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { LoginLockoutService } from './login-lockout.service';
+
+const USER_ID = '44444444-4444-4444-8444-444444444444';
+const PARENT_ID = '55555555-5555-4555-8555-555555555555';
+
+type FailedLoginArgs = {
+  p_user_id: string;
+  p_now: string;
+  p_threshold: number;
+  p_base_seconds: number;
+  p_max_seconds: number;
+  p_failure_memory_seconds: number;
+};
+
+type LockoutRow = {
+  user_id: string;
+  failed_attempt_count: number;
+  lockout_count: number;
+  locked_until: string | null;
+  last_failed_at: string | null;
+};
+
+describe('LoginLockoutService', () => {
+  let now: Date;
+  let lockoutRow: LockoutRow | null;
+  const sendMock = jest.fn(() => Promise.resolve());
+  const recordEventMock = jest.fn(() => Promise.resolve());
+
+  const emailByUserId: Record<string, string> = {
+    [USER_ID]: 'learner@example.com',
+    [PARENT_ID]: 'parent@example.com',
+  };
+
+  // Mirrors public.record_failed_login.
+  const recordFailedLogin = (args: FailedLoginArgs) => {
+    const now = Date.parse(args.p_now);
+    const remembered =
+      lockoutRow?.last_failed_at &&
+      now - Date.parse(lockoutRow.last_failed_at) <
+        args.p_failure_memory_seconds * 1000
+        ? lockoutRow
+        : null;
+    const failedAttemptCount = (remembered?.failed_attempt_count ?? 0) + 1;
+    const shouldLock = failedAttemptCount >= args.p_threshold;
+    const lockoutCount =
+      (remembered?.lockout_count ?? 0) + (shouldLock ? 1 : 0);
+    const lockedUntil = shouldLock
+      ? new Date(
+          now +
+            Math.min(
+              args.p_max_seconds,
+              args.p_base_seconds * 2 ** (lockoutCount - 1),
+            ) *
+              1000,
+        ).toISOString()
+      : null;
+
+    lockoutRow = {
+      user_id: args.p_user_id,
+      failed_attempt_count: shouldLock ? 0 : failedAttemptCount,
+      lockout_count: lockoutCount,
+      locked_until: lockedUntil,
+      last_failed_at: args.p_now,
+    };
+
+    return [
+      {
+        failed_attempt_count: failedAttemptCount,
+        lockout_count: lockoutCount,
+        locked_until: lockedUntil,
+      },
+    ];
+  };
+
+  const serviceClient = {
+    rpc: (functionName: string, args: unknown) =>
+      Promise.resolve({
+        data:
+          functionName === 'record_failed_login'
+            ? recordFailedLogin(args as FailedLoginArgs)
+            : USER_ID,
+        error: null,
+      }),
+    auth: {
+      admin: {
+        getUserById: (userId: string) =>
+          Promise.resolve({
+            data: { user: { email: emailByUserId[userId] } },
+            error: null,
+          }),
+      },
+    },
+    from: (table: string) => {
+      if (table === 'parent_child_links') {
+        return {
+          select: () => ({
+            eq: () => ({
+              eq: () => ({
+                in: () =>
+                  Promise.resolve({
+                    data: [{ parent_user_id: PARENT_ID }],
+                    error: null,
+                  }),
+              }),
+            }),
+          }),
+        };
+      }
+
+      return {
+        select: () => ({
+          eq: () => ({
+            maybeSingle: () =>
+              Promise.resolve({ data: lockoutRow, error: null }),
+          }),
+        }),
+        delete: () => ({
+          eq: () => {
+            lockoutRow = null;
+            return Promise.resolve({ error: null });
+          },
+        }),
+      };
+    },
+  };
+
+  const createService = () =>
+    new LoginLockoutService(
+      { getServiceClient: () => serviceClient } as never,
+      {
+        get: (key: string) =>
+          ({
+            LOGIN_LOCKOUT_THRESHOLD: 3,
+            LOGIN_LOCKOUT_BASE_SECONDS: 60,
+            LOGIN_LOCKOUT_MAX_SECONDS: 150,
+          })[key],
+      } as never,
+      { send: sendMock } as never,
+      { recordAccountSecurityEvent: recordEventMock } as never,
+      { now: () => now },
+    );
+
+  const context = { ipAddress: '203.0.113.7', userAgent: 'jest' };
+
+  const failTimes = async (service: LoginLockoutService, times: number) => {
+    for (let attempt = 0; attempt < times; attempt += 1) {
+      await service.recordFailedLogin(USER_ID, context);
+    }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    now = new Date('2026-03-04T12:00:00.000Z');
+    lockoutRow = null;
+  });
+
+  it('locks after the threshold with doubling, capped backoff', async () => {
+    const service = createService();
+
+    await failTimes(service, 2);
+    await expect(
+      service.assertLoginAllowed('Learner@Example.com'),
+    ).resolves.toBe(USER_ID);
+
+    await failTimes(service, 1);
+    await expect(
+      service.assertLoginAllowed('learner@example.com'),
+    ).rejects.toBeInstanceOf(UnauthorizedException);
+    expect(lockoutRow?.locked_until).toBe('2026-03-04T12:01:00.000Z');
+
+    now = new Date('2026-03-04T12:01:00.000Z');
+    await failTimes(service, 3);
+    expect(lockoutRow?.locked_until).toBe('2026-03-04T12:03:00.000Z');
+
+    now = new Date('2026-03-04T12:03:00.000Z');
+    await failTimes(service, 3);
+    expect(lockoutRow?.lockout_count).toBe(3);
+    expect(lockoutRow?.locked_until).toBe('2026-03-04T12:05:30.000Z');
+  });
+
+  it('notifies the account owner and linked parents when locking', async () => {
+    const service = createService();
+
+    await failTimes(service, 3);
+
+    expect(sendMock).toHaveBeenCalledTimes(2);
+    expect(sendMock).toHaveBeenCalledWith(
+      expect.objectContaining({ to: 'learner@example.com' }),
+    );
+    expect(sendMock).toHaveBeenCalledWith(
+      expect.objectContaining({ to: 'parent@example.com' }),
+    );
+    expect(recordEventMock).toHaveBeenCalledWith(
+      expect.objectContaining({ eventType: 'login_locked' }),
+      context,
+    );
+  });
+
+  it('forgets failures after a quiet day and when cleared', async () => {
+    const service = createService();
+
+    await failTimes(service, 2);
+    now = new Date('2026-03-05T12:00:00.000Z');
+    await failTimes(service, 1);
+    expect(lockoutRow?.failed_attempt_count).toBe(1);
+
+    await failTimes(service, 2);
+    await expect(service.getLockoutState(USER_ID)).resolves.toMatchObject({
+      isLocked: true,
+    });
+
+    await expect(
+      service.clearLockout(USER_ID, PARENT_ID),
+    ).resolves.toMatchObject({ isLocked: false, lockoutCount: 0 });
+    await expect(
+      service.assertLoginAllowed('learner@example.com'),
+    ).resolves.toBe(USER_ID);
+  });
+});
@@ -0,0 +1,387 @@
+import {
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { z } from 'zod';
+import { MailService } from '../mail/mail.service';
+import { CLOCK, type Clock } from '../scheduler/clock';
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  AccountSecurityEventsService,
+  type AccountSecurityContext,
+} from './account-security-events.service';
+
+export type LoginLockoutState = {
+  isLocked: boolean;
+  lockedUntil: string | null;
+  failedAttemptCount: number;
+  lockoutCount: number;
+  lastFailedAt: string | null;
+};
+
+const loginLockoutRowSchema = z.object({
+  user_id: z.string().uuid(),
+  failed_attempt_count: z.number().int(),
+  lockout_count: z.number().int(),
+  locked_until: z.string().nullable(),
+  last_failed_at: z.string().nullable(),
+});
+
+const failedLoginResultSchema = z.object({
+  failed_attempt_count: z.number().int(),
+  lockout_count: z.number().int(),
+  locked_until: z.string().nullable(),
+});
+
+const parentLinkRowSchema = z.object({
+  parent_user_id: z.string().uuid(),
+});
+
+type LoginLockoutRow = z.infer<typeof loginLockoutRowSchema>;
+
+const LOGIN_LOCKOUT_COLUMNS =
+  'user_id, failed_attempt_count, lockout_count, locked_until, last_failed_at';
+
+// Failures older than this no longer count toward the next lockout or its
+// backoff, so an account that has been quiet for a day starts fresh.
+const FAILURE_MEMORY_SECONDS = 24 * 60 * 60;
+
+const NO_CONTEXT: AccountSecurityContext = {
+  ipAddress: null,
+  userAgent: null,
+};
+
+@Injectable()
+export class LoginLockoutService {
+  private readonly logger = new Logger(LoginLockoutService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly configService: ConfigService,
+    private readonly mailService: MailService,
+    private readonly accountSecurityEventsService: AccountSecurityEventsService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {}
+
+  // Resolves the account behind a login email and refuses the attempt while
+  // that account is locked. Unknown emails return null and fall through to the
+  // regular invalid-credentials response. A locked account gets that same
+  // response so sign-in cannot be used to probe which emails have accounts;
+  // the owner learns about the lock from the lockout email.
+  async assertLoginAllowed(email: string): Promise<string | null> {
+    const userId = await this.findUserIdByEmail(email);
+
+    if (!userId) {
+      return null;
+    }
+
+    const now = this.clock.now();
+    const lockoutRow = await this.loadLockoutRow(userId);
+    const lockedUntil = lockoutRow?.locked_until
+      ? new Date(lockoutRow.locked_until)
+      : null;
+
+    if (lockedUntil && lockedUntil.getTime() > now.getTime()) {
+      throw new UnauthorizedException('Invalid email or password.');
+    }
+
+    return userId;
+  }
+
+  // Every threshold-th consecutive failure locks the account, and each lockout
+  // doubles the previous one up to LOGIN_LOCKOUT_MAX_SECONDS. The count and
+  // lock are applied in one database call so parallel failures cannot
+  // overwrite each other.
+  async recordFailedLogin(
+    userId: string,
+    context: AccountSecurityContext,
+  ): Promise<void> {
+    const client = this.getClientOrThrow();
+    // rpc() is untyped without generated database types, so keep the payload
+    // unknown until it is parsed.
+    const result: { data: unknown; error: { message: string } | null } =
+      await client.rpc('record_failed_login', {
+        p_user_id: userId,
+        p_now: this.clock.now().toISOString(),
+        p_threshold: this.getThreshold(),
+        p_base_seconds: this.getLockoutBaseSeconds(),
+        p_max_seconds: this.getLockoutMaxSeconds(),
+        p_failure_memory_seconds: FAILURE_MEMORY_SECONDS,
+      });
+
+    if (result.error) {
+      throw new InternalServerErrorException(
+        'Failed to record failed sign-in attempt.',
+      );
+    }
+
+    const parsedResult = z
+      .array(failedLoginResultSchema)
+      .length(1)
+      .safeParse(result.data);
+
+    if (!parsedResult.success) {
+      throw new InternalServerErrorException(
+        'Failed sign-in payload was invalid.',
+      );
+    }
+
+    const [
+      {
+        failed_attempt_count: failedAttemptCount,
+        lockout_count: lockoutCount,
+        locked_until: lockedUntilValue,
+      },
+    ] = parsedResult.data;
+    const lockedUntil = lockedUntilValue ? new Date(lockedUntilValue) : null;
+
+    await this.accountSecurityEventsService.recordAccountSecurityEvent(
+      {
+        userId,
+        eventType: 'login_failed',
+        eventMetadata: { failedAttemptCount },
+      },
+      context,
+    );
+
+    if (!lockedUntil) {
+      return;
+    }
+
+    await this.accountSecurityEventsService.recordAccountSecurityEvent(
+      {
+        userId,
+        eventType: 'login_locked',
+        eventMetadata: {
+          lockoutCount,
+          lockedUntil: lockedUntil.toISOString(),
+        },
+      },
+      context,
+    );
+    await this.notifyLockout(userId, lockedUntil);
+  }
+
+  async recordSuccessfulLogin(userId: string): Promise<void> {
+    const client = this.getClientOrThrow();
+    const { error } = await client
+      .from('account_login_lockouts')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) {
+      this.logger.warn(`Failed to reset login failures for user ${userId}.`);
+    }
+  }
+
+  async getLockoutState(userId: string): Promise<LoginLockoutState> {
+    const lockoutRow = await this.loadLockoutRow(userId);
+
+    if (!lockoutRow) {
+      return {
+        isLocked: false,
+        lockedUntil: null,
+        failedAttemptCount: 0,
+        lockoutCount: 0,
+        lastFailedAt: null,
+      };
+    }
+
+    return {
+      isLocked:
+        lockoutRow.locked_until !== null &&
+        new Date(lockoutRow.locked_until).getTime() >
+          this.clock.now().getTime(),
+      lockedUntil: lockoutRow.locked_until,
+      failedAttemptCount: lockoutRow.failed_attempt_count,
+      lockoutCount: lockoutRow.lockout_count,
+      lastFailedAt: lockoutRow.last_failed_at,
+    };
+  }
+
+  async clearLockout(
+    userId: string,
+    clearedByUserId: string,
+  ): Promise<LoginLockoutState> {
+    const client = this.getClientOrThrow();
+    const { error } = await client
+      .from('account_login_lockouts')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new InternalServerErrorException('Failed to clear login lockout.');
+    }
+
+    await this.accountSecurityEventsService.recordAccountSecurityEvent(
+      {
+        userId,
+        eventType: 'login_lockout_cleared',
+        eventMetadata: { clearedByUserId },
+      },
+      NO_CONTEXT,
+    );
+
+    return this.getLockoutState(userId);
+  }
+
+  private async findUserIdByEmail(email: string): Promise<string | null> {
+    const client = this.getClientOrThrow();
+    // rpc() is untyped without generated database types, so keep the payload
+    // unknown until it is parsed.
+    const result: { data: unknown; error: { message: string } | null } =
+      await client.rpc('find_auth_user_id_by_email', {
+        p_email: email.trim().toLowerCase(),
+      });
+
+    if (result.error) {
+      throw new InternalServerErrorException(
+        'Failed to look up account for sign-in.',
+      );
+    }
+
+    const parsedUserId = z.string().uuid().nullable().safeParse(result.data);
+
+    if (!parsedUserId.success) {
+      throw new InternalServerErrorException(
+        'Account lookup payload was invalid.',
+      );
+    }
+
+    return parsedUserId.data;
+  }
+
+  private async loadLockoutRow(
+    userId: string,
+  ): Promise<LoginLockoutRow | null> {
+    const client = this.getClientOrThrow();
+    const { data: lockoutRow, error: lockoutError } = await client
+      .from('account_login_lockouts')
+      .select(LOGIN_LOCKOUT_COLUMNS)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (lockoutError) {
+      throw new InternalServerErrorException('Failed to load login lockout.');
+    }
+
+    if (!lockoutRow) {
+      return null;
+    }
+
+    const parsedLockoutRow = loginLockoutRowSchema.safeParse(lockoutRow);
+
+    if (!parsedLockoutRow.success) {
+      throw new InternalServerErrorException(
+        'Login lockout payload was invalid.',
+      );
+    }
+
+    return parsedLockoutRow.data;
+  }
+
+  // Tells the account owner and every actively linked guardian except coach
+  // viewers. Delivery problems are logged by MailService and never change the
+  // login response.
+  private async notifyLockout(userId: string, lockedUntil: Date) {
+    const client = this.getClientOrThrow();
+    const { data: linkRows, error: linkError } = await client
+      .from('parent_child_links')
+      .select('parent_user_id')
+      .eq('child_user_id', userId)
+      .eq('relationship_status', 'active')
+      .in('guardian_role', ['primary', 'co_guardian']);
+    const parsedLinkRows = z
+      .array(parentLinkRowSchema)
+      .safeParse(linkRows ?? []);
+
+    if (linkError || !parsedLinkRows.success) {
+      this.logger.warn(
+        `Failed to load linked parents for lockout notice to user ${userId}.`,
+      );
+    }
+
+    const parentUserIds = parsedLinkRows.success
+      ? parsedLinkRows.data.map((row) => row.parent_user_id)
+      : [];
+    const [ownerEmail, ...parentEmails] = await Promise.all(
+      [userId, ...parentUserIds].map((id) => this.loadUserEmail(id)),
+    );
+    const unlockTime = lockedUntil.toISOString();
+    const notices: Array<{ to: string; text: string }> = [];
+
+    if (ownerEmail) {
+      notices.push({
+        to: ownerEmail,
+        text: [
+          'We temporarily locked your TeachTok account after several failed sign-in attempts.',
+          `You can sign in again after ${unlockTime}. Until then, sign-in is refused even with the correct password.`,
+          'If these attempts were not you, change your password once the lock lifts.',
+        ].join('\n\n'),
+      });
+    }
+
+    for (const parentEmail of parentEmails) {
+      if (parentEmail) {
+        notices.push({
+          to: parentEmail,
+          text: [
+            `We temporarily locked your child's TeachTok account${ownerEmail ? ` (${ownerEmail})` : ''} after several failed sign-in attempts.`,
+            `Sign-in will be available again after ${unlockTime}.`,
+            'If your child did not make these attempts, help them change their password once the lock lifts.',
+          ].join('\n\n'),
+        });
+      }
+    }
+
+    for (const notice of notices) {
+      try {
+        await this.mailService.send({
+          to: notice.to,
+          subject: 'TeachTok account temporarily locked',
+          text: notice.text,
+        });
+      } catch {
+        // MailService already logged the failure.
+      }
+    }
+  }
+
+  private async loadUserEmail(userId: string): Promise<string | null> {
+    const client = this.getClientOrThrow();
+    const { data, error } = await client.auth.admin.getUserById(userId);
+
+    if (error || !data.user?.email) {
+      return null;
+    }
+
+    return data.user.email;
+  }
+
+  private getThreshold(): number {
+    return this.configService.get<number>('LOGIN_LOCKOUT_THRESHOLD') ?? 5;
+  }
+
+  private getLockoutBaseSeconds(): number {
+    return this.configService.get<number>('LOGIN_LOCKOUT_BASE_SECONDS') ?? 60;
+  }
+
+  private getLockoutMaxSeconds(): number {
+    return this.configService.get<number>('LOGIN_LOCKOUT_MAX_SECONDS') ?? 3600;
+  }
+
+  private getClientOrThrow() {
+    try {
+      return this.supabaseService.getServiceClient();
+    } catch {
+      throw new ServiceUnavailableException(
+        'Authentication service is not configured yet. Set backend Supabase credentials.',
+      );
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { gunzipSync } from 'node:zlib';
+
+// One lowercase password per line. nest-cli.json copies the file into dist.
+const COMMON_PASSWORDS_PATH = join(__dirname, 'common-passwords.txt.gz');
+
+const LEET_SUBSTITUTIONS: Record<string, string> = {
+  '@': 'a',
+  '4': 'a',
+  '3': 'e',
+  '1': 'i',
+  '!': 'i',
+  '0': 'o',
+  $: 's',
+  '5': 's',
+  '7': 't',
+};
+
+const MIN_PERSONAL_TOKEN_LENGTH = 3;
+
+export type PasswordContext = {
+  username?: string;
+  email?: string;
+};
+
+let commonPasswords: ReadonlySet<string> | null = null;
+
+function loadCommonPasswords(): ReadonlySet<string> {
+  if (!commonPasswords) {
+    commonPasswords = new Set(
+      gunzipSync(readFileSync(COMMON_PASSWORDS_PATH))
+        .toString('utf8')
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean),
+    );
+  }
+
+  return commonPasswords;
+}
+
+function undoLeetSubstitutions(value: string): string {
+  return value.replace(
+    /[@43105$!7]/g,
+    (character) => LEET_SUBSTITUTIONS[character] ?? character,
+  );
+}
+
+// "Summer2026!" and "P@ssw0rd123" should match "summer" and "password", so
+// also try the password without trailing digits/symbols and with common
+// character swaps undone.
+function listDenylistCandidates(password: string): string[] {
+  const lowered = password.toLowerCase();
+  const stripped = lowered.replace(/[^a-z]+$/, '');
+
+  return [
+    lowered,
+    undoLeetSubstitutions(lowered),
+    stripped,
+    undoLeetSubstitutions(stripped),
+  ];
+}
+
+function listPersonalTokens(context: PasswordContext): string[] {
+  const emailLocalPart = context.email?.split('@')[0] ?? '';
+
+  return [context.username ?? '', emailLocalPart]
+    .map((token) => token.trim().toLowerCase())
+    .filter((token) => token.length >= MIN_PERSONAL_TOKEN_LENGTH);
+}
+
+// Returns a field error for passwords that are commonly breached or built from
+// the account's own username or email, or null when the password is fine.
+export function findPasswordDenylistIssue(
+  password: string,
+  context: PasswordContext,
+): string | null {
+  const lowered = password.toLowerCase();
+
+  if (listPersonalTokens(context).some((token) => lowered.includes(token))) {
+    return 'Password must not contain your username or email.';
+  }
+
+  const denylist = loadCommonPasswords();
+
+  if (
+    listDenylistCandidates(password).some((candidate) =>
+      denylist.has(candidate),
+    )
+  ) {
+    return 'This password is too common. Choose something harder to guess.';
+  }
+
+  return null;
+}
@@ -8,3 +8,7 @@ const DATABASE_UUID_REGEX =
 export const contentTypeIdSchema = z
   .string()
   .regex(DATABASE_UUID_REGEX, 'Each content type ID must be a valid UUID.');
+
+export const databaseUuidSchema = z
+  .string()
+  .regex(DATABASE_UUID_REGEX, 'Must be a valid UUID.');
@@ -1,9 +1,20 @@
-import { Body, Controller, Get, Put, Req, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  Put,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
 import {
   BearerAuthGuard,
   type AuthenticatedRequest,
 } from '../auth/bearer-auth.guard';
+import { ScreenTimeGuard } from '../engagement/screen-time.guard';
+import { ParentalConsentGuard } from '../onboarding/parental-consent.guard';
 import {
+  parseFeedCatalogQuery,
   parseUpdateMyContentPreferencesInput,
   type UpdateMyContentPreferencesInput,
 } from './content.schemas';
@@ -40,11 +51,19 @@ export class ContentController {
     };
   }
 
-  @UseGuards(BearerAuthGuard)
+  @UseGuards(BearerAuthGuard, ParentalConsentGuard, ScreenTimeGuard)
   @Get('feed/catalog')
-  async getFeedCatalog(@Req() request: AuthenticatedRequest) {
+  async getFeedCatalog(
+    @Query() query: unknown,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const parsedQuery = parseFeedCatalogQuery(query);
+
     return {
-      data: await this.contentService.getFeedCatalog(request.authUser.id),
+      data: await this.contentService.getFeedCatalog(
+        request.authUser.id,
+        parsedQuery,
+      ),
     };
   }
 
@@ -1,9 +1,13 @@
 import { Module } from '@nestjs/common';
 import { BearerAuthGuard } from '../auth/bearer-auth.guard';
+import { EngagementModule } from '../engagement/engagement.module';
+import { MuxModule } from '../mux/mux.module';
+import { OnboardingModule } from '../onboarding/onboarding.module';
 import { ContentController } from './content.controller';
 import { ContentService } from './content.service';
 
 @Module({
+  imports: [EngagementModule, MuxModule, OnboardingModule],
   controllers: [ContentController],
   providers: [ContentService, BearerAuthGuard],
   exports: [ContentService],
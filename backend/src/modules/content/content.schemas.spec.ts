@@ -1,5 +1,9 @@
 import { BadRequestException } from '@nestjs/common';
-import { parseUpdateMyContentPreferencesInput } from './content.schemas';
+import {
+  encodeFeedCatalogCursor,
+  parseFeedCatalogQuery,
+  parseUpdateMyContentPreferencesInput,
+} from './content.schemas';
 
 describe('content.schemas', () => {
   it('deduplicates valid content type IDs', () => {
@@ -36,4 +40,51 @@ describe('content.schemas', () => {
       }),
     ).toThrow(BadRequestException);
   });
+
+  it('defaults feed catalog paging to the newest videos', () => {
+    expect(parseFeedCatalogQuery({})).toEqual({ limit: 20, order: 'newest' });
+  });
+
+  it('rejects a feed cursor issued for a different order', () => {
+    const cursor = encodeFeedCatalogCursor({
+      order: 'newest',
+      sortValue: '2026-03-01T20:00:00.000Z',
+      watched: false,
+      videoId: '11111111-1111-4111-8111-111111111111',
+    });
+
+    expect(parseFeedCatalogQuery({ cursor, order: 'newest' }).cursor).toEqual(
+      expect.objectContaining({ order: 'newest' }),
+    );
+    expect(() =>
+      parseFeedCatalogQuery({ cursor, order: 'unwatched_first' }),
+    ).toThrow(BadRequestException);
+  });
+
+  it('rejects feed cursors whose sort value is not a timestamp', () => {
+    const cursor = encodeFeedCatalogCursor({
+      order: 'newest',
+      sortValue: 'yesterday',
+      watched: false,
+      videoId: '11111111-1111-4111-8111-111111111111',
+    });
+
+    expect(() => parseFeedCatalogQuery({ cursor })).toThrow(
+      BadRequestException,
+    );
+    expect(
+      parseFeedCatalogQuery({
+        cursor: encodeFeedCatalogCursor({
+          order: 'newest',
+          sortValue: '2026-03-01T20:00:00.123456+00:00',
+          watched: false,
+          videoId: '11111111-1111-4111-8111-111111111111',
+        }),
+      }).cursor,
+    ).toEqual(
+      expect.objectContaining({
+        sortValue: '2026-03-01T20:00:00.123456+00:00',
+      }),
+    );
+  });
 });
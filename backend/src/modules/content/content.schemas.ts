@@ -1,6 +1,6 @@
 import { BadRequestException } from '@nestjs/common';
 import { z } from 'zod';
-import { contentTypeIdSchema } from './content-id.schema';
+import { contentTypeIdSchema, databaseUuidSchema } from './content-id.schema';
 
 const updateMyContentPreferencesSchema = z.object({
   contentTypeIds: z
@@ -14,6 +14,76 @@ export type UpdateMyContentPreferencesInput = z.infer<
   typeof updateMyContentPreferencesSchema
 >;
 
+const feedCatalogOrderSchema = z.enum([
+  'newest',
+  'published_at',
+  'unwatched_first',
+]);
+
+export type FeedCatalogOrder = z.infer<typeof feedCatalogOrderSchema>;
+
+// The cursor records the sort key of the last video on a page, so later pages
+// stay stable while new videos are published.
+const feedCatalogCursorSchema = z.object({
+  order: feedCatalogOrderSchema,
+  sortValue: z.string().datetime({ offset: true }).nullable(),
+  watched: z.boolean(),
+  videoId: databaseUuidSchema,
+});
+
+export type FeedCatalogCursor = z.infer<typeof feedCatalogCursorSchema>;
+
+const feedCatalogQuerySchema = z
+  .object({
+    cursor: z
+      .string()
+      .trim()
+      .min(1)
+      .transform((value, context) => {
+        const cursor = decodeFeedCatalogCursor(value);
+
+        if (!cursor) {
+          context.addIssue({
+            code: 'custom',
+            message: 'Cursor was invalid or has expired.',
+          });
+          return z.NEVER;
+        }
+
+        return cursor;
+      })
+      .optional(),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1, 'Limit must be at least 1.')
+      .max(50, 'Limit must be at most 50.')
+      .default(20),
+    order: feedCatalogOrderSchema.default('newest'),
+  })
+  .refine((query) => !query.cursor || query.cursor.order === query.order, {
+    message: 'Cursor does not match the requested order.',
+    path: ['cursor'],
+  });
+
+export type FeedCatalogQuery = z.infer<typeof feedCatalogQuerySchema>;
+
+export function encodeFeedCatalogCursor(cursor: FeedCatalogCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+}
+
+function decodeFeedCatalogCursor(value: string): FeedCatalogCursor | null {
+  try {
+    const parsed = feedCatalogCursorSchema.safeParse(
+      JSON.parse(Buffer.from(value, 'base64url').toString('utf8')),
+    );
+
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
 export function parseUpdateMyContentPreferencesInput(
   payload: unknown,
 ): UpdateMyContentPreferencesInput {
@@ -28,3 +98,16 @@ export function parseUpdateMyContentPreferencesInput(
 
   return parsed.data;
 }
+
+export function parseFeedCatalogQuery(payload: unknown): FeedCatalogQuery {
+  const parsed = feedCatalogQuerySchema.safeParse(payload);
+
+  if (!parsed.success) {
+    throw new BadRequestException({
+      message: 'Invalid feed catalog query.',
+      errors: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  return parsed.data;
+}
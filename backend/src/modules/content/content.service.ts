@@ -5,9 +5,16 @@ import {
   ServiceUnavailableException,
 } from '@nestjs/common';
 import { z } from 'zod';
+import { MuxPlaybackTokensService } from '../mux/mux-playback-tokens.service';
 import { SupabaseService } from '../supabase/supabase.service';
-import { contentTypeIdSchema } from './content-id.schema';
-import type { UpdateMyContentPreferencesInput } from './content.schemas';
+import { contentTypeIdSchema, databaseUuidSchema } from './content-id.schema';
+import {
+  encodeFeedCatalogCursor,
+  type FeedCatalogCursor,
+  type FeedCatalogOrder,
+  type FeedCatalogQuery,
+  type UpdateMyContentPreferencesInput,
+} from './content.schemas';
 
 const contentTypeRowSchema = z.object({
   id: contentTypeIdSchema,
@@ -27,14 +34,20 @@ const userContentPreferenceRowSchema = z.object({
   content_type_id: contentTypeIdSchema,
 });
 
+// Each restriction row targets exactly one content type, content tag or video.
 const parentContentRestrictionRowSchema = z.object({
-  content_type_id: contentTypeIdSchema,
+  content_type_id: contentTypeIdSchema.nullable(),
+  content_tag_id: contentTypeIdSchema.nullable(),
+  video_id: contentTypeIdSchema.nullable(),
 });
 
 const activeParentLinkRowSchema = z.object({
   parent_user_id: z.string().uuid(),
+  guardian_role: z.enum(['primary', 'co_guardian', 'coach_viewer']),
 });
 
+type ActiveParentLinkRow = z.infer<typeof activeParentLinkRowSchema>;
+
 const contentTypeTagMappingRowSchema = z.object({
   content_type_id: contentTypeIdSchema,
   content_tag_id: contentTypeIdSchema,
@@ -44,6 +57,17 @@ const contentTagIdRowSchema = z.object({
   id: contentTypeIdSchema,
 });
 
+const contentTagSummaryRowSchema = z.object({
+  id: contentTypeIdSchema,
+  slug: z.string(),
+  name: z.string(),
+});
+
+const blockedVideoRowSchema = z.object({
+  id: contentTypeIdSchema,
+  title: z.string(),
+});
+
 const videoContentTagRowSchema = z.object({
   video_id: contentTypeIdSchema,
   content_tag_id: contentTypeIdSchema,
@@ -68,6 +92,51 @@ const feedVideoAssetRowSchema = z.object({
   encoding_status: z.enum(['pending', 'preparing', 'ready', 'errored']),
 });
 
+const contentApprovalSettingRowSchema = z.object({
+  approval_required: z.boolean(),
+});
+
+const contentApprovalDecisionSchema = z.enum(['approved', 'rejected']);
+
+const videoApprovalRowSchema = z.object({
+  video_id: databaseUuidSchema,
+  decision: contentApprovalDecisionSchema,
+});
+
+const feedVideoProgressRowSchema = z.object({
+  video_id: databaseUuidSchema,
+  last_position_seconds: z.number().int(),
+});
+
+type FeedVideoRow = z.infer<typeof feedVideoRowSchema>;
+type FeedVideoAssetRow = z.infer<typeof feedVideoAssetRowSchema>;
+
+type PlayableFeedAsset = FeedVideoAssetRow & { mux_playback_id: string };
+
+type FeedSortColumn = 'created_at' | 'published_at';
+
+type FeedVideoCandidate = {
+  videoRow: FeedVideoRow;
+  playableAsset: PlayableFeedAsset;
+  contentTagIds: string[];
+};
+
+type FeedVideoScan = {
+  sortColumn: FeedSortColumn;
+  after: Pick<FeedCatalogCursor, 'sortValue' | 'videoId'> | null;
+  limit: number;
+  videoId?: string;
+  // Narrows each batch of playable videos, e.g. to parent-approved ones.
+  keepVideoIds?: (videoIds: string[]) => Promise<Set<string>>;
+};
+
+// Feed videos are read from the database in feed order this many at a time,
+// so a page never needs the whole catalog in memory.
+const FEED_SCAN_BATCH_SIZE = 100;
+
+// Clips stopped this close to the end restart from the beginning instead.
+const RESUME_END_BUFFER_SECONDS = 3;
+
 export type ContentTypeSummary = {
   id: string;
   slug: string;
@@ -78,6 +147,23 @@ export type ContentTypeSummary = {
   isActive: boolean;
 };
 
+export type ContentTagSummary = {
+  id: string;
+  slug: string;
+  name: string;
+};
+
+export type BlockedVideoSummary = {
+  id: string;
+  title: string;
+};
+
+export type ParentRestrictionRules = {
+  contentTypeIds: string[];
+  contentTagIds: string[];
+  videoIds: string[];
+};
+
 export type UserContentPreferencesResult = {
   userId: string;
   selectedContentTypeIds: string[];
@@ -90,11 +176,30 @@ export type EffectiveContentPreferencesResult = {
   selectedContentTypes: ContentTypeSummary[];
   blockedContentTypeIds: string[];
   blockedContentTypes: ContentTypeSummary[];
+  blockedContentTagIds: string[];
+  blockedContentTags: ContentTagSummary[];
+  blockedVideoIds: string[];
+  blockedVideos: BlockedVideoSummary[];
   effectiveContentTypeIds: string[];
   effectiveContentTypes: ContentTypeSummary[];
+  approvalRequired: boolean;
   isParentRestricted: boolean;
 };
 
+export type ContentApprovalDecision = z.infer<
+  typeof contentApprovalDecisionSchema
+>;
+
+export type ApprovalQueueVideoSummary = {
+  id: string;
+  title: string;
+  description: string | null;
+  durationSeconds: number | null;
+  thumbnailUrl: string | null;
+  publishedAt: string | null;
+  contentTagIds: string[];
+};
+
 export type FeedCatalogVideoSummary = {
   id: string;
   title: string;
@@ -107,17 +212,23 @@ export type FeedCatalogVideoSummary = {
   playbackPolicy: 'public' | 'signed';
   playbackUrl: string;
   contentTagIds: string[];
+  resumePositionSeconds: number | null;
 };
 
 export type FeedCatalogResult = {
   userId: string;
   effectiveContentTypeIds: string[];
+  order: FeedCatalogOrder;
   videos: FeedCatalogVideoSummary[];
+  nextCursor: string | null;
 };
 
 @Injectable()
 export class ContentService {
-  constructor(private readonly supabaseService: SupabaseService) {}
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly muxPlaybackTokensService: MuxPlaybackTokensService,
+  ) {}
 
   async listContentTypes(): Promise<ContentTypeSummary[]> {
     const client = this.getClientOrThrow();
@@ -258,7 +369,17 @@ export class ContentService {
         ? selectedPreferences.selectedContentTypeIds
         : activeContentTypes.map((contentType) => contentType.id);
 
-    const blockedContentTypeIds = await this.listBlockedContentTypeIds(userId);
+    const activeParentLinks = await this.listActiveParentLinks(userId);
+    const restrictionRules = await this.listParentRestrictionRules(
+      userId,
+      activeParentLinks.map((link) => link.parent_user_id),
+    );
+    // Approval mode only applies while a primary guardian is still linked to
+    // decide, matching when screen-time limits are enforced.
+    const approvalRequired =
+      activeParentLinks.some((link) => link.guardian_role === 'primary') &&
+      (await this.isContentApprovalRequired(userId));
+    const blockedContentTypeIds = restrictionRules.contentTypeIds;
     const blockedContentTypeIdSet = new Set(blockedContentTypeIds);
 
     const effectiveContentTypeIds = baseSelectedContentTypeIds.filter(
@@ -283,27 +404,280 @@ export class ContentService {
       selectedContentTypes: selectedPreferences.selectedContentTypes,
       blockedContentTypeIds,
       blockedContentTypes,
+      blockedContentTagIds: restrictionRules.contentTagIds,
+      blockedContentTags: await this.listContentTagSummaries(
+        restrictionRules.contentTagIds,
+      ),
+      blockedVideoIds: restrictionRules.videoIds,
+      blockedVideos: await this.listBlockedVideoSummaries(
+        restrictionRules.videoIds,
+      ),
       effectiveContentTypeIds,
       effectiveContentTypes,
-      isParentRestricted: blockedContentTypeIds.length > 0,
+      approvalRequired,
+      isParentRestricted:
+        blockedContentTypeIds.length > 0 ||
+        restrictionRules.contentTagIds.length > 0 ||
+        restrictionRules.videoIds.length > 0 ||
+        approvalRequired,
     };
   }
 
-  async getFeedCatalog(userId: string): Promise<FeedCatalogResult> {
-    const client = this.getClientOrThrow();
+  async getFeedCatalog(
+    userId: string,
+    query: FeedCatalogQuery,
+  ): Promise<FeedCatalogResult> {
     const effectivePreferences =
       await this.getEffectiveContentPreferences(userId);
+    const sortColumn: FeedSortColumn =
+      query.order === 'published_at' ? 'published_at' : 'created_at';
+    const cursor = query.cursor ?? null;
+    // Unwatched-first scans unwatched videos and then watched ones, so a
+    // cursor from the watched group resumes there.
+    const watchedGroups: Array<boolean | null> =
+      query.order !== 'unwatched_first'
+        ? [null]
+        : cursor?.watched
+          ? [true]
+          : [false, true];
+    const candidates: FeedVideoCandidate[] = [];
+    const watchedVideoIds = new Set<string>();
+
+    for (const [groupIndex, watched] of watchedGroups.entries()) {
+      // One video past the page tells whether another page exists.
+      const remainingCount = query.limit + 1 - candidates.length;
+
+      if (remainingCount <= 0) {
+        break;
+      }
+
+      const groupCandidates = await this.scanPlayableFeedVideos(
+        effectivePreferences,
+        {
+          sortColumn,
+          after: groupIndex === 0 ? cursor : null,
+          limit: remainingCount,
+          keepVideoIds: (videoIds) =>
+            this.keepFeedVideoIds(
+              userId,
+              videoIds,
+              effectivePreferences.approvalRequired,
+              watched,
+            ),
+        },
+      );
+
+      for (const candidate of groupCandidates) {
+        candidates.push(candidate);
+
+        if (watched) {
+          watchedVideoIds.add(candidate.videoRow.id);
+        }
+      }
+    }
+
+    const pageCandidates = candidates.slice(0, query.limit);
+    const lastPageVideoRow =
+      pageCandidates[pageCandidates.length - 1]?.videoRow;
+    const nextCursor =
+      candidates.length > query.limit && lastPageVideoRow
+        ? encodeFeedCatalogCursor({
+            order: query.order,
+            sortValue: lastPageVideoRow[sortColumn],
+            watched: watchedVideoIds.has(lastPageVideoRow.id),
+            videoId: lastPageVideoRow.id,
+          })
+        : null;
+
+    const resumePositionByVideoId = await this.loadFeedResumePositions(
+      userId,
+      pageCandidates.map((candidate) => candidate.videoRow.id),
+    );
+
+    return {
+      userId,
+      effectiveContentTypeIds: effectivePreferences.effectiveContentTypeIds,
+      order: query.order,
+      videos: pageCandidates.map(
+        ({ videoRow, playableAsset, contentTagIds }) => ({
+          id: videoRow.id,
+          title: videoRow.title,
+          description: videoRow.description,
+          status: 'ready',
+          durationSeconds: videoRow.duration_seconds,
+          thumbnailUrl: this.resolveFeedThumbnailUrl(videoRow, playableAsset),
+          publishedAt: videoRow.published_at,
+          playbackId: playableAsset.mux_playback_id,
+          playbackPolicy: playableAsset.playback_policy,
+          playbackUrl: this.buildMuxPlaybackUrl(
+            playableAsset.mux_playback_id,
+            playableAsset.playback_policy,
+          ),
+          contentTagIds,
+          resumePositionSeconds: this.resolveResumePositionSeconds(
+            resumePositionByVideoId.get(videoRow.id),
+            videoRow.duration_seconds,
+          ),
+        }),
+      ),
+      nextCursor,
+    };
+  }
+
+  async replaceMyContentPreferences(
+    userId: string,
+    input: UpdateMyContentPreferencesInput,
+  ): Promise<UserContentPreferencesResult> {
+    return this.replaceContentPreferencesForUser(userId, input);
+  }
+
+  async replaceContentPreferencesForUser(
+    userId: string,
+    input: UpdateMyContentPreferencesInput,
+  ): Promise<UserContentPreferencesResult> {
+    const client = this.getClientOrThrow();
+
+    await this.assertActiveContentTypes(input.contentTypeIds);
+
+    const { error: deleteError } = await client
+      .from('user_content_preferences')
+      .delete()
+      .eq('user_id', userId);
+
+    if (deleteError) {
+      throw new InternalServerErrorException(
+        'Failed to clear previous content preferences.',
+      );
+    }
+
+    if (input.contentTypeIds.length > 0) {
+      const { error: insertError } = await client
+        .from('user_content_preferences')
+        .insert(
+          input.contentTypeIds.map((contentTypeId) => ({
+            user_id: userId,
+            content_type_id: contentTypeId,
+          })),
+        );
+
+      if (insertError) {
+        throw new InternalServerErrorException(
+          'Failed to save content preferences.',
+        );
+      }
+    }
+
+    return this.getContentPreferencesForUser(userId);
+  }
+
+  // Walks ready videos in feed order, a batch at a time, keeping those that
+  // reach the child through an allowed content tag, carry no blocked tag and
+  // have a playable asset.
+  private async scanPlayableFeedVideos(
+    effectivePreferences: EffectiveContentPreferencesResult,
+    scan: FeedVideoScan,
+  ): Promise<FeedVideoCandidate[]> {
+    const candidates: FeedVideoCandidate[] = [];
+    const allowedContentTagIds = new Set(
+      await this.resolveFeedContentTagIds(effectivePreferences),
+    );
+
+    if (allowedContentTagIds.size === 0) {
+      return candidates;
+    }
+
+    const blockedContentTagIds = new Set(
+      effectivePreferences.blockedContentTagIds,
+    );
+    const blockedVideoIds = new Set(effectivePreferences.blockedVideoIds);
+    let after = scan.after;
+
+    while (candidates.length < scan.limit) {
+      const videoRows = await this.loadFeedVideoBatch(
+        scan.sortColumn,
+        after,
+        scan.videoId,
+      );
+      const lastVideoRow = videoRows[videoRows.length - 1];
+
+      if (!lastVideoRow) {
+        break;
+      }
+
+      after = {
+        sortValue: lastVideoRow[scan.sortColumn],
+        videoId: lastVideoRow.id,
+      };
+
+      const contentTagIdsByVideoId = await this.loadContentTagIdsByVideoId(
+        videoRows
+          .map((videoRow) => videoRow.id)
+          .filter((videoId) => !blockedVideoIds.has(videoId)),
+      );
+      // A blocked tag hides every video carrying it, even when the video is
+      // also tagged with something the child is allowed to watch.
+      const taggedVideoIds = Array.from(contentTagIdsByVideoId.entries())
+        .filter(
+          ([, contentTagIds]) =>
+            contentTagIds.some((contentTagId) =>
+              allowedContentTagIds.has(contentTagId),
+            ) &&
+            !contentTagIds.some((contentTagId) =>
+              blockedContentTagIds.has(contentTagId),
+            ),
+        )
+        .map(([videoId]) => videoId);
+      const playableAssetByVideoId =
+        await this.loadPlayableFeedAssets(taggedVideoIds);
+      const playableVideoIds = taggedVideoIds.filter((videoId) =>
+        playableAssetByVideoId.has(videoId),
+      );
+      const keptVideoIds =
+        scan.keepVideoIds && playableVideoIds.length > 0
+          ? await scan.keepVideoIds(playableVideoIds)
+          : new Set(playableVideoIds);
+
+      for (const videoRow of videoRows) {
+        const playableAsset = playableAssetByVideoId.get(videoRow.id);
+
+        if (
+          !playableAsset ||
+          !keptVideoIds.has(videoRow.id) ||
+          candidates.length >= scan.limit
+        ) {
+          continue;
+        }
+
+        candidates.push({
+          videoRow,
+          playableAsset,
+          contentTagIds: (contentTagIdsByVideoId.get(videoRow.id) ?? []).filter(
+            (contentTagId) => allowedContentTagIds.has(contentTagId),
+          ),
+        });
+      }
+
+      if (videoRows.length < FEED_SCAN_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    return candidates;
+  }
+
+  // Active content tags mapped to the child's effective content types, minus
+  // tags a parent blocked.
+  private async resolveFeedContentTagIds(
+    effectivePreferences: EffectiveContentPreferencesResult,
+  ): Promise<string[]> {
     const effectiveContentTypeIds =
       effectivePreferences.effectiveContentTypeIds;
 
     if (effectiveContentTypeIds.length === 0) {
-      return {
-        userId,
-        effectiveContentTypeIds,
-        videos: [],
-      };
+      return [];
     }
 
+    const client = this.getClientOrThrow();
     const { data: mappingRows, error: mappingError } = await client
       .from('content_type_tag_mappings')
       .select('content_type_id, content_tag_id')
@@ -330,11 +704,7 @@ export class ContentService {
     );
 
     if (mappedContentTagIds.length === 0) {
-      return {
-        userId,
-        effectiveContentTypeIds,
-        videos: [],
-      };
+      return [];
     }
 
     const { data: activeContentTagRows, error: activeContentTagError } =
@@ -360,23 +730,86 @@ export class ContentService {
       );
     }
 
-    const activeMappedContentTagIds = parsedActiveContentTagRows.data.map(
-      (row) => row.id,
+    const blockedContentTagIdSet = new Set(
+      effectivePreferences.blockedContentTagIds,
     );
 
-    if (activeMappedContentTagIds.length === 0) {
-      return {
-        userId,
-        effectiveContentTypeIds,
-        videos: [],
-      };
+    return parsedActiveContentTagRows.data
+      .map((row) => row.id)
+      .filter((contentTagId) => !blockedContentTagIdSet.has(contentTagId));
+  }
+
+  private async loadFeedVideoBatch(
+    sortColumn: FeedSortColumn,
+    after: FeedVideoScan['after'],
+    videoId: string | undefined,
+  ): Promise<FeedVideoRow[]> {
+    const client = this.getClientOrThrow();
+    let videoQuery = client
+      .from('videos')
+      .select(
+        'id, title, description, status, duration_seconds, thumbnail_url, published_at, created_at, updated_at',
+      )
+      .eq('status', 'ready');
+
+    if (videoId) {
+      videoQuery = videoQuery.eq('id', videoId);
+    }
+
+    if (after) {
+      videoQuery = videoQuery.or(this.buildFeedKeysetFilter(sortColumn, after));
+    }
+
+    const { data: videoRows, error: videoRowsError } = await videoQuery
+      .order(sortColumn, { ascending: false, nullsFirst: false })
+      .order('id', { ascending: false })
+      .limit(FEED_SCAN_BATCH_SIZE);
+
+    if (videoRowsError) {
+      throw new InternalServerErrorException('Failed to load feed videos.');
+    }
+
+    const parsedVideoRows = z
+      .array(feedVideoRowSchema)
+      .safeParse(videoRows ?? []);
+
+    if (!parsedVideoRows.success) {
+      throw new InternalServerErrorException('Feed video payload was invalid.');
+    }
+
+    return parsedVideoRows.data;
+  }
+
+  // Newest first with ties broken by ID; videos without a sort value go last.
+  // Timestamps are quoted because PostgREST reserves '.' and ':' in filters.
+  private buildFeedKeysetFilter(
+    sortColumn: FeedSortColumn,
+    after: NonNullable<FeedVideoScan['after']>,
+  ): string {
+    if (after.sortValue === null) {
+      return `and(${sortColumn}.is.null,id.lt.${after.videoId})`;
+    }
+
+    return [
+      `${sortColumn}.lt."${after.sortValue}"`,
+      `and(${sortColumn}.eq."${after.sortValue}",id.lt.${after.videoId})`,
+      `${sortColumn}.is.null`,
+    ].join(',');
+  }
+
+  private async loadContentTagIdsByVideoId(
+    videoIds: string[],
+  ): Promise<Map<string, string[]>> {
+    if (videoIds.length === 0) {
+      return new Map();
     }
 
+    const client = this.getClientOrThrow();
     const { data: videoContentTagRows, error: videoContentTagError } =
       await client
         .from('video_content_tags')
         .select('video_id, content_tag_id')
-        .in('content_tag_id', activeMappedContentTagIds);
+        .in('video_id', videoIds);
 
     if (videoContentTagError) {
       throw new InternalServerErrorException(
@@ -394,45 +827,34 @@ export class ContentService {
       );
     }
 
-    const videoIds = Array.from(
-      new Set(parsedVideoContentTagRows.data.map((row) => row.video_id)),
-    );
-
-    if (videoIds.length === 0) {
-      return {
-        userId,
-        effectiveContentTypeIds,
-        videos: [],
-      };
-    }
-
-    const { data: videoRows, error: videoRowsError } = await client
-      .from('videos')
-      .select(
-        'id, title, description, status, duration_seconds, thumbnail_url, published_at, created_at, updated_at',
-      )
-      .eq('status', 'ready')
-      .in('id', videoIds)
-      .order('created_at', { ascending: false })
-      .limit(100);
+    const contentTagIdsByVideoId = new Map<string, Set<string>>();
 
-    if (videoRowsError) {
-      throw new InternalServerErrorException('Failed to load feed videos.');
+    for (const row of parsedVideoContentTagRows.data) {
+      const assignedContentTagIds =
+        contentTagIdsByVideoId.get(row.video_id) ?? new Set<string>();
+      assignedContentTagIds.add(row.content_tag_id);
+      contentTagIdsByVideoId.set(row.video_id, assignedContentTagIds);
     }
 
-    const parsedVideoRows = z
-      .array(feedVideoRowSchema)
-      .safeParse(videoRows ?? []);
+    return new Map(
+      Array.from(contentTagIdsByVideoId.entries()).map(
+        ([videoId, contentTagIds]) => [videoId, Array.from(contentTagIds)],
+      ),
+    );
+  }
 
-    if (!parsedVideoRows.success) {
-      throw new InternalServerErrorException('Feed video payload was invalid.');
+  private async loadPlayableFeedAssets(
+    videoIds: string[],
+  ): Promise<Map<string, PlayableFeedAsset>> {
+    if (videoIds.length === 0) {
+      return new Map();
     }
 
+    const client = this.getClientOrThrow();
     const { data: videoAssetRows, error: videoAssetError } = await client
       .from('video_assets')
       .select('video_id, mux_playback_id, playback_policy, encoding_status')
       .eq('encoding_status', 'ready')
-      .eq('playback_policy', 'public')
       .in('video_id', videoIds);
 
     if (videoAssetError) {
@@ -451,112 +873,332 @@ export class ContentService {
       );
     }
 
-    const playableAssetByVideoId = new Map(
+    // Signed assets stay out of the feed until a signing key is configured,
+    // since their bare URLs would not play.
+    const canSignPlayback = this.muxPlaybackTokensService.isConfigured();
+
+    return new Map(
       parsedVideoAssetRows.data
-        .filter((row) => row.mux_playback_id)
+        .filter(
+          (row): row is PlayableFeedAsset =>
+            Boolean(row.mux_playback_id) &&
+            (row.playback_policy === 'public' || canSignPlayback),
+        )
         .map((row) => [row.video_id, row]),
     );
+  }
 
-    const contentTagIdsByVideoId = new Map<string, string[]>();
+  // Any saved progress counts as watched for unwatched-first ordering.
+  private async keepFeedVideoIds(
+    userId: string,
+    videoIds: string[],
+    approvalRequired: boolean,
+    watched: boolean | null,
+  ): Promise<Set<string>> {
+    let keptVideoIds = videoIds;
+
+    if (approvalRequired) {
+      const approvedVideoIds = await this.loadVideoIdsWithDecision(
+        userId,
+        keptVideoIds,
+        'approved',
+      );
+      keptVideoIds = keptVideoIds.filter((videoId) =>
+        approvedVideoIds.has(videoId),
+      );
+    }
 
-    for (const row of parsedVideoContentTagRows.data) {
-      const assignedContentTagIds =
-        contentTagIdsByVideoId.get(row.video_id) ?? [];
-      assignedContentTagIds.push(row.content_tag_id);
-      contentTagIdsByVideoId.set(row.video_id, assignedContentTagIds);
+    if (watched !== null) {
+      const resumePositionByVideoId = await this.loadFeedResumePositions(
+        userId,
+        keptVideoIds,
+      );
+      keptVideoIds = keptVideoIds.filter(
+        (videoId) => resumePositionByVideoId.has(videoId) === watched,
+      );
     }
 
-    const videos: FeedCatalogVideoSummary[] = [];
+    return new Set(keptVideoIds);
+  }
 
-    for (const videoRow of parsedVideoRows.data) {
-      const playableAsset = playableAssetByVideoId.get(videoRow.id);
+  private async loadVideoIdsWithDecision(
+    userId: string,
+    videoIds: string[],
+    decision?: ContentApprovalDecision,
+  ): Promise<Set<string>> {
+    if (videoIds.length === 0) {
+      return new Set();
+    }
 
-      if (!playableAsset || !playableAsset.mux_playback_id) {
-        continue;
-      }
+    const client = this.getClientOrThrow();
+    const { data, error } = await client
+      .from('child_video_approvals')
+      .select('video_id, decision')
+      .eq('child_user_id', userId)
+      .in('video_id', videoIds);
 
-      const contentTagIds = Array.from(
-        new Set(contentTagIdsByVideoId.get(videoRow.id) ?? []),
+    if (error) {
+      throw new InternalServerErrorException(
+        'Failed to load parent video approvals.',
       );
+    }
 
-      if (contentTagIds.length === 0) {
-        continue;
-      }
+    const parsedRows = z.array(videoApprovalRowSchema).safeParse(data ?? []);
 
-      videos.push({
-        id: videoRow.id,
-        title: videoRow.title,
-        description: videoRow.description,
-        status: 'ready',
-        durationSeconds: videoRow.duration_seconds,
-        thumbnailUrl: videoRow.thumbnail_url,
-        publishedAt: videoRow.published_at,
-        playbackId: playableAsset.mux_playback_id,
-        playbackPolicy: playableAsset.playback_policy,
-        playbackUrl: this.buildMuxPlaybackUrl(playableAsset.mux_playback_id),
-        contentTagIds,
-      });
+    if (!parsedRows.success) {
+      throw new InternalServerErrorException(
+        'Parent video approval payload was invalid.',
+      );
     }
 
-    return {
-      userId,
-      effectiveContentTypeIds,
-      videos,
-    };
+    return new Set(
+      parsedRows.data
+        .filter((row) => !decision || row.decision === decision)
+        .map((row) => row.video_id),
+    );
   }
 
-  async replaceMyContentPreferences(
+  private async loadFeedResumePositions(
     userId: string,
-    input: UpdateMyContentPreferencesInput,
-  ): Promise<UserContentPreferencesResult> {
-    return this.replaceContentPreferencesForUser(userId, input);
+    videoIds: string[],
+  ): Promise<Map<string, number>> {
+    if (videoIds.length === 0) {
+      return new Map();
+    }
+
+    const client = this.getClientOrThrow();
+
+    const { data: progressRows, error: progressError } = await client
+      .from('video_progress')
+      .select('video_id, last_position_seconds')
+      .eq('user_id', userId)
+      .in('video_id', videoIds);
+
+    if (progressError) {
+      throw new InternalServerErrorException(
+        'Failed to load feed video progress.',
+      );
+    }
+
+    const parsedProgressRows = z
+      .array(feedVideoProgressRowSchema)
+      .safeParse(progressRows ?? []);
+
+    if (!parsedProgressRows.success) {
+      throw new InternalServerErrorException(
+        'Feed video progress payload was invalid.',
+      );
+    }
+
+    return new Map(
+      parsedProgressRows.data.map((row) => [
+        row.video_id,
+        row.last_position_seconds,
+      ]),
+    );
   }
 
-  async replaceContentPreferencesForUser(
-    userId: string,
-    input: UpdateMyContentPreferencesInput,
-  ): Promise<UserContentPreferencesResult> {
+  private resolveResumePositionSeconds(
+    lastPositionSeconds: number | undefined,
+    durationSeconds: number | null,
+  ): number | null {
+    if (!lastPositionSeconds || lastPositionSeconds <= 0) {
+      return null;
+    }
+
+    if (
+      durationSeconds !== null &&
+      lastPositionSeconds >= durationSeconds - RESUME_END_BUFFER_SECONDS
+    ) {
+      return null;
+    }
+
+    return lastPositionSeconds;
+  }
+
+  async isContentApprovalRequired(userId: string): Promise<boolean> {
     const client = this.getClientOrThrow();
+    const { data, error } = await client
+      .from('child_content_approval_settings')
+      .select('approval_required')
+      .eq('child_user_id', userId)
+      .maybeSingle();
 
-    await this.assertActiveContentTypes(input.contentTypeIds);
+    if (error) {
+      throw new InternalServerErrorException(
+        'Failed to load content approval settings.',
+      );
+    }
 
-    const { error: deleteError } = await client
-      .from('user_content_preferences')
-      .delete()
-      .eq('user_id', userId);
+    if (!data) {
+      return false;
+    }
 
-    if (deleteError) {
+    const parsedRow = contentApprovalSettingRowSchema.safeParse(data);
+
+    if (!parsedRow.success) {
       throw new InternalServerErrorException(
-        'Failed to clear previous content preferences.',
+        'Content approval settings payload was invalid.',
       );
     }
 
-    if (input.contentTypeIds.length > 0) {
-      const { error: insertError } = await client
-        .from('user_content_preferences')
-        .insert(
-          input.contentTypeIds.map((contentTypeId) => ({
-            user_id: userId,
-            content_type_id: contentTypeId,
-          })),
+    return parsedRow.data.approval_required;
+  }
+
+  // Newest first: playable feed videos for the child that a parent has
+  // neither approved nor rejected yet.
+  async listContentApprovalQueue(
+    userId: string,
+    limit: number,
+  ): Promise<ApprovalQueueVideoSummary[]> {
+    const effectivePreferences =
+      await this.getEffectiveContentPreferences(userId);
+    const candidates = await this.scanPlayableFeedVideos(effectivePreferences, {
+      sortColumn: 'created_at',
+      after: null,
+      limit,
+      keepVideoIds: async (videoIds) => {
+        const decidedVideoIds = await this.loadVideoIdsWithDecision(
+          userId,
+          videoIds,
         );
 
-      if (insertError) {
-        throw new InternalServerErrorException(
-          'Failed to save content preferences.',
+        return new Set(
+          videoIds.filter((videoId) => !decidedVideoIds.has(videoId)),
         );
-      }
+      },
+    });
+
+    return candidates.map(({ videoRow, playableAsset, contentTagIds }) => ({
+      id: videoRow.id,
+      title: videoRow.title,
+      description: videoRow.description,
+      durationSeconds: videoRow.duration_seconds,
+      thumbnailUrl: this.resolveFeedThumbnailUrl(videoRow, playableAsset),
+      publishedAt: videoRow.published_at,
+      contentTagIds,
+    }));
+  }
+
+  async isFeedCandidateVideo(
+    userId: string,
+    videoId: string,
+  ): Promise<boolean> {
+    const effectivePreferences =
+      await this.getEffectiveContentPreferences(userId);
+    const candidates = await this.scanPlayableFeedVideos(effectivePreferences, {
+      sortColumn: 'created_at',
+      after: null,
+      limit: 1,
+      videoId,
+    });
+
+    return candidates.length > 0;
+  }
+
+  async listActiveContentTags(): Promise<ContentTagSummary[]> {
+    const client = this.getClientOrThrow();
+    const { data, error } = await client
+      .from('content_tags')
+      .select('id, slug, name')
+      .eq('is_active', true)
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new InternalServerErrorException('Failed to load content tags.');
     }
 
-    return this.getContentPreferencesForUser(userId);
+    const parsedRows = z
+      .array(contentTagSummaryRowSchema)
+      .safeParse(data ?? []);
+
+    if (!parsedRows.success) {
+      throw new InternalServerErrorException(
+        'Content tag payload was invalid.',
+      );
+    }
+
+    return parsedRows.data;
   }
 
-  private async listBlockedContentTypeIds(userId: string): Promise<string[]> {
+  async listContentTagSummaries(
+    contentTagIds: string[],
+  ): Promise<ContentTagSummary[]> {
+    if (contentTagIds.length === 0) {
+      return [];
+    }
+
+    const client = this.getClientOrThrow();
+    const { data, error } = await client
+      .from('content_tags')
+      .select('id, slug, name')
+      .in('id', contentTagIds);
+
+    if (error) {
+      throw new InternalServerErrorException(
+        'Failed to load blocked content tags.',
+      );
+    }
+
+    const parsedRows = z
+      .array(contentTagSummaryRowSchema)
+      .safeParse(data ?? []);
+
+    if (!parsedRows.success) {
+      throw new InternalServerErrorException(
+        'Blocked content tag payload was invalid.',
+      );
+    }
+
+    const contentTagById = new Map(parsedRows.data.map((row) => [row.id, row]));
+
+    return contentTagIds
+      .map((contentTagId) => contentTagById.get(contentTagId))
+      .filter((contentTag): contentTag is ContentTagSummary =>
+        Boolean(contentTag),
+      );
+  }
+
+  async listBlockedVideoSummaries(
+    videoIds: string[],
+  ): Promise<BlockedVideoSummary[]> {
+    if (videoIds.length === 0) {
+      return [];
+    }
+
+    const client = this.getClientOrThrow();
+    const { data, error } = await client
+      .from('videos')
+      .select('id, title')
+      .in('id', videoIds);
+
+    if (error) {
+      throw new InternalServerErrorException('Failed to load blocked videos.');
+    }
+
+    const parsedRows = z.array(blockedVideoRowSchema).safeParse(data ?? []);
+
+    if (!parsedRows.success) {
+      throw new InternalServerErrorException(
+        'Blocked video payload was invalid.',
+      );
+    }
+
+    const videoById = new Map(parsedRows.data.map((row) => [row.id, row]));
+
+    return videoIds
+      .map((videoId) => videoById.get(videoId))
+      .filter((video): video is BlockedVideoSummary => Boolean(video));
+  }
+
+  private async listActiveParentLinks(
+    userId: string,
+  ): Promise<ActiveParentLinkRow[]> {
     const client = this.getClientOrThrow();
     const { data: activeParentLinks, error: activeParentLinksError } =
       await client
         .from('parent_child_links')
-        .select('parent_user_id')
+        .select('parent_user_id, guardian_role')
         .eq('child_user_id', userId)
         .eq('relationship_status', 'active');
 
@@ -576,17 +1218,21 @@ export class ContentService {
       );
     }
 
-    const activeParentIds = parsedActiveParentLinks.data.map(
-      (row) => row.parent_user_id,
-    );
+    return parsedActiveParentLinks.data;
+  }
 
+  private async listParentRestrictionRules(
+    userId: string,
+    activeParentIds: string[],
+  ): Promise<ParentRestrictionRules> {
     if (activeParentIds.length === 0) {
-      return [];
+      return { contentTypeIds: [], contentTagIds: [], videoIds: [] };
     }
 
+    const client = this.getClientOrThrow();
     const { data: restrictionRows, error: restrictionError } = await client
       .from('parent_content_restrictions')
-      .select('content_type_id')
+      .select('content_type_id, content_tag_id, video_id')
       .eq('child_user_id', userId)
       .in('parent_user_id', activeParentIds);
 
@@ -606,9 +1252,20 @@ export class ContentService {
       );
     }
 
-    return Array.from(
-      new Set(parsedRestrictionRows.data.map((row) => row.content_type_id)),
-    );
+    const collectIds = (ids: Array<string | null>) =>
+      Array.from(new Set(ids.filter((id): id is string => id !== null)));
+
+    return {
+      contentTypeIds: collectIds(
+        parsedRestrictionRows.data.map((row) => row.content_type_id),
+      ),
+      contentTagIds: collectIds(
+        parsedRestrictionRows.data.map((row) => row.content_tag_id),
+      ),
+      videoIds: collectIds(
+        parsedRestrictionRows.data.map((row) => row.video_id),
+      ),
+    };
   }
 
   private async assertActiveContentTypes(
@@ -647,8 +1304,38 @@ export class ContentService {
     }
   }
 
-  private buildMuxPlaybackUrl(playbackId: string): string {
-    return `https://stream.mux.com/${encodeURIComponent(playbackId)}/medium.mp4`;
+  private resolveFeedThumbnailUrl(
+    videoRow: FeedVideoRow,
+    playableAsset: FeedVideoAssetRow,
+  ): string | null {
+    if (
+      playableAsset.playback_policy !== 'signed' ||
+      !playableAsset.mux_playback_id
+    ) {
+      return videoRow.thumbnail_url;
+    }
+
+    return (
+      videoRow.thumbnail_url ??
+      this.buildSignedMuxThumbnailUrl(playableAsset.mux_playback_id)
+    );
+  }
+
+  private buildMuxPlaybackUrl(
+    playbackId: string,
+    playbackPolicy: 'public' | 'signed',
+  ): string {
+    const playbackUrl = `https://stream.mux.com/${encodeURIComponent(playbackId)}/medium.mp4`;
+
+    if (playbackPolicy === 'public') {
+      return playbackUrl;
+    }
+
+    return `${playbackUrl}?token=${this.muxPlaybackTokensService.createPlaybackToken(playbackId)}`;
+  }
+
+  private buildSignedMuxThumbnailUrl(playbackId: string): string {
+    return `https://image.mux.com/${encodeURIComponent(playbackId)}/thumbnail.jpg?token=${this.muxPlaybackTokensService.createThumbnailToken(playbackId)}`;
   }
 
   private getClientOrThrow() {
@@ -3,14 +3,19 @@ import {
   BearerAuthGuard,
   type AuthenticatedRequest,
 } from '../auth/bearer-auth.guard';
+import { ParentalConsentGuard } from '../onboarding/parental-consent.guard';
 import { EngagementService } from './engagement.service';
-import { parseTrackWatchEventInput } from './engagement.schemas';
+import { ScreenTimeGuard } from './screen-time.guard';
+import {
+  parseTrackWatchEventBatchInput,
+  parseTrackWatchEventInput,
+} from './engagement.schemas';
 
 @Controller('v1/engagement')
 export class EngagementController {
   constructor(private readonly engagementService: EngagementService) {}
 
-  @UseGuards(BearerAuthGuard)
+  @UseGuards(BearerAuthGuard, ParentalConsentGuard, ScreenTimeGuard)
   @Post('watch-events')
   async trackWatchEvent(
     @Body() payload: unknown,
@@ -25,4 +30,20 @@ export class EngagementController {
       ),
     };
   }
+
+  @UseGuards(BearerAuthGuard, ParentalConsentGuard, ScreenTimeGuard)
+  @Post('watch-events/batch')
+  async trackWatchEventBatch(
+    @Body() payload: unknown,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const input = parseTrackWatchEventBatchInput(payload);
+
+    return {
+      data: await this.engagementService.trackWatchEventBatch(
+        request.authUser.id,
+        input,
+      ),
+    };
+  }
 }
@@ -1,11 +1,33 @@
 import { Module } from '@nestjs/common';
 import { BearerAuthGuard } from '../auth/bearer-auth.guard';
+import { OnboardingModule } from '../onboarding/onboarding.module';
 import { EngagementController } from './engagement.controller';
 import { EngagementService } from './engagement.service';
+import { ScreenTimeGuard } from './screen-time.guard';
+import { ScreenTimeService } from './screen-time.service';
+import { VideoProgressController } from './video-progress.controller';
+import { WatchSessionsController } from './watch-sessions.controller';
+import { WatchSessionsService } from './watch-sessions.service';
 
 @Module({
-  controllers: [EngagementController],
-  providers: [EngagementService, BearerAuthGuard],
-  exports: [EngagementService],
+  imports: [OnboardingModule],
+  controllers: [
+    EngagementController,
+    VideoProgressController,
+    WatchSessionsController,
+  ],
+  providers: [
+    EngagementService,
+    WatchSessionsService,
+    ScreenTimeService,
+    ScreenTimeGuard,
+    BearerAuthGuard,
+  ],
+  exports: [
+    EngagementService,
+    WatchSessionsService,
+    ScreenTimeService,
+    ScreenTimeGuard,
+  ],
 })
 export class EngagementModule {}
@@ -1,5 +1,9 @@
 import { BadRequestException } from '@nestjs/common';
-import { parseTrackWatchEventInput } from './engagement.schemas';
+import {
+  parseListWatchSessionsQuery,
+  parseTrackWatchEventBatchInput,
+  parseTrackWatchEventInput,
+} from './engagement.schemas';
 
 describe('engagement schemas', () => {
   it('accepts valid watch-event payload', () => {
@@ -34,4 +38,59 @@ describe('engagement schemas', () => {
       }),
     ).toThrow(BadRequestException);
   });
+
+  it('rejects watch-event payload with an invalid client event ID', () => {
+    expect(() =>
+      parseTrackWatchEventInput({
+        videoId: 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa',
+        eventType: 'play',
+        eventId: 'retry-1',
+      }),
+    ).toThrow(BadRequestException);
+  });
+
+  it('accepts an ordered watch-event batch and normalizes occurred-at', () => {
+    const parsed = parseTrackWatchEventBatchInput({
+      events: [
+        {
+          videoId: 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa',
+          eventType: 'play',
+          positionSeconds: 0,
+          occurredAt: '2026-03-01T10:00:00-05:00',
+        },
+        {
+          videoId: 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb',
+          eventType: 'complete',
+        },
+      ],
+    });
+
+    expect(parsed.events).toHaveLength(2);
+    expect(parsed.events[0]?.occurredAt).toBe('2026-03-01T15:00:00.000Z');
+    expect(parsed.events[1]?.eventType).toBe('complete');
+  });
+
+  it('rejects an empty watch-event batch', () => {
+    expect(() => parseTrackWatchEventBatchInput({ events: [] })).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('rejects a watch-event batch larger than 50 events', () => {
+    expect(() =>
+      parseTrackWatchEventBatchInput({
+        events: Array.from({ length: 51 }, () => ({
+          videoId: 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa',
+          eventType: 'play',
+        })),
+      }),
+    ).toThrow(BadRequestException);
+  });
+
+  it('defaults the watch-session list limit and rejects oversized limits', () => {
+    expect(parseListWatchSessionsQuery({})).toEqual({ limit: 50 });
+    expect(() => parseListWatchSessionsQuery({ limit: '500' })).toThrow(
+      BadRequestException,
+    );
+  });
 });
@@ -18,9 +18,50 @@ const watchEventSchema = z.object({
     .min(0, 'Position must be zero or greater.')
     .optional(),
   sessionId: z.string().uuid('Session ID must be a valid UUID.').optional(),
+  eventId: z.string().uuid('Event ID must be a valid UUID.').optional(),
+});
+
+const batchWatchEventSchema = watchEventSchema.extend({
+  occurredAt: z
+    .string()
+    .datetime({
+      offset: true,
+      message: 'Occurred-at must be an ISO-8601 timestamp with timezone.',
+    })
+    .transform((value) => new Date(value).toISOString())
+    .optional(),
+});
+
+const watchEventBatchSchema = z.object({
+  events: z
+    .array(batchWatchEventSchema)
+    .min(1, 'Provide at least one watch event.')
+    .max(50, 'You can send up to 50 watch events per batch.'),
+});
+
+const listWatchSessionsQuerySchema = z.object({
+  since: z
+    .string()
+    .datetime({
+      offset: true,
+      message: 'Since must be an ISO-8601 timestamp with timezone.',
+    })
+    .transform((value) => new Date(value).toISOString())
+    .optional(),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1.')
+    .max(100, 'Limit must be at most 100.')
+    .default(50),
 });
 
 export type TrackWatchEventInput = z.infer<typeof watchEventSchema>;
+export type BatchWatchEventInput = z.infer<typeof batchWatchEventSchema>;
+export type TrackWatchEventBatchInput = z.infer<typeof watchEventBatchSchema>;
+export type ListWatchSessionsQuery = z.infer<
+  typeof listWatchSessionsQuerySchema
+>;
 
 export function parseTrackWatchEventInput(
   payload: unknown,
@@ -36,3 +77,33 @@ export function parseTrackWatchEventInput(
 
   return parsed.data;
 }
+
+export function parseTrackWatchEventBatchInput(
+  payload: unknown,
+): TrackWatchEventBatchInput {
+  const parsed = watchEventBatchSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    throw new BadRequestException({
+      message: 'Invalid watch-event batch payload.',
+      errors: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  return parsed.data;
+}
+
+export function parseListWatchSessionsQuery(
+  payload: unknown,
+): ListWatchSessionsQuery {
+  const parsed = listWatchSessionsQuerySchema.safeParse(payload);
+
+  if (!parsed.success) {
+    throw new BadRequestException({
+      message: 'Invalid watch-session list query.',
+      errors: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  return parsed.data;
+}
@@ -1,18 +1,28 @@
 import {
+  Inject,
   Injectable,
   InternalServerErrorException,
   NotFoundException,
   ServiceUnavailableException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { z } from 'zod';
+import { CLOCK, type Clock } from '../scheduler/clock';
 import { SupabaseService } from '../supabase/supabase.service';
-import type { TrackWatchEventInput } from './engagement.schemas';
+import type {
+  BatchWatchEventInput,
+  TrackWatchEventBatchInput,
+  TrackWatchEventInput,
+} from './engagement.schemas';
+import { WatchSessionsService } from './watch-sessions.service';
 
 const readyVideoRowSchema = z.object({
   id: z.string().uuid(),
+  duration_seconds: z.number().int().nullable(),
 });
 
 const videoContentTagRowSchema = z.object({
+  video_id: z.string().uuid(),
   content_tag_id: z.string().uuid(),
 });
 
@@ -36,8 +46,43 @@ const storedWatchEventRowSchema = z.object({
   position_seconds: z.number().int().nullable(),
   occurred_at: z.string(),
   session_id: z.string().uuid().nullable(),
+  client_event_id: z.string().uuid().nullable(),
 });
 
+const numericLikeSchema = z.union([
+  z.number(),
+  z
+    .string()
+    .trim()
+    .regex(/^\d+(\.\d+)?$/)
+    .transform((value) => Number(value)),
+]);
+
+const videoProgressRowSchema = z.object({
+  user_id: z.string().uuid(),
+  video_id: z.string().uuid(),
+  last_position_seconds: z.number().int(),
+  completion_percent: numericLikeSchema,
+  completed_at: z.string().nullable(),
+  last_watched_at: z.string().nullable(),
+  updated_at: z.string(),
+});
+
+const VIDEO_PROGRESS_COLUMNS =
+  'user_id, video_id, last_position_seconds, completion_percent, completed_at, last_watched_at, updated_at';
+
+const MILESTONE_COMPLETION_PERCENT: Partial<
+  Record<WatchEventResult['eventType'], number>
+> = {
+  progress_25: 25,
+  progress_50: 50,
+  progress_75: 75,
+  complete: 100,
+};
+
+const WATCH_EVENT_COLUMNS =
+  'id, user_id, video_id, event_type, position_seconds, occurred_at, session_id, client_event_id';
+
 export type WatchEventResult = {
   id: string;
   userId: string;
@@ -46,24 +91,184 @@ export type WatchEventResult = {
   positionSeconds: number | null;
   occurredAt: string;
   sessionId: string | null;
+  eventId: string | null;
+};
+
+export type VideoProgressResult = {
+  videoId: string;
+  lastPositionSeconds: number;
+  completionPercent: number;
+  completedAt: string | null;
+  lastWatchedAt: string | null;
+  updatedAt: string;
+};
+
+type TrackableVideo = {
+  id: string;
+  durationSeconds: number | null;
+};
+
+export type WatchEventBatchItemResult =
+  | {
+      index: number;
+      status: 'accepted';
+      event: WatchEventResult;
+    }
+  | {
+      index: number;
+      status: 'rejected';
+      reason: 'video_not_trackable';
+      message: string;
+    };
+
+export type WatchEventBatchResult = {
+  acceptedCount: number;
+  rejectedCount: number;
+  items: WatchEventBatchItemResult[];
 };
 
 @Injectable()
 export class EngagementService {
-  constructor(private readonly supabaseService: SupabaseService) {}
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly watchSessionsService: WatchSessionsService,
+    private readonly configService: ConfigService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {}
 
   async trackWatchEvent(
     userId: string,
     input: TrackWatchEventInput,
   ): Promise<WatchEventResult> {
+    const trackableVideoById = await this.listTrackableVideos([input.videoId]);
+
+    if (!trackableVideoById.has(input.videoId)) {
+      throw new NotFoundException(
+        'Video was not found or is not ready for tracking.',
+      );
+    }
+
+    const [watchEvent] = await this.insertWatchEvents(
+      userId,
+      [input],
+      trackableVideoById,
+    );
+
+    if (!watchEvent) {
+      throw new InternalServerErrorException('Failed to persist watch event.');
+    }
+
+    return watchEvent;
+  }
+
+  async trackWatchEventBatch(
+    userId: string,
+    input: TrackWatchEventBatchInput,
+  ): Promise<WatchEventBatchResult> {
+    const trackableVideoById = await this.listTrackableVideos(
+      input.events.map((event) => event.videoId),
+    );
+
+    const acceptedIndexes: number[] = [];
+    const acceptedEvents: BatchWatchEventInput[] = [];
+
+    input.events.forEach((event, index) => {
+      if (trackableVideoById.has(event.videoId)) {
+        acceptedIndexes.push(index);
+        acceptedEvents.push(event);
+      }
+    });
+
+    const storedEvents =
+      acceptedEvents.length > 0
+        ? await this.insertWatchEvents(
+            userId,
+            acceptedEvents,
+            trackableVideoById,
+          )
+        : [];
+
+    if (storedEvents.length !== acceptedEvents.length) {
+      throw new InternalServerErrorException(
+        'Stored watch event batch did not match accepted events.',
+      );
+    }
+
+    const storedEventByIndex = new Map(
+      acceptedIndexes.map((eventIndex, position) => [
+        eventIndex,
+        storedEvents[position],
+      ]),
+    );
+
+    const items = input.events.map((_, index): WatchEventBatchItemResult => {
+      const storedEvent = storedEventByIndex.get(index);
+
+      if (storedEvent) {
+        return {
+          index,
+          status: 'accepted',
+          event: storedEvent,
+        };
+      }
+
+      return {
+        index,
+        status: 'rejected',
+        reason: 'video_not_trackable',
+        message: 'Video was not found or is not ready for tracking.',
+      };
+    });
+
+    return {
+      acceptedCount: storedEvents.length,
+      rejectedCount: items.length - storedEvents.length,
+      items,
+    };
+  }
+
+  async listVideoProgress(userId: string): Promise<VideoProgressResult[]> {
+    const client = this.getClientOrThrow();
+
+    const { data: progressRows, error: progressError } = await client
+      .from('video_progress')
+      .select(VIDEO_PROGRESS_COLUMNS)
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+      .limit(200);
+
+    if (progressError) {
+      throw new InternalServerErrorException('Failed to load video progress.');
+    }
+
+    const parsedProgressRows = z
+      .array(videoProgressRowSchema)
+      .safeParse(progressRows ?? []);
+
+    if (!parsedProgressRows.success) {
+      throw new InternalServerErrorException(
+        'Video progress payload was invalid.',
+      );
+    }
+
+    return parsedProgressRows.data.map((row) => this.mapVideoProgressRow(row));
+  }
+
+  private async listTrackableVideos(
+    videoIds: string[],
+  ): Promise<Map<string, TrackableVideo>> {
     const client = this.getClientOrThrow();
+    const requestedVideoIds = Array.from(new Set(videoIds));
+
+    if (requestedVideoIds.length === 0) {
+      return new Map();
+    }
 
-    const { data: video, error: videoError } = await client
+    const { data: videoRows, error: videoError } = await client
       .from('videos')
-      .select('id')
-      .eq('id', input.videoId)
+      .select('id, duration_seconds')
       .eq('status', 'ready')
-      .maybeSingle();
+      .in('id', requestedVideoIds);
 
     if (videoError) {
       throw new InternalServerErrorException(
@@ -71,25 +276,27 @@ export class EngagementService {
       );
     }
 
-    if (!video) {
-      throw new NotFoundException(
-        'Video was not found or is not ready for tracking.',
-      );
-    }
+    const parsedVideoRows = z
+      .array(readyVideoRowSchema)
+      .safeParse(videoRows ?? []);
 
-    const parsedVideo = readyVideoRowSchema.safeParse(video);
-
-    if (!parsedVideo.success) {
+    if (!parsedVideoRows.success) {
       throw new InternalServerErrorException(
         'Ready video payload was invalid.',
       );
     }
 
+    const readyVideoIds = parsedVideoRows.data.map((row) => row.id);
+
+    if (readyVideoIds.length === 0) {
+      return new Map();
+    }
+
     const { data: videoContentTagRows, error: videoContentTagError } =
       await client
         .from('video_content_tags')
-        .select('content_tag_id')
-        .eq('video_id', parsedVideo.data.id);
+        .select('video_id, content_tag_id')
+        .in('video_id', readyVideoIds);
 
     if (videoContentTagError) {
       throw new InternalServerErrorException(
@@ -107,23 +314,20 @@ export class EngagementService {
       );
     }
 
-    if (parsedVideoContentTagRows.data.length === 0) {
-      throw new NotFoundException(
-        'Video was not found or is not ready for tracking.',
-      );
-    }
-
     const contentTagIds = Array.from(
       new Set(parsedVideoContentTagRows.data.map((row) => row.content_tag_id)),
     );
 
-    const { data: activeContentTag, error: activeContentTagError } =
+    if (contentTagIds.length === 0) {
+      return new Map();
+    }
+
+    const { data: activeContentTagRows, error: activeContentTagError } =
       await client
         .from('content_tags')
         .select('id')
         .eq('is_active', true)
-        .in('id', contentTagIds)
-        .maybeSingle();
+        .in('id', contentTagIds);
 
     if (activeContentTagError) {
       throw new InternalServerErrorException(
@@ -131,61 +335,419 @@ export class EngagementService {
       );
     }
 
-    if (!activeContentTag) {
-      throw new NotFoundException(
-        'Video was not found or is not ready for tracking.',
+    const parsedActiveContentTagRows = z
+      .array(activeContentTagIdRowSchema)
+      .safeParse(activeContentTagRows ?? []);
+
+    if (!parsedActiveContentTagRows.success) {
+      throw new InternalServerErrorException(
+        'Active content-tag payload was invalid.',
       );
     }
 
-    const parsedActiveContentTag =
-      activeContentTagIdRowSchema.safeParse(activeContentTag);
+    const activeContentTagIdSet = new Set(
+      parsedActiveContentTagRows.data.map((row) => row.id),
+    );
 
-    if (!parsedActiveContentTag.success) {
-      throw new InternalServerErrorException(
-        'Active content-tag payload was invalid.',
+    const trackableVideoIds = new Set(
+      parsedVideoContentTagRows.data
+        .filter((row) => activeContentTagIdSet.has(row.content_tag_id))
+        .map((row) => row.video_id),
+    );
+
+    return new Map(
+      parsedVideoRows.data
+        .filter((row) => trackableVideoIds.has(row.id))
+        .map((row) => [
+          row.id,
+          { id: row.id, durationSeconds: row.duration_seconds },
+        ]),
+    );
+  }
+
+  private async insertWatchEvents(
+    userId: string,
+    events: BatchWatchEventInput[],
+    trackableVideoById: Map<string, TrackableVideo>,
+  ): Promise<WatchEventResult[]> {
+    const clientEventIds = Array.from(
+      new Set(
+        events.flatMap((event) => (event.eventId ? [event.eventId] : [])),
+      ),
+    );
+
+    let storedEventByClientEventId = await this.loadWatchEventsByClientEventIds(
+      userId,
+      clientEventIds,
+    );
+    let insertion = await this.insertPendingWatchEvents(
+      userId,
+      events,
+      storedEventByClientEventId,
+    );
+
+    if (insertion.hasClientEventIdConflict) {
+      // A concurrent retry stored one of these client event IDs first; reload
+      // and only insert what is still missing.
+      storedEventByClientEventId = await this.loadWatchEventsByClientEventIds(
+        userId,
+        clientEventIds,
+      );
+      insertion = await this.insertPendingWatchEvents(
+        userId,
+        events,
+        storedEventByClientEventId,
       );
     }
 
-    const nowIso = new Date().toISOString();
+    if (insertion.hasClientEventIdConflict) {
+      throw new InternalServerErrorException('Failed to persist watch event.');
+    }
+
+    const insertedEvents = Array.from(insertion.insertedEventByInput.values());
+
+    for (const insertedEvent of insertedEvents) {
+      if (insertedEvent.eventId) {
+        storedEventByClientEventId.set(insertedEvent.eventId, insertedEvent);
+      }
+    }
+
+    // Replayed events were already folded into progress when first stored.
+    await this.updateVideoProgress(userId, insertedEvents, trackableVideoById);
+    await this.watchSessionsService.applyWatchEvents(userId, insertedEvents);
+
+    return events.map((event) => {
+      const storedEvent =
+        insertion.insertedEventByInput.get(event) ??
+        (event.eventId
+          ? storedEventByClientEventId.get(event.eventId)
+          : undefined);
+
+      if (!storedEvent) {
+        throw new InternalServerErrorException(
+          'Stored watch event could not be resolved.',
+        );
+      }
+
+      return storedEvent;
+    });
+  }
+
+  private async insertPendingWatchEvents(
+    userId: string,
+    events: BatchWatchEventInput[],
+    storedEventByClientEventId: Map<string, WatchEventResult>,
+  ): Promise<{
+    hasClientEventIdConflict: boolean;
+    insertedEventByInput: Map<BatchWatchEventInput, WatchEventResult>;
+  }> {
+    const pendingEvents: BatchWatchEventInput[] = [];
+    const pendingClientEventIds = new Set<string>();
+
+    for (const event of events) {
+      if (event.eventId) {
+        if (
+          storedEventByClientEventId.has(event.eventId) ||
+          pendingClientEventIds.has(event.eventId)
+        ) {
+          continue;
+        }
 
-    const { data: watchEvent, error: watchEventError } = await client
+        pendingClientEventIds.add(event.eventId);
+      }
+
+      pendingEvents.push(event);
+    }
+
+    if (pendingEvents.length === 0) {
+      return {
+        hasClientEventIdConflict: false,
+        insertedEventByInput: new Map(),
+      };
+    }
+
+    const client = this.getClientOrThrow();
+    const now = this.clock.now();
+
+    const { data: watchEventRows, error: watchEventError } = await client
       .from('watch_events')
-      .insert({
-        user_id: userId,
-        video_id: parsedVideo.data.id,
-        event_type: input.eventType,
-        position_seconds: input.positionSeconds ?? null,
-        session_id: input.sessionId ?? null,
-        occurred_at: nowIso,
-      })
-      .select(
-        'id, user_id, video_id, event_type, position_seconds, occurred_at, session_id',
+      .insert(
+        pendingEvents.map((event) => ({
+          user_id: userId,
+          video_id: event.videoId,
+          event_type: event.eventType,
+          position_seconds: event.positionSeconds ?? null,
+          session_id: event.sessionId ?? null,
+          client_event_id: event.eventId ?? null,
+          occurred_at: this.resolveOccurredAt(event.occurredAt, now),
+        })),
       )
-      .single();
+      .select(WATCH_EVENT_COLUMNS);
+
+    if (watchEventError?.code === '23505' && pendingClientEventIds.size > 0) {
+      return {
+        hasClientEventIdConflict: true,
+        insertedEventByInput: new Map(),
+      };
+    }
 
-    if (watchEventError || !watchEvent) {
+    if (watchEventError || !watchEventRows) {
       throw new InternalServerErrorException('Failed to persist watch event.');
     }
 
-    const parsedWatchEvent = storedWatchEventRowSchema.safeParse(watchEvent);
+    const parsedWatchEventRows = z
+      .array(storedWatchEventRowSchema)
+      .safeParse(watchEventRows);
 
-    if (!parsedWatchEvent.success) {
+    if (
+      !parsedWatchEventRows.success ||
+      parsedWatchEventRows.data.length !== pendingEvents.length
+    ) {
       throw new InternalServerErrorException(
         'Stored watch event payload was invalid.',
       );
     }
 
+    const insertedEvents = parsedWatchEventRows.data.map((row) =>
+      this.mapWatchEventRow(row),
+    );
+
     return {
-      id: parsedWatchEvent.data.id,
-      userId: parsedWatchEvent.data.user_id,
-      videoId: parsedWatchEvent.data.video_id,
-      eventType: parsedWatchEvent.data.event_type,
-      positionSeconds: parsedWatchEvent.data.position_seconds,
-      occurredAt: parsedWatchEvent.data.occurred_at,
-      sessionId: parsedWatchEvent.data.session_id,
+      hasClientEventIdConflict: false,
+      insertedEventByInput: new Map(
+        pendingEvents.map((event, position) => [
+          event,
+          insertedEvents[position],
+        ]),
+      ),
     };
   }
 
+  private async loadWatchEventsByClientEventIds(
+    userId: string,
+    clientEventIds: string[],
+  ): Promise<Map<string, WatchEventResult>> {
+    if (clientEventIds.length === 0) {
+      return new Map();
+    }
+
+    const client = this.getClientOrThrow();
+
+    const { data: watchEventRows, error: watchEventError } = await client
+      .from('watch_events')
+      .select(WATCH_EVENT_COLUMNS)
+      .eq('user_id', userId)
+      .in('client_event_id', clientEventIds);
+
+    if (watchEventError) {
+      throw new InternalServerErrorException(
+        'Failed to check previously recorded watch events.',
+      );
+    }
+
+    const parsedWatchEventRows = z
+      .array(storedWatchEventRowSchema)
+      .safeParse(watchEventRows ?? []);
+
+    if (!parsedWatchEventRows.success) {
+      throw new InternalServerErrorException(
+        'Previously recorded watch event payload was invalid.',
+      );
+    }
+
+    const storedEventByClientEventId = new Map<string, WatchEventResult>();
+
+    for (const row of parsedWatchEventRows.data) {
+      if (row.client_event_id) {
+        storedEventByClientEventId.set(
+          row.client_event_id,
+          this.mapWatchEventRow(row),
+        );
+      }
+    }
+
+    return storedEventByClientEventId;
+  }
+
+  private async updateVideoProgress(
+    userId: string,
+    events: WatchEventResult[],
+    trackableVideoById: Map<string, TrackableVideo>,
+  ): Promise<void> {
+    if (events.length === 0) {
+      return;
+    }
+
+    const client = this.getClientOrThrow();
+    const videoIds = Array.from(new Set(events.map((event) => event.videoId)));
+
+    const { data: progressRows, error: progressError } = await client
+      .from('video_progress')
+      .select(VIDEO_PROGRESS_COLUMNS)
+      .eq('user_id', userId)
+      .in('video_id', videoIds);
+
+    if (progressError) {
+      throw new InternalServerErrorException(
+        'Failed to load current video progress.',
+      );
+    }
+
+    const parsedProgressRows = z
+      .array(videoProgressRowSchema)
+      .safeParse(progressRows ?? []);
+
+    if (!parsedProgressRows.success) {
+      throw new InternalServerErrorException(
+        'Current video progress payload was invalid.',
+      );
+    }
+
+    const progressByVideoId = new Map(
+      parsedProgressRows.data.map((row) => [row.video_id, row]),
+    );
+
+    const progressUpserts = videoIds.map((videoId) => {
+      const durationSeconds =
+        trackableVideoById.get(videoId)?.durationSeconds ?? null;
+      const currentProgress = progressByVideoId.get(videoId);
+      const videoEvents = events
+        .filter((event) => event.videoId === videoId)
+        .sort(
+          (firstEvent, secondEvent) =>
+            Date.parse(firstEvent.occurredAt) -
+            Date.parse(secondEvent.occurredAt),
+        );
+
+      let lastPositionSeconds = currentProgress?.last_position_seconds ?? 0;
+      let completionPercent = currentProgress?.completion_percent ?? 0;
+      let completedAt = currentProgress?.completed_at ?? null;
+      let lastWatchedAt = currentProgress?.last_watched_at ?? null;
+
+      for (const event of videoEvents) {
+        if (event.eventType === 'complete' && !completedAt) {
+          completedAt = event.occurredAt;
+        }
+
+        // Late-arriving events still count toward completion, but only the
+        // most recent event decides where playback resumes.
+        const isLatestEvent =
+          lastWatchedAt === null ||
+          Date.parse(event.occurredAt) >= Date.parse(lastWatchedAt);
+        const eventPositionSeconds = this.resolveEventPositionSeconds(
+          event,
+          isLatestEvent ? lastPositionSeconds : 0,
+          durationSeconds,
+        );
+
+        completionPercent = Math.max(
+          completionPercent,
+          MILESTONE_COMPLETION_PERCENT[event.eventType] ?? 0,
+          durationSeconds
+            ? Math.min(100, (eventPositionSeconds / durationSeconds) * 100)
+            : 0,
+        );
+
+        if (isLatestEvent) {
+          lastPositionSeconds = eventPositionSeconds;
+          lastWatchedAt = event.occurredAt;
+        }
+      }
+
+      return {
+        user_id: userId,
+        video_id: videoId,
+        last_position_seconds: lastPositionSeconds,
+        completion_percent: Math.round(completionPercent * 100) / 100,
+        completed_at: completedAt,
+        last_watched_at: lastWatchedAt,
+      };
+    });
+
+    const { error: upsertError } = await client
+      .from('video_progress')
+      .upsert(progressUpserts, { onConflict: 'user_id,video_id' });
+
+    if (upsertError) {
+      throw new InternalServerErrorException('Failed to save video progress.');
+    }
+  }
+
+  private resolveEventPositionSeconds(
+    event: WatchEventResult,
+    currentPositionSeconds: number,
+    durationSeconds: number | null,
+  ): number {
+    let positionSeconds = event.positionSeconds ?? currentPositionSeconds;
+
+    if (event.eventType === 'replay' && event.positionSeconds === null) {
+      positionSeconds = 0;
+    }
+
+    if (event.eventType === 'complete' && event.positionSeconds === null) {
+      positionSeconds = durationSeconds ?? currentPositionSeconds;
+    }
+
+    return durationSeconds === null
+      ? positionSeconds
+      : Math.min(positionSeconds, durationSeconds);
+  }
+
+  private mapVideoProgressRow(
+    row: z.infer<typeof videoProgressRowSchema>,
+  ): VideoProgressResult {
+    return {
+      videoId: row.video_id,
+      lastPositionSeconds: row.last_position_seconds,
+      completionPercent: row.completion_percent,
+      completedAt: row.completed_at,
+      lastWatchedAt: row.last_watched_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapWatchEventRow(
+    row: z.infer<typeof storedWatchEventRowSchema>,
+  ): WatchEventResult {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      videoId: row.video_id,
+      eventType: row.event_type,
+      positionSeconds: row.position_seconds,
+      occurredAt: row.occurred_at,
+      sessionId: row.session_id,
+      eventId: row.client_event_id,
+    };
+  }
+
+  private resolveOccurredAt(
+    clientOccurredAt: string | undefined,
+    now: Date,
+  ): string {
+    // Client clocks drift; never record an event as happening in the future.
+    if (!clientOccurredAt || new Date(clientOccurredAt) > now) {
+      return now.toISOString();
+    }
+
+    // Queued offline events may arrive late, but not arbitrarily far back.
+    const oldestAllowed = new Date(
+      now.getTime() - this.getMaxEventAgeSeconds() * 1000,
+    );
+
+    if (new Date(clientOccurredAt) < oldestAllowed) {
+      return oldestAllowed.toISOString();
+    }
+
+    return clientOccurredAt;
+  }
+
+  private getMaxEventAgeSeconds(): number {
+    return (
+      this.configService.get<number>('WATCH_EVENT_MAX_AGE_SECONDS') ?? 86400
+    );
+  }
+
   private getClientOrThrow() {
     try {
       return this.supabaseService.getServiceClient();
@@ -0,0 +1,42 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import type { AuthenticatedRequest } from '../auth/bearer-auth.guard';
+import { describeScreenTimeLimit } from './screen-time';
+import { ScreenTimeService } from './screen-time.service';
+
+// Runs after BearerAuthGuard; learners whose primary guardian set a daily
+// budget or allowed hours are turned away once either limit applies.
+@Injectable()
+export class ScreenTimeGuard implements CanActivate {
+  constructor(private readonly screenTimeService: ScreenTimeService) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const childUserId = request.authUser.id;
+    const limits =
+      await this.screenTimeService.getEnforcedTimeLimits(childUserId);
+
+    if (!limits) {
+      return true;
+    }
+
+    const screenTime = await this.screenTimeService.evaluateLimits(
+      childUserId,
+      limits,
+    );
+
+    if (screenTime.limitReason) {
+      throw new ForbiddenException({
+        message: describeScreenTimeLimit(screenTime, limits.timeZone),
+        limitReason: screenTime.limitReason,
+        resumesAt: screenTime.resumesAt,
+      });
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,220 @@
+import {
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { z } from 'zod';
+import { CLOCK, type Clock } from '../scheduler/clock';
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  WEEKDAYS,
+  describeLocalDay,
+  evaluateScreenTime,
+  type ScreenTimeLimits,
+  type ScreenTimeStatus,
+} from './screen-time';
+
+const childTimeLimitRowSchema = z.object({
+  child_user_id: z.string().uuid(),
+  daily_watch_minutes: z.number().int().nullable(),
+  time_zone: z.string(),
+  allowed_windows: z.array(
+    z.object({
+      days: z.array(z.enum(WEEKDAYS)),
+      startTime: z.string(),
+      endTime: z.string(),
+    }),
+  ),
+  updated_at: z.string(),
+});
+
+type ChildTimeLimitRow = z.infer<typeof childTimeLimitRowSchema>;
+
+const CHILD_TIME_LIMIT_COLUMNS =
+  'child_user_id, daily_watch_minutes, time_zone, allowed_windows, updated_at';
+
+const watchSecondsRowSchema = z.object({
+  watch_seconds: z.number().int(),
+});
+
+export type StoredScreenTimeLimits = ScreenTimeLimits & {
+  updatedAt: string;
+};
+
+@Injectable()
+export class ScreenTimeService {
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {}
+
+  async getTimeLimits(
+    childUserId: string,
+  ): Promise<StoredScreenTimeLimits | null> {
+    const client = this.getClientOrThrow();
+    const { data: limitRow, error: limitError } = await client
+      .from('child_time_limits')
+      .select(CHILD_TIME_LIMIT_COLUMNS)
+      .eq('child_user_id', childUserId)
+      .maybeSingle();
+
+    if (limitError) {
+      throw new InternalServerErrorException('Failed to load time limits.');
+    }
+
+    if (!limitRow) {
+      return null;
+    }
+
+    return this.mapTimeLimitRow(this.parseTimeLimitRow(limitRow));
+  }
+
+  async saveTimeLimits(
+    childUserId: string,
+    limits: ScreenTimeLimits,
+    updatedByParentUserId: string,
+  ): Promise<StoredScreenTimeLimits> {
+    const client = this.getClientOrThrow();
+    const { data: limitRow, error: limitError } = await client
+      .from('child_time_limits')
+      .upsert(
+        {
+          child_user_id: childUserId,
+          daily_watch_minutes: limits.dailyWatchMinutes,
+          time_zone: limits.timeZone,
+          allowed_windows: limits.allowedWindows,
+          updated_by_parent_user_id: updatedByParentUserId,
+          updated_at: this.clock.now().toISOString(),
+        },
+        { onConflict: 'child_user_id' },
+      )
+      .select(CHILD_TIME_LIMIT_COLUMNS)
+      .single();
+
+    if (limitError || !limitRow) {
+      throw new InternalServerErrorException('Failed to save time limits.');
+    }
+
+    return this.mapTimeLimitRow(this.parseTimeLimitRow(limitRow));
+  }
+
+  // Limits only apply while a primary guardian is linked, mirroring how
+  // content restrictions lapse once the guardian link is revoked.
+  async getEnforcedTimeLimits(
+    childUserId: string,
+  ): Promise<StoredScreenTimeLimits | null> {
+    const limits = await this.getTimeLimits(childUserId);
+
+    if (
+      !limits ||
+      (limits.dailyWatchMinutes === null && limits.allowedWindows.length === 0)
+    ) {
+      return null;
+    }
+
+    if (!(await this.hasActivePrimaryGuardian(childUserId))) {
+      return null;
+    }
+
+    return limits;
+  }
+
+  async evaluateLimits(
+    childUserId: string,
+    limits: ScreenTimeLimits,
+  ): Promise<ScreenTimeStatus> {
+    const now = this.clock.now();
+    const { startOfDay } = describeLocalDay(now, limits.timeZone);
+    const watchedSecondsToday = await this.sumWatchSecondsSince(
+      childUserId,
+      startOfDay,
+    );
+
+    return evaluateScreenTime(limits, watchedSecondsToday, now);
+  }
+
+  private async hasActivePrimaryGuardian(
+    childUserId: string,
+  ): Promise<boolean> {
+    const client = this.getClientOrThrow();
+    const { data: linkRows, error: linkError } = await client
+      .from('parent_child_links')
+      .select('id')
+      .eq('child_user_id', childUserId)
+      .eq('relationship_status', 'active')
+      .eq('guardian_role', 'primary')
+      .limit(1);
+
+    if (linkError) {
+      throw new InternalServerErrorException(
+        'Failed to verify active parent links.',
+      );
+    }
+
+    return (linkRows ?? []).length > 0;
+  }
+
+  // Sessions count toward the local day they started on.
+  private async sumWatchSecondsSince(
+    childUserId: string,
+    since: Date,
+  ): Promise<number> {
+    const client = this.getClientOrThrow();
+    const { data: sessionRows, error: sessionError } = await client
+      .from('watch_sessions')
+      .select('watch_seconds')
+      .eq('user_id', childUserId)
+      .gte('started_at', since.toISOString());
+
+    if (sessionError) {
+      throw new InternalServerErrorException(
+        'Failed to load watch time for today.',
+      );
+    }
+
+    const parsedSessionRows = z
+      .array(watchSecondsRowSchema)
+      .safeParse(sessionRows ?? []);
+
+    if (!parsedSessionRows.success) {
+      throw new InternalServerErrorException(
+        'Watch session payload was invalid.',
+      );
+    }
+
+    return parsedSessionRows.data.reduce(
+      (total, row) => total + row.watch_seconds,
+      0,
+    );
+  }
+
+  private parseTimeLimitRow(row: unknown): ChildTimeLimitRow {
+    const parsedRow = childTimeLimitRowSchema.safeParse(row);
+
+    if (!parsedRow.success) {
+      throw new InternalServerErrorException('Time limit payload was invalid.');
+    }
+
+    return parsedRow.data;
+  }
+
+  private mapTimeLimitRow(row: ChildTimeLimitRow): StoredScreenTimeLimits {
+    return {
+      dailyWatchMinutes: row.daily_watch_minutes,
+      timeZone: row.time_zone,
+      allowedWindows: row.allowed_windows,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private getClientOrThrow() {
+    try {
+      return this.supabaseService.getServiceClient();
+    } catch {
+      throw new ServiceUnavailableException(
+        'Screen time service is not configured yet. Set backend Supabase credentials.',
+      );
+    }
+  }
+}
@@ -0,0 +1,205 @@
+export const WEEKDAYS = [
+  'sun',
+  'mon',
+  'tue',
+  'wed',
+  'thu',
+  'fri',
+  'sat',
+] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export type AllowedWindow = {
+  days: Weekday[];
+  startTime: string;
+  endTime: string;
+};
+
+export type ScreenTimeLimits = {
+  dailyWatchMinutes: number | null;
+  timeZone: string;
+  allowedWindows: AllowedWindow[];
+};
+
+export type ScreenTimeLimitReason =
+  | 'daily_limit_reached'
+  | 'outside_allowed_hours';
+
+export type ScreenTimeStatus = {
+  limitReason: ScreenTimeLimitReason | null;
+  watchedSecondsToday: number;
+  remainingSeconds: number | null;
+  resumesAt: string | null;
+};
+
+type LocalDay = {
+  weekdayIndex: number;
+  minuteOfDay: number;
+  startOfDay: Date;
+};
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// "HH:MM" on a 24-hour clock; "24:00" closes a window at midnight.
+export function toMinuteOfDay(timeOfDay: string): number {
+  const [hours, minutes] = timeOfDay.split(':').map(Number);
+
+  return hours * 60 + minutes;
+}
+
+// Local days are anchored by subtracting the wall-clock time already elapsed,
+// so on daylight-saving changeover days the day boundary may drift by an hour.
+export function describeLocalDay(now: Date, timeZone: string): LocalDay {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(now);
+  const readPart = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? '';
+
+  const hours = Number(readPart('hour'));
+  const minutes = Number(readPart('minute'));
+  const seconds = Number(readPart('second'));
+  const minuteOfDay = hours * 60 + minutes;
+  const elapsedMs =
+    (minuteOfDay * 60 + seconds) * 1000 + now.getUTCMilliseconds();
+
+  return {
+    weekdayIndex: WEEKDAYS.indexOf(
+      readPart('weekday').toLowerCase() as Weekday,
+    ),
+    minuteOfDay,
+    startOfDay: new Date(now.getTime() - elapsedMs),
+  };
+}
+
+function isWithinAllowedWindows(
+  allowedWindows: AllowedWindow[],
+  localDay: LocalDay,
+): boolean {
+  if (allowedWindows.length === 0) {
+    return true;
+  }
+
+  return allowedWindows.some(
+    (window) =>
+      window.days.includes(WEEKDAYS[localDay.weekdayIndex]) &&
+      toMinuteOfDay(window.startTime) <= localDay.minuteOfDay &&
+      localDay.minuteOfDay < toMinuteOfDay(window.endTime),
+  );
+}
+
+// Earliest moment from `fromDayOffset` days ahead at which watching is allowed
+// again: local midnight without windows, otherwise the next window opening.
+function findNextAllowedStart(
+  allowedWindows: AllowedWindow[],
+  localDay: LocalDay,
+  fromDayOffset: number,
+): Date | null {
+  if (allowedWindows.length === 0) {
+    return new Date(localDay.startOfDay.getTime() + fromDayOffset * MS_PER_DAY);
+  }
+
+  for (
+    let dayOffset = fromDayOffset;
+    dayOffset <= fromDayOffset + WEEKDAYS.length;
+    dayOffset += 1
+  ) {
+    const weekday = WEEKDAYS[(localDay.weekdayIndex + dayOffset) % 7];
+    const openingMinutes = allowedWindows
+      .filter((window) => window.days.includes(weekday))
+      .map((window) => toMinuteOfDay(window.startTime))
+      .filter(
+        (startMinute) => dayOffset > 0 || startMinute > localDay.minuteOfDay,
+      );
+
+    if (openingMinutes.length > 0) {
+      return new Date(
+        localDay.startOfDay.getTime() +
+          dayOffset * MS_PER_DAY +
+          Math.min(...openingMinutes) * MS_PER_MINUTE,
+      );
+    }
+  }
+
+  return null;
+}
+
+export function evaluateScreenTime(
+  limits: ScreenTimeLimits,
+  watchedSecondsToday: number,
+  now: Date,
+): ScreenTimeStatus {
+  const localDay = describeLocalDay(now, limits.timeZone);
+  const remainingSeconds =
+    limits.dailyWatchMinutes === null
+      ? null
+      : Math.max(0, limits.dailyWatchMinutes * 60 - watchedSecondsToday);
+
+  if (remainingSeconds === 0) {
+    const resumesAt = findNextAllowedStart(limits.allowedWindows, localDay, 1);
+
+    return {
+      limitReason: 'daily_limit_reached',
+      watchedSecondsToday,
+      remainingSeconds,
+      resumesAt: resumesAt?.toISOString() ?? null,
+    };
+  }
+
+  if (!isWithinAllowedWindows(limits.allowedWindows, localDay)) {
+    const resumesAt = findNextAllowedStart(limits.allowedWindows, localDay, 0);
+
+    return {
+      limitReason: 'outside_allowed_hours',
+      watchedSecondsToday,
+      remainingSeconds,
+      resumesAt: resumesAt?.toISOString() ?? null,
+    };
+  }
+
+  return {
+    limitReason: null,
+    watchedSecondsToday,
+    remainingSeconds,
+    resumesAt: null,
+  };
+}
+
+export function describeScreenTimeLimit(
+  status: ScreenTimeStatus,
+  timeZone: string,
+): string {
+  const reachedMessage =
+    status.limitReason === 'daily_limit_reached'
+      ? "Today's watch time is used up."
+      : 'Watching is paused outside the hours a parent allowed.';
+
+  if (!status.resumesAt) {
+    return reachedMessage;
+  }
+
+  const resumesAtLabel = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'long',
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(new Date(status.resumesAt));
+
+  return `${reachedMessage} The feed opens again ${resumesAtLabel}.`;
+}
@@ -0,0 +1,20 @@
+import { Controller, Get, Req, UseGuards } from '@nestjs/common';
+import {
+  BearerAuthGuard,
+  type AuthenticatedRequest,
+} from '../auth/bearer-auth.guard';
+import { ParentalConsentGuard } from '../onboarding/parental-consent.guard';
+import { EngagementService } from './engagement.service';
+
+@Controller('v1/me')
+export class VideoProgressController {
+  constructor(private readonly engagementService: EngagementService) {}
+
+  @UseGuards(BearerAuthGuard, ParentalConsentGuard)
+  @Get('progress')
+  async listMyVideoProgress(@Req() request: AuthenticatedRequest) {
+    return {
+      data: await this.engagementService.listVideoProgress(request.authUser.id),
+    };
+  }
+}
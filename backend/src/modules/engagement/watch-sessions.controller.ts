@@ -0,0 +1,29 @@
+import { Controller, Get, Query, Req, UseGuards } from '@nestjs/common';
+import {
+  BearerAuthGuard,
+  type AuthenticatedRequest,
+} from '../auth/bearer-auth.guard';
+import { ParentalConsentGuard } from '../onboarding/parental-consent.guard';
+import { parseListWatchSessionsQuery } from './engagement.schemas';
+import { WatchSessionsService } from './watch-sessions.service';
+
+@Controller('v1/me')
+export class WatchSessionsController {
+  constructor(private readonly watchSessionsService: WatchSessionsService) {}
+
+  @UseGuards(BearerAuthGuard, ParentalConsentGuard)
+  @Get('watch-sessions')
+  async listMyWatchSessions(
+    @Query() query: unknown,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const parsedQuery = parseListWatchSessionsQuery(query);
+
+    return {
+      data: await this.watchSessionsService.listWatchSessions(
+        request.authUser.id,
+        parsedQuery,
+      ),
+    };
+  }
+}
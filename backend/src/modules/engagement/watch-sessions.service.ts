@@ -0,0 +1,373 @@
+import {
+  Injectable,
+  InternalServerErrorException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'node:crypto';
+import { z } from 'zod';
+import { SupabaseService } from '../supabase/supabase.service';
+import type { ListWatchSessionsQuery } from './engagement.schemas';
+import { measureWatchedSeconds } from './watch-time';
+
+const watchSessionRowSchema = z.object({
+  session_id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  video_id: z.string().uuid(),
+  client_session_id: z.string().uuid().nullable(),
+  started_at: z.string(),
+  ended_at: z.string().nullable(),
+  watch_seconds: z.number().int(),
+  last_position_seconds: z.number().int(),
+  last_event_at: z.string().nullable(),
+  end_reason: z.enum(['pause', 'complete', 'inactivity']).nullable(),
+});
+
+type WatchSessionRow = z.infer<typeof watchSessionRowSchema>;
+
+const WATCH_SESSION_COLUMNS =
+  'session_id, user_id, video_id, client_session_id, started_at, ended_at, watch_seconds, last_position_seconds, last_event_at, end_reason';
+
+export type WatchSessionEndReason = NonNullable<WatchSessionRow['end_reason']>;
+
+export type WatchSessionEvent = {
+  videoId: string;
+  eventType:
+    | 'play'
+    | 'pause'
+    | 'progress_25'
+    | 'progress_50'
+    | 'progress_75'
+    | 'complete'
+    | 'replay';
+  positionSeconds: number | null;
+  occurredAt: string;
+  sessionId: string | null;
+};
+
+export type WatchSessionSummary = {
+  sessionId: string;
+  clientSessionId: string | null;
+  videoId: string;
+  startedAt: string;
+  endedAt: string | null;
+  lastEventAt: string | null;
+  watchSeconds: number;
+  endReason: WatchSessionEndReason | null;
+};
+
+export type WatchSessionListResult = {
+  userId: string;
+  since: string | null;
+  totalWatchSeconds: number;
+  sessions: WatchSessionSummary[];
+};
+
+@Injectable()
+export class WatchSessionsService {
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async applyWatchEvents(
+    userId: string,
+    events: WatchSessionEvent[],
+  ): Promise<void> {
+    const sessionEvents = events
+      .filter((event) => event.sessionId !== null)
+      .sort(
+        (firstEvent, secondEvent) =>
+          Date.parse(firstEvent.occurredAt) -
+          Date.parse(secondEvent.occurredAt),
+      );
+
+    if (sessionEvents.length === 0) {
+      return;
+    }
+
+    const client = this.getClientOrThrow();
+    const clientSessionIds = Array.from(
+      new Set(sessionEvents.map((event) => event.sessionId as string)),
+    );
+
+    const { data: openSessionRows, error: openSessionError } = await client
+      .from('watch_sessions')
+      .select(WATCH_SESSION_COLUMNS)
+      .eq('user_id', userId)
+      .in('client_session_id', clientSessionIds)
+      .is('ended_at', null);
+
+    if (openSessionError) {
+      throw new InternalServerErrorException(
+        'Failed to load open watch sessions.',
+      );
+    }
+
+    const parsedOpenSessionRows = z
+      .array(watchSessionRowSchema)
+      .safeParse(openSessionRows ?? []);
+
+    if (!parsedOpenSessionRows.success) {
+      throw new InternalServerErrorException(
+        'Open watch session payload was invalid.',
+      );
+    }
+
+    const openSessionByKey = new Map(
+      parsedOpenSessionRows.data.map((row) => [
+        this.toSessionKey(row.client_session_id as string, row.video_id),
+        row,
+      ]),
+    );
+    const changedSessionById = new Map<string, WatchSessionRow>();
+    const idleTimeoutMs = this.getIdleTimeoutSeconds() * 1000;
+
+    for (const event of sessionEvents) {
+      const clientSessionId = event.sessionId as string;
+      const sessionKey = this.toSessionKey(clientSessionId, event.videoId);
+      let openSession = openSessionByKey.get(sessionKey);
+
+      if (
+        openSession?.last_event_at &&
+        Date.parse(event.occurredAt) - Date.parse(openSession.last_event_at) >
+          idleTimeoutMs
+      ) {
+        const idleSession = this.closeSession(
+          openSession,
+          openSession.last_event_at,
+          'inactivity',
+        );
+        changedSessionById.set(idleSession.session_id, idleSession);
+        openSessionByKey.delete(sessionKey);
+        openSession = undefined;
+      }
+
+      if (!openSession) {
+        // Sessions only start from playback; stray progress or pause events
+        // without an open session carry no measurable watch time.
+        if (event.eventType !== 'play' && event.eventType !== 'replay') {
+          continue;
+        }
+
+        const startedSession: WatchSessionRow = {
+          session_id: randomUUID(),
+          user_id: userId,
+          video_id: event.videoId,
+          client_session_id: clientSessionId,
+          started_at: event.occurredAt,
+          ended_at: null,
+          watch_seconds: 0,
+          last_position_seconds: event.positionSeconds ?? 0,
+          last_event_at: event.occurredAt,
+          end_reason: null,
+        };
+        changedSessionById.set(startedSession.session_id, startedSession);
+        openSessionByKey.set(sessionKey, startedSession);
+        continue;
+      }
+
+      if (
+        openSession.last_event_at &&
+        Date.parse(event.occurredAt) < Date.parse(openSession.last_event_at)
+      ) {
+        continue;
+      }
+
+      let advancedSession = this.advanceSession(openSession, event);
+
+      if (event.eventType === 'pause' || event.eventType === 'complete') {
+        advancedSession = this.closeSession(
+          advancedSession,
+          event.occurredAt,
+          event.eventType,
+        );
+        openSessionByKey.delete(sessionKey);
+      } else {
+        openSessionByKey.set(sessionKey, advancedSession);
+      }
+
+      changedSessionById.set(advancedSession.session_id, advancedSession);
+    }
+
+    await this.saveSessions(Array.from(changedSessionById.values()));
+  }
+
+  async listWatchSessions(
+    userId: string,
+    query: ListWatchSessionsQuery,
+  ): Promise<WatchSessionListResult> {
+    await this.closeIdleSessions(userId, new Date());
+
+    const client = this.getClientOrThrow();
+    let sessionQuery = client
+      .from('watch_sessions')
+      .select(WATCH_SESSION_COLUMNS)
+      .eq('user_id', userId);
+
+    if (query.since) {
+      sessionQuery = sessionQuery.gte('started_at', query.since);
+    }
+
+    const { data: sessionRows, error: sessionError } = await sessionQuery
+      .order('started_at', { ascending: false })
+      .limit(query.limit);
+
+    if (sessionError) {
+      throw new InternalServerErrorException('Failed to load watch sessions.');
+    }
+
+    const parsedSessionRows = z
+      .array(watchSessionRowSchema)
+      .safeParse(sessionRows ?? []);
+
+    if (!parsedSessionRows.success) {
+      throw new InternalServerErrorException(
+        'Watch session payload was invalid.',
+      );
+    }
+
+    const sessions = parsedSessionRows.data.map((row) =>
+      this.mapWatchSessionRow(row),
+    );
+
+    return {
+      userId,
+      since: query.since ?? null,
+      totalWatchSeconds: sessions.reduce(
+        (total, session) => total + session.watchSeconds,
+        0,
+      ),
+      sessions,
+    };
+  }
+
+  private async closeIdleSessions(userId: string, now: Date): Promise<void> {
+    const client = this.getClientOrThrow();
+    const idleCutoff = new Date(
+      now.getTime() - this.getIdleTimeoutSeconds() * 1000,
+    ).toISOString();
+
+    const { data: idleSessionRows, error: idleSessionError } = await client
+      .from('watch_sessions')
+      .select(WATCH_SESSION_COLUMNS)
+      .eq('user_id', userId)
+      .is('ended_at', null)
+      .lt('last_event_at', idleCutoff);
+
+    if (idleSessionError) {
+      throw new InternalServerErrorException(
+        'Failed to load idle watch sessions.',
+      );
+    }
+
+    const parsedIdleSessionRows = z
+      .array(watchSessionRowSchema)
+      .safeParse(idleSessionRows ?? []);
+
+    if (!parsedIdleSessionRows.success) {
+      throw new InternalServerErrorException(
+        'Idle watch session payload was invalid.',
+      );
+    }
+
+    await this.saveSessions(
+      parsedIdleSessionRows.data.map((row) =>
+        this.closeSession(
+          row,
+          row.last_event_at ?? row.started_at,
+          'inactivity',
+        ),
+      ),
+    );
+  }
+
+  private advanceSession(
+    session: WatchSessionRow,
+    event: WatchSessionEvent,
+  ): WatchSessionRow {
+    const positionSeconds =
+      event.eventType === 'replay'
+        ? (event.positionSeconds ?? 0)
+        : (event.positionSeconds ?? session.last_position_seconds);
+    const watchedSeconds =
+      event.eventType === 'replay'
+        ? 0
+        : measureWatchedSeconds(
+            {
+              positionSeconds: session.last_position_seconds,
+              occurredAt: session.last_event_at ?? session.started_at,
+            },
+            { positionSeconds, occurredAt: event.occurredAt },
+          );
+
+    return {
+      ...session,
+      watch_seconds: session.watch_seconds + watchedSeconds,
+      last_position_seconds: positionSeconds,
+      last_event_at: event.occurredAt,
+    };
+  }
+
+  private closeSession(
+    session: WatchSessionRow,
+    endedAt: string,
+    endReason: WatchSessionEndReason,
+  ): WatchSessionRow {
+    return {
+      ...session,
+      ended_at: endedAt,
+      end_reason: endReason,
+    };
+  }
+
+  private async saveSessions(sessions: WatchSessionRow[]): Promise<void> {
+    if (sessions.length === 0) {
+      return;
+    }
+
+    const client = this.getClientOrThrow();
+
+    const { error: upsertError } = await client
+      .from('watch_sessions')
+      .upsert(sessions, { onConflict: 'session_id' });
+
+    if (upsertError) {
+      throw new InternalServerErrorException('Failed to save watch sessions.');
+    }
+  }
+
+  private mapWatchSessionRow(row: WatchSessionRow): WatchSessionSummary {
+    return {
+      sessionId: row.session_id,
+      clientSessionId: row.client_session_id,
+      videoId: row.video_id,
+      startedAt: row.started_at,
+      endedAt: row.ended_at,
+      lastEventAt: row.last_event_at,
+      watchSeconds: row.watch_seconds,
+      endReason: row.end_reason,
+    };
+  }
+
+  private toSessionKey(clientSessionId: string, videoId: string): string {
+    return `${clientSessionId}:${videoId}`;
+  }
+
+  private getIdleTimeoutSeconds(): number {
+    return (
+      this.configService.get<number>('WATCH_SESSION_IDLE_TIMEOUT_SECONDS') ??
+      300
+    );
+  }
+
+  private getClientOrThrow() {
+    try {
+      return this.supabaseService.getServiceClient();
+    } catch {
+      throw new ServiceUnavailableException(
+        'Watch session service is not configured yet. Set backend Supabase credentials.',
+      );
+    }
+  }
+}
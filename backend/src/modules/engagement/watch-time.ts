@@ -0,0 +1,27 @@
+// Buffering and timer jitter let the reported position run slightly ahead of
+// wall-clock time between two events.
+const POSITION_DRIFT_ALLOWANCE_SECONDS = 2;
+
+export type PlaybackSample = {
+  positionSeconds: number;
+  occurredAt: string;
+};
+
+// Seeks, loops and replays move the playhead without adding watch time.
+export function measureWatchedSeconds(
+  previous: PlaybackSample,
+  next: PlaybackSample,
+): number {
+  const elapsedSeconds =
+    (Date.parse(next.occurredAt) - Date.parse(previous.occurredAt)) / 1000;
+  const positionDeltaSeconds = next.positionSeconds - previous.positionSeconds;
+
+  if (
+    positionDeltaSeconds <= 0 ||
+    positionDeltaSeconds > elapsedSeconds + POSITION_DRIFT_ALLOWANCE_SECONDS
+  ) {
+    return 0;
+  }
+
+  return positionDeltaSeconds;
+}
@@ -0,0 +1,425 @@
+import {
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  OnModuleInit,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { z } from 'zod';
+import {
+  contentTypeIdSchema,
+  databaseUuidSchema,
+} from '../content/content-id.schema';
+import { measureWatchedSeconds } from '../engagement/watch-time';
+import { CLOCK, type Clock } from '../scheduler/clock';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { SupabaseService } from '../supabase/supabase.service';
+
+const rollupWatchEventRowSchema = z.object({
+  id: z.string().uuid(),
+  user_id: z.string().uuid(),
+  video_id: z.string().uuid(),
+  event_type: z.enum([
+    'play',
+    'pause',
+    'progress_25',
+    'progress_50',
+    'progress_75',
+    'complete',
+    'replay',
+  ]),
+  position_seconds: z.number().int().nullable(),
+  occurred_at: z.string(),
+  session_id: z.string().uuid().nullable(),
+});
+
+const videoContentTagRowSchema = z.object({
+  video_id: databaseUuidSchema,
+  content_tag_id: databaseUuidSchema,
+});
+
+const contentTypeTagMappingRowSchema = z.object({
+  content_type_id: contentTypeIdSchema,
+  content_tag_id: databaseUuidSchema,
+});
+
+type RollupWatchEventRow = z.infer<typeof rollupWatchEventRowSchema>;
+
+type DailyRollupAccumulator = {
+  userId: string;
+  contentTypeId: string;
+  date: string;
+  watchSeconds: number;
+  completions: number;
+  activeMinuteKeys: Set<string>;
+};
+
+const WATCH_EVENT_PAGE_SIZE = 1000;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const ROLLUP_JOB_NAME = 'engagement-daily-rollups';
+const ROLLUP_JOB_INTERVAL_MS = 60 * 60 * 1000;
+
+export type RebuildEngagementRollupsInput = {
+  fromDate: string;
+  toDate: string;
+  userId?: string;
+};
+
+export type EngagementRollupRunResult = {
+  fromDate: string;
+  toDate: string;
+  userId: string | null;
+  processedEventCount: number;
+  rollupRowCount: number;
+};
+
+@Injectable()
+export class EngagementRollupsService implements OnModuleInit {
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly configService: ConfigService,
+    private readonly schedulerService: SchedulerService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {}
+
+  onModuleInit() {
+    this.schedulerService.register({
+      name: ROLLUP_JOB_NAME,
+      intervalMs: ROLLUP_JOB_INTERVAL_MS,
+      run: async () => {
+        // Local setups without Supabase have nothing to roll up.
+        if (this.supabaseService.isConfigured()) {
+          await this.rebuildRecentRollups();
+        }
+      },
+    });
+  }
+
+  // Refreshes yesterday as well as today so events that land after midnight
+  // UTC still settle into the day they belong to.
+  async rebuildRecentRollups(
+    now: Date = this.clock.now(),
+  ): Promise<EngagementRollupRunResult> {
+    return this.rebuildDailyRollups({
+      fromDate: new Date(now.getTime() - MS_PER_DAY).toISOString().slice(0, 10),
+      toDate: now.toISOString().slice(0, 10),
+    });
+  }
+
+  // Recomputes every rollup row in the inclusive UTC date range from raw
+  // watch_events, so re-running the same range always converges.
+  async rebuildDailyRollups(
+    input: RebuildEngagementRollupsInput,
+  ): Promise<EngagementRollupRunResult> {
+    const rangeStart = new Date(`${input.fromDate}T00:00:00.000Z`);
+    const rangeEnd = new Date(
+      new Date(`${input.toDate}T00:00:00.000Z`).getTime() + MS_PER_DAY,
+    );
+    const idleTimeoutMs = this.getIdleTimeoutSeconds() * 1000;
+    const runStartedAt = this.clock.now();
+
+    // Look back one idle window so playback that crosses midnight into the
+    // first day still measures its first delta.
+    const events = await this.loadWatchEvents(
+      new Date(rangeStart.getTime() - idleTimeoutMs),
+      rangeEnd,
+      runStartedAt,
+      input.userId,
+    );
+    const contentTypeIdsByVideoId = await this.loadContentTypeIdsByVideoId(
+      Array.from(new Set(events.map((event) => event.video_id))),
+    );
+
+    const rollupByKey = new Map<string, DailyRollupAccumulator>();
+    const previousEventByPlaybackKey = new Map<string, RollupWatchEventRow>();
+    let processedEventCount = 0;
+
+    for (const event of events) {
+      const playbackKey = `${event.user_id}:${event.video_id}:${event.session_id ?? ''}`;
+      const previousEvent = previousEventByPlaybackKey.get(playbackKey);
+      previousEventByPlaybackKey.set(playbackKey, event);
+
+      const occurredAt = new Date(event.occurred_at);
+
+      if (occurredAt < rangeStart) {
+        continue;
+      }
+
+      processedEventCount += 1;
+
+      const contentTypeIds = contentTypeIdsByVideoId.get(event.video_id) ?? [];
+
+      if (contentTypeIds.length === 0) {
+        continue;
+      }
+
+      const watchedSeconds = this.measureEventWatchSeconds(
+        previousEvent,
+        event,
+        idleTimeoutMs,
+      );
+      const date = occurredAt.toISOString().slice(0, 10);
+      const minuteKey = occurredAt.toISOString().slice(0, 16);
+
+      // Videos mapped to several content types count toward each of them.
+      for (const contentTypeId of contentTypeIds) {
+        const rollupKey = `${event.user_id}:${contentTypeId}:${date}`;
+        const rollup = rollupByKey.get(rollupKey) ?? {
+          userId: event.user_id,
+          contentTypeId,
+          date,
+          watchSeconds: 0,
+          completions: 0,
+          activeMinuteKeys: new Set<string>(),
+        };
+
+        rollup.watchSeconds += watchedSeconds;
+        rollup.completions += event.event_type === 'complete' ? 1 : 0;
+        rollup.activeMinuteKeys.add(minuteKey);
+        rollupByKey.set(rollupKey, rollup);
+      }
+    }
+
+    const rollupRows = Array.from(rollupByKey.values()).map((rollup) => ({
+      user_id: rollup.userId,
+      content_type_id: rollup.contentTypeId,
+      date: rollup.date,
+      watch_seconds: rollup.watchSeconds,
+      completions: rollup.completions,
+      active_minutes: rollup.activeMinuteKeys.size,
+    }));
+
+    await this.replaceRollupRows(input, rollupRows);
+
+    return {
+      fromDate: input.fromDate,
+      toDate: input.toDate,
+      userId: input.userId ?? null,
+      processedEventCount,
+      rollupRowCount: rollupRows.length,
+    };
+  }
+
+  private measureEventWatchSeconds(
+    previousEvent: RollupWatchEventRow | undefined,
+    event: RollupWatchEventRow,
+    idleTimeoutMs: number,
+  ): number {
+    if (
+      !previousEvent ||
+      previousEvent.position_seconds === null ||
+      event.position_seconds === null ||
+      event.event_type === 'play' ||
+      event.event_type === 'replay' ||
+      Date.parse(event.occurred_at) - Date.parse(previousEvent.occurred_at) >
+        idleTimeoutMs
+    ) {
+      return 0;
+    }
+
+    return measureWatchedSeconds(
+      {
+        positionSeconds: previousEvent.position_seconds,
+        occurredAt: previousEvent.occurred_at,
+      },
+      {
+        positionSeconds: event.position_seconds,
+        occurredAt: event.occurred_at,
+      },
+    );
+  }
+
+  // Pages on (occurred_at, id) and ignores events recorded after the run
+  // started, so inserts landing mid-run cannot shift rows between pages.
+  private async loadWatchEvents(
+    from: Date,
+    to: Date,
+    recordedBefore: Date,
+    userId: string | undefined,
+  ): Promise<RollupWatchEventRow[]> {
+    const client = this.getClientOrThrow();
+    const events: RollupWatchEventRow[] = [];
+
+    for (;;) {
+      let eventQuery = client
+        .from('watch_events')
+        .select(
+          'id, user_id, video_id, event_type, position_seconds, occurred_at, session_id',
+        )
+        .gte('occurred_at', from.toISOString())
+        .lt('occurred_at', to.toISOString())
+        .lte('created_at', recordedBefore.toISOString());
+
+      if (userId) {
+        eventQuery = eventQuery.eq('user_id', userId);
+      }
+
+      const lastEvent = events[events.length - 1];
+
+      if (lastEvent) {
+        eventQuery = eventQuery.or(
+          `occurred_at.gt."${lastEvent.occurred_at}",and(occurred_at.eq."${lastEvent.occurred_at}",id.gt.${lastEvent.id})`,
+        );
+      }
+
+      const { data: eventRows, error: eventError } = await eventQuery
+        .order('occurred_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(WATCH_EVENT_PAGE_SIZE);
+
+      if (eventError) {
+        throw new InternalServerErrorException(
+          'Failed to load watch events for rollups.',
+        );
+      }
+
+      const parsedEventRows = z
+        .array(rollupWatchEventRowSchema)
+        .safeParse(eventRows ?? []);
+
+      if (!parsedEventRows.success) {
+        throw new InternalServerErrorException(
+          'Rollup watch event payload was invalid.',
+        );
+      }
+
+      events.push(...parsedEventRows.data);
+
+      if (parsedEventRows.data.length < WATCH_EVENT_PAGE_SIZE) {
+        return events;
+      }
+    }
+  }
+
+  private async loadContentTypeIdsByVideoId(
+    videoIds: string[],
+  ): Promise<Map<string, string[]>> {
+    if (videoIds.length === 0) {
+      return new Map();
+    }
+
+    const client = this.getClientOrThrow();
+
+    const { data: videoContentTagRows, error: videoContentTagError } =
+      await client
+        .from('video_content_tags')
+        .select('video_id, content_tag_id')
+        .in('video_id', videoIds);
+
+    if (videoContentTagError) {
+      throw new InternalServerErrorException(
+        'Failed to load video content tags for rollups.',
+      );
+    }
+
+    const parsedVideoContentTagRows = z
+      .array(videoContentTagRowSchema)
+      .safeParse(videoContentTagRows ?? []);
+
+    if (!parsedVideoContentTagRows.success) {
+      throw new InternalServerErrorException(
+        'Rollup video content tag payload was invalid.',
+      );
+    }
+
+    const contentTagIds = Array.from(
+      new Set(parsedVideoContentTagRows.data.map((row) => row.content_tag_id)),
+    );
+
+    if (contentTagIds.length === 0) {
+      return new Map();
+    }
+
+    const { data: mappingRows, error: mappingError } = await client
+      .from('content_type_tag_mappings')
+      .select('content_type_id, content_tag_id')
+      .in('content_tag_id', contentTagIds);
+
+    if (mappingError) {
+      throw new InternalServerErrorException(
+        'Failed to load content type mappings for rollups.',
+      );
+    }
+
+    const parsedMappingRows = z
+      .array(contentTypeTagMappingRowSchema)
+      .safeParse(mappingRows ?? []);
+
+    if (!parsedMappingRows.success) {
+      throw new InternalServerErrorException(
+        'Rollup content type mapping payload was invalid.',
+      );
+    }
+
+    const contentTypeIdsByTagId = new Map<string, string[]>();
+
+    for (const row of parsedMappingRows.data) {
+      const contentTypeIds =
+        contentTypeIdsByTagId.get(row.content_tag_id) ?? [];
+      contentTypeIds.push(row.content_type_id);
+      contentTypeIdsByTagId.set(row.content_tag_id, contentTypeIds);
+    }
+
+    const contentTypeIdSetByVideoId = new Map<string, Set<string>>();
+
+    for (const row of parsedVideoContentTagRows.data) {
+      const contentTypeIds =
+        contentTypeIdSetByVideoId.get(row.video_id) ?? new Set<string>();
+
+      for (const contentTypeId of contentTypeIdsByTagId.get(
+        row.content_tag_id,
+      ) ?? []) {
+        contentTypeIds.add(contentTypeId);
+      }
+
+      contentTypeIdSetByVideoId.set(row.video_id, contentTypeIds);
+    }
+
+    return new Map(
+      Array.from(contentTypeIdSetByVideoId.entries()).map(
+        ([videoId, contentTypeIds]) => [videoId, Array.from(contentTypeIds)],
+      ),
+    );
+  }
+
+  // The delete and insert run in one database transaction, so readers see
+  // either the previous rows or the rebuilt ones.
+  private async replaceRollupRows(
+    input: RebuildEngagementRollupsInput,
+    rollupRows: Array<Record<string, string | number>>,
+  ): Promise<void> {
+    const { error: replaceError } = await this.getClientOrThrow().rpc(
+      'replace_engagement_daily_rollups',
+      {
+        p_from_date: input.fromDate,
+        p_to_date: input.toDate,
+        p_user_id: input.userId ?? null,
+        p_rows: rollupRows,
+      },
+    );
+
+    if (replaceError) {
+      throw new InternalServerErrorException(
+        'Failed to save engagement rollups.',
+      );
+    }
+  }
+
+  private getIdleTimeoutSeconds(): number {
+    return (
+      this.configService.get<number>('WATCH_SESSION_IDLE_TIMEOUT_SECONDS') ??
+      300
+    );
+  }
+
+  private getClientOrThrow() {
+    try {
+      return this.supabaseService.getServiceClient();
+    } catch {
+      throw new ServiceUnavailableException(
+        'Engagement rollups are not configured yet. Set backend Supabase credentials.',
+      );
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { Controller, Get, Query, Req, UseGuards } from '@nestjs/common';
+import {
+  BearerAuthGuard,
+  type AuthenticatedRequest,
+} from '../auth/bearer-auth.guard';
+import { parseListWatchHistoryQuery } from './history.schemas';
+import { HistoryService } from './history.service';
+
+@Controller('v1/me')
+export class HistoryController {
+  constructor(private readonly historyService: HistoryService) {}
+
+  @UseGuards(BearerAuthGuard)
+  @Get('history')
+  async listMyWatchHistory(
+    @Query() query: unknown,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const parsedQuery = parseListWatchHistoryQuery(query);
+
+    return {
+      data: await this.historyService.listWatchHistory(
+        request.authUser.id,
+        parsedQuery,
+      ),
+    };
+  }
+}
@@ -1,4 +1,12 @@
 import { Module } from '@nestjs/common';
+import { BearerAuthGuard } from '../auth/bearer-auth.guard';
+import { EngagementRollupsService } from './engagement-rollups.service';
+import { HistoryController } from './history.controller';
+import { HistoryService } from './history.service';
 
-@Module({})
+@Module({
+  controllers: [HistoryController],
+  providers: [HistoryService, EngagementRollupsService, BearerAuthGuard],
+  exports: [HistoryService, EngagementRollupsService],
+})
 export class HistoryModule {}
@@ -0,0 +1,48 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  encodeWatchHistoryCursor,
+  parseListWatchHistoryQuery,
+  parseWeeklyEngagementSummaryQuery,
+} from './history.schemas';
+
+describe('history schemas', () => {
+  it('applies the default page size', () => {
+    expect(parseListWatchHistoryQuery({})).toEqual({ limit: 20 });
+  });
+
+  it('round-trips an opaque cursor', () => {
+    const cursor = {
+      updatedAt: '2026-03-01T12:00:00.000Z',
+      videoId: 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa',
+    };
+
+    expect(
+      parseListWatchHistoryQuery({
+        cursor: encodeWatchHistoryCursor(cursor),
+        limit: '5',
+      }),
+    ).toEqual({ cursor, limit: 5 });
+  });
+
+  it('rejects a tampered cursor', () => {
+    expect(() =>
+      parseListWatchHistoryQuery({ cursor: 'not-a-cursor' }),
+    ).toThrow(BadRequestException);
+  });
+
+  it('rejects an invalid content type filter', () => {
+    expect(() =>
+      parseListWatchHistoryQuery({ contentTypeId: 'hockey' }),
+    ).toThrow(BadRequestException);
+  });
+
+  it('defaults and bounds the weekly summary window', () => {
+    expect(parseWeeklyEngagementSummaryQuery({})).toEqual({ weeks: 4 });
+    expect(parseWeeklyEngagementSummaryQuery({ weeks: '2' })).toEqual({
+      weeks: 2,
+    });
+    expect(() => parseWeeklyEngagementSummaryQuery({ weeks: '13' })).toThrow(
+      BadRequestException,
+    );
+  });
+});
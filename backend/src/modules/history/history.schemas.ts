@@ -0,0 +1,102 @@
+import { BadRequestException } from '@nestjs/common';
+import { z } from 'zod';
+import {
+  contentTypeIdSchema,
+  databaseUuidSchema,
+} from '../content/content-id.schema';
+
+const watchHistoryCursorSchema = z.object({
+  updatedAt: z.string().datetime({ offset: true }),
+  videoId: databaseUuidSchema,
+});
+
+export type WatchHistoryCursor = z.infer<typeof watchHistoryCursorSchema>;
+
+const listWatchHistoryQuerySchema = z.object({
+  contentTypeId: contentTypeIdSchema.optional(),
+  cursor: z
+    .string()
+    .trim()
+    .min(1)
+    .transform((value, context) => {
+      const cursor = decodeWatchHistoryCursor(value);
+
+      if (!cursor) {
+        context.addIssue({
+          code: 'custom',
+          message: 'Cursor was invalid or has expired.',
+        });
+        return z.NEVER;
+      }
+
+      return cursor;
+    })
+    .optional(),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1, 'Limit must be at least 1.')
+    .max(50, 'Limit must be at most 50.')
+    .default(20),
+});
+
+export type ListWatchHistoryQuery = z.infer<typeof listWatchHistoryQuerySchema>;
+
+const weeklyEngagementSummaryQuerySchema = z.object({
+  weeks: z.coerce
+    .number()
+    .int()
+    .min(1, 'Weeks must be at least 1.')
+    .max(12, 'Weeks must be at most 12.')
+    .default(4),
+});
+
+export type WeeklyEngagementSummaryQuery = z.infer<
+  typeof weeklyEngagementSummaryQuerySchema
+>;
+
+export function encodeWatchHistoryCursor(cursor: WatchHistoryCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+}
+
+function decodeWatchHistoryCursor(value: string): WatchHistoryCursor | null {
+  try {
+    const parsed = watchHistoryCursorSchema.safeParse(
+      JSON.parse(Buffer.from(value, 'base64url').toString('utf8')),
+    );
+
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export function parseListWatchHistoryQuery(
+  payload: unknown,
+): ListWatchHistoryQuery {
+  const parsed = listWatchHistoryQuerySchema.safeParse(payload);
+
+  if (!parsed.success) {
+    throw new BadRequestException({
+      message: 'Invalid watch history query.',
+      errors: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  return parsed.data;
+}
+
+export function parseWeeklyEngagementSummaryQuery(
+  payload: unknown,
+): WeeklyEngagementSummaryQuery {
+  const parsed = weeklyEngagementSummaryQuerySchema.safeParse(payload);
+
+  if (!parsed.success) {
+    throw new BadRequestException({
+      message: 'Invalid weekly summary query.',
+      errors: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  return parsed.data;
+}
@@ -0,0 +1,578 @@
+import {
+  Injectable,
+  InternalServerErrorException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { z } from 'zod';
+import {
+  contentTypeIdSchema,
+  databaseUuidSchema,
+} from '../content/content-id.schema';
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  encodeWatchHistoryCursor,
+  type ListWatchHistoryQuery,
+  type WeeklyEngagementSummaryQuery,
+} from './history.schemas';
+
+const numericLikeSchema = z.union([
+  z.number(),
+  z
+    .string()
+    .trim()
+    .regex(/^\d+(\.\d+)?$/)
+    .transform((value) => Number(value)),
+]);
+
+const historyProgressRowSchema = z.object({
+  video_id: databaseUuidSchema,
+  last_position_seconds: z.number().int(),
+  completion_percent: numericLikeSchema,
+  completed_at: z.string().nullable(),
+  last_watched_at: z.string().nullable(),
+  updated_at: z.string(),
+});
+
+const historyVideoRowSchema = z.object({
+  id: databaseUuidSchema,
+  title: z.string(),
+  thumbnail_url: z.string().nullable(),
+  duration_seconds: z.number().int().nullable(),
+  status: z.enum(['draft', 'processing', 'ready', 'blocked', 'archived']),
+});
+
+const videoContentTagRowSchema = z.object({
+  video_id: databaseUuidSchema,
+  content_tag_id: databaseUuidSchema,
+});
+
+const historyContentTagRowSchema = z.object({
+  id: databaseUuidSchema,
+  slug: z.string(),
+  name: z.string(),
+  is_active: z.boolean(),
+});
+
+const contentTypeTagMappingRowSchema = z.object({
+  content_type_id: contentTypeIdSchema,
+  content_tag_id: databaseUuidSchema,
+});
+
+const engagementRollupRowSchema = z.object({
+  content_type_id: contentTypeIdSchema,
+  date: z.string(),
+  watch_seconds: z.number().int(),
+  completions: z.number().int(),
+  active_minutes: z.number().int(),
+});
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const WEEKLY_TOP_CONTENT_TYPE_LIMIT = 3;
+
+export type WatchHistoryContentTag = {
+  id: string;
+  slug: string;
+  name: string;
+};
+
+export type WatchHistoryItem = {
+  videoId: string;
+  title: string;
+  thumbnailUrl: string | null;
+  durationSeconds: number | null;
+  lastPositionSeconds: number;
+  completionPercent: number;
+  isCompleted: boolean;
+  completedAt: string | null;
+  lastWatchedAt: string;
+  contentTags: WatchHistoryContentTag[];
+  contentTypeIds: string[];
+};
+
+export type WatchHistoryPage = {
+  userId: string;
+  contentTypeId: string | null;
+  items: WatchHistoryItem[];
+  nextCursor: string | null;
+};
+
+export type WeeklyContentTypeEngagement = {
+  contentTypeId: string;
+  watchSeconds: number;
+  completions: number;
+};
+
+export type WeeklyEngagementSummary = {
+  weekStart: string;
+  weekEnd: string;
+  watchSeconds: number;
+  completions: number;
+  activeMinutes: number;
+  topContentTypes: WeeklyContentTypeEngagement[];
+};
+
+export type WeeklyEngagementSummaryResult = {
+  userId: string;
+  weeks: WeeklyEngagementSummary[];
+};
+
+@Injectable()
+export class HistoryService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async listWatchHistory(
+    userId: string,
+    query: ListWatchHistoryQuery,
+  ): Promise<WatchHistoryPage> {
+    const client = this.getClientOrThrow();
+    const emptyPage: WatchHistoryPage = {
+      userId,
+      contentTypeId: query.contentTypeId ?? null,
+      items: [],
+      nextCursor: null,
+    };
+
+    let progressQuery = client
+      .from('video_progress')
+      .select(
+        'video_id, last_position_seconds, completion_percent, completed_at, last_watched_at, updated_at',
+      )
+      .eq('user_id', userId);
+
+    if (query.contentTypeId) {
+      const contentTypeVideoIds = await this.listVideoIdsForContentType(
+        query.contentTypeId,
+      );
+
+      if (contentTypeVideoIds.length === 0) {
+        return emptyPage;
+      }
+
+      progressQuery = progressQuery.in('video_id', contentTypeVideoIds);
+    }
+
+    if (query.cursor) {
+      progressQuery = progressQuery.or(
+        `updated_at.lt."${query.cursor.updatedAt}",and(updated_at.eq."${query.cursor.updatedAt}",video_id.lt.${query.cursor.videoId})`,
+      );
+    }
+
+    // One extra row tells us whether another page exists.
+    const { data: progressRows, error: progressError } = await progressQuery
+      .order('updated_at', { ascending: false })
+      .order('video_id', { ascending: false })
+      .limit(query.limit + 1);
+
+    if (progressError) {
+      throw new InternalServerErrorException('Failed to load watch history.');
+    }
+
+    const parsedProgressRows = z
+      .array(historyProgressRowSchema)
+      .safeParse(progressRows ?? []);
+
+    if (!parsedProgressRows.success) {
+      throw new InternalServerErrorException(
+        'Watch history payload was invalid.',
+      );
+    }
+
+    const pageRows = parsedProgressRows.data.slice(0, query.limit);
+    const lastPageRow = pageRows[pageRows.length - 1];
+    const nextCursor =
+      parsedProgressRows.data.length > query.limit && lastPageRow
+        ? encodeWatchHistoryCursor({
+            updatedAt: lastPageRow.updated_at,
+            videoId: lastPageRow.video_id,
+          })
+        : null;
+
+    if (pageRows.length === 0) {
+      return emptyPage;
+    }
+
+    const videoIds = pageRows.map((row) => row.video_id);
+    const [videoById, contentTagsByVideoId] = await Promise.all([
+      this.loadVideosById(videoIds),
+      this.loadContentTagsByVideoId(videoIds),
+    ]);
+    const contentTypeIdsByTagId = await this.loadContentTypeIdsByTagId(
+      Array.from(
+        new Set(
+          Array.from(contentTagsByVideoId.values()).flatMap((contentTags) =>
+            contentTags.map((contentTag) => contentTag.id),
+          ),
+        ),
+      ),
+    );
+
+    const items: WatchHistoryItem[] = [];
+
+    for (const row of pageRows) {
+      const video = videoById.get(row.video_id);
+
+      // Archived or blocked videos drop out of history along with the feed.
+      if (!video || video.status !== 'ready') {
+        continue;
+      }
+
+      const contentTags = contentTagsByVideoId.get(row.video_id) ?? [];
+
+      items.push({
+        videoId: row.video_id,
+        title: video.title,
+        thumbnailUrl: video.thumbnail_url,
+        durationSeconds: video.duration_seconds,
+        lastPositionSeconds: row.last_position_seconds,
+        completionPercent: row.completion_percent,
+        isCompleted: row.completed_at !== null,
+        completedAt: row.completed_at,
+        lastWatchedAt: row.last_watched_at ?? row.updated_at,
+        contentTags,
+        contentTypeIds: Array.from(
+          new Set(
+            contentTags.flatMap(
+              (contentTag) => contentTypeIdsByTagId.get(contentTag.id) ?? [],
+            ),
+          ),
+        ),
+      });
+    }
+
+    return {
+      ...emptyPage,
+      items,
+      nextCursor,
+    };
+  }
+
+  // Weeks run Monday through Sunday in UTC, newest first, and include the
+  // current partial week. Reads rollups as the scheduled job last wrote them,
+  // so today can trail live activity by up to an hour.
+  async summarizeWeeklyEngagement(
+    userId: string,
+    query: WeeklyEngagementSummaryQuery,
+    now: Date = new Date(),
+  ): Promise<WeeklyEngagementSummaryResult> {
+    const today = new Date(`${now.toISOString().slice(0, 10)}T00:00:00.000Z`);
+    const daysSinceMonday = (today.getUTCDay() + 6) % 7;
+    const currentWeekStart = new Date(
+      today.getTime() - daysSinceMonday * MS_PER_DAY,
+    );
+    const weekStarts = Array.from(
+      { length: query.weeks },
+      (_, index) =>
+        new Date(currentWeekStart.getTime() - index * 7 * MS_PER_DAY),
+    );
+    const fromDate = this.toDateString(weekStarts[weekStarts.length - 1]);
+    const toDate = this.toDateString(today);
+
+    const client = this.getClientOrThrow();
+    const { data: rollupRows, error: rollupError } = await client
+      .from('engagement_daily_rollups')
+      .select(
+        'content_type_id, date, watch_seconds, completions, active_minutes',
+      )
+      .eq('user_id', userId)
+      .gte('date', fromDate)
+      .lte('date', toDate);
+
+    if (rollupError) {
+      throw new InternalServerErrorException(
+        'Failed to load engagement rollups.',
+      );
+    }
+
+    const parsedRollupRows = z
+      .array(engagementRollupRowSchema)
+      .safeParse(rollupRows ?? []);
+
+    if (!parsedRollupRows.success) {
+      throw new InternalServerErrorException(
+        'Engagement rollup payload was invalid.',
+      );
+    }
+
+    const weeks = weekStarts.map((weekStart) => {
+      const weekStartDate = this.toDateString(weekStart);
+      const weekEndDate = this.toDateString(
+        new Date(weekStart.getTime() + 6 * MS_PER_DAY),
+      );
+      const weekRows = parsedRollupRows.data.filter(
+        (row) => row.date >= weekStartDate && row.date <= weekEndDate,
+      );
+      const engagementByContentTypeId = new Map<
+        string,
+        WeeklyContentTypeEngagement
+      >();
+
+      for (const row of weekRows) {
+        const engagement = engagementByContentTypeId.get(
+          row.content_type_id,
+        ) ?? {
+          contentTypeId: row.content_type_id,
+          watchSeconds: 0,
+          completions: 0,
+        };
+
+        engagement.watchSeconds += row.watch_seconds;
+        engagement.completions += row.completions;
+        engagementByContentTypeId.set(row.content_type_id, engagement);
+      }
+
+      // Rollups are stored per content type, so a video mapped to several
+      // types contributes to each of them in these totals.
+      return {
+        weekStart: weekStartDate,
+        weekEnd: weekEndDate,
+        watchSeconds: weekRows.reduce(
+          (total, row) => total + row.watch_seconds,
+          0,
+        ),
+        completions: weekRows.reduce(
+          (total, row) => total + row.completions,
+          0,
+        ),
+        activeMinutes: weekRows.reduce(
+          (total, row) => total + row.active_minutes,
+          0,
+        ),
+        topContentTypes: Array.from(engagementByContentTypeId.values())
+          .sort(
+            (firstEngagement, secondEngagement) =>
+              secondEngagement.watchSeconds - firstEngagement.watchSeconds ||
+              secondEngagement.completions - firstEngagement.completions,
+          )
+          .slice(0, WEEKLY_TOP_CONTENT_TYPE_LIMIT),
+      };
+    });
+
+    return { userId, weeks };
+  }
+
+  private async listVideoIdsForContentType(
+    contentTypeId: string,
+  ): Promise<string[]> {
+    const client = this.getClientOrThrow();
+
+    const { data: mappingRows, error: mappingError } = await client
+      .from('content_type_tag_mappings')
+      .select('content_type_id, content_tag_id')
+      .eq('content_type_id', contentTypeId);
+
+    if (mappingError) {
+      throw new InternalServerErrorException(
+        'Failed to load content type to tag mappings for history.',
+      );
+    }
+
+    const parsedMappingRows = z
+      .array(contentTypeTagMappingRowSchema)
+      .safeParse(mappingRows ?? []);
+
+    if (!parsedMappingRows.success) {
+      throw new InternalServerErrorException(
+        'Content type to tag mapping payload was invalid.',
+      );
+    }
+
+    const contentTagIds = parsedMappingRows.data.map(
+      (row) => row.content_tag_id,
+    );
+
+    if (contentTagIds.length === 0) {
+      return [];
+    }
+
+    const { data: videoContentTagRows, error: videoContentTagError } =
+      await client
+        .from('video_content_tags')
+        .select('video_id, content_tag_id')
+        .in('content_tag_id', contentTagIds);
+
+    if (videoContentTagError) {
+      throw new InternalServerErrorException(
+        'Failed to load video content-tag assignments for history.',
+      );
+    }
+
+    const parsedVideoContentTagRows = z
+      .array(videoContentTagRowSchema)
+      .safeParse(videoContentTagRows ?? []);
+
+    if (!parsedVideoContentTagRows.success) {
+      throw new InternalServerErrorException(
+        'Video content-tag assignments payload was invalid.',
+      );
+    }
+
+    return Array.from(
+      new Set(parsedVideoContentTagRows.data.map((row) => row.video_id)),
+    );
+  }
+
+  private async loadVideosById(
+    videoIds: string[],
+  ): Promise<Map<string, z.infer<typeof historyVideoRowSchema>>> {
+    const client = this.getClientOrThrow();
+
+    const { data: videoRows, error: videoError } = await client
+      .from('videos')
+      .select('id, title, thumbnail_url, duration_seconds, status')
+      .in('id', videoIds);
+
+    if (videoError) {
+      throw new InternalServerErrorException(
+        'Failed to load watch history videos.',
+      );
+    }
+
+    const parsedVideoRows = z
+      .array(historyVideoRowSchema)
+      .safeParse(videoRows ?? []);
+
+    if (!parsedVideoRows.success) {
+      throw new InternalServerErrorException(
+        'Watch history video payload was invalid.',
+      );
+    }
+
+    return new Map(parsedVideoRows.data.map((row) => [row.id, row]));
+  }
+
+  private async loadContentTagsByVideoId(
+    videoIds: string[],
+  ): Promise<Map<string, WatchHistoryContentTag[]>> {
+    const client = this.getClientOrThrow();
+
+    const { data: videoContentTagRows, error: videoContentTagError } =
+      await client
+        .from('video_content_tags')
+        .select('video_id, content_tag_id')
+        .in('video_id', videoIds);
+
+    if (videoContentTagError) {
+      throw new InternalServerErrorException(
+        'Failed to load watch history content tags.',
+      );
+    }
+
+    const parsedVideoContentTagRows = z
+      .array(videoContentTagRowSchema)
+      .safeParse(videoContentTagRows ?? []);
+
+    if (!parsedVideoContentTagRows.success) {
+      throw new InternalServerErrorException(
+        'Watch history content-tag assignment payload was invalid.',
+      );
+    }
+
+    const contentTagIds = Array.from(
+      new Set(parsedVideoContentTagRows.data.map((row) => row.content_tag_id)),
+    );
+
+    if (contentTagIds.length === 0) {
+      return new Map();
+    }
+
+    const { data: contentTagRows, error: contentTagError } = await client
+      .from('content_tags')
+      .select('id, slug, name, is_active')
+      .eq('is_active', true)
+      .in('id', contentTagIds);
+
+    if (contentTagError) {
+      throw new InternalServerErrorException(
+        'Failed to load watch history content tags.',
+      );
+    }
+
+    const parsedContentTagRows = z
+      .array(historyContentTagRowSchema)
+      .safeParse(contentTagRows ?? []);
+
+    if (!parsedContentTagRows.success) {
+      throw new InternalServerErrorException(
+        'Watch history content tag payload was invalid.',
+      );
+    }
+
+    const contentTagById = new Map(
+      parsedContentTagRows.data.map((row) => [
+        row.id,
+        { id: row.id, slug: row.slug, name: row.name },
+      ]),
+    );
+    const contentTagsByVideoId = new Map<string, WatchHistoryContentTag[]>();
+
+    for (const row of parsedVideoContentTagRows.data) {
+      const contentTag = contentTagById.get(row.content_tag_id);
+
+      if (!contentTag) {
+        continue;
+      }
+
+      const contentTags = contentTagsByVideoId.get(row.video_id) ?? [];
+      contentTags.push(contentTag);
+      contentTagsByVideoId.set(row.video_id, contentTags);
+    }
+
+    return contentTagsByVideoId;
+  }
+
+  private async loadContentTypeIdsByTagId(
+    contentTagIds: string[],
+  ): Promise<Map<string, string[]>> {
+    if (contentTagIds.length === 0) {
+      return new Map();
+    }
+
+    const client = this.getClientOrThrow();
+
+    const { data: mappingRows, error: mappingError } = await client
+      .from('content_type_tag_mappings')
+      .select('content_type_id, content_tag_id')
+      .in('content_tag_id', contentTagIds);
+
+    if (mappingError) {
+      throw new InternalServerErrorException(
+        'Failed to load content type mappings for history.',
+      );
+    }
+
+    const parsedMappingRows = z
+      .array(contentTypeTagMappingRowSchema)
+      .safeParse(mappingRows ?? []);
+
+    if (!parsedMappingRows.success) {
+      throw new InternalServerErrorException(
+        'Content type to tag mapping payload was invalid.',
+      );
+    }
+
+    const contentTypeIdsByTagId = new Map<string, string[]>();
+
+    for (const row of parsedMappingRows.data) {
+      const contentTypeIds =
+        contentTypeIdsByTagId.get(row.content_tag_id) ?? [];
+      contentTypeIds.push(row.content_type_id);
+      contentTypeIdsByTagId.set(row.content_tag_id, contentTypeIds);
+    }
+
+    return contentTypeIdsByTagId;
+  }
+
+  private toDateString(value: Date): string {
+    return value.toISOString().slice(0, 10);
+  }
+
+  private getClientOrThrow() {
+    try {
+      return this.supabaseService.getServiceClient();
+    } catch {
+      throw new ServiceUnavailableException(
+        'History service is not configured yet. Set backend Supabase credentials.',
+      );
+    }
+  }
+}
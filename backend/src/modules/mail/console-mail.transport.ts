@@ -0,0 +1,21 @@
+import { Logger } from '@nestjs/common';
+import type { MailTransport, OutgoingMail } from './mail-transport';
+
+// Development stand-in that prints outgoing mail instead of delivering it.
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger(ConsoleMailTransport.name);
+
+  send(mail: OutgoingMail): Promise<void> {
+    this.logger.log(
+      [
+        `To: ${mail.to}`,
+        `From: ${mail.from}`,
+        `Subject: ${mail.subject}`,
+        '',
+        mail.text,
+      ].join('\n'),
+    );
+
+    return Promise.resolve();
+  }
+}
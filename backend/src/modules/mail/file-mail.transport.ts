@@ -0,0 +1,17 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { MailTransport, OutgoingMail } from './mail-transport';
+
+// Appends one JSON line per message so local tooling can read the outbox.
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly filePath: string) {}
+
+  async send(mail: OutgoingMail): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(
+      this.filePath,
+      `${JSON.stringify({ ...mail, sentAt: new Date().toISOString() })}\n`,
+      'utf8',
+    );
+  }
+}
@@ -0,0 +1,12 @@
+export type OutgoingMail = {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export interface MailTransport {
+  send(mail: OutgoingMail): Promise<void>;
+}
+
+export const MAIL_TRANSPORT = Symbol('MAIL_TRANSPORT');
@@ -0,0 +1,36 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ConsoleMailTransport } from './console-mail.transport';
+import { FileMailTransport } from './file-mail.transport';
+import { MAIL_TRANSPORT, type MailTransport } from './mail-transport';
+import { MailService } from './mail.service';
+import { SmtpMailTransport } from './smtp-mail.transport';
+
+function createMailTransport(configService: ConfigService): MailTransport {
+  const transport = configService.get<string>('MAIL_TRANSPORT') ?? 'console';
+
+  if (transport === 'smtp') {
+    return new SmtpMailTransport(configService.getOrThrow<string>('SMTP_URL'));
+  }
+
+  if (transport === 'file') {
+    return new FileMailTransport(
+      configService.get<string>('MAIL_FILE_PATH') ?? '.mail/outbox.jsonl',
+    );
+  }
+
+  return new ConsoleMailTransport();
+}
+
+@Module({
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: createMailTransport,
+      inject: [ConfigService],
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
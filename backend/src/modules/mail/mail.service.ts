@@ -0,0 +1,34 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  MAIL_TRANSPORT,
+  type MailTransport,
+  type OutgoingMail,
+} from './mail-transport';
+
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly mailTransport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async send(mail: Omit<OutgoingMail, 'from'>): Promise<void> {
+    try {
+      await this.mailTransport.send({
+        ...mail,
+        from:
+          this.configService.get<string>('MAIL_FROM') ??
+          'TeachTok <no-reply@teachtok.local>',
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to send "${mail.subject}" mail.`,
+        error instanceof Error ? error.stack : undefined,
+      );
+      throw error;
+    }
+  }
+}
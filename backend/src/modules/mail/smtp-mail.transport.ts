@@ -0,0 +1,258 @@
+import { randomUUID } from 'node:crypto';
+import { connect as connectTcp, type Socket } from 'node:net';
+import { hostname } from 'node:os';
+import { connect as connectTls } from 'node:tls';
+import type { MailTransport, OutgoingMail } from './mail-transport';
+
+type SmtpResponse = {
+  code: number;
+  lines: string[];
+};
+
+const SMTP_SOCKET_TIMEOUT_MS = 30_000;
+
+// Minimal SMTP submission client: implicit TLS for smtps:// URLs, STARTTLS
+// when the server offers it for smtp:// URLs, and AUTH PLAIN when the URL
+// carries credentials.
+export class SmtpMailTransport implements MailTransport {
+  private readonly smtpUrl: URL;
+
+  constructor(rawSmtpUrl: string) {
+    this.smtpUrl = new URL(rawSmtpUrl);
+
+    if (
+      this.smtpUrl.protocol !== 'smtp:' &&
+      this.smtpUrl.protocol !== 'smtps:'
+    ) {
+      throw new Error('SMTP_URL must use the smtp:// or smtps:// scheme.');
+    }
+  }
+
+  async send(mail: OutgoingMail): Promise<void> {
+    const isImplicitTls = this.smtpUrl.protocol === 'smtps:';
+    const host = this.smtpUrl.hostname;
+    const port = Number(this.smtpUrl.port) || (isImplicitTls ? 465 : 587);
+    const connection = await SmtpConnection.open(host, port, isImplicitTls);
+
+    try {
+      await connection.expect(220);
+
+      const capabilities = await connection.command(`EHLO ${hostname()}`, 250);
+
+      if (
+        !isImplicitTls &&
+        capabilities.lines.some((line) => /^\d{3}[- ]STARTTLS\b/i.test(line))
+      ) {
+        await connection.command('STARTTLS', 220);
+        await connection.upgradeToTls(host);
+        await connection.command(`EHLO ${hostname()}`, 250);
+      }
+
+      if (this.smtpUrl.username) {
+        const credentials = Buffer.from(
+          `\u0000${decodeURIComponent(this.smtpUrl.username)}\u0000${decodeURIComponent(this.smtpUrl.password)}`,
+          'utf8',
+        ).toString('base64');
+
+        await connection.command(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await connection.command(`MAIL FROM:<${extractAddress(mail.from)}>`, 250);
+      await connection.command(
+        `RCPT TO:<${extractAddress(mail.to)}>`,
+        [250, 251],
+      );
+      await connection.command('DATA', 354);
+      await connection.command(`${buildMessage(mail)}\r\n.`, 250);
+      await connection.command('QUIT', 221);
+    } finally {
+      connection.close();
+    }
+  }
+}
+
+class SmtpConnection {
+  private buffer = '';
+  private pendingLines: string[] = [];
+  private readonly responses: SmtpResponse[] = [];
+  private waiter: {
+    resolve: (response: SmtpResponse) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private failure: Error | null = null;
+
+  private constructor(private socket: Socket) {
+    this.attach(socket);
+  }
+
+  static open(
+    host: string,
+    port: number,
+    isImplicitTls: boolean,
+  ): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = isImplicitTls
+        ? connectTls({ host, port, servername: host })
+        : connectTcp({ host, port });
+      const readyEvent = isImplicitTls ? 'secureConnect' : 'connect';
+
+      socket.once('error', reject);
+      socket.once(readyEvent, () => {
+        socket.off('error', reject);
+        resolve(new SmtpConnection(socket));
+      });
+    });
+  }
+
+  async upgradeToTls(host: string): Promise<void> {
+    const plainSocket = this.socket;
+    plainSocket.removeAllListeners('data');
+    plainSocket.removeAllListeners('error');
+    plainSocket.removeAllListeners('timeout');
+    plainSocket.removeAllListeners('close');
+
+    this.socket = await new Promise<Socket>((resolve, reject) => {
+      const tlsSocket = connectTls({ socket: plainSocket, servername: host });
+
+      tlsSocket.once('error', reject);
+      tlsSocket.once('secureConnect', () => {
+        tlsSocket.off('error', reject);
+        resolve(tlsSocket);
+      });
+    });
+    this.attach(this.socket);
+  }
+
+  async command(
+    line: string,
+    expectedCodes: number | number[],
+  ): Promise<SmtpResponse> {
+    this.socket.write(`${line}\r\n`);
+
+    return this.expect(expectedCodes);
+  }
+
+  async expect(expectedCodes: number | number[]): Promise<SmtpResponse> {
+    const response = await this.nextResponse();
+    const allowedCodes = Array.isArray(expectedCodes)
+      ? expectedCodes
+      : [expectedCodes];
+
+    if (!allowedCodes.includes(response.code)) {
+      throw new Error(
+        `SMTP server replied ${response.lines.join(' | ')} (expected ${allowedCodes.join('/')}).`,
+      );
+    }
+
+    return response;
+  }
+
+  close() {
+    this.socket.end();
+  }
+
+  private attach(socket: Socket) {
+    socket.setEncoding('utf8');
+    socket.setTimeout(SMTP_SOCKET_TIMEOUT_MS, () => {
+      socket.destroy(new Error('SMTP connection timed out.'));
+    });
+    socket.on('data', (chunk: string) => this.handleData(chunk));
+    socket.on('error', (error: Error) => this.fail(error));
+    socket.on('close', () =>
+      this.fail(new Error('SMTP connection closed unexpectedly.')),
+    );
+  }
+
+  private handleData(chunk: string) {
+    this.buffer += chunk;
+
+    for (
+      let lineEnd = this.buffer.indexOf('\r\n');
+      lineEnd >= 0;
+      lineEnd = this.buffer.indexOf('\r\n')
+    ) {
+      const line = this.buffer.slice(0, lineEnd);
+      this.buffer = this.buffer.slice(lineEnd + 2);
+      this.pendingLines.push(line);
+
+      // Multi-line replies use "250-" on every line but the last.
+      if (line.charAt(3) !== '-') {
+        this.deliver({
+          code: Number(line.slice(0, 3)),
+          lines: this.pendingLines,
+        });
+        this.pendingLines = [];
+      }
+    }
+  }
+
+  private deliver(response: SmtpResponse) {
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve(response);
+      return;
+    }
+
+    this.responses.push(response);
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(error);
+    }
+  }
+
+  private nextResponse(): Promise<SmtpResponse> {
+    const queuedResponse = this.responses.shift();
+
+    if (queuedResponse) {
+      return Promise.resolve(queuedResponse);
+    }
+
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+}
+
+function extractAddress(mailbox: string): string {
+  const angleAddress = /<([^>]+)>/.exec(mailbox);
+
+  return (angleAddress?.[1] ?? mailbox).trim();
+}
+
+function encodeHeaderValue(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function buildMessage(mail: OutgoingMail): string {
+  const headers = [
+    `From: ${encodeHeaderValue(mail.from)}`,
+    `To: ${mail.to}`,
+    `Subject: ${encodeHeaderValue(mail.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${extractAddress(mail.from).split('@')[1] ?? 'localhost'}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+  ];
+  const body = mail.text
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    // Dot-stuffing keeps a body line of "." from ending the DATA section.
+    .map((line) => (line.startsWith('.') ? `.${line}` : line))
+    .join('\r\n');
+
+  return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
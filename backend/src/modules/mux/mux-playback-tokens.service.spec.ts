@@ -0,0 +1,79 @@
+import { ServiceUnavailableException } from '@nestjs/common';
+import { generateKeyPairSync, verify } from 'crypto';
+import { MuxPlaybackTokensService } from './mux-playback-tokens.service';
+
+describe('MuxPlaybackTokensService', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  const encodedPrivateKey = Buffer.from(
+    privateKey.export({ type: 'pkcs1', format: 'pem' }),
+  ).toString('base64');
+
+  const createService = (config: Record<string, string | number>) =>
+    new MuxPlaybackTokensService({
+      get: (key: string) => config[key],
+    } as never);
+
+  const decodeSegment = (segment: string): Record<string, unknown> =>
+    JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as Record<
+      string,
+      unknown
+    >;
+
+  it('signs RS256 playback tokens scoped to the playback ID', () => {
+    const service = createService({
+      MUX_SIGNING_KEY_ID: 'signing-key-id',
+      MUX_SIGNING_KEY_PRIVATE_KEY: encodedPrivateKey,
+      MUX_PLAYBACK_TOKEN_TTL_SECONDS: 600,
+    });
+
+    const token = service.createPlaybackToken(
+      'playbackid123',
+      new Date('2026-03-01T12:00:00.000Z'),
+    );
+    const [header, payload, signature] = token.split('.');
+
+    expect(decodeSegment(header)).toEqual({
+      alg: 'RS256',
+      typ: 'JWT',
+      kid: 'signing-key-id',
+    });
+    expect(decodeSegment(payload)).toEqual({
+      sub: 'playbackid123',
+      aud: 'v',
+      exp: Date.parse('2026-03-01T12:10:00.000Z') / 1000,
+      kid: 'signing-key-id',
+    });
+    expect(
+      verify(
+        'RSA-SHA256',
+        Buffer.from(`${header}.${payload}`),
+        publicKey,
+        Buffer.from(signature, 'base64url'),
+      ),
+    ).toBe(true);
+  });
+
+  it('uses the thumbnail audience for thumbnail tokens', () => {
+    const service = createService({
+      MUX_SIGNING_KEY_ID: 'signing-key-id',
+      MUX_SIGNING_KEY_PRIVATE_KEY: encodedPrivateKey,
+    });
+
+    const [, payload] = service
+      .createThumbnailToken('playbackid123')
+      .split('.');
+
+    expect(decodeSegment(payload).aud).toBe('t');
+  });
+
+  it('refuses to sign without a configured signing key', () => {
+    const service = createService({});
+
+    expect(service.isConfigured()).toBe(false);
+    expect(() => service.createPlaybackToken('playbackid123')).toThrow(
+      ServiceUnavailableException,
+    );
+  });
+});
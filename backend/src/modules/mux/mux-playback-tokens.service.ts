@@ -0,0 +1,97 @@
+import { Injectable, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createPrivateKey, sign, type KeyObject } from 'crypto';
+
+// Mux audience claims: "v" covers video playback, "t" covers thumbnails.
+export type MuxPlaybackTokenAudience = 'v' | 't';
+
+@Injectable()
+export class MuxPlaybackTokensService {
+  private signingKey: KeyObject | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return Boolean(
+      this.configService.get<string>('MUX_SIGNING_KEY_ID') &&
+      this.configService.get<string>('MUX_SIGNING_KEY_PRIVATE_KEY'),
+    );
+  }
+
+  createPlaybackToken(playbackId: string, now: Date = new Date()): string {
+    return this.createToken(playbackId, 'v', now);
+  }
+
+  createThumbnailToken(playbackId: string, now: Date = new Date()): string {
+    return this.createToken(playbackId, 't', now);
+  }
+
+  private createToken(
+    playbackId: string,
+    audience: MuxPlaybackTokenAudience,
+    now: Date,
+  ): string {
+    const { keyId, privateKey } = this.getSigningKeyOrThrow();
+    const issuedAtSeconds = Math.floor(now.getTime() / 1000);
+
+    const encodedHeader = this.encodeSegment({
+      alg: 'RS256',
+      typ: 'JWT',
+      kid: keyId,
+    });
+    const encodedPayload = this.encodeSegment({
+      sub: playbackId,
+      aud: audience,
+      exp: issuedAtSeconds + this.getTokenTtlSeconds(),
+      kid: keyId,
+    });
+    const signingInput = `${encodedHeader}.${encodedPayload}`;
+    const signature = sign(
+      'RSA-SHA256',
+      Buffer.from(signingInput),
+      privateKey,
+    ).toString('base64url');
+
+    return `${signingInput}.${signature}`;
+  }
+
+  private encodeSegment(value: Record<string, string | number>): string {
+    return Buffer.from(JSON.stringify(value), 'utf8').toString('base64url');
+  }
+
+  private getTokenTtlSeconds(): number {
+    return (
+      this.configService.get<number>('MUX_PLAYBACK_TOKEN_TTL_SECONDS') ?? 3600
+    );
+  }
+
+  private getSigningKeyOrThrow(): { keyId: string; privateKey: KeyObject } {
+    const keyId = this.configService.get<string>('MUX_SIGNING_KEY_ID');
+    const rawPrivateKey = this.configService.get<string>(
+      'MUX_SIGNING_KEY_PRIVATE_KEY',
+    );
+
+    if (!keyId || !rawPrivateKey) {
+      throw new ServiceUnavailableException(
+        'Mux signing key is not configured. Set MUX_SIGNING_KEY_ID and MUX_SIGNING_KEY_PRIVATE_KEY.',
+      );
+    }
+
+    if (!this.signingKey) {
+      // Mux hands out the private key base64-encoded; raw PEM works as well.
+      const pem = rawPrivateKey.includes('-----BEGIN')
+        ? rawPrivateKey
+        : Buffer.from(rawPrivateKey, 'base64').toString('utf8');
+
+      try {
+        this.signingKey = createPrivateKey(pem);
+      } catch {
+        throw new ServiceUnavailableException(
+          'Mux signing key could not be read. Check MUX_SIGNING_KEY_PRIVATE_KEY.',
+        );
+      }
+    }
+
+    return { keyId, privateKey: this.signingKey };
+  }
+}
@@ -1,9 +1,11 @@
 import { Module } from '@nestjs/common';
+import { MuxPlaybackTokensService } from './mux-playback-tokens.service';
 import { MuxController } from './mux.controller';
 import { MuxService } from './mux.service';
 
 @Module({
   controllers: [MuxController],
-  providers: [MuxService],
+  providers: [MuxService, MuxPlaybackTokensService],
+  exports: [MuxPlaybackTokensService],
 })
 export class MuxModule {}
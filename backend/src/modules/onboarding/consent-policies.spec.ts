@@ -0,0 +1,57 @@
+import {
+  isConsentPolicyOutdated,
+  type ConsentPolicy,
+} from './consent-policies';
+
+function buildPolicy(
+  version: string,
+  effectiveAt: string,
+  requiresReconsent: boolean,
+): ConsentPolicy {
+  return {
+    version,
+    effectiveAt,
+    attestationText: `Attestation ${version}`,
+    emailConsentText: `Email consent ${version}`,
+    requiresReconsent,
+  };
+}
+
+describe('consent policy registry', () => {
+  const policies = [
+    buildPolicy('v1', '2026-01-01T00:00:00.000Z', false),
+    buildPolicy('v2', '2026-04-01T00:00:00.000Z', true),
+    buildPolicy('v3', '2026-07-01T00:00:00.000Z', false),
+  ];
+  const now = new Date('2026-08-01T00:00:00.000Z');
+
+  it('flags consents that skipped a re-consent policy', () => {
+    expect(isConsentPolicyOutdated(policies, 'v1', 'v3', now)).toBe(true);
+    expect(isConsentPolicyOutdated(policies, 'legacy', 'v2', now)).toBe(true);
+  });
+
+  it('keeps consents valid when no newer policy demands re-consent', () => {
+    expect(isConsentPolicyOutdated(policies, 'v2', 'v3', now)).toBe(false);
+    expect(isConsentPolicyOutdated(policies, 'v3', 'v3', now)).toBe(false);
+    expect(isConsentPolicyOutdated(policies, 'v1', 'v1', now)).toBe(false);
+  });
+
+  it('waits for a re-consent policy to take effect', () => {
+    expect(
+      isConsentPolicyOutdated(
+        policies,
+        'v1',
+        'v2',
+        new Date('2026-03-31T23:59:59.000Z'),
+      ),
+    ).toBe(false);
+    expect(
+      isConsentPolicyOutdated(
+        policies,
+        'v1',
+        'v2',
+        new Date('2026-04-01T00:00:00.000Z'),
+      ),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+export type ConsentPolicy = {
+  version: string;
+  effectiveAt: string;
+  // Shown to the child's parent on the in-app interim attestation.
+  attestationText: string;
+  // Shown to the parent who opens an emailed consent link.
+  emailConsentText: string;
+  // Consents recorded under earlier versions must be renewed once this
+  // version takes effect.
+  requiresReconsent: boolean;
+};
+
+export const CONSENT_POLICY_REGISTRY = Symbol('CONSENT_POLICY_REGISTRY');
+
+// Ordered oldest to newest. Publish a policy change by appending an entry and
+// pointing CONSENT_POLICY_VERSION at it; never edit a released entry.
+export const CONSENT_POLICIES: readonly ConsentPolicy[] = [
+  {
+    version: 'v1',
+    effectiveAt: '2026-01-01T00:00:00.000Z',
+    attestationText:
+      "By checking this box and typing my full legal name, I certify that I am the child's legal parent or guardian and I consent to the child's use of TeachTok under these Terms and Privacy Policy.",
+    emailConsentText:
+      "I am the child's legal parent or guardian and I consent to the child's use of TeachTok under these Terms and Privacy Policy.",
+    requiresReconsent: false,
+  },
+];
+
+// A consent is outdated when any policy after the one it was recorded under,
+// up to the active one, demands re-consent and has taken effect. Unknown
+// versions are treated as older than every registered policy.
+export function isConsentPolicyOutdated(
+  policies: readonly ConsentPolicy[],
+  consentPolicyVersion: string,
+  activePolicyVersion: string,
+  now: Date,
+): boolean {
+  const activeIndex = policies.findIndex(
+    (policy) => policy.version === activePolicyVersion,
+  );
+  const consentIndex = policies.findIndex(
+    (policy) => policy.version === consentPolicyVersion,
+  );
+
+  return policies
+    .slice(consentIndex + 1, activeIndex + 1)
+    .some(
+      (policy) =>
+        policy.requiresReconsent &&
+        Date.parse(policy.effectiveAt) <= now.getTime(),
+    );
+}
@@ -0,0 +1,46 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  CONSENT_POLICY_REGISTRY,
+  isConsentPolicyOutdated,
+  type ConsentPolicy,
+} from './consent-policies';
+
+@Injectable()
+export class ConsentPolicyService {
+  private readonly activePolicy: ConsentPolicy;
+
+  constructor(
+    configService: ConfigService,
+    @Inject(CONSENT_POLICY_REGISTRY)
+    private readonly policies: readonly ConsentPolicy[],
+  ) {
+    const activeVersion =
+      configService.get<string>('CONSENT_POLICY_VERSION') ?? 'v1';
+    const activePolicy = policies.find(
+      (policy) => policy.version === activeVersion,
+    );
+
+    // Fail at boot rather than stamp consents with an unpublished version.
+    if (!activePolicy) {
+      throw new Error(
+        `CONSENT_POLICY_VERSION "${activeVersion}" is not in the consent policy registry.`,
+      );
+    }
+
+    this.activePolicy = activePolicy;
+  }
+
+  getActivePolicy(): ConsentPolicy {
+    return this.activePolicy;
+  }
+
+  requiresReconsent(consentPolicyVersion: string, now: Date): boolean {
+    return isConsentPolicyOutdated(
+      this.policies,
+      consentPolicyVersion,
+      this.activePolicy.version,
+      now,
+    );
+  }
+}
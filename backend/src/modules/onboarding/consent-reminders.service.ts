@@ -0,0 +1,336 @@
+import {
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  OnModuleInit,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { z } from 'zod';
+import { MailService } from '../mail/mail.service';
+import { CLOCK, type Clock } from '../scheduler/clock';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { ParentalConsentService } from './parental-consent.service';
+
+export type ConsentReminderKind = 'expiry_30_day' | 'expiry_7_day';
+
+export type ConsentReminderRunResult = {
+  ranAt: string;
+  checkedConsentCount: number;
+  sentReminderCount: number;
+  failedReminderCount: number;
+};
+
+const expiringConsentRowSchema = z.object({
+  id: z.string().uuid(),
+  child_user_id: z.string().uuid(),
+  parent_email: z.string(),
+  expires_at: z.string(),
+});
+
+const sentReminderRowSchema = z.object({
+  consent_id: z.string().uuid(),
+  reminder_kind: z.enum(['expiry_30_day', 'expiry_7_day']),
+});
+
+const childProfileRowSchema = z.object({
+  id: z.string().uuid(),
+  username: z.string().nullable(),
+});
+
+type ExpiringConsentRow = z.infer<typeof expiringConsentRowSchema>;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const REMINDER_JOB_NAME = 'parental-consent-reminders';
+const REMINDER_JOB_INTERVAL_MS = 60 * 60 * 1000;
+
+@Injectable()
+export class ConsentRemindersService implements OnModuleInit {
+  private readonly logger = new Logger(ConsentRemindersService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly parentalConsentService: ParentalConsentService,
+    private readonly mailService: MailService,
+    private readonly schedulerService: SchedulerService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {}
+
+  onModuleInit() {
+    this.schedulerService.register({
+      name: REMINDER_JOB_NAME,
+      intervalMs: REMINDER_JOB_INTERVAL_MS,
+      run: async () => {
+        // Local setups without Supabase have nothing to scan.
+        if (this.supabaseService.isConfigured()) {
+          await this.sendDueReminders();
+        }
+      },
+    });
+  }
+
+  // Sends at most one notice per consent per run: the 7-day notice once expiry
+  // is a week out, otherwise the 30-day notice. A consent first seen inside the
+  // final week only gets the 7-day notice.
+  async sendDueReminders(
+    now: Date = this.clock.now(),
+  ): Promise<ConsentReminderRunResult> {
+    const expiringConsents = await this.loadExpiringConsents(now);
+    const sentKindsByConsentId = await this.loadSentReminderKinds(
+      expiringConsents.map((consent) => consent.id),
+    );
+    const usernameByChildId = await this.loadChildUsernames(
+      Array.from(
+        new Set(expiringConsents.map((consent) => consent.child_user_id)),
+      ),
+    );
+
+    let sentReminderCount = 0;
+    let failedReminderCount = 0;
+
+    for (const consent of expiringConsents) {
+      const reminderKind: ConsentReminderKind =
+        Date.parse(consent.expires_at) - now.getTime() <= 7 * MS_PER_DAY
+          ? 'expiry_7_day'
+          : 'expiry_30_day';
+
+      if (sentKindsByConsentId.get(consent.id)?.has(reminderKind)) {
+        continue;
+      }
+
+      // Renewed, revoked, or aged-out children no longer need a reminder for
+      // this consent row.
+      const consentState = await this.parentalConsentService.getConsentState(
+        consent.child_user_id,
+        now,
+      );
+
+      if (
+        !consentState.requiresParentalConsent ||
+        consentState.status !== 'approved' ||
+        consentState.consent?.consentId !== consent.id
+      ) {
+        continue;
+      }
+
+      if (!(await this.claimReminder(consent, reminderKind, now))) {
+        continue;
+      }
+
+      try {
+        await this.mailService.send({
+          to: consent.parent_email,
+          subject: 'TeachTok parental consent is expiring soon',
+          text: this.buildReminderText(
+            consent,
+            usernameByChildId.get(consent.child_user_id) ?? null,
+          ),
+        });
+        sentReminderCount += 1;
+      } catch {
+        // Release the claim so the next run retries this notice.
+        await this.releaseReminder(consent.id, reminderKind);
+        failedReminderCount += 1;
+      }
+    }
+
+    if (sentReminderCount > 0 || failedReminderCount > 0) {
+      this.logger.log(
+        `Consent reminders: ${sentReminderCount} sent, ${failedReminderCount} failed.`,
+      );
+    }
+
+    return {
+      ranAt: now.toISOString(),
+      checkedConsentCount: expiringConsents.length,
+      sentReminderCount,
+      failedReminderCount,
+    };
+  }
+
+  private buildReminderText(
+    consent: ExpiringConsentRow,
+    childUsername: string | null,
+  ): string {
+    const childLabel = childUsername ? `@${childUsername}` : 'your child';
+    const expiresOn = new Date(consent.expires_at).toUTCString();
+
+    return [
+      'Hello,',
+      '',
+      `Your parental consent for ${childLabel} to use TeachTok expires on ${expiresOn}.`,
+      `To keep the account active, renew consent from ${childLabel}'s TeachTok account before then.`,
+      'If consent lapses, the account switches to limited mode until consent is renewed.',
+    ].join('\n');
+  }
+
+  private async loadExpiringConsents(now: Date): Promise<ExpiringConsentRow[]> {
+    const client = this.getClientOrThrow();
+
+    const { data: consentRows, error: consentError } = await client
+      .from('parental_consents')
+      .select('id, child_user_id, parent_email, expires_at')
+      .eq('consent_status', 'approved')
+      .gt('expires_at', now.toISOString())
+      .lte(
+        'expires_at',
+        new Date(now.getTime() + 30 * MS_PER_DAY).toISOString(),
+      )
+      .order('expires_at', { ascending: true });
+
+    if (consentError) {
+      throw new InternalServerErrorException(
+        'Failed to load expiring parental consents.',
+      );
+    }
+
+    const parsedConsentRows = z
+      .array(expiringConsentRowSchema)
+      .safeParse(consentRows ?? []);
+
+    if (!parsedConsentRows.success) {
+      throw new InternalServerErrorException(
+        'Expiring parental consent payload was invalid.',
+      );
+    }
+
+    return parsedConsentRows.data;
+  }
+
+  private async loadSentReminderKinds(
+    consentIds: string[],
+  ): Promise<Map<string, Set<ConsentReminderKind>>> {
+    if (consentIds.length === 0) {
+      return new Map();
+    }
+
+    const client = this.getClientOrThrow();
+
+    const { data: reminderRows, error: reminderError } = await client
+      .from('parental_consent_reminders')
+      .select('consent_id, reminder_kind')
+      .in('consent_id', consentIds);
+
+    if (reminderError) {
+      throw new InternalServerErrorException(
+        'Failed to load sent consent reminders.',
+      );
+    }
+
+    const parsedReminderRows = z
+      .array(sentReminderRowSchema)
+      .safeParse(reminderRows ?? []);
+
+    if (!parsedReminderRows.success) {
+      throw new InternalServerErrorException(
+        'Consent reminder payload was invalid.',
+      );
+    }
+
+    const sentKindsByConsentId = new Map<string, Set<ConsentReminderKind>>();
+
+    for (const row of parsedReminderRows.data) {
+      const sentKinds =
+        sentKindsByConsentId.get(row.consent_id) ??
+        new Set<ConsentReminderKind>();
+      sentKinds.add(row.reminder_kind);
+      sentKindsByConsentId.set(row.consent_id, sentKinds);
+    }
+
+    return sentKindsByConsentId;
+  }
+
+  private async loadChildUsernames(
+    childUserIds: string[],
+  ): Promise<Map<string, string | null>> {
+    if (childUserIds.length === 0) {
+      return new Map();
+    }
+
+    const client = this.getClientOrThrow();
+
+    const { data: profileRows, error: profileError } = await client
+      .from('profiles')
+      .select('id, username')
+      .in('id', childUserIds);
+
+    if (profileError) {
+      throw new InternalServerErrorException('Failed to load child profiles.');
+    }
+
+    const parsedProfileRows = z
+      .array(childProfileRowSchema)
+      .safeParse(profileRows ?? []);
+
+    if (!parsedProfileRows.success) {
+      throw new InternalServerErrorException(
+        'Child profile payload was invalid.',
+      );
+    }
+
+    return new Map(
+      parsedProfileRows.data.map((profile) => [profile.id, profile.username]),
+    );
+  }
+
+  // The unique (consent_id, reminder_kind) key makes the insert a claim, so
+  // overlapping runs on several instances cannot both send the same notice.
+  private async claimReminder(
+    consent: ExpiringConsentRow,
+    reminderKind: ConsentReminderKind,
+    now: Date,
+  ): Promise<boolean> {
+    const client = this.getClientOrThrow();
+
+    const { data: claimedRows, error: claimError } = await client
+      .from('parental_consent_reminders')
+      .upsert(
+        {
+          consent_id: consent.id,
+          reminder_kind: reminderKind,
+          recipient_email: consent.parent_email,
+          sent_at: now.toISOString(),
+        },
+        { onConflict: 'consent_id,reminder_kind', ignoreDuplicates: true },
+      )
+      .select('consent_id');
+
+    if (claimError) {
+      throw new InternalServerErrorException(
+        'Failed to record consent reminder.',
+      );
+    }
+
+    return Array.isArray(claimedRows) && claimedRows.length > 0;
+  }
+
+  private async releaseReminder(
+    consentId: string,
+    reminderKind: ConsentReminderKind,
+  ): Promise<void> {
+    const client = this.getClientOrThrow();
+
+    const { error: deleteError } = await client
+      .from('parental_consent_reminders')
+      .delete()
+      .eq('consent_id', consentId)
+      .eq('reminder_kind', reminderKind);
+
+    if (deleteError) {
+      this.logger.error(
+        `Failed to release consent reminder ${reminderKind} for consent ${consentId}.`,
+      );
+    }
+  }
+
+  private getClientOrThrow() {
+    try {
+      return this.supabaseService.getServiceClient();
+    } catch {
+      throw new ServiceUnavailableException(
+        'Consent reminders are not configured yet. Set backend Supabase credentials.',
+      );
+    }
+  }
+}
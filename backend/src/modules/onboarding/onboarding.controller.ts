@@ -1,19 +1,47 @@
-import { Body, Controller, Post, Req, UseGuards } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import type { Request } from 'express';
 import {
   BearerAuthGuard,
   type AuthenticatedRequest,
 } from '../auth/bearer-auth.guard';
+import { RateLimit, RateLimitGuard } from '../rate-limit/rate-limit.guard';
 import {
   parseAgeGateInput,
   parseParentalAttestationInput,
+  parseParentConsentDecisionInput,
+  parseParentConsentEmailRequestInput,
+  parseParentConsentToken,
 } from './onboarding.schemas';
+import { ConsentPolicyService } from './consent-policy.service';
 import { OnboardingService } from './onboarding.service';
+import { ParentalConsentService } from './parental-consent.service';
 
 @Controller('v1/onboarding')
 export class OnboardingController {
-  constructor(private readonly onboardingService: OnboardingService) {}
+  constructor(
+    private readonly onboardingService: OnboardingService,
+    private readonly parentalConsentService: ParentalConsentService,
+    private readonly consentPolicyService: ConsentPolicyService,
+  ) {}
 
-  @UseGuards(BearerAuthGuard)
+  // Public so the consent screens can show the active wording before sign-in.
+  @Get('consent-policy')
+  getConsentPolicy() {
+    return {
+      data: this.consentPolicyService.getActivePolicy(),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard, RateLimitGuard)
+  @RateLimit('onboarding')
   @Post('age-gate')
   async submitAgeGate(
     @Body() payload: unknown,
@@ -29,13 +57,103 @@ export class OnboardingController {
     };
   }
 
-  @UseGuards(BearerAuthGuard)
+  @UseGuards(BearerAuthGuard, RateLimitGuard)
+  @RateLimit('onboarding')
   @Post('parental-attestation')
   async submitParentalAttestation(
     @Body() payload: unknown,
     @Req() request: AuthenticatedRequest,
   ) {
     const input = parseParentalAttestationInput(payload);
+
+    return {
+      data: await this.onboardingService.submitParentalAttestation(
+        request.authUser.id,
+        input,
+        this.getAttestationContext(request),
+      ),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard)
+  @Get('parental-consent')
+  async getParentalConsent(@Req() request: AuthenticatedRequest) {
+    return {
+      data: await this.parentalConsentService.getConsentState(
+        request.authUser.id,
+      ),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard, RateLimitGuard)
+  @RateLimit('onboarding')
+  @Post('parental-consent/renew')
+  async renewParentalConsent(
+    @Body() payload: unknown,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const input = parseParentalAttestationInput(payload);
+
+    return {
+      data: await this.onboardingService.renewParentalConsent(
+        request.authUser.id,
+        input,
+        this.getAttestationContext(request),
+      ),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard, RateLimitGuard)
+  @RateLimit('onboarding')
+  @Post('parent-consent')
+  async requestParentConsentEmail(
+    @Body() payload: unknown,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const input = parseParentConsentEmailRequestInput(payload);
+
+    return {
+      data: await this.onboardingService.requestParentConsentEmail(
+        request.authUser.id,
+        input,
+      ),
+    };
+  }
+
+  // The parent opens these from the emailed link without a TeachTok session;
+  // the signed token is the credential.
+  @UseGuards(RateLimitGuard)
+  @RateLimit('parent_consent_link')
+  @Get('parent-consent/:token')
+  async getParentConsentRequest(@Param('token') rawToken: string) {
+    const token = parseParentConsentToken(rawToken);
+
+    return {
+      data: await this.onboardingService.getParentConsentRequest(token),
+    };
+  }
+
+  @UseGuards(RateLimitGuard)
+  @RateLimit('parent_consent_link')
+  @Post('parent-consent/:token')
+  async respondToParentConsentRequest(
+    @Param('token') rawToken: string,
+    @Body() payload: unknown,
+    @Req() request: Request,
+  ) {
+    const token = parseParentConsentToken(rawToken);
+    const input = parseParentConsentDecisionInput(payload);
+
+    return {
+      data: await this.onboardingService.respondToParentConsentRequest(
+        token,
+        input,
+        this.getAttestationContext(request),
+      ),
+    };
+  }
+
+  private getAttestationContext(request: Request) {
     const forwardedForHeader = request.headers['x-forwarded-for'];
     const forwardedForIp =
       typeof forwardedForHeader === 'string'
@@ -47,15 +165,6 @@ export class OnboardingController {
     const userAgent =
       typeof userAgentHeader === 'string' ? userAgentHeader : null;
 
-    return {
-      data: await this.onboardingService.submitParentalAttestation(
-        request.authUser.id,
-        input,
-        {
-          ipAddress,
-          userAgent,
-        },
-      ),
-    };
+    return { ipAddress, userAgent };
   }
 }
@@ -1,11 +1,28 @@
 import { Module } from '@nestjs/common';
 import { BearerAuthGuard } from '../auth/bearer-auth.guard';
+import { MailModule } from '../mail/mail.module';
+import { CONSENT_POLICIES, CONSENT_POLICY_REGISTRY } from './consent-policies';
+import { ConsentPolicyService } from './consent-policy.service';
+import { ConsentRemindersService } from './consent-reminders.service';
 import { OnboardingController } from './onboarding.controller';
 import { OnboardingService } from './onboarding.service';
+import { ParentConsentTokensService } from './parent-consent-tokens.service';
+import { ParentalConsentGuard } from './parental-consent.guard';
+import { ParentalConsentService } from './parental-consent.service';
 
 @Module({
+  imports: [MailModule],
   controllers: [OnboardingController],
-  providers: [OnboardingService, BearerAuthGuard],
-  exports: [OnboardingService],
+  providers: [
+    OnboardingService,
+    ParentalConsentService,
+    ConsentPolicyService,
+    { provide: CONSENT_POLICY_REGISTRY, useValue: CONSENT_POLICIES },
+    ParentConsentTokensService,
+    ConsentRemindersService,
+    ParentalConsentGuard,
+    BearerAuthGuard,
+  ],
+  exports: [OnboardingService, ParentalConsentService, ParentalConsentGuard],
 })
 export class OnboardingModule {}
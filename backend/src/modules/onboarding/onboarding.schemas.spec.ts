@@ -3,6 +3,8 @@ import {
   calculateAgeInYears,
   parseAgeGateInput,
   parseParentalAttestationInput,
+  parseParentConsentDecisionInput,
+  parseParentConsentToken,
 } from './onboarding.schemas';
 
 describe('onboarding schemas', () => {
@@ -64,4 +66,38 @@ describe('onboarding schemas', () => {
       }),
     ).toThrow(BadRequestException);
   });
+
+  it('requires parent details only when a consent link is approved', () => {
+    expect(parseParentConsentDecisionInput({ decision: 'deny' })).toEqual({
+      decision: 'deny',
+    });
+
+    expect(() =>
+      parseParentConsentDecisionInput({ decision: 'approve' }),
+    ).toThrow(BadRequestException);
+
+    expect(
+      parseParentConsentDecisionInput({
+        decision: 'approve',
+        parentFullName: '  Pat Skater ',
+        relationshipToChild: 'Mother',
+        attestationAccepted: true,
+      }),
+    ).toEqual({
+      decision: 'approve',
+      parentFullName: 'Pat Skater',
+      relationshipToChild: 'Mother',
+      attestationAccepted: true,
+    });
+  });
+
+  it('rejects malformed parent consent tokens', () => {
+    expect(parseParentConsentToken('abc_DEF-1.sig_nature-2')).toBe(
+      'abc_DEF-1.sig_nature-2',
+    );
+    expect(() => parseParentConsentToken('no-dot')).toThrow(
+      BadRequestException,
+    );
+    expect(() => parseParentConsentToken('a.b.c')).toThrow(BadRequestException);
+  });
 });
@@ -20,32 +20,67 @@ const ageGateSchema = z.object({
     .transform((value) => value.toUpperCase()),
 });
 
+const parentEmailSchema = z
+  .string()
+  .trim()
+  .email('Enter a valid parent email address.')
+  .max(320)
+  .transform((value) => value.toLowerCase());
+
+const parentFullNameSchema = z
+  .string()
+  .trim()
+  .min(3, 'Parent full name must be at least 3 characters.')
+  .max(120, 'Parent full name must be at most 120 characters.');
+
+const relationshipToChildSchema = z
+  .string()
+  .trim()
+  .min(2, 'Relationship must be at least 2 characters.')
+  .max(60, 'Relationship must be at most 60 characters.');
+
+const attestationAcceptedSchema = z.boolean().refine((value) => value, {
+  message: 'Parental attestation must be accepted.',
+});
+
 const parentalAttestationSchema = z.object({
-  parentEmail: z
-    .string()
-    .trim()
-    .email('Enter a valid parent email address.')
-    .max(320)
-    .transform((value) => value.toLowerCase()),
-  parentFullName: z
-    .string()
-    .trim()
-    .min(3, 'Parent full name must be at least 3 characters.')
-    .max(120, 'Parent full name must be at most 120 characters.'),
-  relationshipToChild: z
-    .string()
-    .trim()
-    .min(2, 'Relationship must be at least 2 characters.')
-    .max(60, 'Relationship must be at most 60 characters.'),
-  attestationAccepted: z.boolean().refine((value) => value, {
-    message: 'Parental attestation must be accepted.',
-  }),
+  parentEmail: parentEmailSchema,
+  parentFullName: parentFullNameSchema,
+  relationshipToChild: relationshipToChildSchema,
+  attestationAccepted: attestationAcceptedSchema,
+});
+
+const parentConsentEmailRequestSchema = z.object({
+  parentEmail: parentEmailSchema,
 });
 
+const parentConsentTokenSchema = z
+  .string()
+  .max(512)
+  .regex(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+
+const parentConsentDecisionSchema = z.discriminatedUnion('decision', [
+  z.object({
+    decision: z.literal('approve'),
+    parentFullName: parentFullNameSchema,
+    relationshipToChild: relationshipToChildSchema,
+    attestationAccepted: attestationAcceptedSchema,
+  }),
+  z.object({
+    decision: z.literal('deny'),
+  }),
+]);
+
 export type AgeGateInput = z.infer<typeof ageGateSchema>;
 export type ParentalAttestationInput = z.infer<
   typeof parentalAttestationSchema
 >;
+export type ParentConsentEmailRequestInput = z.infer<
+  typeof parentConsentEmailRequestSchema
+>;
+export type ParentConsentDecisionInput = z.infer<
+  typeof parentConsentDecisionSchema
+>;
 
 export function parseAgeGateInput(payload: unknown): AgeGateInput {
   const parsed = ageGateSchema.safeParse(payload);
@@ -75,6 +110,46 @@ export function parseParentalAttestationInput(
   return parsed.data;
 }
 
+export function parseParentConsentEmailRequestInput(
+  payload: unknown,
+): ParentConsentEmailRequestInput {
+  const parsed = parentConsentEmailRequestSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    throw new BadRequestException({
+      message: 'Invalid parent consent request payload.',
+      errors: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  return parsed.data;
+}
+
+export function parseParentConsentToken(rawToken: string): string {
+  const parsed = parentConsentTokenSchema.safeParse(rawToken);
+
+  if (!parsed.success) {
+    throw new BadRequestException('Parent consent link is invalid.');
+  }
+
+  return parsed.data;
+}
+
+export function parseParentConsentDecisionInput(
+  payload: unknown,
+): ParentConsentDecisionInput {
+  const parsed = parentConsentDecisionSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    throw new BadRequestException({
+      message: 'Invalid parent consent decision payload.',
+      errors: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  return parsed.data;
+}
+
 export function calculateAgeInYears(
   birthdate: Date,
   asOf: Date = new Date(),
@@ -1,19 +1,31 @@
 import {
   BadRequestException,
+  ConflictException,
+  ForbiddenException,
   Injectable,
   InternalServerErrorException,
   NotFoundException,
   ServiceUnavailableException,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'node:crypto';
 import { isIP } from 'node:net';
 import { z } from 'zod';
+import { MailService } from '../mail/mail.service';
 import { SupabaseService } from '../supabase/supabase.service';
+import { ConsentPolicyService } from './consent-policy.service';
 import {
   calculateAgeInYears,
   type AgeGateInput,
   type ParentalAttestationInput,
+  type ParentConsentDecisionInput,
+  type ParentConsentEmailRequestInput,
 } from './onboarding.schemas';
+import { ParentConsentTokensService } from './parent-consent-tokens.service';
+import {
+  ParentalConsentService,
+  type ParentalConsentRow,
+} from './parental-consent.service';
 
 export type AgeGateResult = {
   userId: string;
@@ -32,13 +44,40 @@ export type ParentalAttestationResult = {
   policyVersion: string;
 };
 
+export type ParentConsentEmailRequestResult = {
+  consentId: string;
+  childUserId: string;
+  consentStatus: 'pending';
+  consentMethod: 'email_verification';
+  parentEmail: string;
+  tokenExpiresAt: string;
+  policyVersion: string;
+};
+
+export type ParentConsentRequestReview = {
+  consentId: string;
+  childUsername: string | null;
+  parentEmail: string;
+  consentStatus: ParentalConsentRow['consent_status'];
+  tokenExpiresAt: string | null;
+  policyVersion: string;
+  consentText: string;
+};
+
+export type ParentConsentDecisionResult = {
+  consentId: string;
+  consentStatus: 'approved' | 'rejected';
+  approvedAt: string | null;
+  expiresAt: string | null;
+};
+
 type ParentalAttestationContext = {
   ipAddress: string | null;
   userAgent: string | null;
 };
 
-const INTERIM_PARENTAL_ATTESTATION_TEXT =
-  "By checking this box and typing my full legal name, I certify that I am the child's legal parent or guardian and I consent to the child's use of TeachTok under these Terms and Privacy Policy.";
+const INVALID_PARENT_CONSENT_LINK_MESSAGE =
+  'Parent consent link is invalid or has expired.';
 
 const storedParentalConsentSchema = z.object({
   id: z.string().uuid(),
@@ -55,6 +94,10 @@ export class OnboardingService {
   constructor(
     private readonly supabaseService: SupabaseService,
     private readonly configService: ConfigService,
+    private readonly parentalConsentService: ParentalConsentService,
+    private readonly parentConsentTokensService: ParentConsentTokensService,
+    private readonly mailService: MailService,
+    private readonly consentPolicyService: ConsentPolicyService,
   ) {}
 
   async submitAgeGate(
@@ -121,6 +164,290 @@ export class OnboardingService {
     input: ParentalAttestationInput,
     context: ParentalAttestationContext,
   ): Promise<ParentalAttestationResult> {
+    await this.assertUnder13AgeGate(userId);
+
+    const consentState =
+      await this.parentalConsentService.getConsentState(userId);
+
+    // A parent's revocation or denial cannot be undone from the child's
+    // account.
+    if (consentState.status === 'revoked') {
+      throw new ForbiddenException(
+        'Parental consent was revoked by a parent and cannot be re-attested from this account.',
+      );
+    }
+
+    if (consentState.consent?.consentStatus === 'rejected') {
+      throw new ForbiddenException(
+        'Parental consent was denied by a parent and cannot be attested from this account.',
+      );
+    }
+
+    return this.recordParentalAttestation(userId, input, context);
+  }
+
+  // Records a fresh attestation against the current policy version once the
+  // previous consent has expired, is close to expiring, or predates a policy
+  // change that requires re-consent.
+  async renewParentalConsent(
+    userId: string,
+    input: ParentalAttestationInput,
+    context: ParentalAttestationContext,
+  ): Promise<ParentalAttestationResult> {
+    const consentState =
+      await this.parentalConsentService.getConsentState(userId);
+
+    if (!consentState.requiresParentalConsent) {
+      throw new BadRequestException(
+        'Parental consent is only required for under-13 users.',
+      );
+    }
+
+    if (consentState.status === 'revoked') {
+      throw new ForbiddenException(
+        'Parental consent was revoked by a parent and cannot be renewed from this account.',
+      );
+    }
+
+    if (consentState.consent?.consentStatus === 'rejected') {
+      throw new ForbiddenException(
+        'Parental consent was denied by a parent and cannot be renewed from this account.',
+      );
+    }
+
+    if (
+      consentState.status !== 'approved' &&
+      consentState.status !== 'expired' &&
+      consentState.status !== 'reconsent_required'
+    ) {
+      throw new ConflictException(
+        'There is no parental consent on file to renew. Submit a parental attestation first.',
+      );
+    }
+
+    return this.recordParentalAttestation(userId, input, context);
+  }
+
+  // Creates a pending consent and mails the parent a signed approval link.
+  async requestParentConsentEmail(
+    userId: string,
+    input: ParentConsentEmailRequestInput,
+  ): Promise<ParentConsentEmailRequestResult> {
+    await this.assertUnder13AgeGate(userId);
+
+    if (!this.parentConsentTokensService.isConfigured()) {
+      throw new ServiceUnavailableException(
+        'Parent consent email links are not configured. Set PARENT_CONSENT_TOKEN_SECRET.',
+      );
+    }
+
+    const consentState =
+      await this.parentalConsentService.getConsentState(userId);
+
+    if (consentState.status === 'revoked') {
+      throw new ForbiddenException(
+        'Parental consent was revoked by a parent and cannot be re-requested from this account.',
+      );
+    }
+
+    if (consentState.status === 'approved') {
+      throw new ConflictException('Parental consent is already approved.');
+    }
+
+    await this.parentalConsentService.expirePendingConsents(userId);
+
+    const client = this.getClientOrThrow();
+    const consentId = randomUUID();
+    const issuedToken = this.parentConsentTokensService.issueToken(consentId);
+    const policyVersion = this.consentPolicyService.getActivePolicy().version;
+
+    const { error: insertError } = await client
+      .from('parental_consents')
+      .insert({
+        id: consentId,
+        child_user_id: userId,
+        parent_email: input.parentEmail,
+        consent_status: 'pending',
+        policy_version: policyVersion,
+        consent_method: 'email_verification',
+        token_hash: issuedToken.tokenHash,
+        token_expires_at: issuedToken.expiresAt.toISOString(),
+      });
+
+    if (insertError) {
+      throw new InternalServerErrorException(
+        'Failed to store parent consent request.',
+      );
+    }
+
+    const consentLinkBaseUrl =
+      this.configService.get<string>('PARENT_CONSENT_LINK_BASE_URL') ??
+      'http://localhost:3000/parent-consent';
+
+    try {
+      await this.mailService.send({
+        to: input.parentEmail,
+        subject: 'Your child is asking to join TeachTok',
+        text: [
+          'Hello,',
+          '',
+          'A child who listed you as their parent or guardian signed up for TeachTok, a short-video learning app.',
+          'Because they are under 13, we need your consent before they can watch videos.',
+          '',
+          'Review the request and approve or deny it here:',
+          `${consentLinkBaseUrl.replace(/\/+$/, '')}/${issuedToken.token}`,
+          '',
+          `This link expires on ${issuedToken.expiresAt.toUTCString()}.`,
+          'If you did not expect this email, you can ignore it or use the link to deny the request.',
+        ].join('\n'),
+      });
+    } catch {
+      await this.parentalConsentService.expirePendingConsents(userId);
+
+      throw new ServiceUnavailableException(
+        'Parent consent email could not be sent. Try again shortly.',
+      );
+    }
+
+    return {
+      consentId,
+      childUserId: userId,
+      consentStatus: 'pending',
+      consentMethod: 'email_verification',
+      parentEmail: input.parentEmail,
+      tokenExpiresAt: issuedToken.expiresAt.toISOString(),
+      policyVersion,
+    };
+  }
+
+  async getParentConsentRequest(
+    token: string,
+  ): Promise<ParentConsentRequestReview> {
+    const consent = await this.getConsentForTokenOrThrow(token);
+    const activePolicy = this.consentPolicyService.getActivePolicy();
+    const client = this.getClientOrThrow();
+
+    const { data: childProfile, error: childProfileError } = await client
+      .from('profiles')
+      .select('username')
+      .eq('id', consent.child_user_id)
+      .maybeSingle();
+
+    if (childProfileError) {
+      throw new InternalServerErrorException('Failed to load child profile.');
+    }
+
+    const parsedChildProfile = z
+      .object({ username: z.string().nullable() })
+      .nullable()
+      .safeParse(childProfile);
+
+    if (!parsedChildProfile.success) {
+      throw new InternalServerErrorException(
+        'Child profile payload was invalid.',
+      );
+    }
+
+    return {
+      consentId: consent.id,
+      childUsername: parsedChildProfile.data?.username ?? null,
+      parentEmail: consent.parent_email,
+      consentStatus: consent.consent_status,
+      tokenExpiresAt: consent.token_expires_at,
+      // The parent approves whichever policy is active when they respond.
+      policyVersion: activePolicy.version,
+      consentText: activePolicy.emailConsentText,
+    };
+  }
+
+  async respondToParentConsentRequest(
+    token: string,
+    input: ParentConsentDecisionInput,
+    context: ParentalAttestationContext,
+  ): Promise<ParentConsentDecisionResult> {
+    const consent = await this.getConsentForTokenOrThrow(token);
+
+    if (consent.consent_status !== 'pending') {
+      throw new ConflictException(
+        'This parent consent request has already been answered or replaced.',
+      );
+    }
+
+    const now = new Date();
+    const activePolicy = this.consentPolicyService.getActivePolicy();
+    const decisionContext = {
+      ip_address: this.normalizeIpAddress(context.ipAddress),
+      user_agent: context.userAgent,
+    };
+
+    const updatedConsent =
+      input.decision === 'approve'
+        ? await this.parentalConsentService.transitionConsent(
+            consent,
+            'approved',
+            {
+              ...decisionContext,
+              parent_full_name: input.parentFullName,
+              relationship_to_child: input.relationshipToChild,
+              approved_at: now.toISOString(),
+              expires_at: this.getConsentExpiry(now).toISOString(),
+              policy_version: activePolicy.version,
+              attestation_text: activePolicy.emailConsentText,
+              attested_at: now.toISOString(),
+            },
+          )
+        : await this.parentalConsentService.transitionConsent(
+            consent,
+            'rejected',
+            {
+              ...decisionContext,
+              rejected_at: now.toISOString(),
+            },
+          );
+
+    if (
+      updatedConsent.consent_status !== 'approved' &&
+      updatedConsent.consent_status !== 'rejected'
+    ) {
+      throw new ConflictException(
+        'This parent consent request has already been answered or replaced.',
+      );
+    }
+
+    return {
+      consentId: updatedConsent.id,
+      consentStatus: updatedConsent.consent_status,
+      approvedAt: updatedConsent.approved_at,
+      expiresAt: updatedConsent.expires_at,
+    };
+  }
+
+  private async getConsentForTokenOrThrow(
+    token: string,
+  ): Promise<ParentalConsentRow> {
+    const verifiedToken = this.parentConsentTokensService.verifyToken(token);
+
+    if (!verifiedToken) {
+      throw new BadRequestException(INVALID_PARENT_CONSENT_LINK_MESSAGE);
+    }
+
+    const consent = await this.parentalConsentService.findConsentById(
+      verifiedToken.consentId,
+    );
+
+    // Matching the stored hash rejects links from superseded requests.
+    if (
+      !consent ||
+      consent.consent_method !== 'email_verification' ||
+      consent.token_hash !== verifiedToken.tokenHash
+    ) {
+      throw new BadRequestException(INVALID_PARENT_CONSENT_LINK_MESSAGE);
+    }
+
+    return consent;
+  }
+
+  private async assertUnder13AgeGate(userId: string): Promise<void> {
     const client = this.getClientOrThrow();
 
     const { data: ageGate, error: ageGateError } = await client
@@ -146,13 +473,25 @@ export class OnboardingService {
         'Parental consent is only required for under-13 users.',
       );
     }
+  }
 
-    const now = new Date();
+  private getConsentExpiry(now: Date): Date {
     const expiresAt = new Date(now);
     expiresAt.setUTCFullYear(now.getUTCFullYear() + 1);
 
-    const policyVersion =
-      this.configService.get<string>('CONSENT_POLICY_VERSION') ?? 'v1';
+    return expiresAt;
+  }
+
+  private async recordParentalAttestation(
+    userId: string,
+    input: ParentalAttestationInput,
+    context: ParentalAttestationContext,
+  ): Promise<ParentalAttestationResult> {
+    const client = this.getClientOrThrow();
+    const now = new Date();
+    const expiresAt = this.getConsentExpiry(now);
+
+    const activePolicy = this.consentPolicyService.getActivePolicy();
 
     const { data: consent, error: consentError } = await client
       .from('parental_consents')
@@ -164,11 +503,11 @@ export class OnboardingService {
         consent_status: 'approved',
         approved_at: now.toISOString(),
         expires_at: expiresAt.toISOString(),
-        policy_version: policyVersion,
+        policy_version: activePolicy.version,
         ip_address: this.normalizeIpAddress(context.ipAddress),
         user_agent: context.userAgent,
         consent_method: 'interim_attestation',
-        attestation_text: INTERIM_PARENTAL_ATTESTATION_TEXT,
+        attestation_text: activePolicy.attestationText,
         attested_at: now.toISOString(),
       })
       .select(
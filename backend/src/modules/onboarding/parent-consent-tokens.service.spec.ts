@@ -0,0 +1,64 @@
+import { ServiceUnavailableException } from '@nestjs/common';
+import { ParentConsentTokensService } from './parent-consent-tokens.service';
+
+describe('ParentConsentTokensService', () => {
+  const consentId = '11111111-1111-4111-8111-111111111111';
+  const issuedAt = new Date('2026-03-01T12:00:00.000Z');
+
+  const createService = (config: Record<string, string | number>) =>
+    new ParentConsentTokensService({
+      get: (key: string) => config[key],
+    } as never);
+
+  const service = createService({
+    PARENT_CONSENT_TOKEN_SECRET: 'a'.repeat(32),
+    PARENT_CONSENT_TOKEN_TTL_HOURS: 24,
+  });
+
+  it('issues tokens that verify back to the consent until they expire', () => {
+    const issued = service.issueToken(consentId, issuedAt);
+
+    expect(issued.expiresAt.toISOString()).toBe('2026-03-02T12:00:00.000Z');
+    expect(issued.tokenHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(
+      service.verifyToken(issued.token, new Date('2026-03-02T11:59:59.000Z')),
+    ).toEqual({
+      consentId,
+      tokenHash: issued.tokenHash,
+      expiresAt: issued.expiresAt,
+    });
+    expect(
+      service.verifyToken(issued.token, new Date('2026-03-02T12:00:00.000Z')),
+    ).toBeNull();
+  });
+
+  it('rejects tampered tokens and tokens signed with another secret', () => {
+    const { token } = service.issueToken(consentId, issuedAt);
+    const [payload, signature] = token.split('.');
+    const forgedPayload = Buffer.from(
+      JSON.stringify({
+        cid: '22222222-2222-4222-8222-222222222222',
+        exp: 4102444800,
+      }),
+    ).toString('base64url');
+    const otherService = createService({
+      PARENT_CONSENT_TOKEN_SECRET: 'b'.repeat(32),
+    });
+
+    expect(
+      service.verifyToken(`${forgedPayload}.${signature}`, issuedAt),
+    ).toBeNull();
+    expect(service.verifyToken(`${payload}.`, issuedAt)).toBeNull();
+    expect(service.verifyToken('not-a-token', issuedAt)).toBeNull();
+    expect(otherService.verifyToken(token, issuedAt)).toBeNull();
+  });
+
+  it('reports missing signing secrets as unavailable', () => {
+    const unconfiguredService = createService({});
+
+    expect(unconfiguredService.isConfigured()).toBe(false);
+    expect(() => unconfiguredService.issueToken(consentId)).toThrow(
+      ServiceUnavailableException,
+    );
+  });
+});
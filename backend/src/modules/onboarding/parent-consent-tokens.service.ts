@@ -0,0 +1,134 @@
+import { Injectable, ServiceUnavailableException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+
+const parentConsentTokenPayloadSchema = z.object({
+  cid: z.string().uuid(),
+  exp: z.number().int().positive(),
+});
+
+export type IssuedParentConsentToken = {
+  token: string;
+  tokenHash: string;
+  expiresAt: Date;
+};
+
+export type VerifiedParentConsentToken = {
+  consentId: string;
+  tokenHash: string;
+  expiresAt: Date;
+};
+
+// Parent consent links carry `<payload>.<hmac>`; only the SHA-256 hash of the
+// full token is stored so a leaked table row cannot be replayed as a link.
+@Injectable()
+export class ParentConsentTokensService {
+  constructor(private readonly configService: ConfigService) {}
+
+  isConfigured(): boolean {
+    return Boolean(
+      this.configService.get<string>('PARENT_CONSENT_TOKEN_SECRET'),
+    );
+  }
+
+  issueToken(
+    consentId: string,
+    now: Date = new Date(),
+  ): IssuedParentConsentToken {
+    const expiresAt = new Date(
+      now.getTime() + this.getTokenTtlHours() * 60 * 60 * 1000,
+    );
+    const encodedPayload = Buffer.from(
+      JSON.stringify({
+        cid: consentId,
+        exp: Math.floor(expiresAt.getTime() / 1000),
+      }),
+      'utf8',
+    ).toString('base64url');
+    const token = `${encodedPayload}.${this.sign(encodedPayload)}`;
+
+    return { token, tokenHash: this.hashToken(token), expiresAt };
+  }
+
+  // Returns null for tampered, malformed, or expired tokens.
+  verifyToken(
+    token: string,
+    now: Date = new Date(),
+  ): VerifiedParentConsentToken | null {
+    const [encodedPayload, signature, ...rest] = token.split('.');
+
+    if (!encodedPayload || !signature || rest.length > 0) {
+      return null;
+    }
+
+    const expectedSignature = Buffer.from(this.sign(encodedPayload));
+    const providedSignature = Buffer.from(signature);
+
+    if (
+      expectedSignature.length !== providedSignature.length ||
+      !timingSafeEqual(expectedSignature, providedSignature)
+    ) {
+      return null;
+    }
+
+    let decodedPayload: unknown;
+
+    try {
+      decodedPayload = JSON.parse(
+        Buffer.from(encodedPayload, 'base64url').toString('utf8'),
+      );
+    } catch {
+      return null;
+    }
+
+    const parsedPayload =
+      parentConsentTokenPayloadSchema.safeParse(decodedPayload);
+
+    if (!parsedPayload.success) {
+      return null;
+    }
+
+    const expiresAt = new Date(parsedPayload.data.exp * 1000);
+
+    if (expiresAt.getTime() <= now.getTime()) {
+      return null;
+    }
+
+    return {
+      consentId: parsedPayload.data.cid,
+      tokenHash: this.hashToken(token),
+      expiresAt,
+    };
+  }
+
+  private sign(encodedPayload: string): string {
+    return createHmac('sha256', this.getSecretOrThrow())
+      .update(encodedPayload)
+      .digest('base64url');
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private getTokenTtlHours(): number {
+    return (
+      this.configService.get<number>('PARENT_CONSENT_TOKEN_TTL_HOURS') ?? 72
+    );
+  }
+
+  private getSecretOrThrow(): string {
+    const secret = this.configService.get<string>(
+      'PARENT_CONSENT_TOKEN_SECRET',
+    );
+
+    if (!secret) {
+      throw new ServiceUnavailableException(
+        'Parent consent email links are not configured. Set PARENT_CONSENT_TOKEN_SECRET.',
+      );
+    }
+
+    return secret;
+  }
+}
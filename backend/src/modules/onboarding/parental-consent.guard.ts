@@ -0,0 +1,39 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import type { AuthenticatedRequest } from '../auth/bearer-auth.guard';
+import { ParentalConsentService } from './parental-consent.service';
+
+// Runs after BearerAuthGuard; under-13 learners need an approved, unexpired
+// parental consent to reach guarded routes.
+@Injectable()
+export class ParentalConsentGuard implements CanActivate {
+  constructor(
+    private readonly parentalConsentService: ParentalConsentService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const consentState = await this.parentalConsentService.getConsentState(
+      request.authUser.id,
+    );
+
+    if (consentState.accessMode !== 'full') {
+      throw new ForbiddenException({
+        message:
+          consentState.status === 'reconsent_required'
+            ? 'The parental consent policy has changed. Ask a parent to renew consent to keep watching.'
+            : consentState.accessMode === 'consent_expired_limited'
+              ? 'Parental consent has expired or was revoked. Ask a parent to renew consent to keep watching.'
+              : 'Parental consent is required before this account can watch videos.',
+        consentStatus: consentState.status,
+        accessMode: consentState.accessMode,
+      });
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,538 @@
+import {
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { z } from 'zod';
+import { SupabaseService } from '../supabase/supabase.service';
+import { ConsentPolicyService } from './consent-policy.service';
+import { calculateAgeInYears } from './onboarding.schemas';
+
+const storedConsentStatusSchema = z.enum([
+  'pending',
+  'approved',
+  'rejected',
+  'expired',
+  'revoked',
+]);
+
+type StoredConsentStatus = z.infer<typeof storedConsentStatusSchema>;
+
+const parentalConsentRowSchema = z.object({
+  id: z.string().uuid(),
+  child_user_id: z.string().uuid(),
+  parent_email: z.string(),
+  parent_full_name: z.string().nullable(),
+  relationship_to_child: z.string().nullable(),
+  consent_status: storedConsentStatusSchema,
+  consent_method: z.enum(['email_verification', 'interim_attestation']),
+  approved_at: z.string().nullable(),
+  expires_at: z.string().nullable(),
+  revoked_at: z.string().nullable(),
+  token_hash: z.string().nullable(),
+  token_expires_at: z.string().nullable(),
+  policy_version: z.string(),
+  created_at: z.string(),
+});
+
+export type ParentalConsentRow = z.infer<typeof parentalConsentRowSchema>;
+
+const ageGateRowSchema = z.object({
+  birthdate: z.string(),
+});
+
+const userAgeGateRowSchema = ageGateRowSchema.extend({
+  user_id: z.string().uuid(),
+});
+
+const PARENTAL_CONSENT_COLUMNS =
+  'id, child_user_id, parent_email, parent_full_name, relationship_to_child, consent_status, consent_method, approved_at, expires_at, revoked_at, token_hash, token_expires_at, policy_version, created_at';
+
+// A renewal records a new consent row, so only revocation follows expiry.
+const ALLOWED_CONSENT_TRANSITIONS: Record<
+  StoredConsentStatus,
+  StoredConsentStatus[]
+> = {
+  pending: ['approved', 'rejected', 'expired', 'revoked'],
+  approved: ['expired', 'revoked'],
+  rejected: [],
+  expired: ['revoked'],
+  revoked: [],
+};
+
+export type ParentalConsentStatus =
+  | 'not_required'
+  | 'missing'
+  | 'pending'
+  | 'approved'
+  | 'reconsent_required'
+  | 'expired'
+  | 'revoked';
+
+export type ParentalConsentAccessMode =
+  | 'full'
+  | 'pending_parent_consent'
+  | 'consent_expired_limited';
+
+export type ParentalConsentSummary = {
+  consentId: string;
+  consentStatus: StoredConsentStatus;
+  consentMethod: ParentalConsentRow['consent_method'];
+  approvedAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  policyVersion: string;
+  createdAt: string;
+};
+
+export type ParentalConsentHistoryEntry = ParentalConsentSummary & {
+  parentEmail: string;
+  parentFullName: string | null;
+  relationshipToChild: string | null;
+};
+
+export type ParentalConsentState = {
+  childUserId: string;
+  requiresParentalConsent: boolean;
+  status: ParentalConsentStatus;
+  accessMode: ParentalConsentAccessMode;
+  consent: ParentalConsentSummary | null;
+};
+
+@Injectable()
+export class ParentalConsentService {
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly consentPolicyService: ConsentPolicyService,
+  ) {}
+
+  // Resolves the learner's current consent state, expiring the latest consent
+  // in storage once its deadline has passed.
+  async getConsentState(
+    childUserId: string,
+    now: Date = new Date(),
+  ): Promise<ParentalConsentState> {
+    const requiresParentalConsent = await this.isUnder13(childUserId, now);
+
+    if (!requiresParentalConsent) {
+      return {
+        childUserId,
+        requiresParentalConsent,
+        status: 'not_required',
+        accessMode: 'full',
+        consent: null,
+      };
+    }
+
+    let latestConsent = await this.getLatestConsent(childUserId);
+
+    if (latestConsent && this.isPastDeadline(latestConsent, now)) {
+      latestConsent = await this.transitionConsent(latestConsent, 'expired');
+    }
+
+    return this.buildConsentState(childUserId, latestConsent, now);
+  }
+
+  // Read-only variant for listing many accounts at once: lapsed consents are
+  // reported as expired without being transitioned in storage.
+  async describeConsentStates(
+    userIds: string[],
+    now: Date = new Date(),
+  ): Promise<Map<string, ParentalConsentState>> {
+    const states = new Map<string, ParentalConsentState>();
+
+    if (userIds.length === 0) {
+      return states;
+    }
+
+    const client = this.getClientOrThrow();
+
+    const { data: ageGateRows, error: ageGateError } = await client
+      .from('age_gates')
+      .select('user_id, birthdate')
+      .in('user_id', userIds);
+
+    if (ageGateError) {
+      throw new InternalServerErrorException(
+        'Failed to verify age-gate records.',
+      );
+    }
+
+    const parsedAgeGateRows = z
+      .array(userAgeGateRowSchema)
+      .safeParse(ageGateRows ?? []);
+
+    if (!parsedAgeGateRows.success) {
+      throw new InternalServerErrorException('Age-gate payload was invalid.');
+    }
+
+    const under13UserIds = new Set(
+      parsedAgeGateRows.data
+        .filter(
+          (row) =>
+            calculateAgeInYears(new Date(`${row.birthdate}T00:00:00Z`), now) <
+            13,
+        )
+        .map((row) => row.user_id),
+    );
+    const latestConsentByChildId = new Map<string, ParentalConsentRow>();
+
+    for (const consent of await this.listConsentRows(
+      Array.from(under13UserIds),
+    )) {
+      if (!latestConsentByChildId.has(consent.child_user_id)) {
+        latestConsentByChildId.set(consent.child_user_id, consent);
+      }
+    }
+
+    for (const userId of userIds) {
+      if (!under13UserIds.has(userId)) {
+        states.set(userId, {
+          childUserId: userId,
+          requiresParentalConsent: false,
+          status: 'not_required',
+          accessMode: 'full',
+          consent: null,
+        });
+        continue;
+      }
+
+      const latestConsent = latestConsentByChildId.get(userId) ?? null;
+
+      states.set(
+        userId,
+        this.buildConsentState(
+          userId,
+          latestConsent && this.isPastDeadline(latestConsent, now)
+            ? { ...latestConsent, consent_status: 'expired' }
+            : latestConsent,
+          now,
+        ),
+      );
+    }
+
+    return states;
+  }
+
+  async listConsentHistory(
+    childUserId: string,
+  ): Promise<ParentalConsentHistoryEntry[]> {
+    const consentRows = await this.listConsentRows([childUserId]);
+
+    return consentRows.map((row) => ({
+      ...this.mapConsentSummary(row),
+      parentEmail: row.parent_email,
+      parentFullName: row.parent_full_name,
+      relationshipToChild: row.relationship_to_child,
+    }));
+  }
+
+  async revokeConsent(childUserId: string): Promise<ParentalConsentState> {
+    const latestConsent = await this.getLatestConsent(childUserId);
+
+    if (!latestConsent) {
+      throw new ConflictException(
+        'There is no parental consent on file to revoke.',
+      );
+    }
+
+    await this.transitionConsent(latestConsent, 'revoked');
+
+    return this.getConsentState(childUserId);
+  }
+
+  async findConsentById(consentId: string): Promise<ParentalConsentRow | null> {
+    const client = this.getClientOrThrow();
+
+    const { data: consent, error: consentError } = await client
+      .from('parental_consents')
+      .select(PARENTAL_CONSENT_COLUMNS)
+      .eq('id', consentId)
+      .maybeSingle();
+
+    if (consentError) {
+      throw new InternalServerErrorException(
+        'Failed to load parental consent.',
+      );
+    }
+
+    if (!consent) {
+      return null;
+    }
+
+    const parsedConsent = parentalConsentRowSchema.safeParse(consent);
+
+    if (!parsedConsent.success) {
+      throw new InternalServerErrorException(
+        'Parental consent payload was invalid.',
+      );
+    }
+
+    return parsedConsent.data;
+  }
+
+  // Retires outstanding email requests so only the newest link can approve.
+  async expirePendingConsents(childUserId: string): Promise<void> {
+    const client = this.getClientOrThrow();
+
+    const { error: updateError } = await client
+      .from('parental_consents')
+      .update({ consent_status: 'expired' })
+      .eq('child_user_id', childUserId)
+      .eq('consent_status', 'pending');
+
+    if (updateError) {
+      throw new InternalServerErrorException(
+        'Failed to retire pending parental consent requests.',
+      );
+    }
+  }
+
+  async transitionConsent(
+    consent: ParentalConsentRow,
+    nextStatus: StoredConsentStatus,
+    details: Record<string, string | null> = {},
+  ): Promise<ParentalConsentRow> {
+    if (
+      !ALLOWED_CONSENT_TRANSITIONS[consent.consent_status].includes(nextStatus)
+    ) {
+      throw new ConflictException(
+        `Parental consent cannot move from ${consent.consent_status} to ${nextStatus}.`,
+      );
+    }
+
+    const client = this.getClientOrThrow();
+    const patch: Record<string, string | null> = {
+      ...details,
+      consent_status: nextStatus,
+    };
+
+    if (nextStatus === 'revoked') {
+      patch.revoked_at = new Date().toISOString();
+    }
+
+    // Matching on the previous status keeps concurrent transitions from
+    // overwriting each other.
+    const { data: updatedRow, error: updateError } = await client
+      .from('parental_consents')
+      .update(patch)
+      .eq('id', consent.id)
+      .eq('consent_status', consent.consent_status)
+      .select(PARENTAL_CONSENT_COLUMNS)
+      .maybeSingle();
+
+    if (updateError) {
+      throw new InternalServerErrorException(
+        'Failed to update parental consent status.',
+      );
+    }
+
+    // Another request moved the row first; report its current state.
+    if (!updatedRow) {
+      const refreshedConsent = await this.findConsentById(consent.id);
+
+      if (!refreshedConsent) {
+        throw new InternalServerErrorException(
+          'Parental consent disappeared during status update.',
+        );
+      }
+
+      return refreshedConsent;
+    }
+
+    const parsedRow = parentalConsentRowSchema.safeParse(updatedRow);
+
+    if (!parsedRow.success) {
+      throw new InternalServerErrorException(
+        'Updated parental consent payload was invalid.',
+      );
+    }
+
+    return parsedRow.data;
+  }
+
+  private buildConsentState(
+    childUserId: string,
+    latestConsent: ParentalConsentRow | null,
+    now: Date,
+  ): ParentalConsentState {
+    const status = this.toConsentStatus(latestConsent, now);
+
+    return {
+      childUserId,
+      requiresParentalConsent: true,
+      status,
+      accessMode:
+        status === 'approved'
+          ? 'full'
+          : status === 'expired' ||
+              status === 'revoked' ||
+              status === 'reconsent_required'
+            ? 'consent_expired_limited'
+            : 'pending_parent_consent',
+      consent: latestConsent ? this.mapConsentSummary(latestConsent) : null,
+    };
+  }
+
+  private isPastDeadline(consent: ParentalConsentRow, now: Date): boolean {
+    if (consent.consent_status === 'approved') {
+      return (
+        consent.expires_at !== null &&
+        Date.parse(consent.expires_at) <= now.getTime()
+      );
+    }
+
+    if (consent.consent_status === 'pending') {
+      return (
+        consent.token_expires_at !== null &&
+        Date.parse(consent.token_expires_at) <= now.getTime()
+      );
+    }
+
+    return false;
+  }
+
+  private toConsentStatus(
+    consent: ParentalConsentRow | null,
+    now: Date,
+  ): ParentalConsentStatus {
+    if (!consent || consent.consent_status === 'rejected') {
+      return 'missing';
+    }
+
+    // Approval under a superseded policy stays on file but no longer grants
+    // full access.
+    if (
+      consent.consent_status === 'approved' &&
+      this.consentPolicyService.requiresReconsent(consent.policy_version, now)
+    ) {
+      return 'reconsent_required';
+    }
+
+    return consent.consent_status;
+  }
+
+  private async isUnder13(userId: string, now: Date): Promise<boolean> {
+    const client = this.getClientOrThrow();
+
+    const { data: ageGate, error: ageGateError } = await client
+      .from('age_gates')
+      .select('birthdate')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (ageGateError) {
+      throw new InternalServerErrorException(
+        'Failed to verify age-gate record.',
+      );
+    }
+
+    // Accounts without an age gate never entered the under-13 flow.
+    if (!ageGate) {
+      return false;
+    }
+
+    const parsedAgeGate = ageGateRowSchema.safeParse(ageGate);
+
+    if (!parsedAgeGate.success) {
+      throw new InternalServerErrorException('Age-gate payload was invalid.');
+    }
+
+    return (
+      calculateAgeInYears(
+        new Date(`${parsedAgeGate.data.birthdate}T00:00:00Z`),
+        now,
+      ) < 13
+    );
+  }
+
+  private async getLatestConsent(
+    childUserId: string,
+  ): Promise<ParentalConsentRow | null> {
+    const client = this.getClientOrThrow();
+
+    const { data: consentRows, error: consentError } = await client
+      .from('parental_consents')
+      .select(PARENTAL_CONSENT_COLUMNS)
+      .eq('child_user_id', childUserId)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (consentError) {
+      throw new InternalServerErrorException(
+        'Failed to load parental consent.',
+      );
+    }
+
+    const parsedConsentRows = z
+      .array(parentalConsentRowSchema)
+      .safeParse(consentRows ?? []);
+
+    if (!parsedConsentRows.success) {
+      throw new InternalServerErrorException(
+        'Parental consent payload was invalid.',
+      );
+    }
+
+    return parsedConsentRows.data[0] ?? null;
+  }
+
+  // Newest first per child.
+  private async listConsentRows(
+    childUserIds: string[],
+  ): Promise<ParentalConsentRow[]> {
+    if (childUserIds.length === 0) {
+      return [];
+    }
+
+    const client = this.getClientOrThrow();
+
+    const { data: consentRows, error: consentError } = await client
+      .from('parental_consents')
+      .select(PARENTAL_CONSENT_COLUMNS)
+      .in('child_user_id', childUserIds)
+      .order('created_at', { ascending: false });
+
+    if (consentError) {
+      throw new InternalServerErrorException(
+        'Failed to load parental consents.',
+      );
+    }
+
+    const parsedConsentRows = z
+      .array(parentalConsentRowSchema)
+      .safeParse(consentRows ?? []);
+
+    if (!parsedConsentRows.success) {
+      throw new InternalServerErrorException(
+        'Parental consent payload was invalid.',
+      );
+    }
+
+    return parsedConsentRows.data;
+  }
+
+  private mapConsentSummary(row: ParentalConsentRow): ParentalConsentSummary {
+    return {
+      consentId: row.id,
+      consentStatus: row.consent_status,
+      consentMethod: row.consent_method,
+      approvedAt: row.approved_at,
+      expiresAt: row.expires_at,
+      revokedAt: row.revoked_at,
+      policyVersion: row.policy_version,
+      createdAt: row.created_at,
+    };
+  }
+
+  private getClientOrThrow() {
+    try {
+      return this.supabaseService.getServiceClient();
+    } catch {
+      throw new ServiceUnavailableException(
+        'Parental consent service is not configured yet. Set backend Supabase credentials.',
+      );
+    }
+  }
+}
@@ -0,0 +1,254 @@
+import {
+  Inject,
+  Injectable,
+  InternalServerErrorException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomInt } from 'crypto';
+import { z } from 'zod';
+import { CLOCK, type Clock } from '../scheduler/clock';
+import { SupabaseService } from '../supabase/supabase.service';
+
+// No 0/O or 1/I so codes survive being read aloud or copied by hand.
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+
+const parentLinkInviteRowSchema = z.object({
+  id: z.string().uuid(),
+  child_user_id: z.string().uuid(),
+  expires_at: z.string(),
+});
+
+export type IssuedParentLinkInvite = {
+  inviteId: string;
+  code: string;
+  qrPayload: string;
+  expiresAt: string;
+};
+
+export type ClaimedParentLinkInvite = {
+  inviteId: string;
+  childUserId: string;
+};
+
+// Invite codes are short enough to type, so only their SHA-256 hash is stored
+// and each one can be claimed once before it expires.
+@Injectable()
+export class ParentLinkInvitesService {
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly configService: ConfigService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {}
+
+  // Issuing a new code retires any code the learner has not handed out yet.
+  async issueInvite(childUserId: string): Promise<IssuedParentLinkInvite> {
+    const client = this.getClientOrThrow();
+    const now = this.clock.now();
+
+    const { error: retireError } = await client
+      .from('parent_link_invites')
+      .update({ revoked_at: now.toISOString() })
+      .eq('child_user_id', childUserId)
+      .is('redeemed_at', null)
+      .is('revoked_at', null);
+
+    if (retireError) {
+      throw new InternalServerErrorException(
+        'Failed to retire previous parent-link invites.',
+      );
+    }
+
+    const code = this.generateCode();
+    const expiresAt = new Date(
+      now.getTime() + this.getTtlMinutes() * 60 * 1000,
+    );
+
+    const { data: inviteRow, error: inviteError } = await client
+      .from('parent_link_invites')
+      .insert({
+        child_user_id: childUserId,
+        code_hash: this.hashCode(code),
+        expires_at: expiresAt.toISOString(),
+      })
+      .select('id, child_user_id, expires_at')
+      .single();
+
+    if (inviteError || !inviteRow) {
+      throw new InternalServerErrorException(
+        'Failed to create parent-link invite.',
+      );
+    }
+
+    const parsedInvite = parentLinkInviteRowSchema.safeParse(inviteRow);
+
+    if (!parsedInvite.success) {
+      throw new InternalServerErrorException(
+        'Created parent-link invite payload was invalid.',
+      );
+    }
+
+    const displayCode = this.formatCode(code);
+
+    return {
+      inviteId: parsedInvite.data.id,
+      code: displayCode,
+      qrPayload: this.buildQrPayload(displayCode),
+      expiresAt: expiresAt.toISOString(),
+    };
+  }
+
+  // Looks up a code without using it up, so the redeemer can be checked before
+  // the claim. Returns null for unknown, expired, retired, or already used
+  // codes.
+  async findRedeemableInvite(
+    rawCode: string,
+  ): Promise<ClaimedParentLinkInvite | null> {
+    const client = this.getClientOrThrow();
+    const now = this.clock.now().toISOString();
+
+    const { data: inviteRow, error: inviteError } = await client
+      .from('parent_link_invites')
+      .select('id, child_user_id, expires_at')
+      .eq('code_hash', this.hashCode(this.normalizeCode(rawCode)))
+      .is('redeemed_at', null)
+      .is('revoked_at', null)
+      .gt('expires_at', now)
+      .maybeSingle();
+
+    if (inviteError) {
+      throw new InternalServerErrorException(
+        'Failed to load parent-link invite.',
+      );
+    }
+
+    if (!inviteRow) {
+      return null;
+    }
+
+    const parsedInvite = parentLinkInviteRowSchema.safeParse(inviteRow);
+
+    if (!parsedInvite.success) {
+      throw new InternalServerErrorException(
+        'Parent-link invite payload was invalid.',
+      );
+    }
+
+    return {
+      inviteId: parsedInvite.data.id,
+      childUserId: parsedInvite.data.child_user_id,
+    };
+  }
+
+  // Marks the invite redeemed in the same statement that finds it, so two
+  // parents racing on one code cannot both claim it. Returns null for unknown,
+  // expired, retired, or already used codes.
+  async claimInvite(
+    rawCode: string,
+    parentUserId: string,
+  ): Promise<ClaimedParentLinkInvite | null> {
+    const client = this.getClientOrThrow();
+    const now = this.clock.now().toISOString();
+
+    const { data: claimedRow, error: claimError } = await client
+      .from('parent_link_invites')
+      .update({
+        redeemed_at: now,
+        redeemed_by_parent_user_id: parentUserId,
+      })
+      .eq('code_hash', this.hashCode(this.normalizeCode(rawCode)))
+      .is('redeemed_at', null)
+      .is('revoked_at', null)
+      .gt('expires_at', now)
+      .select('id, child_user_id, expires_at')
+      .maybeSingle();
+
+    if (claimError) {
+      throw new InternalServerErrorException(
+        'Failed to redeem parent-link invite.',
+      );
+    }
+
+    if (!claimedRow) {
+      return null;
+    }
+
+    const parsedInvite = parentLinkInviteRowSchema.safeParse(claimedRow);
+
+    if (!parsedInvite.success) {
+      throw new InternalServerErrorException(
+        'Redeemed parent-link invite payload was invalid.',
+      );
+    }
+
+    return {
+      inviteId: parsedInvite.data.id,
+      childUserId: parsedInvite.data.child_user_id,
+    };
+  }
+
+  // Hands a claimed code back when linking fails after the claim, so the
+  // learner does not have to issue a new one.
+  async releaseInvite(inviteId: string, parentUserId: string): Promise<void> {
+    const client = this.getClientOrThrow();
+
+    const { error: releaseError } = await client
+      .from('parent_link_invites')
+      .update({ redeemed_at: null, redeemed_by_parent_user_id: null })
+      .eq('id', inviteId)
+      .eq('redeemed_by_parent_user_id', parentUserId);
+
+    if (releaseError) {
+      throw new InternalServerErrorException(
+        'Failed to release parent-link invite.',
+      );
+    }
+  }
+
+  private generateCode(): string {
+    return Array.from(
+      { length: INVITE_CODE_LENGTH },
+      () => INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)],
+    ).join('');
+  }
+
+  // Accepts "abcd-efgh", "ABCD EFGH" and the bare code alike.
+  private normalizeCode(rawCode: string): string {
+    return rawCode.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  }
+
+  private formatCode(code: string): string {
+    return `${code.slice(0, 4)}-${code.slice(4)}`;
+  }
+
+  private hashCode(code: string): string {
+    return createHash('sha256').update(code).digest('hex');
+  }
+
+  private buildQrPayload(displayCode: string): string {
+    const url = new URL(
+      this.configService.get<string>('PARENT_LINK_INVITE_BASE_URL') ??
+        'http://localhost:3000/settings',
+    );
+    url.searchParams.set('linkInvite', displayCode);
+
+    return url.toString();
+  }
+
+  private getTtlMinutes(): number {
+    return (
+      this.configService.get<number>('PARENT_LINK_INVITE_TTL_MINUTES') ?? 30
+    );
+  }
+
+  private getClientOrThrow() {
+    try {
+      return this.supabaseService.getServiceClient();
+    } catch {
+      throw new ServiceUnavailableException(
+        'Parent service is not configured yet. Set backend Supabase credentials.',
+      );
+    }
+  }
+}
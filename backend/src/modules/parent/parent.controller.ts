@@ -5,18 +5,32 @@ import {
   Param,
   Post,
   Put,
+  Query,
   Req,
   UseGuards,
 } from '@nestjs/common';
+import { getAccountSecurityContext } from '../auth/account-security-events.service';
+import { RateLimit, RateLimitGuard } from '../rate-limit/rate-limit.guard';
 import {
   BearerAuthGuard,
   type AuthenticatedRequest,
 } from '../auth/bearer-auth.guard';
 import {
+  parseListWatchHistoryQuery,
+  parseWeeklyEngagementSummaryQuery,
+} from '../history/history.schemas';
+import {
+  parseAddChildGuardianInput,
   parseChildUserId,
+  parseDecideChildVideoApprovalInput,
   parseParentLinkId,
+  parseRedeemParentLinkInviteInput,
   parseRequestParentLinkInput,
+  parseUpdateChildGuardianRoleInput,
+  parseUpdateChildContentApprovalSettingsInput,
   parseUpdateChildContentRestrictionsInput,
+  parseUpdateChildTimeLimitsInput,
+  parseVideoId,
 } from './parent.schemas';
 import { ParentService } from './parent.service';
 
@@ -48,6 +62,36 @@ export class ParentController {
     };
   }
 
+  @UseGuards(BearerAuthGuard, RateLimitGuard)
+  @RateLimit('parent_link_invite')
+  @Post('links/invites')
+  async createLinkInvite(@Req() request: AuthenticatedRequest) {
+    return {
+      data: await this.parentService.createLinkInvite(
+        request.authUser.id,
+        getAccountSecurityContext(request),
+      ),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard, RateLimitGuard)
+  @RateLimit('parent_link_invite_redeem')
+  @Post('links/invites/redeem')
+  async redeemLinkInvite(
+    @Body() payload: unknown,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const input = parseRedeemParentLinkInviteInput(payload);
+
+    return {
+      data: await this.parentService.redeemLinkInvite(
+        request.authUser.id,
+        input.code,
+        getAccountSecurityContext(request),
+      ),
+    };
+  }
+
   @UseGuards(BearerAuthGuard)
   @Post('links/:linkId/accept')
   async acceptLink(
@@ -80,6 +124,63 @@ export class ParentController {
     };
   }
 
+  @UseGuards(BearerAuthGuard)
+  @Get('children/:childUserId/guardians')
+  async listChildGuardians(
+    @Param('childUserId') rawChildUserId: string,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const childUserId = parseChildUserId(rawChildUserId);
+
+    return {
+      data: await this.parentService.listChildGuardians(
+        request.authUser.id,
+        childUserId,
+      ),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard)
+  @Post('children/:childUserId/guardians')
+  async addChildGuardian(
+    @Param('childUserId') rawChildUserId: string,
+    @Body() payload: unknown,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const childUserId = parseChildUserId(rawChildUserId);
+    const input = parseAddChildGuardianInput(payload);
+
+    return {
+      data: await this.parentService.addChildGuardian(
+        request.authUser.id,
+        childUserId,
+        input,
+      ),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard)
+  @Put('children/:childUserId/guardians/:linkId/role')
+  async updateChildGuardianRole(
+    @Param('childUserId') rawChildUserId: string,
+    @Param('linkId') rawLinkId: string,
+    @Body() payload: unknown,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const childUserId = parseChildUserId(rawChildUserId);
+    const linkId = parseParentLinkId(rawLinkId);
+    const input = parseUpdateChildGuardianRoleInput(payload);
+
+    return {
+      data: await this.parentService.updateChildGuardianRole(
+        request.authUser.id,
+        childUserId,
+        linkId,
+        input.guardianRole,
+      ),
+    };
+  }
+
   @UseGuards(BearerAuthGuard)
   @Get('children/:childUserId/content-restrictions')
   async getChildContentRestrictions(
@@ -114,4 +215,183 @@ export class ParentController {
       ),
     };
   }
+
+  @UseGuards(BearerAuthGuard)
+  @Get('children/:childUserId/history')
+  async getChildWatchHistory(
+    @Param('childUserId') rawChildUserId: string,
+    @Query() query: unknown,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const childUserId = parseChildUserId(rawChildUserId);
+    const parsedQuery = parseListWatchHistoryQuery(query);
+
+    return {
+      data: await this.parentService.getChildWatchHistory(
+        request.authUser.id,
+        childUserId,
+        parsedQuery,
+      ),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard)
+  @Get('children/:childUserId/weekly-summary')
+  async getChildWeeklySummary(
+    @Param('childUserId') rawChildUserId: string,
+    @Query() query: unknown,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const childUserId = parseChildUserId(rawChildUserId);
+    const parsedQuery = parseWeeklyEngagementSummaryQuery(query);
+
+    return {
+      data: await this.parentService.getChildWeeklySummary(
+        request.authUser.id,
+        childUserId,
+        parsedQuery,
+      ),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard)
+  @Get('children/:childUserId/time-limits')
+  async getChildTimeLimits(
+    @Param('childUserId') rawChildUserId: string,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const childUserId = parseChildUserId(rawChildUserId);
+
+    return {
+      data: await this.parentService.getChildTimeLimits(
+        request.authUser.id,
+        childUserId,
+      ),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard)
+  @Put('children/:childUserId/time-limits')
+  async replaceChildTimeLimits(
+    @Param('childUserId') rawChildUserId: string,
+    @Body() payload: unknown,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const childUserId = parseChildUserId(rawChildUserId);
+    const input = parseUpdateChildTimeLimitsInput(payload);
+
+    return {
+      data: await this.parentService.replaceChildTimeLimits(
+        request.authUser.id,
+        childUserId,
+        input,
+      ),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard)
+  @Get('children/:childUserId/content-approvals')
+  async getChildContentApprovals(
+    @Param('childUserId') rawChildUserId: string,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const childUserId = parseChildUserId(rawChildUserId);
+
+    return {
+      data: await this.parentService.getChildContentApprovals(
+        request.authUser.id,
+        childUserId,
+      ),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard)
+  @Put('children/:childUserId/content-approvals/settings')
+  async updateChildContentApprovalSettings(
+    @Param('childUserId') rawChildUserId: string,
+    @Body() payload: unknown,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const childUserId = parseChildUserId(rawChildUserId);
+    const input = parseUpdateChildContentApprovalSettingsInput(payload);
+
+    return {
+      data: await this.parentService.updateChildContentApprovalSettings(
+        request.authUser.id,
+        childUserId,
+        input,
+      ),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard)
+  @Post('children/:childUserId/content-approvals/:videoId')
+  async decideChildVideoApproval(
+    @Param('childUserId') rawChildUserId: string,
+    @Param('videoId') rawVideoId: string,
+    @Body() payload: unknown,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const childUserId = parseChildUserId(rawChildUserId);
+    const videoId = parseVideoId(rawVideoId);
+    const input = parseDecideChildVideoApprovalInput(payload);
+
+    return {
+      data: await this.parentService.decideChildVideoApproval(
+        request.authUser.id,
+        childUserId,
+        videoId,
+        input,
+      ),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard)
+  @Get('children/:childUserId/parental-consent')
+  async getChildParentalConsent(
+    @Param('childUserId') rawChildUserId: string,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const childUserId = parseChildUserId(rawChildUserId);
+
+    return {
+      data: await this.parentService.getChildParentalConsent(
+        request.authUser.id,
+        childUserId,
+      ),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard)
+  @Post('children/:childUserId/parental-consent/revoke')
+  async revokeChildParentalConsent(
+    @Param('childUserId') rawChildUserId: string,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const childUserId = parseChildUserId(rawChildUserId);
+
+    return {
+      data: await this.parentService.revokeChildParentalConsent(
+        request.authUser.id,
+        childUserId,
+      ),
+    };
+  }
+
+  @UseGuards(BearerAuthGuard)
+  @Post('children/:childUserId/sign-out-everywhere')
+  async signOutChildEverywhere(
+    @Param('childUserId') rawChildUserId: string,
+    @Req() request: AuthenticatedRequest,
+  ) {
+    const childUserId = parseChildUserId(rawChildUserId);
+
+    return {
+      data: await this.parentService.signOutChildEverywhere(
+        request.authUser.id,
+        childUserId,
+        getAccountSecurityContext(request),
+      ),
+    };
+  }
 }
@@ -1,13 +1,24 @@
 import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
 import { BearerAuthGuard } from '../auth/bearer-auth.guard';
 import { ContentModule } from '../content/content.module';
+import { EngagementModule } from '../engagement/engagement.module';
+import { HistoryModule } from '../history/history.module';
+import { OnboardingModule } from '../onboarding/onboarding.module';
+import { ParentLinkInvitesService } from './parent-link-invites.service';
 import { ParentController } from './parent.controller';
 import { ParentService } from './parent.service';
 
 @Module({
-  imports: [ContentModule],
+  imports: [
+    AuthModule,
+    ContentModule,
+    EngagementModule,
+    HistoryModule,
+    OnboardingModule,
+  ],
   controllers: [ParentController],
-  providers: [ParentService, BearerAuthGuard],
+  providers: [ParentService, ParentLinkInvitesService, BearerAuthGuard],
   exports: [ParentService],
 })
 export class ParentModule {}
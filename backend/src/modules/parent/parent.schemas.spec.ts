@@ -1,9 +1,13 @@
 import { BadRequestException } from '@nestjs/common';
 import {
+  parseAddChildGuardianInput,
   parseChildUserId,
+  parseDecideChildVideoApprovalInput,
   parseParentLinkId,
+  parseRedeemParentLinkInviteInput,
   parseRequestParentLinkInput,
   parseUpdateChildContentRestrictionsInput,
+  parseUpdateChildTimeLimitsInput,
 } from './parent.schemas';
 
 describe('parent schemas', () => {
@@ -23,6 +27,30 @@ describe('parent schemas', () => {
     ).toThrow(BadRequestException);
   });
 
+  it('trims invite codes and rejects blank ones', () => {
+    expect(parseRedeemParentLinkInviteInput({ code: ' ABCD-EFGH ' })).toEqual({
+      code: 'ABCD-EFGH',
+    });
+    expect(() => parseRedeemParentLinkInviteInput({ code: '  ' })).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('only adds guardians as co-guardians or coach viewers', () => {
+    expect(
+      parseAddChildGuardianInput({
+        guardianUsername: 'team_coach',
+        guardianRole: 'coach_viewer',
+      }),
+    ).toEqual({ guardianUsername: 'team_coach', guardianRole: 'coach_viewer' });
+    expect(() =>
+      parseAddChildGuardianInput({
+        guardianUsername: 'team_coach',
+        guardianRole: 'primary',
+      }),
+    ).toThrow(BadRequestException);
+  });
+
   it('deduplicates blocked content type IDs', () => {
     const parsed = parseUpdateChildContentRestrictionsInput({
       blockedContentTypeIds: [
@@ -36,6 +64,60 @@ describe('parent schemas', () => {
     ]);
   });
 
+  it('defaults tag and video restrictions to empty and dedupes them', () => {
+    const parsed = parseUpdateChildContentRestrictionsInput({
+      blockedVideoIds: [
+        'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb',
+        'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb',
+      ],
+    });
+
+    expect(parsed).toEqual({
+      blockedContentTypeIds: [],
+      blockedContentTagIds: [],
+      blockedVideoIds: ['bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'],
+    });
+    expect(() =>
+      parseUpdateChildContentRestrictionsInput({
+        blockedContentTagIds: ['not-a-tag'],
+      }),
+    ).toThrow(BadRequestException);
+  });
+
+  it('accepts only approved or rejected video decisions', () => {
+    expect(
+      parseDecideChildVideoApprovalInput({ decision: 'approved' }),
+    ).toEqual({ decision: 'approved' });
+    expect(() =>
+      parseDecideChildVideoApprovalInput({ decision: 'pending' }),
+    ).toThrow(BadRequestException);
+  });
+
+  it('orders allowed-window days and rejects windows that end before they start', () => {
+    expect(
+      parseUpdateChildTimeLimitsInput({
+        timeZone: 'Europe/London',
+        allowedWindows: [
+          { days: ['fri', 'mon', 'fri'], startTime: '07:00', endTime: '24:00' },
+        ],
+      }),
+    ).toEqual({
+      dailyWatchMinutes: null,
+      timeZone: 'Europe/London',
+      allowedWindows: [
+        { days: ['mon', 'fri'], startTime: '07:00', endTime: '24:00' },
+      ],
+    });
+    expect(() =>
+      parseUpdateChildTimeLimitsInput({
+        timeZone: 'Europe/London',
+        allowedWindows: [
+          { days: ['mon'], startTime: '21:00', endTime: '07:00' },
+        ],
+      }),
+    ).toThrow(BadRequestException);
+  });
+
   it('rejects invalid parent-link ID', () => {
     expect(() => parseParentLinkId('invalid-id')).toThrow(BadRequestException);
   });
@@ -1,6 +1,14 @@
 import { BadRequestException } from '@nestjs/common';
 import { z } from 'zod';
-import { contentTypeIdSchema } from '../content/content-id.schema';
+import {
+  contentTypeIdSchema,
+  databaseUuidSchema,
+} from '../content/content-id.schema';
+import {
+  WEEKDAYS,
+  isValidTimeZone,
+  toMinuteOfDay,
+} from '../engagement/screen-time';
 
 const childUsernameSchema = z
   .string()
@@ -12,29 +20,148 @@ const childUsernameSchema = z
     'Child username can contain only letters, numbers, and underscores.',
   );
 
+const redeemParentLinkInviteSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1, 'Invite code is required.')
+    .max(32, 'Invite code was too long.'),
+});
+
 const parentLinkIdSchema = z
   .string()
   .uuid('Parent link ID must be a valid UUID.');
 const childUserIdSchema = z
   .string()
   .uuid('Child user ID must be a valid UUID.');
+const videoIdSchema = z.string().uuid('Video ID must be a valid UUID.');
 
 const requestParentLinkSchema = z.object({
   childUsername: childUsernameSchema,
 });
 
+const guardianRoleSchema = z.enum(['primary', 'co_guardian', 'coach_viewer'], {
+  message: 'Guardian role must be primary, co_guardian, or coach_viewer.',
+});
+
+const addChildGuardianSchema = z.object({
+  guardianUsername: z
+    .string()
+    .trim()
+    .min(3, 'Guardian username must be at least 3 characters.')
+    .max(32, 'Guardian username must be at most 32 characters.')
+    .regex(
+      /^[a-zA-Z0-9_]+$/,
+      'Guardian username can contain only letters, numbers, and underscores.',
+    ),
+  guardianRole: guardianRoleSchema.exclude(['primary'], {
+    message: 'New guardians can be co_guardian or coach_viewer.',
+  }),
+});
+
+const updateChildGuardianRoleSchema = z.object({
+  guardianRole: guardianRoleSchema,
+});
+
 const updateChildContentRestrictionsSchema = z.object({
   blockedContentTypeIds: z
     .array(contentTypeIdSchema)
     .max(25, 'You can restrict up to 25 content types at once.')
     .default([])
     .transform((contentTypeIds) => Array.from(new Set(contentTypeIds))),
+  blockedContentTagIds: z
+    .array(databaseUuidSchema)
+    .max(50, 'You can restrict up to 50 content tags at once.')
+    .default([])
+    .transform((contentTagIds) => Array.from(new Set(contentTagIds))),
+  blockedVideoIds: z
+    .array(databaseUuidSchema)
+    .max(100, 'You can block up to 100 videos at once.')
+    .default([])
+    .transform((videoIds) => Array.from(new Set(videoIds))),
+});
+
+const updateChildContentApprovalSettingsSchema = z.object({
+  approvalRequired: z.boolean({
+    message: 'approvalRequired must be true or false.',
+  }),
+});
+
+const decideChildVideoApprovalSchema = z.object({
+  decision: z.enum(['approved', 'rejected'], {
+    message: 'Decision must be approved or rejected.',
+  }),
+});
+
+const timeOfDaySchema = z
+  .string()
+  .regex(
+    /^(?:[01]\d|2[0-3]):[0-5]\d$|^24:00$/,
+    'Times must use the 24-hour HH:MM format.',
+  );
+
+const allowedWindowSchema = z
+  .object({
+    days: z
+      .array(
+        z.enum(WEEKDAYS, {
+          message: 'Days must be sun, mon, tue, wed, thu, fri, or sat.',
+        }),
+      )
+      .min(1, 'Each allowed window needs at least one day.')
+      .transform((days) => WEEKDAYS.filter((day) => days.includes(day))),
+    startTime: timeOfDaySchema,
+    endTime: timeOfDaySchema,
+  })
+  .refine(
+    (window) => toMinuteOfDay(window.startTime) < toMinuteOfDay(window.endTime),
+    {
+      message: 'Allowed windows must end after they start on the same day.',
+      path: ['endTime'],
+    },
+  );
+
+const updateChildTimeLimitsSchema = z.object({
+  dailyWatchMinutes: z
+    .number()
+    .int('Daily watch minutes must be a whole number.')
+    .min(5, 'Daily watch minutes must be at least 5.')
+    .max(1440, 'Daily watch minutes must be at most 1440.')
+    .nullable()
+    .default(null),
+  timeZone: z
+    .string()
+    .trim()
+    .refine(
+      isValidTimeZone,
+      'Time zone must be an IANA name like Europe/London.',
+    ),
+  allowedWindows: z
+    .array(allowedWindowSchema)
+    .max(14, 'You can set up to 14 allowed windows.')
+    .default([]),
 });
 
 export type RequestParentLinkInput = z.infer<typeof requestParentLinkSchema>;
+export type AddChildGuardianInput = z.infer<typeof addChildGuardianSchema>;
+export type UpdateChildGuardianRoleInput = z.infer<
+  typeof updateChildGuardianRoleSchema
+>;
+export type RedeemParentLinkInviteInput = z.infer<
+  typeof redeemParentLinkInviteSchema
+>;
 export type UpdateChildContentRestrictionsInput = z.infer<
   typeof updateChildContentRestrictionsSchema
 >;
+export type UpdateChildContentApprovalSettingsInput = z.infer<
+  typeof updateChildContentApprovalSettingsSchema
+>;
+export type DecideChildVideoApprovalInput = z.infer<
+  typeof decideChildVideoApprovalSchema
+>;
+export type UpdateChildTimeLimitsInput = z.infer<
+  typeof updateChildTimeLimitsSchema
+>;
 
 export function parseRequestParentLinkInput(
   payload: unknown,
@@ -51,6 +178,51 @@ export function parseRequestParentLinkInput(
   return parsed.data;
 }
 
+export function parseAddChildGuardianInput(
+  payload: unknown,
+): AddChildGuardianInput {
+  const parsed = addChildGuardianSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    throw new BadRequestException({
+      message: 'Invalid guardian payload.',
+      errors: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  return parsed.data;
+}
+
+export function parseUpdateChildGuardianRoleInput(
+  payload: unknown,
+): UpdateChildGuardianRoleInput {
+  const parsed = updateChildGuardianRoleSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    throw new BadRequestException({
+      message: 'Invalid guardian role payload.',
+      errors: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  return parsed.data;
+}
+
+export function parseRedeemParentLinkInviteInput(
+  payload: unknown,
+): RedeemParentLinkInviteInput {
+  const parsed = redeemParentLinkInviteSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    throw new BadRequestException({
+      message: 'Invalid parent-link invite payload.',
+      errors: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  return parsed.data;
+}
+
 export function parseParentLinkId(rawValue: unknown): string {
   const parsed = parentLinkIdSchema.safeParse(rawValue);
 
@@ -71,6 +243,16 @@ export function parseChildUserId(rawValue: unknown): string {
   return parsed.data;
 }
 
+export function parseVideoId(rawValue: unknown): string {
+  const parsed = videoIdSchema.safeParse(rawValue);
+
+  if (!parsed.success) {
+    throw new BadRequestException('Video ID was invalid.');
+  }
+
+  return parsed.data;
+}
+
 export function parseUpdateChildContentRestrictionsInput(
   payload: unknown,
 ): UpdateChildContentRestrictionsInput {
@@ -85,3 +267,48 @@ export function parseUpdateChildContentRestrictionsInput(
 
   return parsed.data;
 }
+
+export function parseUpdateChildTimeLimitsInput(
+  payload: unknown,
+): UpdateChildTimeLimitsInput {
+  const parsed = updateChildTimeLimitsSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    throw new BadRequestException({
+      message: 'Invalid child time limit payload.',
+      errors: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  return parsed.data;
+}
+
+export function parseUpdateChildContentApprovalSettingsInput(
+  payload: unknown,
+): UpdateChildContentApprovalSettingsInput {
+  const parsed = updateChildContentApprovalSettingsSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    throw new BadRequestException({
+      message: 'Invalid child content approval settings payload.',
+      errors: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  return parsed.data;
+}
+
+export function parseDecideChildVideoApprovalInput(
+  payload: unknown,
+): DecideChildVideoApprovalInput {
+  const parsed = decideChildVideoApprovalSchema.safeParse(payload);
+
+  if (!parsed.success) {
+    throw new BadRequestException({
+      message: 'Invalid video approval payload.',
+      errors: parsed.error.flatten().fieldErrors,
+    });
+  }
+
+  return parsed.data;
+}
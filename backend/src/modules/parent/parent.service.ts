@@ -7,19 +7,75 @@ import {
   ServiceUnavailableException,
 } from '@nestjs/common';
 import { z } from 'zod';
+import {
+  AccountSecurityEventsService,
+  type AccountSecurityContext,
+} from '../auth/account-security-events.service';
+import { AuthService, type LogoutResult } from '../auth/auth.service';
 import {
   ContentService,
+  type ApprovalQueueVideoSummary,
+  type BlockedVideoSummary,
+  type ContentTagSummary,
   type ContentTypeSummary,
   type EffectiveContentPreferencesResult,
+  type ParentRestrictionRules,
 } from '../content/content.service';
-import { contentTypeIdSchema } from '../content/content-id.schema';
+import {
+  contentTypeIdSchema,
+  databaseUuidSchema,
+} from '../content/content-id.schema';
+import type {
+  ListWatchHistoryQuery,
+  WeeklyEngagementSummaryQuery,
+} from '../history/history.schemas';
+import {
+  HistoryService,
+  type WatchHistoryPage,
+  type WeeklyEngagementSummary,
+} from '../history/history.service';
+import {
+  ScreenTimeService,
+  type StoredScreenTimeLimits,
+} from '../engagement/screen-time.service';
+import type { ScreenTimeStatus } from '../engagement/screen-time';
+import {
+  ParentalConsentService,
+  type ParentalConsentState,
+} from '../onboarding/parental-consent.service';
 import { SupabaseService } from '../supabase/supabase.service';
-import type { UpdateChildContentRestrictionsInput } from './parent.schemas';
+import {
+  ParentLinkInvitesService,
+  type IssuedParentLinkInvite,
+} from './parent-link-invites.service';
+import type {
+  AddChildGuardianInput,
+  DecideChildVideoApprovalInput,
+  UpdateChildContentApprovalSettingsInput,
+  UpdateChildContentRestrictionsInput,
+  UpdateChildTimeLimitsInput,
+} from './parent.schemas';
 
 type AccountType = 'learner' | 'parent' | 'admin';
 type RelationshipStatus = 'pending' | 'active' | 'revoked';
+export type GuardianRole = 'primary' | 'co_guardian' | 'coach_viewer';
+type GuardianCapability = 'manage' | 'view_history' | 'view_aggregates';
+
+const CONTENT_APPROVAL_QUEUE_LIMIT = 50;
+
+// Primary guardians manage the child, co-guardians see everything a parent
+// sees, and coach viewers only get weekly aggregates.
+const GUARDIAN_CAPABILITY_ROLES: Record<GuardianCapability, GuardianRole[]> = {
+  manage: ['primary'],
+  view_history: ['primary', 'co_guardian'],
+  view_aggregates: ['primary', 'co_guardian', 'coach_viewer'],
+};
 
 const accountTypeSchema = z.enum(['learner', 'parent', 'admin']);
+const guardianRoleSchema = z.enum(['primary', 'co_guardian', 'coach_viewer']);
+
+const parentChildLinkColumns =
+  'id, parent_user_id, child_user_id, relationship_status, guardian_role, linked_at, created_at, updated_at';
 
 const profileRowSchema = z.object({
   id: z.string().uuid(),
@@ -38,13 +94,18 @@ const parentChildLinkRowSchema = z.object({
   parent_user_id: z.string().uuid(),
   child_user_id: z.string().uuid(),
   relationship_status: z.enum(['pending', 'active', 'revoked']),
+  guardian_role: guardianRoleSchema,
   linked_at: z.string().nullable(),
   created_at: z.string(),
   updated_at: z.string(),
 });
 
+type ParentChildLinkRow = z.infer<typeof parentChildLinkRowSchema>;
+
 const parentContentRestrictionRowSchema = z.object({
-  content_type_id: contentTypeIdSchema,
+  content_type_id: contentTypeIdSchema.nullable(),
+  content_tag_id: databaseUuidSchema.nullable(),
+  video_id: databaseUuidSchema.nullable(),
 });
 
 export type ParentLinkSummary = {
@@ -54,6 +115,7 @@ export type ParentLinkSummary = {
   childUserId: string;
   childUsername: string;
   relationshipStatus: RelationshipStatus;
+  guardianRole: GuardianRole;
   linkedAt: string | null;
   createdAt: string;
   updatedAt: string;
@@ -72,14 +134,65 @@ export type ChildContentRestrictionsResult = {
   childUsername: string;
   blockedContentTypeIds: string[];
   blockedContentTypes: ContentTypeSummary[];
+  blockedContentTagIds: string[];
+  blockedContentTags: ContentTagSummary[];
+  blockedVideoIds: string[];
+  blockedVideos: BlockedVideoSummary[];
+  availableContentTags: ContentTagSummary[];
   effectiveContentPreferences: EffectiveContentPreferencesResult;
 };
 
+export type ChildContentApprovalsResult = {
+  parentUserId: string;
+  childUserId: string;
+  childUsername: string;
+  approvalRequired: boolean;
+  pendingVideos: ApprovalQueueVideoSummary[];
+};
+
+export type ChildTimeLimitsResult = Omit<
+  StoredScreenTimeLimits,
+  'updatedAt'
+> & {
+  parentUserId: string;
+  childUserId: string;
+  childUsername: string;
+  updatedAt: string | null;
+  screenTime: ScreenTimeStatus;
+};
+
+export type ChildWatchHistoryResult = WatchHistoryPage & {
+  parentUserId: string;
+  childUsername: string;
+};
+
+export type ChildWeeklySummaryResult = {
+  parentUserId: string;
+  childUserId: string;
+  childUsername: string;
+  weeks: Array<
+    Omit<WeeklyEngagementSummary, 'topContentTypes'> & {
+      topContentTypes: Array<
+        WeeklyEngagementSummary['topContentTypes'][number] & {
+          name: string | null;
+          slug: string | null;
+        }
+      >;
+    }
+  >;
+};
+
 @Injectable()
 export class ParentService {
   constructor(
     private readonly supabaseService: SupabaseService,
     private readonly contentService: ContentService,
+    private readonly historyService: HistoryService,
+    private readonly parentalConsentService: ParentalConsentService,
+    private readonly authService: AuthService,
+    private readonly accountSecurityEventsService: AccountSecurityEventsService,
+    private readonly parentLinkInvitesService: ParentLinkInvitesService,
+    private readonly screenTimeService: ScreenTimeService,
   ) {}
 
   async listMyLinks(userId: string): Promise<MyParentLinksResult> {
@@ -88,9 +201,7 @@ export class ParentService {
 
     const { data: linkRows, error: linkError } = await client
       .from('parent_child_links')
-      .select(
-        'id, parent_user_id, child_user_id, relationship_status, linked_at, created_at, updated_at',
-      )
+      .select(parentChildLinkColumns)
       .or(`parent_user_id.eq.${userId},child_user_id.eq.${userId}`)
       .order('created_at', { ascending: false });
 
@@ -184,9 +295,7 @@ export class ParentService {
 
     const { data: existingLink, error: existingLinkError } = await client
       .from('parent_child_links')
-      .select(
-        'id, parent_user_id, child_user_id, relationship_status, linked_at, created_at, updated_at',
-      )
+      .select(parentChildLinkColumns)
       .eq('parent_user_id', parentUserId)
       .eq('child_user_id', parsedChild.id)
       .maybeSingle();
@@ -212,12 +321,14 @@ export class ParentService {
           .from('parent_child_links')
           .update({
             relationship_status: 'pending',
+            guardian_role: await this.resolveRoleForNewGuardian(
+              parentUserId,
+              parsedChild.id,
+            ),
             linked_at: null,
           })
           .eq('id', parsedExistingLink.data.id)
-          .select(
-            'id, parent_user_id, child_user_id, relationship_status, linked_at, created_at, updated_at',
-          )
+          .select(parentChildLinkColumns)
           .single();
 
         if (restoredLinkError || !restoredLink) {
@@ -257,10 +368,12 @@ export class ParentService {
         parent_user_id: parentUserId,
         child_user_id: parsedChild.id,
         relationship_status: 'pending',
+        guardian_role: await this.resolveRoleForNewGuardian(
+          parentUserId,
+          parsedChild.id,
+        ),
       })
-      .select(
-        'id, parent_user_id, child_user_id, relationship_status, linked_at, created_at, updated_at',
-      )
+      .select(parentChildLinkColumns)
       .single();
 
     if (createdLinkError || !createdLink) {
@@ -285,6 +398,118 @@ export class ParentService {
     return this.mapParentLinkSummary(parsedCreatedLink.data, profileById);
   }
 
+  async createLinkInvite(
+    childUserId: string,
+    context: AccountSecurityContext,
+  ): Promise<IssuedParentLinkInvite> {
+    const childProfile = await this.getProfileOrThrow(childUserId);
+
+    if (childProfile.accountType !== 'learner') {
+      throw new ForbiddenException(
+        'Only learner accounts can invite a parent to link.',
+      );
+    }
+
+    const invite = await this.parentLinkInvitesService.issueInvite(childUserId);
+
+    await this.accountSecurityEventsService.recordAccountSecurityEvent(
+      {
+        userId: childUserId,
+        eventType: 'parent_link_invite_created',
+        eventMetadata: {
+          inviteId: invite.inviteId,
+          expiresAt: invite.expiresAt,
+        },
+      },
+      context,
+    );
+
+    return invite;
+  }
+
+  async redeemLinkInvite(
+    parentUserId: string,
+    code: string,
+    context: AccountSecurityContext,
+  ): Promise<ParentLinkSummary> {
+    await this.assertAccountType(parentUserId, 'parent');
+
+    // Everything that can refuse the redemption runs before the claim, so a
+    // refused parent does not use up the learner's code.
+    const invite =
+      await this.parentLinkInvitesService.findRedeemableInvite(code);
+
+    if (!invite) {
+      throw new NotFoundException('Invite code is invalid or has expired.');
+    }
+
+    const childProfile = await this.getProfileOrThrow(invite.childUserId);
+
+    if (childProfile.accountType !== 'learner') {
+      throw new BadRequestException(
+        'Only learner accounts can be linked as children.',
+      );
+    }
+
+    const existingLink = await this.findLinkForPair(
+      parentUserId,
+      invite.childUserId,
+    );
+
+    // A revoked guardian may have been removed by the primary guardian, so an
+    // invite from the learner alone does not bring them back.
+    if (existingLink?.relationship_status === 'revoked') {
+      throw new ForbiddenException(
+        'Your link to this child was revoked. Send a new link request or ask their primary guardian to add you again.',
+      );
+    }
+
+    const claimedInvite = await this.parentLinkInvitesService.claimInvite(
+      code,
+      parentUserId,
+    );
+
+    if (!claimedInvite) {
+      throw new NotFoundException('Invite code is invalid or has expired.');
+    }
+
+    let link: ParentChildLinkRow;
+
+    try {
+      link = await this.activateLinkForPair(
+        parentUserId,
+        claimedInvite.childUserId,
+        existingLink,
+      );
+    } catch (error) {
+      await this.parentLinkInvitesService.releaseInvite(
+        claimedInvite.inviteId,
+        parentUserId,
+      );
+      throw error;
+    }
+
+    await this.accountSecurityEventsService.recordAccountSecurityEvent(
+      {
+        userId: claimedInvite.childUserId,
+        eventType: 'parent_link_invite_redeemed',
+        eventMetadata: {
+          inviteId: claimedInvite.inviteId,
+          parentUserId,
+          linkId: link.id,
+        },
+      },
+      context,
+    );
+
+    const profileById = await this.loadProfilesByIds([
+      link.parent_user_id,
+      link.child_user_id,
+    ]);
+
+    return this.mapParentLinkSummary(link, profileById);
+  }
+
   async acceptLinkById(
     childUserId: string,
     linkId: string,
@@ -316,12 +541,14 @@ export class ParentService {
       .from('parent_child_links')
       .update({
         relationship_status: 'active',
+        guardian_role: await this.resolveRoleForNewGuardian(
+          link.parent_user_id,
+          link.child_user_id,
+        ),
         linked_at: new Date().toISOString(),
       })
       .eq('id', link.id)
-      .select(
-        'id, parent_user_id, child_user_id, relationship_status, linked_at, created_at, updated_at',
-      )
+      .select(parentChildLinkColumns)
       .single();
 
     if (activatedLinkError || !activatedLink) {
@@ -355,11 +582,27 @@ export class ParentService {
     const link = await this.getParentLinkById(linkId);
 
     const actorCanRevoke =
-      link.parent_user_id === actorUserId || link.child_user_id === actorUserId;
+      link.parent_user_id === actorUserId ||
+      link.child_user_id === actorUserId ||
+      (await this.findActiveGuardianRole(actorUserId, link.child_user_id)) ===
+        'primary';
 
     if (!actorCanRevoke) {
       throw new ForbiddenException(
-        'Only linked parent or child can revoke this link.',
+        "Only the linked parent, the child, or the child's primary guardian can revoke this link.",
+      );
+    }
+
+    // Restrictions, time limits and approvals all hang off the primary
+    // guardian, so the role has to be handed over before the primary leaves a
+    // child who still has other guardians.
+    if (
+      link.relationship_status === 'active' &&
+      link.guardian_role === 'primary' &&
+      (await this.hasOtherActiveGuardians(link.child_user_id, link.id))
+    ) {
+      throw new BadRequestException(
+        'Hand the primary guardian role to another guardian before removing the primary guardian.',
       );
     }
 
@@ -404,22 +647,16 @@ export class ParentService {
     parentUserId: string,
     childUserId: string,
   ): Promise<ChildContentRestrictionsResult> {
-    await this.assertAccountType(parentUserId, 'parent');
-    await this.assertParentChildLinkIsActive(parentUserId, childUserId);
-
-    const childProfile = await this.getProfileOrThrow(childUserId);
-
-    if (childProfile.accountType !== 'learner') {
-      throw new BadRequestException(
-        'Only learner accounts can be managed by parents.',
-      );
-    }
-
-    const blockedContentTypeIds = await this.listBlockedContentTypeIdsForPair(
+    const childProfile = await this.getLinkedLearnerProfileOrThrow(
       parentUserId,
       childUserId,
+      'view_history',
     );
 
+    const restrictionRules =
+      await this.listRestrictionRulesForChild(childUserId);
+    const blockedContentTypeIds = restrictionRules.contentTypeIds;
+
     const effectiveContentPreferences =
       await this.contentService.getEffectiveContentPreferences(childUserId);
 
@@ -440,6 +677,15 @@ export class ParentService {
       childUsername: childProfile.username,
       blockedContentTypeIds,
       blockedContentTypes,
+      blockedContentTagIds: restrictionRules.contentTagIds,
+      blockedContentTags: await this.contentService.listContentTagSummaries(
+        restrictionRules.contentTagIds,
+      ),
+      blockedVideoIds: restrictionRules.videoIds,
+      blockedVideos: await this.contentService.listBlockedVideoSummaries(
+        restrictionRules.videoIds,
+      ),
+      availableContentTags: await this.contentService.listActiveContentTags(),
       effectiveContentPreferences,
     };
   }
@@ -450,108 +696,705 @@ export class ParentService {
     input: UpdateChildContentRestrictionsInput,
   ): Promise<ChildContentRestrictionsResult> {
     const client = this.getClientOrThrow();
-    await this.assertAccountType(parentUserId, 'parent');
-    await this.assertParentChildLinkIsActive(parentUserId, childUserId);
+    await this.getLinkedLearnerProfileOrThrow(
+      parentUserId,
+      childUserId,
+      'manage',
+    );
     await this.assertActiveContentTypes(input.blockedContentTypeIds);
+    await this.assertActiveContentTags(input.blockedContentTagIds);
+    await this.assertExistingVideos(input.blockedVideoIds);
+
+    // Restrictions belong to the child and only the primary guardian edits
+    // them, so the swap also clears rows left by a guardian who handed over
+    // primary. It runs in one transaction so a failed save keeps the old set.
+    const { error: replaceError } = await client.rpc(
+      'replace_parent_content_restrictions',
+      {
+        p_parent_user_id: parentUserId,
+        p_child_user_id: childUserId,
+        p_content_type_ids: input.blockedContentTypeIds,
+        p_content_tag_ids: input.blockedContentTagIds,
+        p_video_ids: input.blockedVideoIds,
+      },
+    );
 
-    const { error: deleteError } = await client
-      .from('parent_content_restrictions')
-      .delete()
-      .eq('parent_user_id', parentUserId)
-      .eq('child_user_id', childUserId);
-
-    if (deleteError) {
+    if (replaceError) {
       throw new InternalServerErrorException(
-        'Failed to clear existing parent content restrictions.',
+        'Failed to save parent content restrictions.',
       );
     }
 
-    if (input.blockedContentTypeIds.length > 0) {
-      const { error: insertError } = await client
-        .from('parent_content_restrictions')
-        .insert(
-          input.blockedContentTypeIds.map((contentTypeId) => ({
-            parent_user_id: parentUserId,
-            child_user_id: childUserId,
-            content_type_id: contentTypeId,
-          })),
-        );
+    return this.getChildContentRestrictions(parentUserId, childUserId);
+  }
 
-      if (insertError) {
-        throw new InternalServerErrorException(
-          'Failed to save parent content restrictions.',
-        );
-      }
-    }
+  async getChildWatchHistory(
+    parentUserId: string,
+    childUserId: string,
+    query: ListWatchHistoryQuery,
+  ): Promise<ChildWatchHistoryResult> {
+    const childProfile = await this.getLinkedLearnerProfileOrThrow(
+      parentUserId,
+      childUserId,
+      'view_history',
+    );
+    const history = await this.historyService.listWatchHistory(
+      childUserId,
+      query,
+    );
 
-    return this.getChildContentRestrictions(parentUserId, childUserId);
+    return {
+      ...history,
+      parentUserId,
+      childUsername: childProfile.username,
+    };
   }
 
-  private async getParentLinkById(linkId: string) {
-    const client = this.getClientOrThrow();
+  async getChildWeeklySummary(
+    parentUserId: string,
+    childUserId: string,
+    query: WeeklyEngagementSummaryQuery,
+  ): Promise<ChildWeeklySummaryResult> {
+    const childProfile = await this.getLinkedLearnerProfileOrThrow(
+      parentUserId,
+      childUserId,
+      'view_aggregates',
+    );
+    const summary = await this.historyService.summarizeWeeklyEngagement(
+      childUserId,
+      query,
+    );
 
-    const { data: link, error: linkError } = await client
-      .from('parent_child_links')
-      .select(
-        'id, parent_user_id, child_user_id, relationship_status, linked_at, created_at, updated_at',
-      )
-      .eq('id', linkId)
-      .maybeSingle();
+    const activeContentTypes = await this.contentService.listContentTypes();
+    const activeContentTypeById = new Map(
+      activeContentTypes.map((contentType) => [contentType.id, contentType]),
+    );
 
-    if (linkError) {
-      throw new InternalServerErrorException(
-        'Failed to load parent-child link.',
-      );
-    }
+    return {
+      parentUserId,
+      childUserId,
+      childUsername: childProfile.username,
+      weeks: summary.weeks.map((week) => ({
+        ...week,
+        topContentTypes: week.topContentTypes.map((engagement) => {
+          const contentType = activeContentTypeById.get(
+            engagement.contentTypeId,
+          );
 
-    if (!link) {
-      throw new NotFoundException('Parent-child link was not found.');
-    }
+          return {
+            ...engagement,
+            name: contentType?.name ?? null,
+            slug: contentType?.slug ?? null,
+          };
+        }),
+      })),
+    };
+  }
 
-    const parsedLink = parentChildLinkRowSchema.safeParse(link);
+  async getChildTimeLimits(
+    parentUserId: string,
+    childUserId: string,
+  ): Promise<ChildTimeLimitsResult> {
+    const childProfile = await this.getLinkedLearnerProfileOrThrow(
+      parentUserId,
+      childUserId,
+      'view_history',
+    );
+    const limits = await this.screenTimeService.getTimeLimits(childUserId);
 
-    if (!parsedLink.success) {
+    return this.buildChildTimeLimitsResult(
+      parentUserId,
+      childUserId,
+      childProfile.username,
+      limits,
+    );
+  }
+
+  async replaceChildTimeLimits(
+    parentUserId: string,
+    childUserId: string,
+    input: UpdateChildTimeLimitsInput,
+  ): Promise<ChildTimeLimitsResult> {
+    const childProfile = await this.getLinkedLearnerProfileOrThrow(
+      parentUserId,
+      childUserId,
+      'manage',
+    );
+    const limits = await this.screenTimeService.saveTimeLimits(
+      childUserId,
+      input,
+      parentUserId,
+    );
+
+    return this.buildChildTimeLimitsResult(
+      parentUserId,
+      childUserId,
+      childProfile.username,
+      limits,
+    );
+  }
+
+  async getChildContentApprovals(
+    parentUserId: string,
+    childUserId: string,
+  ): Promise<ChildContentApprovalsResult> {
+    const childProfile = await this.getLinkedLearnerProfileOrThrow(
+      parentUserId,
+      childUserId,
+      'view_history',
+    );
+
+    return {
+      parentUserId,
+      childUserId,
+      childUsername: childProfile.username,
+      approvalRequired:
+        await this.contentService.isContentApprovalRequired(childUserId),
+      pendingVideos: await this.contentService.listContentApprovalQueue(
+        childUserId,
+        CONTENT_APPROVAL_QUEUE_LIMIT,
+      ),
+    };
+  }
+
+  async updateChildContentApprovalSettings(
+    parentUserId: string,
+    childUserId: string,
+    input: UpdateChildContentApprovalSettingsInput,
+  ): Promise<ChildContentApprovalsResult> {
+    const client = this.getClientOrThrow();
+    await this.getLinkedLearnerProfileOrThrow(
+      parentUserId,
+      childUserId,
+      'manage',
+    );
+
+    const { error } = await client
+      .from('child_content_approval_settings')
+      .upsert(
+        {
+          child_user_id: childUserId,
+          approval_required: input.approvalRequired,
+          updated_by_parent_user_id: parentUserId,
+        },
+        { onConflict: 'child_user_id' },
+      );
+
+    if (error) {
       throw new InternalServerErrorException(
-        'Parent-child link payload was invalid.',
+        'Failed to save content approval settings.',
       );
     }
 
-    return parsedLink.data;
+    return this.getChildContentApprovals(parentUserId, childUserId);
   }
 
-  private async loadProfilesByIds(
-    userIds: string[],
-  ): Promise<Map<string, { username: string; accountType: AccountType }>> {
-    if (userIds.length === 0) {
-      return new Map();
-    }
-
+  async decideChildVideoApproval(
+    parentUserId: string,
+    childUserId: string,
+    videoId: string,
+    input: DecideChildVideoApprovalInput,
+  ): Promise<ChildContentApprovalsResult> {
     const client = this.getClientOrThrow();
+    await this.getLinkedLearnerProfileOrThrow(
+      parentUserId,
+      childUserId,
+      'manage',
+    );
 
-    const { data: profileRows, error: profileError } = await client
-      .from('profiles')
-      .select('id, username, account_type')
-      .in('id', userIds);
-
-    if (profileError) {
-      throw new InternalServerErrorException('Failed to load profile labels.');
+    if (
+      !(await this.contentService.isFeedCandidateVideo(childUserId, videoId))
+    ) {
+      throw new NotFoundException(
+        "Video is not available in this child's feed.",
+      );
     }
 
-    const parsedProfiles = z
-      .array(profileRowSchema)
-      .safeParse(profileRows ?? []);
+    const { error } = await client.from('child_video_approvals').upsert(
+      {
+        child_user_id: childUserId,
+        video_id: videoId,
+        decision: input.decision,
+        decided_by_parent_user_id: parentUserId,
+        decided_at: new Date().toISOString(),
+      },
+      { onConflict: 'child_user_id,video_id' },
+    );
 
-    if (!parsedProfiles.success) {
+    if (error) {
       throw new InternalServerErrorException(
-        'Profile labels payload was invalid.',
+        'Failed to save video approval decision.',
       );
     }
 
-    return new Map(
-      parsedProfiles.data.map((profileRow) => [
-        profileRow.id,
-        {
-          username: profileRow.username,
+    return this.getChildContentApprovals(parentUserId, childUserId);
+  }
+
+  async getChildParentalConsent(
+    parentUserId: string,
+    childUserId: string,
+  ): Promise<ParentalConsentState> {
+    await this.getLinkedLearnerProfileOrThrow(
+      parentUserId,
+      childUserId,
+      'view_history',
+    );
+
+    return this.parentalConsentService.getConsentState(childUserId);
+  }
+
+  async revokeChildParentalConsent(
+    parentUserId: string,
+    childUserId: string,
+  ): Promise<ParentalConsentState> {
+    await this.getLinkedLearnerProfileOrThrow(
+      parentUserId,
+      childUserId,
+      'manage',
+    );
+
+    return this.parentalConsentService.revokeConsent(childUserId);
+  }
+
+  async signOutChildEverywhere(
+    parentUserId: string,
+    childUserId: string,
+    context: AccountSecurityContext,
+  ): Promise<LogoutResult> {
+    await this.getLinkedLearnerProfileOrThrow(
+      parentUserId,
+      childUserId,
+      'manage',
+    );
+
+    return this.authService.revokeAllSessions(
+      childUserId,
+      parentUserId,
+      context,
+    );
+  }
+
+  async listChildGuardians(
+    parentUserId: string,
+    childUserId: string,
+  ): Promise<ParentLinkSummary[]> {
+    const client = this.getClientOrThrow();
+    await this.getLinkedLearnerProfileOrThrow(
+      parentUserId,
+      childUserId,
+      'view_history',
+    );
+
+    const { data: linkRows, error: linkError } = await client
+      .from('parent_child_links')
+      .select(parentChildLinkColumns)
+      .eq('child_user_id', childUserId)
+      .order('created_at', { ascending: true });
+
+    if (linkError) {
+      throw new InternalServerErrorException('Failed to load child guardians.');
+    }
+
+    const parsedLinks = z
+      .array(parentChildLinkRowSchema)
+      .safeParse(linkRows ?? []);
+
+    if (!parsedLinks.success) {
+      throw new InternalServerErrorException(
+        'Child guardians payload was invalid.',
+      );
+    }
+
+    const visibleLinks = parsedLinks.data.filter(
+      (row) => row.relationship_status !== 'revoked',
+    );
+    const profileById = await this.loadProfilesByIds(
+      Array.from(
+        new Set(
+          visibleLinks.flatMap((row) => [
+            row.parent_user_id,
+            row.child_user_id,
+          ]),
+        ),
+      ),
+    );
+
+    return visibleLinks.map((row) =>
+      this.mapParentLinkSummary(row, profileById),
+    );
+  }
+
+  // The primary guardian vouches for the people they add, so these links are
+  // active straight away; the added guardian or the child can still revoke.
+  async addChildGuardian(
+    primaryUserId: string,
+    childUserId: string,
+    input: AddChildGuardianInput,
+  ): Promise<ParentLinkSummary> {
+    const client = this.getClientOrThrow();
+    await this.getLinkedLearnerProfileOrThrow(
+      primaryUserId,
+      childUserId,
+      'manage',
+    );
+
+    const { data: guardianProfile, error: guardianProfileError } = await client
+      .from('profiles')
+      .select('id, username, account_type')
+      .ilike('username', input.guardianUsername.trim())
+      .maybeSingle();
+
+    if (guardianProfileError) {
+      throw new InternalServerErrorException(
+        'Failed to look up guardian profile.',
+      );
+    }
+
+    if (!guardianProfile) {
+      throw new NotFoundException(
+        'No parent account found with that username.',
+      );
+    }
+
+    const parsedGuardianProfile =
+      profileForLookupSchema.safeParse(guardianProfile);
+
+    if (!parsedGuardianProfile.success) {
+      throw new InternalServerErrorException(
+        'Guardian profile payload was invalid.',
+      );
+    }
+
+    const guardian = parsedGuardianProfile.data;
+
+    if (guardian.id === primaryUserId) {
+      throw new BadRequestException('You are already linked to this child.');
+    }
+
+    if (guardian.account_type !== 'parent') {
+      throw new BadRequestException(
+        'Only parent accounts can be added as guardians.',
+      );
+    }
+
+    const existingRole = await this.findActiveGuardianRole(
+      guardian.id,
+      childUserId,
+    );
+    const linkedAt = new Date().toISOString();
+
+    const { data: guardianLink, error: guardianLinkError } = await client
+      .from('parent_child_links')
+      .upsert(
+        {
+          parent_user_id: guardian.id,
+          child_user_id: childUserId,
+          relationship_status: 'active',
+          guardian_role: input.guardianRole,
+          ...(existingRole ? {} : { linked_at: linkedAt }),
+        },
+        { onConflict: 'parent_user_id,child_user_id' },
+      )
+      .select(parentChildLinkColumns)
+      .single();
+
+    if (guardianLinkError || !guardianLink) {
+      throw new InternalServerErrorException('Failed to add child guardian.');
+    }
+
+    const parsedGuardianLink = parentChildLinkRowSchema.safeParse(guardianLink);
+
+    if (!parsedGuardianLink.success) {
+      throw new InternalServerErrorException(
+        'Guardian link payload was invalid.',
+      );
+    }
+
+    const profileById = await this.loadProfilesByIds([
+      parsedGuardianLink.data.parent_user_id,
+      parsedGuardianLink.data.child_user_id,
+    ]);
+
+    return this.mapParentLinkSummary(parsedGuardianLink.data, profileById);
+  }
+
+  // Passing the primary role on demotes the current primary to co-guardian.
+  async updateChildGuardianRole(
+    primaryUserId: string,
+    childUserId: string,
+    linkId: string,
+    guardianRole: GuardianRole,
+  ): Promise<ParentLinkSummary> {
+    const client = this.getClientOrThrow();
+    await this.getLinkedLearnerProfileOrThrow(
+      primaryUserId,
+      childUserId,
+      'manage',
+    );
+
+    const link = await this.getParentLinkById(linkId);
+
+    if (link.child_user_id !== childUserId) {
+      throw new NotFoundException(
+        'Guardian link was not found for this child.',
+      );
+    }
+
+    if (link.parent_user_id === primaryUserId) {
+      throw new BadRequestException(
+        'Hand the primary role to another guardian to change your own role.',
+      );
+    }
+
+    if (link.relationship_status !== 'active') {
+      throw new BadRequestException(
+        'Only active guardians can have their role changed.',
+      );
+    }
+
+    // The demotion and promotion commit together, so the child is never left
+    // without a primary guardian.
+    const { error: updateRoleError } = await client.rpc('set_guardian_role', {
+      p_link_id: link.id,
+      p_child_user_id: childUserId,
+      p_primary_user_id: primaryUserId,
+      p_guardian_role: guardianRole,
+    });
+
+    if (updateRoleError) {
+      throw new InternalServerErrorException('Failed to update guardian role.');
+    }
+
+    const refreshedLink = await this.getParentLinkById(link.id);
+    const profileById = await this.loadProfilesByIds([
+      refreshedLink.parent_user_id,
+      refreshedLink.child_user_id,
+    ]);
+
+    return this.mapParentLinkSummary(refreshedLink, profileById);
+  }
+
+  private async buildChildTimeLimitsResult(
+    parentUserId: string,
+    childUserId: string,
+    childUsername: string,
+    storedLimits: StoredScreenTimeLimits | null,
+  ): Promise<ChildTimeLimitsResult> {
+    const limits = storedLimits ?? {
+      dailyWatchMinutes: null,
+      timeZone: 'UTC',
+      allowedWindows: [],
+      updatedAt: null,
+    };
+    const screenTime = await this.screenTimeService.evaluateLimits(
+      childUserId,
+      limits,
+    );
+
+    return {
+      parentUserId,
+      childUserId,
+      childUsername,
+      dailyWatchMinutes: limits.dailyWatchMinutes,
+      timeZone: limits.timeZone,
+      allowedWindows: limits.allowedWindows,
+      updatedAt: limits.updatedAt,
+      screenTime,
+    };
+  }
+
+  private async getLinkedLearnerProfileOrThrow(
+    parentUserId: string,
+    childUserId: string,
+    capability: GuardianCapability,
+  ) {
+    await this.assertAccountType(parentUserId, 'parent');
+    const guardianRole = await this.findActiveGuardianRole(
+      parentUserId,
+      childUserId,
+    );
+
+    if (!guardianRole) {
+      throw new ForbiddenException(
+        'An active parent-child link is required to manage this child account.',
+      );
+    }
+
+    if (!GUARDIAN_CAPABILITY_ROLES[capability].includes(guardianRole)) {
+      throw new ForbiddenException(
+        'Your guardian role does not allow this for this child.',
+      );
+    }
+
+    const childProfile = await this.getProfileOrThrow(childUserId);
+
+    if (childProfile.accountType !== 'learner') {
+      throw new BadRequestException(
+        'Only learner accounts can be managed by parents.',
+      );
+    }
+
+    return childProfile;
+  }
+
+  private async findLinkForPair(
+    parentUserId: string,
+    childUserId: string,
+  ): Promise<ParentChildLinkRow | null> {
+    const client = this.getClientOrThrow();
+
+    const { data: existingLink, error: existingLinkError } = await client
+      .from('parent_child_links')
+      .select(parentChildLinkColumns)
+      .eq('parent_user_id', parentUserId)
+      .eq('child_user_id', childUserId)
+      .maybeSingle();
+
+    if (existingLinkError) {
+      throw new InternalServerErrorException(
+        'Failed to verify existing parent-child link.',
+      );
+    }
+
+    if (!existingLink) {
+      return null;
+    }
+
+    const parsedExistingLink = parentChildLinkRowSchema.safeParse(existingLink);
+
+    if (!parsedExistingLink.success) {
+      throw new InternalServerErrorException(
+        'Existing parent link payload was invalid.',
+      );
+    }
+
+    return parsedExistingLink.data;
+  }
+
+  // The learner already approved the link by handing out the invite, so an
+  // existing pending link for the pair goes straight to active. Callers turn
+  // away revoked links first.
+  private async activateLinkForPair(
+    parentUserId: string,
+    childUserId: string,
+    existingLink: ParentChildLinkRow | null,
+  ): Promise<ParentChildLinkRow> {
+    const client = this.getClientOrThrow();
+
+    if (existingLink?.relationship_status === 'active') {
+      return existingLink;
+    }
+
+    const linkedAt = new Date().toISOString();
+    const guardianRole = await this.resolveRoleForNewGuardian(
+      parentUserId,
+      childUserId,
+    );
+    const { data: activatedLink, error: activatedLinkError } = existingLink
+      ? await client
+          .from('parent_child_links')
+          .update({
+            relationship_status: 'active',
+            guardian_role: guardianRole,
+            linked_at: linkedAt,
+          })
+          .eq('parent_user_id', parentUserId)
+          .eq('child_user_id', childUserId)
+          .select(parentChildLinkColumns)
+          .single()
+      : await client
+          .from('parent_child_links')
+          .insert({
+            parent_user_id: parentUserId,
+            child_user_id: childUserId,
+            relationship_status: 'active',
+            guardian_role: guardianRole,
+            linked_at: linkedAt,
+          })
+          .select(parentChildLinkColumns)
+          .single();
+
+    if (activatedLinkError || !activatedLink) {
+      throw new InternalServerErrorException(
+        'Failed to activate parent-child link.',
+      );
+    }
+
+    const parsedActivatedLink =
+      parentChildLinkRowSchema.safeParse(activatedLink);
+
+    if (!parsedActivatedLink.success) {
+      throw new InternalServerErrorException(
+        'Activated parent link payload was invalid.',
+      );
+    }
+
+    return parsedActivatedLink.data;
+  }
+
+  private async getParentLinkById(linkId: string) {
+    const client = this.getClientOrThrow();
+
+    const { data: link, error: linkError } = await client
+      .from('parent_child_links')
+      .select(parentChildLinkColumns)
+      .eq('id', linkId)
+      .maybeSingle();
+
+    if (linkError) {
+      throw new InternalServerErrorException(
+        'Failed to load parent-child link.',
+      );
+    }
+
+    if (!link) {
+      throw new NotFoundException('Parent-child link was not found.');
+    }
+
+    const parsedLink = parentChildLinkRowSchema.safeParse(link);
+
+    if (!parsedLink.success) {
+      throw new InternalServerErrorException(
+        'Parent-child link payload was invalid.',
+      );
+    }
+
+    return parsedLink.data;
+  }
+
+  private async loadProfilesByIds(
+    userIds: string[],
+  ): Promise<Map<string, { username: string; accountType: AccountType }>> {
+    if (userIds.length === 0) {
+      return new Map();
+    }
+
+    const client = this.getClientOrThrow();
+
+    const { data: profileRows, error: profileError } = await client
+      .from('profiles')
+      .select('id, username, account_type')
+      .in('id', userIds);
+
+    if (profileError) {
+      throw new InternalServerErrorException('Failed to load profile labels.');
+    }
+
+    const parsedProfiles = z
+      .array(profileRowSchema)
+      .safeParse(profileRows ?? []);
+
+    if (!parsedProfiles.success) {
+      throw new InternalServerErrorException(
+        'Profile labels payload was invalid.',
+      );
+    }
+
+    return new Map(
+      parsedProfiles.data.map((profileRow) => [
+        profileRow.id,
+        {
+          username: profileRow.username,
           accountType: profileRow.account_type,
         },
       ]),
@@ -578,22 +1421,21 @@ export class ParentService {
       childUserId: row.child_user_id,
       childUsername: childProfile.username,
       relationshipStatus: row.relationship_status,
+      guardianRole: row.guardian_role,
       linkedAt: row.linked_at,
       createdAt: row.created_at,
       updatedAt: row.updated_at,
     };
   }
 
-  private async listBlockedContentTypeIdsForPair(
-    parentUserId: string,
+  private async listRestrictionRulesForChild(
     childUserId: string,
-  ): Promise<string[]> {
+  ): Promise<ParentRestrictionRules> {
     const client = this.getClientOrThrow();
 
     const { data: restrictionRows, error: restrictionError } = await client
       .from('parent_content_restrictions')
-      .select('content_type_id')
-      .eq('parent_user_id', parentUserId)
+      .select('content_type_id, content_tag_id, video_id')
       .eq('child_user_id', childUserId);
 
     if (restrictionError) {
@@ -612,18 +1454,31 @@ export class ParentService {
       );
     }
 
-    return parsedRestrictionRows.data.map((row) => row.content_type_id);
+    const collectIds = (ids: Array<string | null>) =>
+      Array.from(new Set(ids.filter((id): id is string => id !== null)));
+
+    return {
+      contentTypeIds: collectIds(
+        parsedRestrictionRows.data.map((row) => row.content_type_id),
+      ),
+      contentTagIds: collectIds(
+        parsedRestrictionRows.data.map((row) => row.content_tag_id),
+      ),
+      videoIds: collectIds(
+        parsedRestrictionRows.data.map((row) => row.video_id),
+      ),
+    };
   }
 
-  private async assertParentChildLinkIsActive(
+  private async findActiveGuardianRole(
     parentUserId: string,
     childUserId: string,
-  ): Promise<void> {
+  ): Promise<GuardianRole | null> {
     const client = this.getClientOrThrow();
 
     const { data: link, error: linkError } = await client
       .from('parent_child_links')
-      .select('id, relationship_status')
+      .select('id, relationship_status, guardian_role')
       .eq('parent_user_id', parentUserId)
       .eq('child_user_id', childUserId)
       .maybeSingle();
@@ -635,10 +1490,66 @@ export class ParentService {
     }
 
     if (!link || link.relationship_status !== 'active') {
-      throw new ForbiddenException(
-        'An active parent-child link is required to manage this child account.',
+      return null;
+    }
+
+    const parsedRole = guardianRoleSchema.safeParse(link.guardian_role);
+
+    if (!parsedRole.success) {
+      throw new InternalServerErrorException(
+        'Parent-child link role was invalid.',
+      );
+    }
+
+    return parsedRole.data;
+  }
+
+  private async hasOtherActiveGuardians(
+    childUserId: string,
+    excludedLinkId: string,
+  ): Promise<boolean> {
+    const client = this.getClientOrThrow();
+
+    const { data: linkRows, error: linkError } = await client
+      .from('parent_child_links')
+      .select('id')
+      .eq('child_user_id', childUserId)
+      .eq('relationship_status', 'active');
+
+    if (linkError) {
+      throw new InternalServerErrorException(
+        'Failed to load the child guardians.',
+      );
+    }
+
+    return (linkRows ?? []).some((row) => row.id !== excludedLinkId);
+  }
+
+  // The first guardian a child links with becomes primary; anyone the child
+  // links with after that joins as a co-guardian.
+  private async resolveRoleForNewGuardian(
+    parentUserId: string,
+    childUserId: string,
+  ): Promise<GuardianRole> {
+    const client = this.getClientOrThrow();
+
+    const { data: primaryLink, error: primaryLinkError } = await client
+      .from('parent_child_links')
+      .select('parent_user_id')
+      .eq('child_user_id', childUserId)
+      .eq('relationship_status', 'active')
+      .eq('guardian_role', 'primary')
+      .maybeSingle();
+
+    if (primaryLinkError) {
+      throw new InternalServerErrorException(
+        'Failed to look up the primary guardian.',
       );
     }
+
+    return primaryLink && primaryLink.parent_user_id !== parentUserId
+      ? 'co_guardian'
+      : 'primary';
   }
 
   private async assertAccountType(
@@ -713,6 +1624,42 @@ export class ParentService {
     }
   }
 
+  private async assertActiveContentTags(
+    contentTagIds: string[],
+  ): Promise<void> {
+    if (contentTagIds.length === 0) {
+      return;
+    }
+
+    const activeContentTags = await this.contentService.listActiveContentTags();
+    const activeContentTagIdSet = new Set(
+      activeContentTags.map((contentTag) => contentTag.id),
+    );
+
+    const hasInactiveSelection = contentTagIds.some(
+      (contentTagId) => !activeContentTagIdSet.has(contentTagId),
+    );
+
+    if (hasInactiveSelection) {
+      throw new BadRequestException(
+        'One or more restricted content tags are invalid or inactive.',
+      );
+    }
+  }
+
+  private async assertExistingVideos(videoIds: string[]): Promise<void> {
+    if (videoIds.length === 0) {
+      return;
+    }
+
+    const existingVideos =
+      await this.contentService.listBlockedVideoSummaries(videoIds);
+
+    if (existingVideos.length !== videoIds.length) {
+      throw new BadRequestException('One or more blocked videos do not exist.');
+    }
+  }
+
   private getClientOrThrow() {
     try {
       return this.supabaseService.getServiceClient();
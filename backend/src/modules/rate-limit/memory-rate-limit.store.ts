@@ -0,0 +1,34 @@
+import type { RateLimitHit, RateLimitStore } from './rate-limit-store';
+
+// Per-process counters; suitable for tests and single-instance deploys.
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly windows = new Map<string, RateLimitHit>();
+
+  hit(key: string, windowSeconds: number, now: Date): Promise<RateLimitHit> {
+    const currentWindow = this.windows.get(key);
+
+    if (!currentWindow || currentWindow.resetAt.getTime() <= now.getTime()) {
+      const nextWindow = {
+        count: 1,
+        resetAt: new Date(now.getTime() + windowSeconds * 1000),
+      };
+      this.windows.set(key, nextWindow);
+
+      return Promise.resolve({ ...nextWindow });
+    }
+
+    currentWindow.count += 1;
+
+    return Promise.resolve({ ...currentWindow });
+  }
+
+  prune(now: Date): Promise<void> {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt.getTime() <= now.getTime()) {
+        this.windows.delete(key);
+      }
+    }
+
+    return Promise.resolve();
+  }
+}
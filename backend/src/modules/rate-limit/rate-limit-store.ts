@@ -0,0 +1,14 @@
+export type RateLimitHit = {
+  count: number;
+  resetAt: Date;
+};
+
+// Fixed-window counters. hit() records one attempt for the key and returns the
+// attempts seen in the current window, opening a new window once the previous
+// one has ended.
+export interface RateLimitStore {
+  hit(key: string, windowSeconds: number, now: Date): Promise<RateLimitHit>;
+  prune(now: Date): Promise<void>;
+}
+
+export const RATE_LIMIT_STORE = Symbol('RATE_LIMIT_STORE');
@@ -0,0 +1,100 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  SetMetadata,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request, Response } from 'express';
+import type { AuthenticatedRequest } from '../auth/bearer-auth.guard';
+import {
+  RateLimitService,
+  type RateLimitIdentifier,
+  type RateLimitRoute,
+} from './rate-limit.service';
+
+type RateLimitedRequest = Request &
+  Partial<Pick<AuthenticatedRequest, 'authUser'>>;
+
+const RATE_LIMIT_ROUTE_KEY = 'rateLimitRoute';
+
+export const RateLimit = (route: RateLimitRoute) =>
+  SetMetadata(RATE_LIMIT_ROUTE_KEY, route);
+
+// Keys attempts by client IP, by the email in the payload, and by the signed-in
+// user. List it after BearerAuthGuard so authenticated routes have a user.
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly rateLimitService: RateLimitService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const route = this.reflector.getAllAndOverride<RateLimitRoute | undefined>(
+      RATE_LIMIT_ROUTE_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!route) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<RateLimitedRequest>();
+    const decision = await this.rateLimitService.consume(
+      route,
+      this.getIdentifiers(request),
+    );
+
+    if (decision.allowed) {
+      return true;
+    }
+
+    context
+      .switchToHttp()
+      .getResponse<Response>()
+      .setHeader('Retry-After', String(decision.retryAfterSeconds));
+
+    throw new HttpException(
+      {
+        message: 'Too many attempts. Try again later.',
+        retryAfterSeconds: decision.retryAfterSeconds,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  private getIdentifiers(request: RateLimitedRequest): RateLimitIdentifier[] {
+    const identifiers: RateLimitIdentifier[] = [];
+    // Express resolves request.ip through the TRUST_PROXY_HOPS proxies set in
+    // main.ts, so a client cannot pick its own address.
+    const ipAddress = request.ip || request.socket.remoteAddress;
+
+    if (ipAddress) {
+      identifiers.push({ kind: 'ip', value: ipAddress });
+    }
+
+    const body: unknown = request.body;
+
+    if (body && typeof body === 'object') {
+      for (const field of ['email', 'newEmail', 'parentEmail']) {
+        const candidate = (body as Record<string, unknown>)[field];
+
+        if (typeof candidate === 'string' && candidate.trim()) {
+          identifiers.push({
+            kind: 'email',
+            value: candidate.trim().toLowerCase(),
+          });
+        }
+      }
+    }
+
+    if (request.authUser) {
+      identifiers.push({ kind: 'user', value: request.authUser.id });
+    }
+
+    return identifiers;
+  }
+}
@@ -0,0 +1,34 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SupabaseService } from '../supabase/supabase.service';
+import { MemoryRateLimitStore } from './memory-rate-limit.store';
+import { RATE_LIMIT_STORE, type RateLimitStore } from './rate-limit-store';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimitService } from './rate-limit.service';
+import { SupabaseRateLimitStore } from './supabase-rate-limit.store';
+
+function createRateLimitStore(
+  configService: ConfigService,
+  supabaseService: SupabaseService,
+): RateLimitStore {
+  if (configService.get<string>('RATE_LIMIT_STORE') === 'supabase') {
+    return new SupabaseRateLimitStore(supabaseService);
+  }
+
+  return new MemoryRateLimitStore();
+}
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: RATE_LIMIT_STORE,
+      useFactory: createRateLimitStore,
+      inject: [ConfigService, SupabaseService],
+    },
+    RateLimitService,
+    RateLimitGuard,
+  ],
+  exports: [RateLimitService, RateLimitGuard],
+})
+export class RateLimitModule {}
@@ -0,0 +1,65 @@
+import { Logger } from '@nestjs/common';
+import { MemoryRateLimitStore } from './memory-rate-limit.store';
+import type { RateLimitStore } from './rate-limit-store';
+import { RateLimitService } from './rate-limit.service';
+
+describe('RateLimitService', () => {
+  let now: Date;
+
+  const createService = (store: RateLimitStore) =>
+    new RateLimitService(
+      store,
+      {
+        getOrThrow: () => ({ limit: 2, windowSeconds: 60 }),
+      } as never,
+      { register: () => undefined } as never,
+      { now: () => now },
+    );
+
+  beforeEach(() => {
+    now = new Date('2026-03-04T12:00:00.000Z');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('denies once any identifier exceeds its budget and resets with the window', async () => {
+    const service = createService(new MemoryRateLimitStore());
+    const ip = { kind: 'ip' as const, value: '203.0.113.7' };
+
+    await expect(
+      service.consume('login', [ip, { kind: 'email', value: 'a@example.com' }]),
+    ).resolves.toEqual({ allowed: true });
+    await expect(
+      service.consume('login', [ip, { kind: 'email', value: 'b@example.com' }]),
+    ).resolves.toEqual({ allowed: true });
+
+    now = new Date('2026-03-04T12:00:15.000Z');
+    await expect(
+      service.consume('login', [ip, { kind: 'email', value: 'c@example.com' }]),
+    ).resolves.toEqual({ allowed: false, retryAfterSeconds: 45 });
+
+    // Budgets are per route, so a locked-out login leaves signup untouched.
+    await expect(service.consume('signup', [ip])).resolves.toEqual({
+      allowed: true,
+    });
+
+    now = new Date('2026-03-04T12:01:00.000Z');
+    await expect(service.consume('login', [ip])).resolves.toEqual({
+      allowed: true,
+    });
+  });
+
+  it('allows requests when the store is unavailable', async () => {
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+    const service = createService({
+      hit: () => Promise.reject(new Error('store offline')),
+      prune: () => Promise.resolve(),
+    });
+
+    await expect(
+      service.consume('signup', [{ kind: 'ip', value: '203.0.113.7' }]),
+    ).resolves.toEqual({ allowed: true });
+  });
+});
@@ -0,0 +1,114 @@
+import { Inject, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { RateLimitBudget } from '../../config/env.schema';
+import { CLOCK, type Clock } from '../scheduler/clock';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import {
+  RATE_LIMIT_STORE,
+  type RateLimitHit,
+  type RateLimitStore,
+} from './rate-limit-store';
+
+export type RateLimitRoute =
+  | 'signup'
+  | 'login'
+  | 'refresh'
+  | 'change_email'
+  | 'onboarding'
+  | 'parent_consent_link'
+  | 'parent_link_invite'
+  | 'parent_link_invite_redeem';
+
+export type RateLimitIdentifier = {
+  kind: 'ip' | 'email' | 'user';
+  value: string;
+};
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; retryAfterSeconds: number };
+
+const RATE_LIMIT_BUDGET_ENV_KEYS: Record<RateLimitRoute, string> = {
+  signup: 'RATE_LIMIT_SIGNUP',
+  login: 'RATE_LIMIT_LOGIN',
+  refresh: 'RATE_LIMIT_REFRESH',
+  change_email: 'RATE_LIMIT_CHANGE_EMAIL',
+  onboarding: 'RATE_LIMIT_ONBOARDING',
+  parent_consent_link: 'RATE_LIMIT_PARENT_CONSENT_LINK',
+  parent_link_invite: 'RATE_LIMIT_PARENT_LINK_INVITE',
+  parent_link_invite_redeem: 'RATE_LIMIT_PARENT_LINK_INVITE_REDEEM',
+};
+
+const PRUNE_JOB_NAME = 'rate-limit-prune';
+const PRUNE_JOB_INTERVAL_MS = 60 * 60 * 1000;
+
+@Injectable()
+export class RateLimitService implements OnModuleInit {
+  private readonly logger = new Logger(RateLimitService.name);
+
+  constructor(
+    @Inject(RATE_LIMIT_STORE) private readonly store: RateLimitStore,
+    private readonly configService: ConfigService,
+    private readonly schedulerService: SchedulerService,
+    @Inject(CLOCK) private readonly clock: Clock,
+  ) {}
+
+  onModuleInit() {
+    this.schedulerService.register({
+      name: PRUNE_JOB_NAME,
+      intervalMs: PRUNE_JOB_INTERVAL_MS,
+      run: () => this.store.prune(this.clock.now()),
+    });
+  }
+
+  // Every identifier has its own budget for the route, so one address cannot
+  // spray many accounts and many addresses cannot hammer one account.
+  async consume(
+    route: RateLimitRoute,
+    identifiers: RateLimitIdentifier[],
+  ): Promise<RateLimitDecision> {
+    const budget = this.configService.getOrThrow<RateLimitBudget>(
+      RATE_LIMIT_BUDGET_ENV_KEYS[route],
+    );
+    const now = this.clock.now();
+    let latestResetAt: Date | null = null;
+
+    for (const identifier of identifiers) {
+      let hit: RateLimitHit;
+
+      try {
+        hit = await this.store.hit(
+          `${route}:${identifier.kind}:${identifier.value}`,
+          budget.windowSeconds,
+          now,
+        );
+      } catch (error) {
+        // A store outage should not lock everyone out of signing in.
+        this.logger.error(
+          `Rate limit store failed for ${route}; allowing the request.`,
+          error instanceof Error ? error.stack : undefined,
+        );
+        return { allowed: true };
+      }
+
+      if (
+        hit.count > budget.limit &&
+        (!latestResetAt || hit.resetAt > latestResetAt)
+      ) {
+        latestResetAt = hit.resetAt;
+      }
+    }
+
+    if (!latestResetAt) {
+      return { allowed: true };
+    }
+
+    return {
+      allowed: false,
+      retryAfterSeconds: Math.max(
+        1,
+        Math.ceil((latestResetAt.getTime() - now.getTime()) / 1000),
+      ),
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import type { SupabaseService } from '../supabase/supabase.service';
+import type { RateLimitHit, RateLimitStore } from './rate-limit-store';
+
+const rateLimitBucketRowSchema = z.object({
+  hit_count: z.number().int(),
+  expires_at: z.string(),
+});
+
+// Shares counters across instances through the consume_rate_limit() function,
+// which increments a bucket atomically in a single upsert.
+export class SupabaseRateLimitStore implements RateLimitStore {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async hit(
+    key: string,
+    windowSeconds: number,
+    now: Date,
+  ): Promise<RateLimitHit> {
+    // rpc() is untyped without generated database types, so keep the payload
+    // unknown until it is parsed.
+    const result: { data: unknown; error: { message: string } | null } =
+      await this.supabaseService.getServiceClient().rpc('consume_rate_limit', {
+        p_bucket_key: key,
+        p_window_seconds: windowSeconds,
+        p_now: now.toISOString(),
+      });
+
+    if (result.error) {
+      throw new Error(
+        `Failed to record rate limit hit: ${result.error.message}`,
+      );
+    }
+
+    const parsedRows = z.array(rateLimitBucketRowSchema).safeParse(result.data);
+    const bucket = parsedRows.success ? parsedRows.data[0] : undefined;
+
+    if (!bucket) {
+      throw new Error('Rate limit bucket payload was invalid.');
+    }
+
+    return {
+      count: bucket.hit_count,
+      resetAt: new Date(bucket.expires_at),
+    };
+  }
+
+  async prune(now: Date): Promise<void> {
+    const { error } = await this.supabaseService
+      .getServiceClient()
+      .from('rate_limit_buckets')
+      .delete()
+      .lte('expires_at', now.toISOString());
+
+    if (error) {
+      throw new Error(`Failed to prune rate limit buckets: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import { Global, Module } from '@nestjs/common';
+import { CLOCK, systemClock } from './clock';
+import { SchedulerService } from './scheduler.service';
+
+@Global()
+@Module({
+  providers: [SchedulerService, { provide: CLOCK, useValue: systemClock }],
+  exports: [SchedulerService, CLOCK],
+})
+export class SchedulerModule {}
@@ -0,0 +1,71 @@
+import { Logger } from '@nestjs/common';
+import { SchedulerService } from './scheduler.service';
+
+describe('SchedulerService', () => {
+  const createService = (config: Record<string, unknown>) =>
+    new SchedulerService({
+      get: (key: string) => config[key],
+    } as never);
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('runs registered jobs on their interval until the module is destroyed', async () => {
+    jest.useFakeTimers();
+    const service = createService({ SCHEDULER_ENABLED: true });
+    const run = jest.fn(() => Promise.resolve());
+
+    service.register({ name: 'tick', intervalMs: 1000, run });
+
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(run).toHaveBeenCalledTimes(3);
+
+    service.onModuleDestroy();
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it('skips overlapping runs and keeps going after a failed run', async () => {
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+    const service = createService({ NODE_ENV: 'test' });
+    let releaseRun: () => void = () => undefined;
+    const run = jest
+      .fn<Promise<void>, []>()
+      .mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            releaseRun = resolve;
+          }),
+      )
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValue(undefined);
+
+    service.register({ name: 'slow', intervalMs: 1000, run });
+
+    const firstRun = service.runJob('slow');
+    await expect(service.runJob('slow')).resolves.toBe(false);
+    releaseRun();
+    await expect(firstRun).resolves.toBe(true);
+
+    await expect(service.runJob('slow')).resolves.toBe(true);
+    await expect(service.runJob('slow')).resolves.toBe(true);
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not start timers in the test environment unless enabled', async () => {
+    jest.useFakeTimers();
+    const service = createService({ NODE_ENV: 'test' });
+    const run = jest.fn(() => Promise.resolve());
+
+    service.register({ name: 'tick', intervalMs: 1000, run });
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(service.isEnabled()).toBe(false);
+    expect(run).not.toHaveBeenCalled();
+    expect(() =>
+      service.register({ name: 'tick', intervalMs: 1000, run }),
+    ).toThrow('Scheduled job "tick" is already registered.');
+  });
+});
@@ -0,0 +1,96 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+export type ScheduledJob = {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+};
+
+type RegisteredJob = ScheduledJob & {
+  timer: NodeJS.Timeout | null;
+  isRunning: boolean;
+};
+
+// In-process interval runner. Each job skips a tick while its previous run is
+// still in flight, and jobs must stay idempotent because every backend
+// instance runs its own copy.
+@Injectable()
+export class SchedulerService implements OnModuleDestroy {
+  private readonly logger = new Logger(SchedulerService.name);
+  private readonly jobs = new Map<string, RegisteredJob>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isEnabled(): boolean {
+    const configuredValue =
+      this.configService.get<boolean>('SCHEDULER_ENABLED');
+
+    return (
+      configuredValue ?? this.configService.get<string>('NODE_ENV') !== 'test'
+    );
+  }
+
+  register(job: ScheduledJob): void {
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Scheduled job "${job.name}" is already registered.`);
+    }
+
+    const registeredJob: RegisteredJob = {
+      ...job,
+      timer: null,
+      isRunning: false,
+    };
+    this.jobs.set(job.name, registeredJob);
+
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    registeredJob.timer = setInterval(() => {
+      void this.runJob(job.name);
+    }, job.intervalMs);
+    registeredJob.timer.unref();
+  }
+
+  listJobNames(): string[] {
+    return Array.from(this.jobs.keys());
+  }
+
+  // Returns false when the job was already running and this call was skipped.
+  async runJob(name: string): Promise<boolean> {
+    const job = this.jobs.get(name);
+
+    if (!job) {
+      throw new Error(`Scheduled job "${name}" is not registered.`);
+    }
+
+    if (job.isRunning) {
+      return false;
+    }
+
+    job.isRunning = true;
+
+    try {
+      await job.run();
+    } catch (error) {
+      this.logger.error(
+        `Scheduled job "${name}" failed.`,
+        error instanceof Error ? error.stack : undefined,
+      );
+    } finally {
+      job.isRunning = false;
+    }
+
+    return true;
+  }
+
+  onModuleDestroy() {
+    for (const job of this.jobs.values()) {
+      if (job.timer) {
+        clearInterval(job.timer);
+        job.timer = null;
+      }
+    }
+  }
+}
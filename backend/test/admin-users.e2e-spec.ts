@@ -0,0 +1,544 @@
+import { INestApplication } from '@nestjs/common';
+import { randomUUID } from 'node:crypto';
+import { Test, TestingModule } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { z } from 'zod';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/modules/supabase/supabase.service';
+
+type SupportedTable =
+  | 'profiles'
+  | 'age_gates'
+  | 'parental_consents'
+  | 'parent_child_links'
+  | 'account_security_events'
+  | 'account_login_lockouts';
+
+type QueryExecutionResult = {
+  data: unknown;
+  error: null;
+};
+
+type InMemoryState = Record<SupportedTable, Record<string, unknown>[]>;
+
+const adminUserSummarySchema = z.object({
+  id: z.string().uuid(),
+  username: z.string(),
+  accountType: z.enum(['learner', 'parent', 'admin']),
+  age: z.number().nullable(),
+  ageBucket: z.enum(['under_13', '13_to_17', '18_plus', 'unknown']),
+  consentStatus: z.string(),
+  accessMode: z.string(),
+});
+
+const adminUserListEnvelopeSchema = z.object({
+  data: z.object({
+    users: z.array(adminUserSummarySchema),
+    nextOffset: z.number().int().nullable(),
+  }),
+});
+
+const adminUserDetailEnvelopeSchema = z.object({
+  data: z.object({
+    profile: adminUserSummarySchema,
+    ageGate: z
+      .object({
+        birthdate: z.string(),
+        calculatedAgeAtSignup: z.number(),
+        countryCode: z.string(),
+      })
+      .nullable(),
+    consent: z.object({
+      status: z.string(),
+      accessMode: z.string(),
+    }),
+    consentHistory: z.array(
+      z.object({
+        consentId: z.string().uuid(),
+        consentStatus: z.string(),
+        parentEmail: z.string(),
+      }),
+    ),
+    parentLinks: z.object({
+      asParent: z.array(z.object({ childUsername: z.string() })),
+      asChild: z.array(z.object({ parentUsername: z.string() })),
+    }),
+    loginLockout: z.object({
+      isLocked: z.boolean(),
+      lockedUntil: z.string().nullable(),
+      failedAttemptCount: z.number().int(),
+      lockoutCount: z.number().int(),
+    }),
+    recentSecurityEvents: z.array(
+      z.object({
+        eventType: z.string(),
+        eventMetadata: z.record(z.string(), z.unknown()),
+      }),
+    ),
+  }),
+});
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function birthdateYearsAgo(years: number): string {
+  const birthdate = new Date();
+  birthdate.setUTCFullYear(birthdate.getUTCFullYear() - years);
+  birthdate.setUTCMonth(0, 1);
+
+  return birthdate.toISOString().slice(0, 10);
+}
+
+function createInMemorySupabaseService() {
+  const adminUserId = '11111111-1111-4111-8111-111111111111';
+  const parentUserId = '22222222-2222-4222-8222-222222222222';
+  const approvedChildId = '33333333-3333-4333-8333-333333333333';
+  const waitingChildId = '44444444-4444-4444-8444-444444444444';
+  const teenUserId = '55555555-5555-4555-8555-555555555555';
+
+  const usersByToken = new Map<string, { id: string; email: string }>([
+    ['token-admin', { id: adminUserId, email: 'admin@example.com' }],
+    ['token-parent', { id: parentUserId, email: 'parent@example.com' }],
+  ]);
+
+  const profile = (
+    id: string,
+    username: string,
+    accountType: string,
+    createdAt: string,
+  ) => ({
+    id,
+    username,
+    display_name: null,
+    account_type: accountType,
+    email_verified_at: null,
+    created_at: createdAt,
+  });
+
+  const ageGate = (userId: string, age: number) => ({
+    user_id: userId,
+    birthdate: birthdateYearsAgo(age),
+    calculated_age_at_signup: age,
+    country_code: 'CA',
+    created_at: '2026-01-01T00:00:00.000Z',
+  });
+
+  const state: InMemoryState = {
+    profiles: [
+      profile(adminUserId, 'rink_admin', 'admin', '2026-01-01T00:00:00.000Z'),
+      profile(
+        parentUserId,
+        'hockey_parent',
+        'parent',
+        '2026-01-02T00:00:00.000Z',
+      ),
+      profile(
+        approvedChildId,
+        'young_skater',
+        'learner',
+        '2026-01-03T00:00:00.000Z',
+      ),
+      profile(
+        waitingChildId,
+        'new_skater',
+        'learner',
+        '2026-01-04T00:00:00.000Z',
+      ),
+      profile(teenUserId, 'teen_skater', 'learner', '2026-01-05T00:00:00.000Z'),
+    ],
+    age_gates: [
+      ageGate(adminUserId, 35),
+      ageGate(approvedChildId, 10),
+      ageGate(waitingChildId, 9),
+      ageGate(teenUserId, 15),
+    ],
+    parental_consents: [
+      {
+        id: '66666666-6666-4666-8666-666666666666',
+        child_user_id: approvedChildId,
+        parent_email: 'pat@example.com',
+        parent_full_name: 'Pat Skater',
+        relationship_to_child: 'parent',
+        consent_status: 'approved',
+        consent_method: 'interim_attestation',
+        approved_at: '2026-01-03T00:00:00.000Z',
+        expires_at: '2099-01-01T00:00:00.000Z',
+        revoked_at: null,
+        token_hash: null,
+        token_expires_at: null,
+        policy_version: 'v1',
+        created_at: '2026-01-03T00:00:00.000Z',
+      },
+    ],
+    parent_child_links: [
+      {
+        id: '77777777-7777-4777-8777-777777777777',
+        parent_user_id: parentUserId,
+        child_user_id: approvedChildId,
+        relationship_status: 'active',
+        guardian_role: 'primary',
+        linked_at: '2026-01-04T00:00:00.000Z',
+        created_at: '2026-01-04T00:00:00.000Z',
+        updated_at: '2026-01-04T00:00:00.000Z',
+      },
+    ],
+    account_security_events: [
+      {
+        id: '88888888-8888-4888-8888-888888888888',
+        user_id: approvedChildId,
+        event_type: 'password_changed',
+        ip_address: '203.0.113.7',
+        user_agent: 'jest',
+        event_metadata: {},
+        created_at: '2026-01-06T00:00:00.000Z',
+      },
+    ],
+    account_login_lockouts: [
+      {
+        user_id: approvedChildId,
+        failed_attempt_count: 0,
+        lockout_count: 2,
+        locked_until: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+        last_failed_at: new Date().toISOString(),
+      },
+    ],
+  };
+
+  class InMemoryQueryBuilder implements PromiseLike<QueryExecutionResult> {
+    private readonly filters: Array<(row: Record<string, unknown>) => boolean> =
+      [];
+    private resultMode: 'many' | 'maybeSingle' | 'delete' = 'many';
+    private readonly orderBy: Array<{ field: string; ascending: boolean }> = [];
+    private rowRange: { from: number; to: number } | null = null;
+    private maxRows: number | null = null;
+
+    constructor(private readonly table: SupportedTable) {}
+
+    select(columns: string) {
+      void columns;
+      return this;
+    }
+
+    insert(row: Record<string, unknown>) {
+      state[this.table].push({
+        id: randomUUID(),
+        created_at: new Date().toISOString(),
+        ...row,
+      });
+      return Promise.resolve({ data: null, error: null });
+    }
+
+    delete() {
+      this.resultMode = 'delete';
+      return this;
+    }
+
+    eq(field: string, value: unknown) {
+      this.filters.push((row) => row[field] === value);
+      return this;
+    }
+
+    in(field: string, values: unknown[]) {
+      this.filters.push((row) => values.includes(row[field]));
+      return this;
+    }
+
+    // Supports the "a.eq.x,b.eq.y" form used for parent links.
+    or(expression: string) {
+      const clauses = expression.split(',').map((clause) => {
+        const [field, , value] = clause.split('.');
+        return { field, value };
+      });
+
+      this.filters.push((row) =>
+        clauses.some(({ field, value }) => row[field] === value),
+      );
+      return this;
+    }
+
+    order(field: string, options?: { ascending?: boolean }) {
+      this.orderBy.push({ field, ascending: options?.ascending ?? true });
+      return this;
+    }
+
+    range(from: number, to: number) {
+      this.rowRange = { from, to };
+      return this;
+    }
+
+    limit(value: number) {
+      this.maxRows = value;
+      return this;
+    }
+
+    maybeSingle() {
+      this.resultMode = 'maybeSingle';
+      return this.execute();
+    }
+
+    then<TResult1 = QueryExecutionResult, TResult2 = never>(
+      onfulfilled?:
+        | ((value: QueryExecutionResult) => TResult1 | PromiseLike<TResult1>)
+        | null,
+      onrejected?:
+        | ((reason: unknown) => TResult2 | PromiseLike<TResult2>)
+        | null,
+    ): Promise<TResult1 | TResult2> {
+      return this.execute().then(onfulfilled, onrejected);
+    }
+
+    private execute(): Promise<QueryExecutionResult> {
+      let rows = state[this.table].filter((row) =>
+        this.filters.every((filter) => filter(row)),
+      );
+
+      if (this.resultMode === 'delete') {
+        state[this.table] = state[this.table].filter(
+          (row) => !rows.includes(row),
+        );
+        return Promise.resolve({ data: null, error: null });
+      }
+
+      rows = [...rows].sort((firstRow, secondRow) => {
+        for (const { field, ascending } of this.orderBy) {
+          const comparison = String(firstRow[field]).localeCompare(
+            String(secondRow[field]),
+          );
+
+          if (comparison !== 0) {
+            return ascending ? comparison : comparison * -1;
+          }
+        }
+
+        return 0;
+      });
+
+      if (this.rowRange) {
+        rows = rows.slice(this.rowRange.from, this.rowRange.to + 1);
+      }
+
+      if (this.maxRows !== null) {
+        rows = rows.slice(0, this.maxRows);
+      }
+
+      if (this.resultMode === 'maybeSingle') {
+        return Promise.resolve({ data: clone(rows[0] ?? null), error: null });
+      }
+
+      return Promise.resolve({ data: clone(rows), error: null });
+    }
+  }
+
+  const serviceClient = {
+    auth: {
+      getUser: (accessToken: string) => {
+        const user = usersByToken.get(accessToken);
+
+        if (!user) {
+          return Promise.resolve({
+            data: { user: null },
+            error: { message: 'Invalid token' },
+          });
+        }
+
+        return Promise.resolve({
+          data: { user },
+          error: null,
+        });
+      },
+    },
+    from: (table: SupportedTable) => new InMemoryQueryBuilder(table),
+  };
+
+  return {
+    approvedChildId,
+    getServiceClient: () => serviceClient,
+  };
+}
+
+describe('Admin users console (e2e)', () => {
+  let app: INestApplication<App>;
+  let approvedChildId: string;
+
+  beforeEach(async () => {
+    const inMemorySupabaseService = createInMemorySupabaseService();
+    approvedChildId = inMemorySupabaseService.approvedChildId;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue({ getServiceClient: inMemorySupabaseService.getServiceClient })
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const listUsernames = async (query: Record<string, string | number>) => {
+    const response = await request(app.getHttpServer())
+      .get('/v1/admin/users')
+      .query(query)
+      .set('Authorization', 'Bearer token-admin')
+      .expect(200);
+
+    const page = adminUserListEnvelopeSchema.parse(
+      response.body as unknown,
+    ).data;
+
+    return {
+      usernames: page.users.map((user) => user.username),
+      nextOffset: page.nextOffset,
+    };
+  };
+
+  it('restricts the users console to admin accounts', async () => {
+    await request(app.getHttpServer())
+      .get('/v1/admin/users')
+      .set('Authorization', 'Bearer token-parent')
+      .expect(403);
+
+    await request(app.getHttpServer()).get('/v1/admin/users').expect(401);
+  });
+
+  it('filters users by account type, age bucket and consent status', async () => {
+    await expect(listUsernames({})).resolves.toEqual({
+      usernames: [
+        'teen_skater',
+        'new_skater',
+        'young_skater',
+        'hockey_parent',
+        'rink_admin',
+      ],
+      nextOffset: null,
+    });
+
+    await expect(listUsernames({ ageBucket: 'under_13' })).resolves.toEqual({
+      usernames: ['new_skater', 'young_skater'],
+      nextOffset: null,
+    });
+
+    await expect(
+      listUsernames({ accountType: 'learner', consentStatus: 'missing' }),
+    ).resolves.toEqual({ usernames: ['new_skater'], nextOffset: null });
+
+    await expect(listUsernames({ ageBucket: 'unknown' })).resolves.toEqual({
+      usernames: ['hockey_parent'],
+      nextOffset: null,
+    });
+
+    await request(app.getHttpServer())
+      .get('/v1/admin/users')
+      .query({ consentStatus: 'maybe' })
+      .set('Authorization', 'Bearer token-admin')
+      .expect(400);
+  });
+
+  it('pages through filtered users with the returned offset', async () => {
+    const firstPage = await listUsernames({ ageBucket: 'under_13', limit: 1 });
+
+    expect(firstPage).toEqual({ usernames: ['new_skater'], nextOffset: 2 });
+
+    await expect(
+      listUsernames({
+        ageBucket: 'under_13',
+        limit: 1,
+        offset: firstPage.nextOffset ?? 0,
+      }),
+    ).resolves.toEqual({ usernames: ['young_skater'], nextOffset: null });
+  });
+
+  it('shows profile, age gate, consent history, links and security events', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/v1/admin/users/${approvedChildId}`)
+      .set('Authorization', 'Bearer token-admin')
+      .expect(200);
+
+    const detail = adminUserDetailEnvelopeSchema.parse(
+      response.body as unknown,
+    ).data;
+
+    expect(detail.profile).toMatchObject({
+      username: 'young_skater',
+      age: 10,
+      ageBucket: 'under_13',
+      consentStatus: 'approved',
+    });
+    expect(detail.ageGate).toMatchObject({
+      calculatedAgeAtSignup: 10,
+      countryCode: 'CA',
+    });
+    expect(detail.consent).toMatchObject({
+      status: 'approved',
+      accessMode: 'full',
+    });
+    expect(detail.consentHistory).toEqual([
+      expect.objectContaining({
+        consentStatus: 'approved',
+        parentEmail: 'pat@example.com',
+      }),
+    ]);
+    expect(detail.parentLinks.asChild).toEqual([
+      expect.objectContaining({ parentUsername: 'hockey_parent' }),
+    ]);
+    expect(detail.loginLockout).toMatchObject({
+      isLocked: true,
+      lockoutCount: 2,
+    });
+    expect(detail.recentSecurityEvents).toEqual([
+      expect.objectContaining({ eventType: 'password_changed' }),
+    ]);
+
+    await request(app.getHttpServer())
+      .get('/v1/admin/users/99999999-9999-4999-8999-999999999999')
+      .set('Authorization', 'Bearer token-admin')
+      .expect(404);
+
+    await request(app.getHttpServer())
+      .get('/v1/admin/users/not-a-user')
+      .set('Authorization', 'Bearer token-admin')
+      .expect(400);
+  });
+
+  it('lets admins clear a login lockout', async () => {
+    await request(app.getHttpServer())
+      .put(`/v1/admin/users/${approvedChildId}/unlock`)
+      .set('Authorization', 'Bearer token-parent')
+      .expect(403);
+
+    const unlockResponse = await request(app.getHttpServer())
+      .put(`/v1/admin/users/${approvedChildId}/unlock`)
+      .set('Authorization', 'Bearer token-admin')
+      .expect(200);
+
+    expect(unlockResponse.body).toMatchObject({
+      data: { isLocked: false, lockoutCount: 0 },
+    });
+
+    const detailResponse = await request(app.getHttpServer())
+      .get(`/v1/admin/users/${approvedChildId}`)
+      .set('Authorization', 'Bearer token-admin')
+      .expect(200);
+    const detail = adminUserDetailEnvelopeSchema.parse(
+      detailResponse.body as unknown,
+    ).data;
+
+    expect(detail.loginLockout.isLocked).toBe(false);
+    expect(detail.recentSecurityEvents).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ eventType: 'login_lockout_cleared' }),
+      ]),
+    );
+
+    await request(app.getHttpServer())
+      .put('/v1/admin/users/99999999-9999-4999-8999-999999999999/unlock')
+      .set('Authorization', 'Bearer token-admin')
+      .expect(404);
+  });
+});
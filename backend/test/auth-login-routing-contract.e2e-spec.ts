@@ -67,7 +67,47 @@ function createInMemorySupabaseService() {
     .map((user) => ({ user_id: user.id }));
 
   const serviceClient = {
+    rpc: (functionName: string, args: { p_email: string }) => {
+      if (functionName !== 'find_auth_user_id_by_email') {
+        throw new Error(`Unsupported RPC for auth login E2E: ${functionName}`);
+      }
+
+      const matchingUser = users.find((user) => user.email === args.p_email);
+
+      return Promise.resolve({ data: matchingUser?.id ?? null, error: null });
+    },
     auth: {
+      refreshSession: (currentSession: { refresh_token: string }) => {
+        const matchingUser = users.find(
+          (user) => currentSession.refresh_token === `refresh-${user.id}`,
+        );
+
+        if (!matchingUser) {
+          return Promise.resolve({
+            data: { session: null, user: null },
+            error: {
+              message: 'Invalid Refresh Token: Refresh Token Not Found',
+            },
+          });
+        }
+
+        return Promise.resolve({
+          data: {
+            session: {
+              access_token: `access-renewed-${matchingUser.id}`,
+              refresh_token: `refresh-${matchingUser.id}`,
+              expires_in: 3600,
+              token_type: 'bearer',
+            },
+            user: {
+              id: matchingUser.id,
+              email: matchingUser.email,
+              email_confirmed_at: '2026-02-28T00:00:00.000Z',
+            },
+          },
+          error: null,
+        });
+      },
       signInWithPassword: (credentials: {
         email: string;
         password: string;
@@ -167,6 +207,19 @@ function createInMemorySupabaseService() {
         };
       }
 
+      if (table === 'account_login_lockouts') {
+        return {
+          select: () => ({
+            eq: () => ({
+              maybeSingle: () => Promise.resolve({ data: null, error: null }),
+            }),
+          }),
+          delete: () => ({
+            eq: () => Promise.resolve({ error: null }),
+          }),
+        };
+      }
+
       throw new Error(
         `Unsupported in-memory table for auth login E2E: ${table}`,
       );
@@ -245,4 +298,34 @@ describe('Auth login routing contract (e2e)', () => {
     expect(parsedLearnerWithAgeGate.data.user.accountType).toBe('learner');
     expect(parsedLearnerWithAgeGate.data.user.hasCompletedAgeGate).toBe(true);
   });
+
+  it('renews a session from its refresh token with the same routing fields', async () => {
+    const refreshResponse = await request(app.getHttpServer())
+      .post('/v1/auth/refresh')
+      .send({ refreshToken: 'refresh-22222222-2222-4222-8222-222222222222' })
+      .expect(201);
+
+    const parsedRefresh = loginEnvelopeSchema.parse(
+      refreshResponse.body as unknown,
+    );
+
+    expect(parsedRefresh.data.accessToken).toBe(
+      'access-renewed-22222222-2222-4222-8222-222222222222',
+    );
+    expect(parsedRefresh.data.user).toMatchObject({
+      email: 'learner-no-age@example.com',
+      accountType: 'learner',
+      hasCompletedAgeGate: false,
+    });
+
+    await request(app.getHttpServer())
+      .post('/v1/auth/refresh')
+      .send({ refreshToken: 'refresh-unknown' })
+      .expect(401);
+
+    await request(app.getHttpServer())
+      .post('/v1/auth/refresh')
+      .send({})
+      .expect(400);
+  });
 });
@@ -0,0 +1,244 @@
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/modules/supabase/supabase.service';
+
+type SupportedTable =
+  | 'profiles'
+  | 'parent_child_links'
+  | 'account_security_events';
+
+type InMemoryState = Record<SupportedTable, Record<string, unknown>[]>;
+
+const parentUserId = '11111111-1111-4111-8111-111111111111';
+const childUserId = '22222222-2222-4222-8222-222222222222';
+const otherChildUserId = '33333333-3333-4333-8333-333333333333';
+
+function createInMemorySupabaseService() {
+  // Every token maps to one session; signing out removes sessions from here.
+  const sessions = new Map<string, { sessionId: string; userId: string }>([
+    ['token-parent', { sessionId: 'session-parent', userId: parentUserId }],
+    ['token-child-phone', { sessionId: 'session-phone', userId: childUserId }],
+    [
+      'token-child-tablet',
+      { sessionId: 'session-tablet', userId: childUserId },
+    ],
+  ]);
+
+  const state: InMemoryState = {
+    profiles: [
+      { id: parentUserId, username: 'hockey_parent', account_type: 'parent' },
+      { id: childUserId, username: 'young_skater', account_type: 'learner' },
+      {
+        id: otherChildUserId,
+        username: 'other_skater',
+        account_type: 'learner',
+      },
+    ],
+    parent_child_links: [
+      {
+        id: '44444444-4444-4444-8444-444444444444',
+        parent_user_id: parentUserId,
+        child_user_id: childUserId,
+        relationship_status: 'active',
+        guardian_role: 'primary',
+      },
+    ],
+    account_security_events: [],
+  };
+
+  const revokeSessions = (predicate: (userId: string) => boolean) => {
+    for (const [token, session] of sessions) {
+      if (predicate(session.userId)) {
+        sessions.delete(token);
+      }
+    }
+  };
+
+  const serviceClient = {
+    rpc: (functionName: string, args: { p_user_id: string }) => {
+      if (functionName !== 'revoke_user_sessions') {
+        throw new Error(`Unsupported RPC for logout E2E: ${functionName}`);
+      }
+
+      revokeSessions((userId) => userId === args.p_user_id);
+
+      return Promise.resolve({ data: 2, error: null });
+    },
+    auth: {
+      getUser: (accessToken: string) => {
+        const session = sessions.get(accessToken);
+
+        if (!session) {
+          return Promise.resolve({
+            data: { user: null },
+            error: { message: 'Session not found' },
+          });
+        }
+
+        return Promise.resolve({
+          data: { user: { id: session.userId, email: null } },
+          error: null,
+        });
+      },
+      admin: {
+        signOut: (accessToken: string, scope: 'local' | 'global') => {
+          const session = sessions.get(accessToken);
+
+          if (!session) {
+            return Promise.resolve({ data: null, error: { message: 'gone' } });
+          }
+
+          if (scope === 'global') {
+            revokeSessions((userId) => userId === session.userId);
+          } else {
+            sessions.delete(accessToken);
+          }
+
+          return Promise.resolve({ data: null, error: null });
+        },
+      },
+    },
+    from: (table: SupportedTable) => {
+      const filters: Array<(row: Record<string, unknown>) => boolean> = [];
+
+      const builder = {
+        select: (columns: string) => {
+          void columns;
+          return builder;
+        },
+        eq: (field: string, value: unknown) => {
+          filters.push((row) => row[field] === value);
+          return builder;
+        },
+        maybeSingle: () =>
+          Promise.resolve({
+            data:
+              state[table].find((row) =>
+                filters.every((filter) => filter(row)),
+              ) ?? null,
+            error: null,
+          }),
+        insert: (row: Record<string, unknown>) => {
+          state[table].push(row);
+          return Promise.resolve({ error: null });
+        },
+      };
+
+      return builder;
+    },
+  };
+
+  return {
+    state,
+    service: { getServiceClient: () => serviceClient },
+  };
+}
+
+describe('Auth logout and session revocation (e2e)', () => {
+  let app: INestApplication<App>;
+  let state: InMemoryState;
+
+  beforeEach(async () => {
+    const inMemorySupabase = createInMemorySupabaseService();
+    state = inMemorySupabase.state;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(inMemorySupabase.service)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const recordedEventTypes = () =>
+    state.account_security_events.map((event) => [
+      event.user_id,
+      event.event_type,
+    ]);
+
+  it('signs out only the current session on logout', async () => {
+    await request(app.getHttpServer())
+      .post('/v1/auth/logout')
+      .set('Authorization', 'Bearer token-child-phone')
+      .expect(201)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({
+          data: { userId: childUserId, scope: 'local' },
+        });
+      });
+
+    await request(app.getHttpServer())
+      .post('/v1/auth/logout')
+      .set('Authorization', 'Bearer token-child-phone')
+      .expect(401);
+
+    await request(app.getHttpServer())
+      .post('/v1/auth/logout')
+      .set('Authorization', 'Bearer token-child-tablet')
+      .expect(201);
+
+    expect(recordedEventTypes()).toEqual([
+      [childUserId, 'logout'],
+      [childUserId, 'logout'],
+    ]);
+  });
+
+  it('signs out every session on logout-all', async () => {
+    await request(app.getHttpServer())
+      .post('/v1/auth/logout-all')
+      .set('Authorization', 'Bearer token-child-phone')
+      .expect(201);
+
+    await request(app.getHttpServer())
+      .post('/v1/auth/logout')
+      .set('Authorization', 'Bearer token-child-tablet')
+      .expect(401);
+
+    expect(recordedEventTypes()).toEqual([[childUserId, 'logout_all']]);
+  });
+
+  it('lets a linked parent sign a child out of all devices', async () => {
+    await request(app.getHttpServer())
+      .post(`/v1/parent/children/${otherChildUserId}/sign-out-everywhere`)
+      .set('Authorization', 'Bearer token-parent')
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .post(`/v1/parent/children/${childUserId}/sign-out-everywhere`)
+      .set('Authorization', 'Bearer token-child-phone')
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .post(`/v1/parent/children/${childUserId}/sign-out-everywhere`)
+      .set('Authorization', 'Bearer token-parent')
+      .expect(201)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({
+          data: { userId: childUserId, scope: 'global' },
+        });
+      });
+
+    await request(app.getHttpServer())
+      .post('/v1/auth/logout')
+      .set('Authorization', 'Bearer token-child-tablet')
+      .expect(401);
+
+    expect(state.account_security_events).toEqual([
+      expect.objectContaining({
+        user_id: childUserId,
+        event_type: 'sessions_revoked',
+        event_metadata: { scope: 'global', revokedByUserId: parentUserId },
+      }),
+    ]);
+  });
+});
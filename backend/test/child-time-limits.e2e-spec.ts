@@ -0,0 +1,440 @@
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { CLOCK } from './../src/modules/scheduler/clock';
+import { SupabaseService } from './../src/modules/supabase/supabase.service';
+
+type SupportedTable =
+  | 'profiles'
+  | 'parent_child_links'
+  | 'age_gates'
+  | 'child_time_limits'
+  | 'watch_sessions'
+  | 'videos';
+
+type Row = Record<string, unknown>;
+type InMemoryState = Record<SupportedTable, Row[]>;
+
+const parentUserId = '11111111-1111-4111-8111-111111111111';
+const childUserId = '22222222-2222-4222-8222-222222222222';
+const coGuardianUserId = '33333333-3333-4333-8333-333333333333';
+const coachUserId = '44444444-4444-4444-8444-444444444444';
+const videoId = '66666666-6666-4666-8666-666666666666';
+
+const watchEvent = {
+  videoId,
+  eventType: 'progress_25',
+  positionSeconds: 10,
+};
+
+// School nights close at 9pm local time; weekends run an hour later.
+const schoolNightLimits = {
+  dailyWatchMinutes: 30,
+  timeZone: 'America/New_York',
+  allowedWindows: [
+    {
+      days: ['thu', 'sun', 'mon', 'tue', 'wed'],
+      startTime: '07:00',
+      endTime: '21:00',
+    },
+    { days: ['fri', 'sat'], startTime: '08:00', endTime: '22:00' },
+  ],
+};
+
+function createInMemorySupabaseService() {
+  const usersByToken = new Map<string, string>([
+    ['token-parent', parentUserId],
+    ['token-child', childUserId],
+    ['token-co-guardian', coGuardianUserId],
+    ['token-coach', coachUserId],
+  ]);
+
+  const activeLink = (
+    id: string,
+    guardianUserId: string,
+    guardianRole: string,
+  ): Row => ({
+    id,
+    parent_user_id: guardianUserId,
+    child_user_id: childUserId,
+    relationship_status: 'active',
+    guardian_role: guardianRole,
+    linked_at: '2026-03-01T00:00:00.000Z',
+    created_at: '2026-03-01T00:00:00.000Z',
+    updated_at: '2026-03-01T00:00:00.000Z',
+  });
+
+  const state: InMemoryState = {
+    profiles: [
+      { id: parentUserId, username: 'hockey_parent', account_type: 'parent' },
+      { id: childUserId, username: 'young_skater', account_type: 'learner' },
+      { id: coGuardianUserId, username: 'co_parent', account_type: 'parent' },
+      { id: coachUserId, username: 'team_coach', account_type: 'parent' },
+    ],
+    parent_child_links: [
+      activeLink(
+        '55555555-5555-4555-8555-555555555551',
+        parentUserId,
+        'primary',
+      ),
+      activeLink(
+        '55555555-5555-4555-8555-555555555552',
+        coGuardianUserId,
+        'co_guardian',
+      ),
+      activeLink(
+        '55555555-5555-4555-8555-555555555553',
+        coachUserId,
+        'coach_viewer',
+      ),
+    ],
+    age_gates: [],
+    child_time_limits: [],
+    watch_sessions: [],
+    videos: [],
+  };
+
+  class QueryBuilder {
+    private readonly filters: Array<(row: Row) => boolean> = [];
+    private pendingUpsert: Row | null = null;
+    private maxRows: number | null = null;
+
+    constructor(private readonly table: SupportedTable) {}
+
+    select(columns: string) {
+      void columns;
+      return this;
+    }
+
+    eq(field: string, value: unknown) {
+      this.filters.push((row) => row[field] === value);
+      return this;
+    }
+
+    gte(field: string, value: string) {
+      this.filters.push((row) => String(row[field]) >= value);
+      return this;
+    }
+
+    in(field: string, values: unknown[]) {
+      this.filters.push((row) => values.includes(row[field]));
+      return this;
+    }
+
+    limit(value: number) {
+      this.maxRows = value;
+      return this;
+    }
+
+    upsert(row: Row, options: { onConflict: string }) {
+      const existingRow = state[this.table].find(
+        (candidate) =>
+          candidate[options.onConflict] === row[options.onConflict],
+      );
+
+      if (existingRow) {
+        Object.assign(existingRow, row);
+        this.pendingUpsert = existingRow;
+      } else {
+        this.pendingUpsert = { ...row };
+        state[this.table].push(this.pendingUpsert);
+      }
+
+      return this;
+    }
+
+    maybeSingle() {
+      return Promise.resolve({ data: this.execute()[0] ?? null, error: null });
+    }
+
+    single() {
+      return Promise.resolve({ data: this.execute()[0], error: null });
+    }
+
+    then<T>(
+      resolve: (value: { data: Row[]; error: null }) => T,
+      reject?: (reason: unknown) => T,
+    ) {
+      return Promise.resolve({ data: this.execute(), error: null }).then(
+        resolve,
+        reject,
+      );
+    }
+
+    private execute(): Row[] {
+      if (this.pendingUpsert) {
+        return [JSON.parse(JSON.stringify(this.pendingUpsert)) as Row];
+      }
+
+      const rows = state[this.table].filter((row) =>
+        this.filters.every((filter) => filter(row)),
+      );
+
+      return (this.maxRows === null ? rows : rows.slice(0, this.maxRows)).map(
+        (row) => JSON.parse(JSON.stringify(row)) as Row,
+      );
+    }
+  }
+
+  const serviceClient = {
+    auth: {
+      getUser: (accessToken: string) => {
+        const userId = usersByToken.get(accessToken);
+
+        if (!userId) {
+          return Promise.resolve({
+            data: { user: null },
+            error: { message: 'Invalid token' },
+          });
+        }
+
+        return Promise.resolve({
+          data: { user: { id: userId, email: null } },
+          error: null,
+        });
+      },
+    },
+    from: (table: SupportedTable) => new QueryBuilder(table),
+  };
+
+  return {
+    state,
+    service: { getServiceClient: () => serviceClient },
+  };
+}
+
+describe('Child time limits (e2e)', () => {
+  let app: INestApplication<App>;
+  let state: InMemoryState;
+  let now: Date;
+
+  beforeEach(async () => {
+    const inMemorySupabase = createInMemorySupabaseService();
+    state = inMemorySupabase.state;
+    // Wednesday 3pm in New York.
+    now = new Date('2026-03-04T20:00:00.000Z');
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(inMemorySupabase.service)
+      .overrideProvider(CLOCK)
+      .useValue({ now: () => now })
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const seedWatchSession = (startedAt: string, watchSeconds: number) => {
+    state.watch_sessions.push({
+      user_id: childUserId,
+      started_at: startedAt,
+      watch_seconds: watchSeconds,
+    });
+  };
+
+  it('blocks the feed and watch events once the daily budget is spent', async () => {
+    await request(app.getHttpServer())
+      .put(`/v1/parent/children/${childUserId}/time-limits`)
+      .set('Authorization', 'Bearer token-parent')
+      .send(schoolNightLimits)
+      .expect(200)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({
+          data: {
+            childUsername: 'young_skater',
+            dailyWatchMinutes: 30,
+            timeZone: 'America/New_York',
+            allowedWindows: [
+              {
+                days: ['sun', 'mon', 'tue', 'wed', 'thu'],
+                startTime: '07:00',
+                endTime: '21:00',
+              },
+              { days: ['fri', 'sat'] },
+            ],
+            screenTime: { limitReason: null, remainingSeconds: 1800 },
+          },
+        });
+      });
+
+    // Late Tuesday evening locally, so it counts toward yesterday.
+    seedWatchSession('2026-03-04T04:00:00.000Z', 900);
+    seedWatchSession('2026-03-04T14:00:00.000Z', 1500);
+
+    await request(app.getHttpServer())
+      .get(`/v1/parent/children/${childUserId}/time-limits`)
+      .set('Authorization', 'Bearer token-co-guardian')
+      .expect(200)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({
+          data: {
+            screenTime: {
+              limitReason: null,
+              watchedSecondsToday: 1500,
+              remainingSeconds: 300,
+            },
+          },
+        });
+      });
+
+    seedWatchSession('2026-03-04T19:00:00.000Z', 300);
+
+    const blockedFeed = await request(app.getHttpServer())
+      .get('/v1/feed/catalog')
+      .set('Authorization', 'Bearer token-child')
+      .expect(403);
+
+    expect(blockedFeed.body).toMatchObject({
+      message:
+        "Today's watch time is used up. The feed opens again Thursday 7:00 AM.",
+      limitReason: 'daily_limit_reached',
+      resumesAt: '2026-03-05T12:00:00.000Z',
+    });
+
+    await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events/batch')
+      .set('Authorization', 'Bearer token-child')
+      .send({ events: [watchEvent] })
+      .expect(403)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({
+          limitReason: 'daily_limit_reached',
+          resumesAt: '2026-03-05T12:00:00.000Z',
+        });
+      });
+
+    await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events')
+      .set('Authorization', 'Bearer token-child')
+      .send(watchEvent)
+      .expect(403)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({ limitReason: 'daily_limit_reached' });
+      });
+  });
+
+  it('blocks the feed outside allowed hours until the next window opens', async () => {
+    await request(app.getHttpServer())
+      .put(`/v1/parent/children/${childUserId}/time-limits`)
+      .set('Authorization', 'Bearer token-parent')
+      .send({ ...schoolNightLimits, dailyWatchMinutes: null })
+      .expect(200);
+
+    // Wednesday 9:30pm in New York.
+    now = new Date('2026-03-05T02:30:00.000Z');
+
+    await request(app.getHttpServer())
+      .get('/v1/feed/catalog')
+      .set('Authorization', 'Bearer token-child')
+      .expect(403)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({
+          message:
+            'Watching is paused outside the hours a parent allowed. The feed opens again Thursday 7:00 AM.',
+          limitReason: 'outside_allowed_hours',
+          resumesAt: '2026-03-05T12:00:00.000Z',
+        });
+      });
+
+    await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events')
+      .set('Authorization', 'Bearer token-child')
+      .send(watchEvent)
+      .expect(403)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({
+          limitReason: 'outside_allowed_hours',
+          resumesAt: '2026-03-05T12:00:00.000Z',
+        });
+      });
+
+    await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events/batch')
+      .set('Authorization', 'Bearer token-child')
+      .send({ events: [watchEvent] })
+      .expect(403)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({ limitReason: 'outside_allowed_hours' });
+      });
+  });
+
+  it('stops enforcing limits once no primary guardian is linked', async () => {
+    await request(app.getHttpServer())
+      .put(`/v1/parent/children/${childUserId}/time-limits`)
+      .set('Authorization', 'Bearer token-parent')
+      .send(schoolNightLimits)
+      .expect(200);
+
+    seedWatchSession('2026-03-04T14:00:00.000Z', 1800);
+
+    await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events/batch')
+      .set('Authorization', 'Bearer token-child')
+      .send({ events: [watchEvent] })
+      .expect(403);
+
+    for (const link of state.parent_child_links) {
+      if (link.guardian_role === 'primary') {
+        link.relationship_status = 'revoked';
+      }
+    }
+
+    // The video is not in the catalog, so the event is reported back as
+    // rejected rather than stored, but screen time no longer refuses it.
+    await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events/batch')
+      .set('Authorization', 'Bearer token-child')
+      .send({ events: [watchEvent] })
+      .expect(201)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({
+          data: {
+            acceptedCount: 0,
+            rejectedCount: 1,
+            items: [{ index: 0, reason: 'video_not_trackable' }],
+          },
+        });
+      });
+  });
+
+  it('lets only the primary guardian change limits', async () => {
+    await request(app.getHttpServer())
+      .put(`/v1/parent/children/${childUserId}/time-limits`)
+      .set('Authorization', 'Bearer token-co-guardian')
+      .send(schoolNightLimits)
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .get(`/v1/parent/children/${childUserId}/time-limits`)
+      .set('Authorization', 'Bearer token-coach')
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .put(`/v1/parent/children/${childUserId}/time-limits`)
+      .set('Authorization', 'Bearer token-parent')
+      .send({
+        timeZone: 'America/New_York',
+        allowedWindows: [
+          { days: ['mon'], startTime: '21:00', endTime: '07:00' },
+        ],
+      })
+      .expect(400);
+
+    await request(app.getHttpServer())
+      .put(`/v1/parent/children/${childUserId}/time-limits`)
+      .set('Authorization', 'Bearer token-parent')
+      .send({ timeZone: 'Mars/Olympus_Mons' })
+      .expect(400);
+
+    expect(state.child_time_limits).toHaveLength(0);
+  });
+});
@@ -0,0 +1,363 @@
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import {
+  MAIL_TRANSPORT,
+  type OutgoingMail,
+} from './../src/modules/mail/mail-transport';
+import { ConsentRemindersService } from './../src/modules/onboarding/consent-reminders.service';
+import { CLOCK } from './../src/modules/scheduler/clock';
+import { SupabaseService } from './../src/modules/supabase/supabase.service';
+
+type SupportedTable =
+  | 'profiles'
+  | 'age_gates'
+  | 'parental_consents'
+  | 'parental_consent_reminders';
+
+type QueryExecutionResult = {
+  data: unknown;
+  error: null;
+};
+
+type InMemoryState = Record<SupportedTable, Record<string, unknown>[]>;
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function createInMemorySupabaseService() {
+  const childIds = [
+    '11111111-1111-4111-8111-111111111111',
+    '22222222-2222-4222-8222-222222222222',
+    '33333333-3333-4333-8333-333333333333',
+    '44444444-4444-4444-8444-444444444444',
+  ];
+  const [soonChildId, urgentChildId, renewedChildId, laterChildId] = childIds;
+
+  const consent = (
+    id: string,
+    childUserId: string,
+    expiresAt: string,
+    createdAt = '2025-06-01T00:00:00.000Z',
+  ) => ({
+    id,
+    child_user_id: childUserId,
+    parent_email: `parent-${id.slice(0, 2)}@example.com`,
+    parent_full_name: 'Pat Skater',
+    relationship_to_child: 'parent',
+    consent_status: 'approved',
+    consent_method: 'interim_attestation',
+    approved_at: createdAt,
+    expires_at: expiresAt,
+    revoked_at: null,
+    token_hash: null,
+    token_expires_at: null,
+    policy_version: 'v1',
+    created_at: createdAt,
+  });
+
+  const state: InMemoryState = {
+    profiles: childIds.map((id, index) => ({
+      id,
+      username: `skater_${index + 1}`,
+      account_type: 'learner',
+    })),
+    age_gates: childIds.map((id) => ({
+      user_id: id,
+      birthdate: '2016-01-01',
+      calculated_age_at_signup: 9,
+    })),
+    parental_consents: [
+      consent(
+        'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa',
+        soonChildId,
+        '2026-06-20T00:00:00.000Z',
+      ),
+      consent(
+        'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb',
+        urgentChildId,
+        '2026-06-05T00:00:00.000Z',
+      ),
+      consent(
+        'cccccccc-cccc-4ccc-8ccc-cccccccccccc',
+        renewedChildId,
+        '2026-06-20T00:00:00.000Z',
+      ),
+      consent(
+        'dddddddd-dddd-4ddd-8ddd-dddddddddddd',
+        renewedChildId,
+        '2027-05-25T00:00:00.000Z',
+        '2026-05-25T00:00:00.000Z',
+      ),
+      consent(
+        'eeeeeeee-eeee-4eee-8eee-eeeeeeeeeeee',
+        laterChildId,
+        '2026-09-01T00:00:00.000Z',
+      ),
+    ],
+    parental_consent_reminders: [],
+  };
+
+  class InMemoryQueryBuilder implements PromiseLike<QueryExecutionResult> {
+    private readonly filters: Array<(row: Record<string, unknown>) => boolean> =
+      [];
+    private pendingOperation: 'select' | 'upsert' | 'update' | 'delete' =
+      'select';
+    private pendingPayload: Record<string, unknown> = {};
+    private conflictFields: string[] = [];
+    private resultMode: 'many' | 'maybeSingle' = 'many';
+    private orderBy: { field: string; ascending: boolean } | null = null;
+    private maxRows: number | null = null;
+
+    constructor(private readonly table: SupportedTable) {}
+
+    select(columns: string) {
+      void columns;
+      return this;
+    }
+
+    upsert(
+      payload: Record<string, unknown>,
+      options: { onConflict: string; ignoreDuplicates?: boolean },
+    ) {
+      this.pendingOperation = 'upsert';
+      this.pendingPayload = payload;
+      this.conflictFields = options.onConflict.split(',');
+      return this;
+    }
+
+    update(payload: Record<string, unknown>) {
+      this.pendingOperation = 'update';
+      this.pendingPayload = payload;
+      return this;
+    }
+
+    delete() {
+      this.pendingOperation = 'delete';
+      return this;
+    }
+
+    eq(field: string, value: unknown) {
+      this.filters.push((row) => row[field] === value);
+      return this;
+    }
+
+    in(field: string, values: unknown[]) {
+      this.filters.push((row) => values.includes(row[field]));
+      return this;
+    }
+
+    gt(field: string, value: string) {
+      this.filters.push((row) => (row[field] as string) > value);
+      return this;
+    }
+
+    lte(field: string, value: string) {
+      this.filters.push((row) => (row[field] as string) <= value);
+      return this;
+    }
+
+    order(field: string, options?: { ascending?: boolean }) {
+      this.orderBy = { field, ascending: options?.ascending ?? true };
+      return this;
+    }
+
+    limit(value: number) {
+      this.maxRows = value;
+      return this;
+    }
+
+    maybeSingle() {
+      this.resultMode = 'maybeSingle';
+      return this.execute();
+    }
+
+    then<TResult1 = QueryExecutionResult, TResult2 = never>(
+      onfulfilled?:
+        | ((value: QueryExecutionResult) => TResult1 | PromiseLike<TResult1>)
+        | null,
+      onrejected?:
+        | ((reason: unknown) => TResult2 | PromiseLike<TResult2>)
+        | null,
+    ): Promise<TResult1 | TResult2> {
+      return this.execute().then(onfulfilled, onrejected);
+    }
+
+    private execute(): Promise<QueryExecutionResult> {
+      const tableRows = state[this.table];
+
+      // Mirrors ON CONFLICT DO NOTHING: only newly inserted rows come back.
+      if (this.pendingOperation === 'upsert') {
+        const isDuplicate = tableRows.some((row) =>
+          this.conflictFields.every(
+            (field) => row[field] === this.pendingPayload[field],
+          ),
+        );
+
+        if (isDuplicate) {
+          return this.resolveResult([]);
+        }
+
+        tableRows.push(clone(this.pendingPayload));
+        return this.resolveResult([this.pendingPayload]);
+      }
+
+      let matchingRows = tableRows.filter((row) =>
+        this.filters.every((filter) => filter(row)),
+      );
+
+      if (this.pendingOperation === 'update') {
+        for (const row of matchingRows) {
+          Object.assign(row, clone(this.pendingPayload));
+        }
+
+        return this.resolveResult(matchingRows);
+      }
+
+      if (this.pendingOperation === 'delete') {
+        for (const row of matchingRows) {
+          tableRows.splice(tableRows.indexOf(row), 1);
+        }
+
+        return this.resolveResult([]);
+      }
+
+      const orderBy = this.orderBy;
+
+      if (orderBy) {
+        matchingRows = [...matchingRows].sort((firstRow, secondRow) => {
+          const comparison = String(firstRow[orderBy.field]).localeCompare(
+            String(secondRow[orderBy.field]),
+          );
+
+          return orderBy.ascending ? comparison : comparison * -1;
+        });
+      }
+
+      if (this.maxRows !== null) {
+        matchingRows = matchingRows.slice(0, this.maxRows);
+      }
+
+      return this.resolveResult(matchingRows);
+    }
+
+    private resolveResult(rows: Record<string, unknown>[]) {
+      if (this.resultMode === 'maybeSingle') {
+        return Promise.resolve({ data: clone(rows[0] ?? null), error: null });
+      }
+
+      return Promise.resolve({ data: clone(rows), error: null });
+    }
+  }
+
+  const serviceClient = {
+    from: (table: SupportedTable) => new InMemoryQueryBuilder(table),
+  };
+
+  return {
+    state,
+    getServiceClient: () => serviceClient,
+  };
+}
+
+describe('Parental consent reminders (e2e)', () => {
+  let app: INestApplication<App>;
+  let state: InMemoryState;
+  let consentRemindersService: ConsentRemindersService;
+  let sentMail: OutgoingMail[];
+  let failNextSend: boolean;
+  const clock = { current: new Date('2026-06-01T00:00:00.000Z') };
+
+  beforeEach(async () => {
+    const inMemorySupabaseService = createInMemorySupabaseService();
+    state = inMemorySupabaseService.state;
+    sentMail = [];
+    failNextSend = false;
+    clock.current = new Date('2026-06-01T00:00:00.000Z');
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue({ getServiceClient: inMemorySupabaseService.getServiceClient })
+      .overrideProvider(CLOCK)
+      .useValue({ now: () => clock.current })
+      .overrideProvider(MAIL_TRANSPORT)
+      .useValue({
+        send: (mail: OutgoingMail) => {
+          if (failNextSend) {
+            failNextSend = false;
+            return Promise.reject(new Error('SMTP unavailable'));
+          }
+
+          sentMail.push(mail);
+          return Promise.resolve();
+        },
+      })
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+    consentRemindersService = app.get(ConsentRemindersService);
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('sends each due notice once and follows up with the 7-day notice', async () => {
+    await expect(consentRemindersService.sendDueReminders()).resolves.toEqual({
+      ranAt: '2026-06-01T00:00:00.000Z',
+      checkedConsentCount: 3,
+      sentReminderCount: 2,
+      failedReminderCount: 0,
+    });
+
+    expect(sentMail.map((mail) => mail.to)).toEqual([
+      'parent-bb@example.com',
+      'parent-aa@example.com',
+    ]);
+    expect(sentMail[1]?.text).toContain('@skater_1');
+    expect(
+      state.parental_consent_reminders.map((reminder) => [
+        reminder.consent_id,
+        reminder.reminder_kind,
+      ]),
+    ).toEqual([
+      ['bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb', 'expiry_7_day'],
+      ['aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa', 'expiry_30_day'],
+    ]);
+
+    await expect(
+      consentRemindersService.sendDueReminders(),
+    ).resolves.toMatchObject({ sentReminderCount: 0 });
+
+    clock.current = new Date('2026-06-14T00:00:00.000Z');
+
+    await expect(
+      consentRemindersService.sendDueReminders(),
+    ).resolves.toMatchObject({ checkedConsentCount: 2, sentReminderCount: 1 });
+    expect(sentMail).toHaveLength(3);
+    expect(state.parental_consent_reminders.at(-1)).toMatchObject({
+      consent_id: 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa',
+      reminder_kind: 'expiry_7_day',
+      sent_at: '2026-06-14T00:00:00.000Z',
+    });
+  });
+
+  it('releases a reminder whose mail failed so the next run retries it', async () => {
+    failNextSend = true;
+
+    await expect(
+      consentRemindersService.sendDueReminders(),
+    ).resolves.toMatchObject({ sentReminderCount: 1, failedReminderCount: 1 });
+    expect(state.parental_consent_reminders).toHaveLength(1);
+
+    await expect(
+      consentRemindersService.sendDueReminders(),
+    ).resolves.toMatchObject({ sentReminderCount: 1, failedReminderCount: 0 });
+    expect(state.parental_consent_reminders).toHaveLength(2);
+  });
+});
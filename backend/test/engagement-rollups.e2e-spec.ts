@@ -0,0 +1,533 @@
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { z } from 'zod';
+import { AppModule } from './../src/app.module';
+import { EngagementRollupsService } from './../src/modules/history/engagement-rollups.service';
+import { CLOCK } from './../src/modules/scheduler/clock';
+import { SchedulerService } from './../src/modules/scheduler/scheduler.service';
+import { SupabaseService } from './../src/modules/supabase/supabase.service';
+
+type AccountType = 'learner' | 'parent' | 'admin';
+type SupportedTable =
+  | 'profiles'
+  | 'watch_events'
+  | 'video_content_tags'
+  | 'content_type_tag_mappings'
+  | 'engagement_daily_rollups';
+
+type ProfileRow = {
+  id: string;
+  account_type: AccountType;
+};
+
+type WatchEventRow = {
+  id: string;
+  user_id: string;
+  video_id: string;
+  event_type:
+    | 'play'
+    | 'pause'
+    | 'progress_25'
+    | 'progress_50'
+    | 'progress_75'
+    | 'complete'
+    | 'replay';
+  position_seconds: number | null;
+  occurred_at: string;
+  session_id: string | null;
+  created_at: string;
+};
+
+type VideoContentTagRow = {
+  video_id: string;
+  content_tag_id: string;
+};
+
+type ContentTypeTagMappingRow = {
+  content_type_id: string;
+  content_tag_id: string;
+};
+
+type EngagementDailyRollupRow = {
+  user_id: string;
+  content_type_id: string;
+  date: string;
+  watch_seconds: number;
+  completions: number;
+  active_minutes: number;
+};
+
+type InMemoryState = {
+  profiles: ProfileRow[];
+  watchEvents: WatchEventRow[];
+  videoContentTags: VideoContentTagRow[];
+  contentTypeTagMappings: ContentTypeTagMappingRow[];
+  engagementDailyRollups: EngagementDailyRollupRow[];
+};
+
+type QueryExecutionResult = {
+  data: unknown;
+  error: null;
+};
+
+const rollupRunEnvelopeSchema = z.object({
+  data: z.object({
+    fromDate: z.string(),
+    toDate: z.string(),
+    userId: z.string().uuid().nullable(),
+    processedEventCount: z.number().int(),
+    rollupRowCount: z.number().int(),
+  }),
+});
+
+const now = new Date('2026-03-06T00:00:00.000Z');
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+// Splits a PostgREST logical filter list on top-level commas.
+function splitFilterList(expression: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let depth = 0;
+  let inQuotes = false;
+
+  for (const char of expression) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === '(') {
+      depth += 1;
+    } else if (!inQuotes && char === ')') {
+      depth -= 1;
+    } else if (!inQuotes && depth === 0 && char === ',') {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+// Supports the `eq` and `gt` conditions and `and(...)` groups the watch event
+// keyset filter uses.
+function matchesFilter(
+  row: Record<string, unknown>,
+  condition: string,
+): boolean {
+  if (condition.startsWith('and(') && condition.endsWith(')')) {
+    return splitFilterList(condition.slice(4, -1)).every((part) =>
+      matchesFilter(row, part),
+    );
+  }
+
+  const [field, operator, ...valueParts] = condition.split('.');
+  const value = valueParts.join('.').replace(/^"|"$/g, '');
+  const rowValue = row[field] as string;
+
+  if (operator === 'eq') {
+    return rowValue === value;
+  }
+
+  if (operator === 'gt') {
+    return rowValue > value;
+  }
+
+  throw new Error(`Unsupported filter operator: ${operator}`);
+}
+
+function createInMemorySupabaseService() {
+  const adminUserId = '11111111-1111-4111-8111-111111111111';
+  const learnerUserId = '33333333-3333-4333-8333-333333333333';
+  const hockeyContentTypeId = '44444444-4444-4444-8444-444444444444';
+  const hockeyTagId = '55555555-5555-4555-8555-555555555555';
+  const videoId = '66666666-6666-4666-8666-666666666666';
+  const sessionId = '77777777-7777-4777-8777-777777777777';
+
+  const usersByToken = new Map<string, { id: string; email: string }>([
+    ['token-admin', { id: adminUserId, email: 'admin@example.com' }],
+    ['token-learner', { id: learnerUserId, email: 'learner@example.com' }],
+  ]);
+
+  const watchEvent = (
+    suffix: string,
+    eventType: WatchEventRow['event_type'],
+    positionSeconds: number | null,
+    occurredAt: string,
+  ): WatchEventRow => ({
+    id: `88888888-8888-4888-8888-${suffix.padStart(12, '0')}`,
+    user_id: learnerUserId,
+    video_id: videoId,
+    event_type: eventType,
+    position_seconds: positionSeconds,
+    occurred_at: occurredAt,
+    session_id: sessionId,
+    created_at: occurredAt,
+  });
+
+  const state: InMemoryState = {
+    profiles: [
+      { id: adminUserId, account_type: 'admin' },
+      { id: learnerUserId, account_type: 'learner' },
+    ],
+    watchEvents: [
+      watchEvent('1', 'play', 0, '2026-03-01T12:00:00.000Z'),
+      watchEvent('2', 'progress_50', 20, '2026-03-01T12:00:20.000Z'),
+      watchEvent('3', 'complete', 40, '2026-03-01T12:01:41.000Z'),
+      watchEvent('4', 'play', 0, '2026-03-02T08:00:00.000Z'),
+      watchEvent('5', 'pause', 12, '2026-03-02T08:00:12.000Z'),
+      watchEvent('6', 'play', 0, '2026-03-05T08:00:00.000Z'),
+    ],
+    videoContentTags: [{ video_id: videoId, content_tag_id: hockeyTagId }],
+    contentTypeTagMappings: [
+      { content_type_id: hockeyContentTypeId, content_tag_id: hockeyTagId },
+    ],
+    engagementDailyRollups: [
+      {
+        user_id: learnerUserId,
+        content_type_id: hockeyContentTypeId,
+        date: '2026-03-02',
+        watch_seconds: 999,
+        completions: 9,
+        active_minutes: 9,
+      },
+    ],
+  };
+
+  const getTableRows = (table: SupportedTable): Record<string, unknown>[] => {
+    if (table === 'profiles') {
+      return state.profiles;
+    }
+
+    if (table === 'watch_events') {
+      return state.watchEvents;
+    }
+
+    if (table === 'video_content_tags') {
+      return state.videoContentTags;
+    }
+
+    if (table === 'content_type_tag_mappings') {
+      return state.contentTypeTagMappings;
+    }
+
+    return state.engagementDailyRollups;
+  };
+
+  class InMemoryQueryBuilder implements PromiseLike<QueryExecutionResult> {
+    private readonly filters: Array<(row: Record<string, unknown>) => boolean> =
+      [];
+    private readonly orderBys: Array<{ field: string; ascending: boolean }> =
+      [];
+    private resultMode: 'many' | 'maybeSingle' = 'many';
+    private maxRows: number | null = null;
+
+    constructor(private readonly table: SupportedTable) {}
+
+    select(columns: string) {
+      void columns;
+      return this;
+    }
+
+    eq(field: string, value: unknown) {
+      this.filters.push((row) => row[field] === value);
+      return this;
+    }
+
+    in(field: string, values: unknown[]) {
+      this.filters.push((row) => values.includes(row[field]));
+      return this;
+    }
+
+    gte(field: string, value: string) {
+      this.filters.push((row) => (row[field] as string) >= value);
+      return this;
+    }
+
+    lt(field: string, value: string) {
+      this.filters.push((row) => (row[field] as string) < value);
+      return this;
+    }
+
+    lte(field: string, value: string) {
+      this.filters.push((row) => (row[field] as string) <= value);
+      return this;
+    }
+
+    or(expression: string) {
+      const conditions = splitFilterList(expression);
+      this.filters.push((row) =>
+        conditions.some((condition) => matchesFilter(row, condition)),
+      );
+      return this;
+    }
+
+    order(field: string, options?: { ascending?: boolean }) {
+      this.orderBys.push({ field, ascending: options?.ascending ?? true });
+      return this;
+    }
+
+    limit(value: number) {
+      this.maxRows = value;
+      return this;
+    }
+
+    maybeSingle() {
+      this.resultMode = 'maybeSingle';
+      return this.execute();
+    }
+
+    then<TResult1 = QueryExecutionResult, TResult2 = never>(
+      onfulfilled?:
+        | ((value: QueryExecutionResult) => TResult1 | PromiseLike<TResult1>)
+        | null,
+      onrejected?:
+        | ((reason: unknown) => TResult2 | PromiseLike<TResult2>)
+        | null,
+    ): Promise<TResult1 | TResult2> {
+      return this.execute().then(onfulfilled, onrejected);
+    }
+
+    private execute(): Promise<QueryExecutionResult> {
+      const matchingRows = getTableRows(this.table).filter((row) =>
+        this.filters.every((filter) => filter(row)),
+      );
+
+      if (this.resultMode === 'maybeSingle') {
+        return Promise.resolve({
+          data: clone(matchingRows[0] ?? null),
+          error: null,
+        });
+      }
+
+      const orderedRows = [...matchingRows].sort((left, right) => {
+        for (const { field, ascending } of this.orderBys) {
+          const leftValue = left[field] as string;
+          const rightValue = right[field] as string;
+
+          if (leftValue !== rightValue) {
+            return (leftValue < rightValue ? -1 : 1) * (ascending ? 1 : -1);
+          }
+        }
+
+        return 0;
+      });
+      const limitedRows =
+        this.maxRows === null
+          ? orderedRows
+          : orderedRows.slice(0, this.maxRows);
+
+      return Promise.resolve({ data: clone(limitedRows), error: null });
+    }
+  }
+
+  const serviceClient = {
+    auth: {
+      getUser: (accessToken: string) => {
+        const user = usersByToken.get(accessToken);
+
+        if (!user) {
+          return Promise.resolve({
+            data: { user: null },
+            error: { message: 'Invalid token' },
+          });
+        }
+
+        return Promise.resolve({
+          data: { user },
+          error: null,
+        });
+      },
+    },
+    from: (table: SupportedTable) => new InMemoryQueryBuilder(table),
+    rpc: (
+      functionName: string,
+      params: {
+        p_from_date: string;
+        p_to_date: string;
+        p_user_id: string | null;
+        p_rows: EngagementDailyRollupRow[];
+      },
+    ) => {
+      if (functionName !== 'replace_engagement_daily_rollups') {
+        return Promise.resolve({
+          data: null,
+          error: { message: `Unknown function ${functionName}` },
+        });
+      }
+
+      state.engagementDailyRollups = [
+        ...state.engagementDailyRollups.filter(
+          (row) =>
+            row.date < params.p_from_date ||
+            row.date > params.p_to_date ||
+            (params.p_user_id !== null && row.user_id !== params.p_user_id),
+        ),
+        ...clone(params.p_rows),
+      ];
+
+      return Promise.resolve({
+        data: params.p_rows.length,
+        error: null,
+      });
+    },
+  };
+
+  return {
+    learnerUserId,
+    hockeyContentTypeId,
+    state,
+    getServiceClient: () => serviceClient,
+  };
+}
+
+describe('Engagement daily rollups (e2e)', () => {
+  let app: INestApplication<App>;
+  let learnerUserId: string;
+  let hockeyContentTypeId: string;
+  let state: InMemoryState;
+
+  beforeEach(async () => {
+    const inMemorySupabaseService = createInMemorySupabaseService();
+    learnerUserId = inMemorySupabaseService.learnerUserId;
+    hockeyContentTypeId = inMemorySupabaseService.hockeyContentTypeId;
+    state = inMemorySupabaseService.state;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue({ getServiceClient: inMemorySupabaseService.getServiceClient })
+      .overrideProvider(CLOCK)
+      .useValue({ now: () => now })
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('folds watch events into per-content-type daily rows and stays idempotent', async () => {
+    for (let run = 0; run < 2; run += 1) {
+      const response = await request(app.getHttpServer())
+        .post('/v1/admin/engagement-rollups/rebuild')
+        .set('Authorization', 'Bearer token-admin')
+        .send({ fromDate: '2026-03-01', toDate: '2026-03-02' })
+        .expect(201);
+
+      const parsedResponse = rollupRunEnvelopeSchema.parse(
+        response.body as unknown,
+      );
+
+      expect(parsedResponse.data.processedEventCount).toBe(5);
+      expect(parsedResponse.data.rollupRowCount).toBe(2);
+    }
+
+    expect(state.engagementDailyRollups).toEqual([
+      {
+        user_id: learnerUserId,
+        content_type_id: hockeyContentTypeId,
+        date: '2026-03-01',
+        watch_seconds: 40,
+        completions: 1,
+        active_minutes: 2,
+      },
+      {
+        user_id: learnerUserId,
+        content_type_id: hockeyContentTypeId,
+        date: '2026-03-02',
+        watch_seconds: 12,
+        completions: 0,
+        active_minutes: 1,
+      },
+    ]);
+  });
+
+  it('rebuilds yesterday and today from the scheduled job', async () => {
+    expect(app.get(SchedulerService).listJobNames()).toContain(
+      'engagement-daily-rollups',
+    );
+
+    await expect(
+      app
+        .get(EngagementRollupsService)
+        .rebuildRecentRollups(new Date('2026-03-02T09:00:00.000Z')),
+    ).resolves.toEqual({
+      fromDate: '2026-03-01',
+      toDate: '2026-03-02',
+      userId: null,
+      processedEventCount: 5,
+      rollupRowCount: 2,
+    });
+    expect(
+      state.engagementDailyRollups.map((row) => [row.date, row.watch_seconds]),
+    ).toEqual([
+      ['2026-03-01', 40],
+      ['2026-03-02', 12],
+    ]);
+  });
+
+  it('pages through large days without skipping events that share a timestamp', async () => {
+    const extraEventCount = 1500;
+
+    // Every progress event shares one timestamp, so pages can only advance by
+    // id; the last one is recorded after the run started and must be ignored.
+    for (let index = 0; index <= extraEventCount; index += 1) {
+      state.watchEvents.push({
+        id: `99999999-9999-4999-8999-${String(index).padStart(12, '0')}`,
+        user_id: learnerUserId,
+        video_id: state.watchEvents[0].video_id,
+        event_type: 'progress_25',
+        position_seconds: 10,
+        occurred_at: '2026-03-02T10:00:00.000Z',
+        session_id: null,
+        created_at:
+          index === extraEventCount
+            ? '2026-03-06T00:00:01.000Z'
+            : '2026-03-02T10:00:00.000Z',
+      });
+    }
+
+    const response = await request(app.getHttpServer())
+      .post('/v1/admin/engagement-rollups/rebuild')
+      .set('Authorization', 'Bearer token-admin')
+      .send({ fromDate: '2026-03-01', toDate: '2026-03-02' })
+      .expect(201);
+
+    expect(
+      rollupRunEnvelopeSchema.parse(response.body as unknown).data
+        .processedEventCount,
+    ).toBe(5 + extraEventCount);
+  });
+
+  it('rejects rollup rebuilds from non-admin accounts', async () => {
+    await request(app.getHttpServer())
+      .post('/v1/admin/engagement-rollups/rebuild')
+      .set('Authorization', 'Bearer token-learner')
+      .send({ fromDate: '2026-03-01', toDate: '2026-03-02' })
+      .expect(403);
+  });
+
+  it('rejects inverted or oversized date ranges', async () => {
+    await request(app.getHttpServer())
+      .post('/v1/admin/engagement-rollups/rebuild')
+      .set('Authorization', 'Bearer token-admin')
+      .send({ fromDate: '2026-03-02', toDate: '2026-03-01' })
+      .expect(400);
+
+    await request(app.getHttpServer())
+      .post('/v1/admin/engagement-rollups/rebuild')
+      .set('Authorization', 'Bearer token-admin')
+      .send({ fromDate: '2026-01-01', toDate: '2026-03-01' })
+      .expect(400);
+  });
+});
@@ -4,17 +4,23 @@ import request from 'supertest';
 import { App } from 'supertest/types';
 import { z } from 'zod';
 import { AppModule } from './../src/app.module';
+import { CLOCK } from './../src/modules/scheduler/clock';
 import { SupabaseService } from './../src/modules/supabase/supabase.service';
 
 type SupportedTable =
   | 'videos'
   | 'video_content_tags'
   | 'content_tags'
-  | 'watch_events';
+  | 'watch_events'
+  | 'video_progress'
+  | 'watch_sessions'
+  | 'age_gates'
+  | 'child_time_limits';
 
 type VideoRow = {
   id: string;
   status: 'draft' | 'processing' | 'ready' | 'blocked' | 'archived';
+  duration_seconds: number | null;
 };
 
 type VideoContentTagRow = {
@@ -42,6 +48,35 @@ type WatchEventRow = {
   position_seconds: number | null;
   occurred_at: string;
   session_id: string | null;
+  client_event_id: string | null;
+};
+
+type VideoProgressRow = {
+  user_id: string;
+  video_id: string;
+  last_position_seconds: number;
+  completion_percent: number;
+  completed_at: string | null;
+  last_watched_at: string | null;
+  updated_at: string;
+};
+
+type WatchSessionRow = {
+  session_id: string;
+  user_id: string;
+  video_id: string;
+  client_session_id: string | null;
+  started_at: string;
+  ended_at: string | null;
+  watch_seconds: number;
+  last_position_seconds: number;
+  last_event_at: string | null;
+  end_reason: 'pause' | 'complete' | 'inactivity' | null;
+};
+
+type AgeGateRow = {
+  user_id: string;
+  birthdate: string;
 };
 
 type InMemoryState = {
@@ -50,6 +85,12 @@ type InMemoryState = {
   contentTags: ContentTagRow[];
   watchEvents: WatchEventRow[];
   watchEventCounter: number;
+  watchEventInsertCount: number;
+  videoProgress: VideoProgressRow[];
+  videoProgressUpsertCount: number;
+  watchSessions: WatchSessionRow[];
+  ageGates: AgeGateRow[];
+  childTimeLimits: Record<string, unknown>[];
 };
 
 type QueryExecutionResult = {
@@ -74,6 +115,62 @@ const watchEventEnvelopeSchema = z.object({
     positionSeconds: z.number().int().nullable(),
     occurredAt: z.string(),
     sessionId: z.string().uuid().nullable(),
+    eventId: z.string().uuid().nullable(),
+  }),
+});
+
+const videoProgressEnvelopeSchema = z.object({
+  data: z.array(
+    z.object({
+      videoId: z.string().uuid(),
+      lastPositionSeconds: z.number().int(),
+      completionPercent: z.number(),
+      completedAt: z.string().nullable(),
+      lastWatchedAt: z.string().nullable(),
+      updatedAt: z.string(),
+    }),
+  ),
+});
+
+const watchSessionListEnvelopeSchema = z.object({
+  data: z.object({
+    userId: z.string().uuid(),
+    since: z.string().nullable(),
+    totalWatchSeconds: z.number().int(),
+    sessions: z.array(
+      z.object({
+        sessionId: z.string().uuid(),
+        clientSessionId: z.string().uuid().nullable(),
+        videoId: z.string().uuid(),
+        startedAt: z.string(),
+        endedAt: z.string().nullable(),
+        lastEventAt: z.string().nullable(),
+        watchSeconds: z.number().int(),
+        endReason: z.enum(['pause', 'complete', 'inactivity']).nullable(),
+      }),
+    ),
+  }),
+});
+
+const watchEventBatchEnvelopeSchema = z.object({
+  data: z.object({
+    acceptedCount: z.number().int(),
+    rejectedCount: z.number().int(),
+    items: z.array(
+      z.union([
+        z.object({
+          index: z.number().int(),
+          status: z.literal('accepted'),
+          event: watchEventEnvelopeSchema.shape.data,
+        }),
+        z.object({
+          index: z.number().int(),
+          status: z.literal('rejected'),
+          reason: z.literal('video_not_trackable'),
+          message: z.string(),
+        }),
+      ]),
+    ),
   }),
 });
 
@@ -104,14 +201,17 @@ function createInMemorySupabaseService() {
       {
         id: readyTaggedVideoId,
         status: 'ready',
+        duration_seconds: 40,
       },
       {
         id: readyUntaggedVideoId,
         status: 'ready',
+        duration_seconds: 30,
       },
       {
         id: readyArchivedTaggedVideoId,
         status: 'ready',
+        duration_seconds: null,
       },
     ],
     videoContentTags: [
@@ -136,6 +236,12 @@ function createInMemorySupabaseService() {
     ],
     watchEvents: [],
     watchEventCounter: 0,
+    watchEventInsertCount: 0,
+    videoProgress: [],
+    videoProgressUpsertCount: 0,
+    watchSessions: [],
+    ageGates: [],
+    childTimeLimits: [],
   };
 
   const nextWatchEventId = () => {
@@ -162,15 +268,33 @@ function createInMemorySupabaseService() {
       return state.contentTags;
     }
 
+    if (table === 'video_progress') {
+      return state.videoProgress;
+    }
+
+    if (table === 'watch_sessions') {
+      return state.watchSessions;
+    }
+
+    if (table === 'age_gates') {
+      return state.ageGates;
+    }
+
+    if (table === 'child_time_limits') {
+      return state.childTimeLimits;
+    }
+
     return state.watchEvents;
   };
 
   class InMemoryQueryBuilder implements PromiseLike<QueryExecutionResult> {
     private readonly filters: Array<(row: Record<string, unknown>) => boolean> =
       [];
-    private pendingOperation: 'select' | 'insert' = 'select';
+    private pendingOperation: 'select' | 'insert' | 'upsert' = 'select';
     private pendingInsertRows: Record<string, unknown>[] = [];
     private resultMode: 'many' | 'single' | 'maybeSingle' = 'many';
+    private orderBy: { field: string; ascending: boolean } | null = null;
+    private maxRows: number | null = null;
 
     constructor(private readonly table: SupportedTable) {}
 
@@ -185,11 +309,44 @@ function createInMemorySupabaseService() {
       return this;
     }
 
+    upsert(payload: Record<string, unknown>[]) {
+      this.pendingOperation = 'upsert';
+      this.pendingInsertRows = payload;
+      return this;
+    }
+
+    order(field: string, options?: { ascending?: boolean }) {
+      this.orderBy = { field, ascending: options?.ascending ?? true };
+      return this;
+    }
+
+    limit(value: number) {
+      this.maxRows = value;
+      return this;
+    }
+
     eq(field: string, value: unknown) {
       this.filters.push((row) => row[field] === value);
       return this;
     }
 
+    is(field: string, value: null) {
+      this.filters.push((row) => row[field] === value);
+      return this;
+    }
+
+    gte(field: string, value: string) {
+      this.filters.push((row) => (row[field] as string) >= value);
+      return this;
+    }
+
+    lt(field: string, value: string) {
+      this.filters.push(
+        (row) => row[field] !== null && (row[field] as string) < value,
+      );
+      return this;
+    }
+
     in(field: string, values: unknown[]) {
       this.filters.push((row) => values.includes(row[field]));
       return this;
@@ -222,6 +379,16 @@ function createInMemorySupabaseService() {
         return this.resolveResult(insertedRows);
       }
 
+      if (this.pendingOperation === 'upsert') {
+        if (this.table === 'watch_sessions') {
+          this.executeWatchSessionUpsert();
+        } else {
+          this.executeVideoProgressUpsert();
+        }
+
+        return this.resolveResult([]);
+      }
+
       const rows = this.applyReadFilters();
       return this.resolveResult(rows);
     }
@@ -234,6 +401,7 @@ function createInMemorySupabaseService() {
       }
 
       const tableRows = getTableRows(this.table) as unknown as WatchEventRow[];
+      state.watchEventInsertCount += 1;
 
       return this.pendingInsertRows.map((pendingRow) => {
         const insertedRow: WatchEventRow = {
@@ -246,6 +414,8 @@ function createInMemorySupabaseService() {
           occurred_at: String(pendingRow.occurred_at),
           session_id:
             (pendingRow.session_id as string | null | undefined) ?? null,
+          client_event_id:
+            (pendingRow.client_event_id as string | null | undefined) ?? null,
         };
 
         tableRows.push(insertedRow);
@@ -253,6 +423,49 @@ function createInMemorySupabaseService() {
       });
     }
 
+    private executeVideoProgressUpsert() {
+      if (this.table !== 'video_progress') {
+        throw new Error(
+          `Upsert is unsupported for table ${this.table} in this test.`,
+        );
+      }
+
+      state.videoProgressUpsertCount += 1;
+
+      for (const pendingRow of this.pendingInsertRows) {
+        const upsertedRow = {
+          ...(pendingRow as Omit<VideoProgressRow, 'updated_at'>),
+          updated_at: new Date().toISOString(),
+        };
+        const existingIndex = state.videoProgress.findIndex(
+          (row) =>
+            row.user_id === upsertedRow.user_id &&
+            row.video_id === upsertedRow.video_id,
+        );
+
+        if (existingIndex >= 0) {
+          state.videoProgress[existingIndex] = upsertedRow;
+        } else {
+          state.videoProgress.push(upsertedRow);
+        }
+      }
+    }
+
+    private executeWatchSessionUpsert() {
+      for (const pendingRow of this.pendingInsertRows) {
+        const upsertedRow = clone(pendingRow) as WatchSessionRow;
+        const existingIndex = state.watchSessions.findIndex(
+          (row) => row.session_id === upsertedRow.session_id,
+        );
+
+        if (existingIndex >= 0) {
+          state.watchSessions[existingIndex] = upsertedRow;
+        } else {
+          state.watchSessions.push(upsertedRow);
+        }
+      }
+    }
+
     private resolveResult(rows: Record<string, unknown>[]) {
       if (this.resultMode === 'maybeSingle') {
         return Promise.resolve({
@@ -279,9 +492,22 @@ function createInMemorySupabaseService() {
     }
 
     private applyReadFilters(): Record<string, unknown>[] {
-      return getTableRows(this.table).filter((row) =>
+      const rows = getTableRows(this.table).filter((row) =>
         this.filters.every((filter) => filter(row)),
       );
+      const orderBy = this.orderBy;
+
+      if (orderBy) {
+        rows.sort((firstRow, secondRow) => {
+          const comparison = String(firstRow[orderBy.field]).localeCompare(
+            String(secondRow[orderBy.field]),
+          );
+
+          return orderBy.ascending ? comparison : comparison * -1;
+        });
+      }
+
+      return this.maxRows === null ? rows : rows.slice(0, this.maxRows);
     }
   }
 
@@ -312,31 +538,39 @@ function createInMemorySupabaseService() {
   };
 
   return {
+    learnerUserId,
     readyTaggedVideoId,
     readyUntaggedVideoId,
     readyArchivedTaggedVideoId,
+    state,
     getServiceClient: () => serviceClient,
   };
 }
 
 describe('Engagement watch-event tracking (e2e)', () => {
   let app: INestApplication<App>;
+  let learnerUserId: string;
   let readyTaggedVideoId: string;
   let readyUntaggedVideoId: string;
   let readyArchivedTaggedVideoId: string;
+  let state: InMemoryState;
 
   beforeEach(async () => {
     const inMemorySupabaseService = createInMemorySupabaseService();
+    learnerUserId = inMemorySupabaseService.learnerUserId;
     readyTaggedVideoId = inMemorySupabaseService.readyTaggedVideoId;
     readyUntaggedVideoId = inMemorySupabaseService.readyUntaggedVideoId;
     readyArchivedTaggedVideoId =
       inMemorySupabaseService.readyArchivedTaggedVideoId;
+    state = inMemorySupabaseService.state;
 
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [AppModule],
     })
       .overrideProvider(SupabaseService)
       .useValue({ getServiceClient: inMemorySupabaseService.getServiceClient })
+      .overrideProvider(CLOCK)
+      .useValue({ now: () => new Date('2026-03-01T13:00:00.000Z') })
       .compile();
 
     app = moduleFixture.createNestApplication();
@@ -386,4 +620,486 @@ describe('Engagement watch-event tracking (e2e)', () => {
       })
       .expect(404);
   });
+
+  it('accepts trackable batch events in one write and reports rejected items per index', async () => {
+    const sessionId = '12121212-1212-4212-8212-121212121212';
+    const response = await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events/batch')
+      .set('Authorization', 'Bearer token-learner')
+      .send({
+        events: [
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'play',
+            positionSeconds: 0,
+            sessionId,
+          },
+          {
+            videoId: readyUntaggedVideoId,
+            eventType: 'play',
+          },
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'progress_25',
+            positionSeconds: 4,
+            sessionId,
+            occurredAt: '2026-03-01T12:00:00.000Z',
+          },
+          {
+            videoId: readyArchivedTaggedVideoId,
+            eventType: 'complete',
+          },
+        ],
+      })
+      .expect(201);
+
+    const parsedResponse = watchEventBatchEnvelopeSchema.parse(
+      response.body as unknown,
+    );
+
+    expect(parsedResponse.data.acceptedCount).toBe(2);
+    expect(parsedResponse.data.rejectedCount).toBe(2);
+    expect(
+      parsedResponse.data.items.map((item) => [item.index, item.status]),
+    ).toEqual([
+      [0, 'accepted'],
+      [1, 'rejected'],
+      [2, 'accepted'],
+      [3, 'rejected'],
+    ]);
+
+    const progressItem = parsedResponse.data.items[2];
+
+    expect(progressItem?.status === 'accepted' && progressItem.event).toEqual(
+      expect.objectContaining({
+        eventType: 'progress_25',
+        positionSeconds: 4,
+        sessionId,
+        occurredAt: '2026-03-01T12:00:00.000Z',
+      }),
+    );
+    expect(state.watchEvents).toHaveLength(2);
+    expect(state.watchEventInsertCount).toBe(1);
+  });
+
+  it('clamps batch events dated further back than the allowed window', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events/batch')
+      .set('Authorization', 'Bearer token-learner')
+      .send({
+        events: [
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'play',
+            positionSeconds: 0,
+            occurredAt: '2025-01-01T00:00:00.000Z',
+          },
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'progress_25',
+            positionSeconds: 4,
+            occurredAt: '2026-03-01T08:00:00.000Z',
+          },
+        ],
+      })
+      .expect(201);
+
+    const parsedResponse = watchEventBatchEnvelopeSchema.parse(
+      response.body as unknown,
+    );
+
+    expect(
+      parsedResponse.data.items.map(
+        (item) => item.status === 'accepted' && item.event.occurredAt,
+      ),
+    ).toEqual(['2026-02-28T13:00:00.000Z', '2026-03-01T08:00:00.000Z']);
+  });
+
+  it('skips the write when no batch event is trackable', async () => {
+    const response = await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events/batch')
+      .set('Authorization', 'Bearer token-learner')
+      .send({
+        events: [
+          {
+            videoId: readyUntaggedVideoId,
+            eventType: 'play',
+          },
+        ],
+      })
+      .expect(201);
+
+    const parsedResponse = watchEventBatchEnvelopeSchema.parse(
+      response.body as unknown,
+    );
+
+    expect(parsedResponse.data.acceptedCount).toBe(0);
+    expect(parsedResponse.data.rejectedCount).toBe(1);
+    expect(state.watchEventInsertCount).toBe(0);
+  });
+
+  it('rejects malformed watch-event batches', async () => {
+    await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events/batch')
+      .set('Authorization', 'Bearer token-learner')
+      .send({
+        events: [],
+      })
+      .expect(400);
+  });
+
+  it('records a replayed watch event only once per client event ID', async () => {
+    const eventId = '34343434-3434-4434-8434-343434343434';
+    const payload = {
+      videoId: readyTaggedVideoId,
+      eventType: 'play',
+      positionSeconds: 0,
+      eventId,
+    };
+
+    const firstResponse = await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events')
+      .set('Authorization', 'Bearer token-learner')
+      .send(payload)
+      .expect(201);
+    const replayResponse = await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events')
+      .set('Authorization', 'Bearer token-learner')
+      .send(payload)
+      .expect(201);
+
+    const firstEvent = watchEventEnvelopeSchema.parse(
+      firstResponse.body as unknown,
+    ).data;
+    const replayedEvent = watchEventEnvelopeSchema.parse(
+      replayResponse.body as unknown,
+    ).data;
+
+    expect(replayedEvent).toEqual(firstEvent);
+    expect(firstEvent.eventId).toBe(eventId);
+    expect(state.watchEvents).toHaveLength(1);
+    expect(state.watchEventInsertCount).toBe(1);
+  });
+
+  it('deduplicates client event IDs within and across batches', async () => {
+    const replayedEventId = '56565656-5656-4656-8656-565656565656';
+    const freshEventId = '78787878-7878-4878-8878-787878787878';
+
+    await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events/batch')
+      .set('Authorization', 'Bearer token-learner')
+      .send({
+        events: [
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'play',
+            eventId: replayedEventId,
+          },
+        ],
+      })
+      .expect(201);
+
+    const response = await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events/batch')
+      .set('Authorization', 'Bearer token-learner')
+      .send({
+        events: [
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'play',
+            eventId: replayedEventId,
+          },
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'progress_25',
+            positionSeconds: 4,
+            eventId: freshEventId,
+          },
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'progress_25',
+            positionSeconds: 4,
+            eventId: freshEventId,
+          },
+        ],
+      })
+      .expect(201);
+
+    const parsedResponse = watchEventBatchEnvelopeSchema.parse(
+      response.body as unknown,
+    );
+    const acceptedEvents = parsedResponse.data.items.map((item) =>
+      item.status === 'accepted' ? item.event : null,
+    );
+
+    expect(parsedResponse.data.acceptedCount).toBe(3);
+    expect(acceptedEvents.map((event) => event?.eventId)).toEqual([
+      replayedEventId,
+      freshEventId,
+      freshEventId,
+    ]);
+    expect(acceptedEvents[1]?.id).toBe(acceptedEvents[2]?.id);
+    expect(state.watchEvents).toHaveLength(2);
+    expect(state.watchEventInsertCount).toBe(2);
+  });
+
+  it('folds accepted watch events into per-video progress', async () => {
+    await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events/batch')
+      .set('Authorization', 'Bearer token-learner')
+      .send({
+        events: [
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'progress_50',
+            positionSeconds: 20,
+            occurredAt: '2026-03-01T12:00:20.000Z',
+          },
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'play',
+            positionSeconds: 0,
+            occurredAt: '2026-03-01T12:00:00.000Z',
+          },
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'pause',
+            positionSeconds: 24,
+            occurredAt: '2026-03-01T12:00:24.000Z',
+          },
+        ],
+      })
+      .expect(201);
+
+    const response = await request(app.getHttpServer())
+      .get('/v1/me/progress')
+      .set('Authorization', 'Bearer token-learner')
+      .expect(200);
+
+    const parsedResponse = videoProgressEnvelopeSchema.parse(
+      response.body as unknown,
+    );
+
+    expect(parsedResponse.data).toEqual([
+      expect.objectContaining({
+        videoId: readyTaggedVideoId,
+        lastPositionSeconds: 24,
+        completionPercent: 60,
+        completedAt: null,
+        lastWatchedAt: '2026-03-01T12:00:24.000Z',
+      }),
+    ]);
+  });
+
+  it('keeps the latest resume position when an older event arrives late', async () => {
+    await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events/batch')
+      .set('Authorization', 'Bearer token-learner')
+      .send({
+        events: [
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'complete',
+            occurredAt: '2026-03-01T12:00:40.000Z',
+          },
+        ],
+      })
+      .expect(201);
+
+    await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events/batch')
+      .set('Authorization', 'Bearer token-learner')
+      .send({
+        events: [
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'pause',
+            positionSeconds: 12,
+            occurredAt: '2026-03-01T12:00:12.000Z',
+          },
+        ],
+      })
+      .expect(201);
+
+    expect(state.videoProgress).toEqual([
+      expect.objectContaining({
+        user_id: learnerUserId,
+        video_id: readyTaggedVideoId,
+        last_position_seconds: 40,
+        completion_percent: 100,
+        completed_at: '2026-03-01T12:00:40.000Z',
+      }),
+    ]);
+  });
+
+  it('does not reapply progress for replayed client event IDs', async () => {
+    const payload = {
+      videoId: readyTaggedVideoId,
+      eventType: 'pause',
+      positionSeconds: 10,
+      eventId: '9a9a9a9a-9a9a-4a9a-8a9a-9a9a9a9a9a9a',
+    };
+
+    await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events')
+      .set('Authorization', 'Bearer token-learner')
+      .send(payload)
+      .expect(201);
+
+    await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events')
+      .set('Authorization', 'Bearer token-learner')
+      .send(payload)
+      .expect(201);
+
+    expect(state.videoProgressUpsertCount).toBe(1);
+    expect(state.videoProgress[0]?.last_position_seconds).toBe(10);
+  });
+
+  it('aggregates watch seconds from position deltas until the session pauses', async () => {
+    const sessionId = 'abababab-abab-4bab-8bab-abababababab';
+
+    await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events/batch')
+      .set('Authorization', 'Bearer token-learner')
+      .send({
+        events: [
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'play',
+            positionSeconds: 0,
+            sessionId,
+            occurredAt: '2026-03-01T12:00:00.000Z',
+          },
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'progress_25',
+            positionSeconds: 10,
+            sessionId,
+            occurredAt: '2026-03-01T12:00:10.000Z',
+          },
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'pause',
+            positionSeconds: 15,
+            sessionId,
+            occurredAt: '2026-03-01T12:00:16.000Z',
+          },
+        ],
+      })
+      .expect(201);
+
+    const response = await request(app.getHttpServer())
+      .get('/v1/me/watch-sessions')
+      .set('Authorization', 'Bearer token-learner')
+      .expect(200);
+
+    const parsedResponse = watchSessionListEnvelopeSchema.parse(
+      response.body as unknown,
+    );
+
+    expect(parsedResponse.data.totalWatchSeconds).toBe(15);
+    expect(parsedResponse.data.sessions).toEqual([
+      expect.objectContaining({
+        clientSessionId: sessionId,
+        videoId: readyTaggedVideoId,
+        startedAt: '2026-03-01T12:00:00.000Z',
+        endedAt: '2026-03-01T12:00:16.000Z',
+        watchSeconds: 15,
+        endReason: 'pause',
+      }),
+    ]);
+  });
+
+  it('ignores seeks and opens a new session after the inactivity timeout', async () => {
+    const sessionId = 'cdcdcdcd-cdcd-4dcd-8dcd-cdcdcdcdcdcd';
+
+    await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events/batch')
+      .set('Authorization', 'Bearer token-learner')
+      .send({
+        events: [
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'play',
+            positionSeconds: 0,
+            sessionId,
+            occurredAt: '2026-03-01T12:00:00.000Z',
+          },
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'progress_75',
+            positionSeconds: 30,
+            sessionId,
+            occurredAt: '2026-03-01T12:00:05.000Z',
+          },
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'play',
+            positionSeconds: 30,
+            sessionId,
+            occurredAt: '2026-03-01T12:30:00.000Z',
+          },
+        ],
+      })
+      .expect(201);
+
+    expect(state.watchSessions).toEqual([
+      expect.objectContaining({
+        started_at: '2026-03-01T12:00:00.000Z',
+        ended_at: '2026-03-01T12:00:05.000Z',
+        watch_seconds: 0,
+        end_reason: 'inactivity',
+      }),
+      expect.objectContaining({
+        started_at: '2026-03-01T12:30:00.000Z',
+        ended_at: null,
+        end_reason: null,
+      }),
+    ]);
+  });
+
+  it('closes idle open sessions before listing them', async () => {
+    await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events/batch')
+      .set('Authorization', 'Bearer token-learner')
+      .send({
+        events: [
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'play',
+            positionSeconds: 0,
+            sessionId: 'efefefef-efef-4fef-8fef-efefefefefef',
+            occurredAt: '2026-03-01T12:00:00.000Z',
+          },
+          {
+            videoId: readyTaggedVideoId,
+            eventType: 'progress_25',
+            positionSeconds: 10,
+            sessionId: 'efefefef-efef-4fef-8fef-efefefefefef',
+            occurredAt: '2026-03-01T12:00:10.000Z',
+          },
+        ],
+      })
+      .expect(201);
+
+    const response = await request(app.getHttpServer())
+      .get('/v1/me/watch-sessions')
+      .query({ since: '2026-03-01T00:00:00.000Z' })
+      .set('Authorization', 'Bearer token-learner')
+      .expect(200);
+
+    const parsedResponse = watchSessionListEnvelopeSchema.parse(
+      response.body as unknown,
+    );
+
+    expect(parsedResponse.data.since).toBe('2026-03-01T00:00:00.000Z');
+    expect(parsedResponse.data.sessions).toEqual([
+      expect.objectContaining({
+        endedAt: '2026-03-01T12:00:10.000Z',
+        watchSeconds: 10,
+        endReason: 'inactivity',
+      }),
+    ]);
+  });
 });
@@ -2,8 +2,10 @@ import { INestApplication } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import request from 'supertest';
 import { App } from 'supertest/types';
+import { generateKeyPairSync } from 'crypto';
 import { z } from 'zod';
 import { AppModule } from './../src/app.module';
+import { MuxPlaybackTokensService } from './../src/modules/mux/mux-playback-tokens.service';
 import { SupabaseService } from './../src/modules/supabase/supabase.service';
 
 type SupportedTable =
@@ -15,7 +17,12 @@ type SupportedTable =
   | 'content_tags'
   | 'video_content_tags'
   | 'videos'
-  | 'video_assets';
+  | 'video_assets'
+  | 'video_progress'
+  | 'age_gates'
+  | 'child_time_limits'
+  | 'child_content_approval_settings'
+  | 'child_video_approvals';
 
 type ContentTypeRow = {
   id: string;
@@ -37,12 +44,15 @@ type ParentChildLinkRow = {
   parent_user_id: string;
   child_user_id: string;
   relationship_status: 'pending' | 'active' | 'revoked';
+  guardian_role: 'primary' | 'co_guardian' | 'coach_viewer';
 };
 
 type ParentContentRestrictionRow = {
   parent_user_id: string;
   child_user_id: string;
-  content_type_id: string;
+  content_type_id: string | null;
+  content_tag_id: string | null;
+  video_id: string | null;
 };
 
 type ContentTypeTagMappingRow = {
@@ -52,6 +62,8 @@ type ContentTypeTagMappingRow = {
 
 type ContentTagRow = {
   id: string;
+  slug?: string;
+  name?: string;
   is_active: boolean;
 };
 
@@ -79,6 +91,17 @@ type VideoAssetRow = {
   encoding_status: 'pending' | 'preparing' | 'ready' | 'errored';
 };
 
+type VideoProgressRow = {
+  user_id: string;
+  video_id: string;
+  last_position_seconds: number;
+};
+
+type AgeGateRow = {
+  user_id: string;
+  birthdate: string;
+};
+
 type InMemoryState = {
   contentTypes: ContentTypeRow[];
   userContentPreferences: UserContentPreferenceRow[];
@@ -89,6 +112,11 @@ type InMemoryState = {
   videoContentTags: VideoContentTagRow[];
   videos: VideoRow[];
   videoAssets: VideoAssetRow[];
+  videoProgress: VideoProgressRow[];
+  ageGates: AgeGateRow[];
+  childTimeLimits: Record<string, unknown>[];
+  childContentApprovalSettings: Record<string, unknown>[];
+  childVideoApprovals: Record<string, unknown>[];
 };
 
 type QueryExecutionResult = {
@@ -100,6 +128,8 @@ const feedCatalogEnvelopeSchema = z.object({
   data: z.object({
     userId: z.string().uuid(),
     effectiveContentTypeIds: z.array(z.string()),
+    order: z.enum(['newest', 'published_at', 'unwatched_first']),
+    nextCursor: z.string().nullable(),
     videos: z.array(
       z.object({
         id: z.string().uuid(),
@@ -107,7 +137,9 @@ const feedCatalogEnvelopeSchema = z.object({
         playbackId: z.string().min(1),
         playbackPolicy: z.enum(['public', 'signed']),
         playbackUrl: z.string().url(),
+        thumbnailUrl: z.string().url().nullable(),
         contentTagIds: z.array(z.string().uuid()),
+        resumePositionSeconds: z.number().int().nullable(),
       }),
     ),
   }),
@@ -117,6 +149,68 @@ function clone<T>(value: T): T {
   return JSON.parse(JSON.stringify(value)) as T;
 }
 
+// Splits a PostgREST logical filter list on top-level commas.
+function splitFilterList(expression: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let depth = 0;
+  let inQuotes = false;
+
+  for (const char of expression) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === '(') {
+      depth += 1;
+    } else if (!inQuotes && char === ')') {
+      depth -= 1;
+    } else if (!inQuotes && depth === 0 && char === ',') {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+// Supports the `eq`, `lt` and `is.null` conditions and `and(...)` groups the
+// feed keyset filter uses.
+function matchesFilter(
+  row: Record<string, unknown>,
+  condition: string,
+): boolean {
+  if (condition.startsWith('and(') && condition.endsWith(')')) {
+    return splitFilterList(condition.slice(4, -1)).every((part) =>
+      matchesFilter(row, part),
+    );
+  }
+
+  const [field, operator, ...valueParts] = condition.split('.');
+  const value = valueParts.join('.').replace(/^"|"$/g, '');
+  const rowValue = row[field] as string | null;
+
+  if (operator === 'is') {
+    return value === 'null' && rowValue === null;
+  }
+
+  if (rowValue === null) {
+    return false;
+  }
+
+  if (operator === 'eq') {
+    return rowValue === value;
+  }
+
+  if (operator === 'lt') {
+    return rowValue < value;
+  }
+
+  throw new Error(`Unsupported filter operator: ${operator}`);
+}
+
 function createInMemorySupabaseService() {
   const learnerUserId = '11111111-1111-4111-8111-111111111111';
   const hockeyContentTypeId = '22222222-2222-4222-8222-222222222222';
@@ -127,6 +221,7 @@ function createInMemorySupabaseService() {
   const readyArchivedTagVideoId = '77777777-7777-4777-8777-777777777777';
   const processingVideoId = '88888888-8888-4888-8888-888888888888';
   const readyMissingPlaybackVideoId = '99999999-9999-4999-8999-999999999999';
+  const readySignedVideoId = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
 
   const usersByToken = new Map<string, { id: string; email: string }>([
     [
@@ -199,6 +294,10 @@ function createInMemorySupabaseService() {
         video_id: readyMissingPlaybackVideoId,
         content_tag_id: activeTagId,
       },
+      {
+        video_id: readySignedVideoId,
+        content_tag_id: activeTagId,
+      },
     ],
     videos: [
       {
@@ -245,6 +344,17 @@ function createInMemorySupabaseService() {
         created_at: '2026-03-01T20:03:00.000Z',
         updated_at: '2026-03-01T20:03:00.000Z',
       },
+      {
+        id: readySignedVideoId,
+        title: 'Ready signed clip',
+        description: null,
+        status: 'ready',
+        duration_seconds: 60,
+        thumbnail_url: null,
+        published_at: '2026-03-01T20:04:00.000Z',
+        created_at: '2026-03-01T20:04:00.000Z',
+        updated_at: '2026-03-01T20:04:00.000Z',
+      },
     ],
     videoAssets: [
       {
@@ -271,7 +381,18 @@ function createInMemorySupabaseService() {
         playback_policy: 'public',
         encoding_status: 'ready',
       },
+      {
+        video_id: readySignedVideoId,
+        mux_playback_id: 'signedplaybackid',
+        playback_policy: 'signed',
+        encoding_status: 'ready',
+      },
     ],
+    videoProgress: [],
+    ageGates: [],
+    childTimeLimits: [],
+    childContentApprovalSettings: [],
+    childVideoApprovals: [],
   };
 
   const getTableRows = (table: SupportedTable): Record<string, unknown>[] => {
@@ -307,14 +428,37 @@ function createInMemorySupabaseService() {
       return state.videos;
     }
 
+    if (table === 'video_progress') {
+      return state.videoProgress;
+    }
+
+    if (table === 'age_gates') {
+      return state.ageGates;
+    }
+
+    if (table === 'child_time_limits') {
+      return state.childTimeLimits;
+    }
+
+    if (table === 'child_content_approval_settings') {
+      return state.childContentApprovalSettings;
+    }
+
+    if (table === 'child_video_approvals') {
+      return state.childVideoApprovals;
+    }
+
     return state.videoAssets;
   };
 
   class InMemoryQueryBuilder implements PromiseLike<QueryExecutionResult> {
     private readonly filters: Array<(row: Record<string, unknown>) => boolean> =
       [];
-    private readonly orderBys: Array<{ field: string; ascending: boolean }> =
-      [];
+    private readonly orderBys: Array<{
+      field: string;
+      ascending: boolean;
+      nullsFirst: boolean;
+    }> = [];
     private resultMode: 'many' | 'single' | 'maybeSingle' = 'many';
     private maxRows: number | null = null;
 
@@ -335,10 +479,23 @@ function createInMemorySupabaseService() {
       return this;
     }
 
-    order(field: string, options?: { ascending?: boolean }) {
+    or(expression: string) {
+      const conditions = splitFilterList(expression);
+      this.filters.push((row) =>
+        conditions.some((condition) => matchesFilter(row, condition)),
+      );
+      return this;
+    }
+
+    order(
+      field: string,
+      options?: { ascending?: boolean; nullsFirst?: boolean },
+    ) {
+      const ascending = options?.ascending ?? true;
       this.orderBys.push({
         field,
-        ascending: options?.ascending ?? true,
+        ascending,
+        nullsFirst: options?.nullsFirst ?? !ascending,
       });
       return this;
     }
@@ -389,8 +546,15 @@ function createInMemorySupabaseService() {
               continue;
             }
 
-            const comparison =
-              firstValue && secondValue && firstValue > secondValue ? 1 : -1;
+            if (firstValue === null || firstValue === undefined) {
+              return orderBy.nullsFirst ? -1 : 1;
+            }
+
+            if (secondValue === null || secondValue === undefined) {
+              return orderBy.nullsFirst ? 1 : -1;
+            }
+
+            const comparison = firstValue > secondValue ? 1 : -1;
 
             return orderBy.ascending ? comparison : comparison * -1;
           }
@@ -461,6 +625,9 @@ function createInMemorySupabaseService() {
   return {
     learnerUserId,
     readyIncludedVideoId,
+    readySignedVideoId,
+    activeTagId,
+    state,
     getServiceClient: () => serviceClient,
   };
 }
@@ -469,17 +636,31 @@ describe('Feed catalog contract (e2e)', () => {
   let app: INestApplication<App>;
   let learnerUserId: string;
   let readyIncludedVideoId: string;
+  let readySignedVideoId: string;
+  let activeTagId: string;
+  let state: InMemoryState;
+  let muxSigningConfig: Record<string, string>;
 
   beforeEach(async () => {
     const inMemorySupabaseService = createInMemorySupabaseService();
     learnerUserId = inMemorySupabaseService.learnerUserId;
     readyIncludedVideoId = inMemorySupabaseService.readyIncludedVideoId;
+    readySignedVideoId = inMemorySupabaseService.readySignedVideoId;
+    activeTagId = inMemorySupabaseService.activeTagId;
+    state = inMemorySupabaseService.state;
+    muxSigningConfig = {};
 
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [AppModule],
     })
       .overrideProvider(SupabaseService)
       .useValue({ getServiceClient: inMemorySupabaseService.getServiceClient })
+      .overrideProvider(MuxPlaybackTokensService)
+      .useValue(
+        new MuxPlaybackTokensService({
+          get: (key: string) => muxSigningConfig[key],
+        } as never),
+      )
       .compile();
 
     app = moduleFixture.createNestApplication();
@@ -505,6 +686,356 @@ describe('Feed catalog contract (e2e)', () => {
     expect(parsedResponse.data.videos[0]?.id).toBe(readyIncludedVideoId);
     expect(parsedResponse.data.videos[0]?.status).toBe('ready');
     expect(parsedResponse.data.videos[0]?.playbackUrl).toContain('/medium.mp4');
+    expect(parsedResponse.data.videos[0]?.resumePositionSeconds).toBeNull();
+  });
+
+  it('serves signed assets with playback and thumbnail tokens once a signing key is configured', async () => {
+    const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    muxSigningConfig.MUX_SIGNING_KEY_ID = 'signing-key-id';
+    muxSigningConfig.MUX_SIGNING_KEY_PRIVATE_KEY = Buffer.from(
+      privateKey.export({ type: 'pkcs1', format: 'pem' }),
+    ).toString('base64');
+
+    const response = await request(app.getHttpServer())
+      .get('/v1/feed/catalog')
+      .set('Authorization', 'Bearer token-learner')
+      .expect(200);
+
+    const parsedResponse = feedCatalogEnvelopeSchema.parse(
+      response.body as unknown,
+    );
+    const signedVideo = parsedResponse.data.videos.find(
+      (video) => video.id === readySignedVideoId,
+    );
+
+    expect(parsedResponse.data.videos).toHaveLength(2);
+    expect(signedVideo?.playbackPolicy).toBe('signed');
+    expect(signedVideo?.playbackUrl).toMatch(
+      /^https:\/\/stream\.mux\.com\/signedplaybackid\/medium\.mp4\?token=[\w-]+\.[\w-]+\.[\w-]+$/,
+    );
+    expect(signedVideo?.thumbnailUrl).toMatch(
+      /^https:\/\/image\.mux\.com\/signedplaybackid\/thumbnail\.jpg\?token=[\w-]+\.[\w-]+\.[\w-]+$/,
+    );
+  });
+
+  describe('paging', () => {
+    const olderVideoId = 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb';
+    const newestVideoId = 'cccccccc-cccc-4ccc-8ccc-cccccccccccc';
+
+    const fetchCatalog = async (query: Record<string, string | number>) => {
+      const response = await request(app.getHttpServer())
+        .get('/v1/feed/catalog')
+        .query(query)
+        .set('Authorization', 'Bearer token-learner')
+        .expect(200);
+
+      return feedCatalogEnvelopeSchema.parse(response.body as unknown).data;
+    };
+
+    beforeEach(() => {
+      for (const [videoId, createdAt] of [
+        [olderVideoId, '2026-02-01T10:00:00.000Z'],
+        [newestVideoId, '2026-03-02T10:00:00.000Z'],
+      ]) {
+        state.videos.push({
+          id: videoId,
+          title: `Clip ${videoId.slice(0, 4)}`,
+          description: null,
+          status: 'ready',
+          duration_seconds: 30,
+          thumbnail_url: null,
+          published_at: createdAt,
+          created_at: createdAt,
+          updated_at: createdAt,
+        });
+        state.videoContentTags.push({
+          video_id: videoId,
+          content_tag_id: activeTagId,
+        });
+        state.videoAssets.push({
+          video_id: videoId,
+          mux_playback_id: `playback${videoId.slice(0, 4)}`,
+          playback_policy: 'public',
+          encoding_status: 'ready',
+        });
+      }
+    });
+
+    it('pages through playable videos newest first with an opaque cursor', async () => {
+      const firstPage = await fetchCatalog({ limit: 2 });
+
+      expect(firstPage.order).toBe('newest');
+      expect(firstPage.videos.map((video) => video.id)).toEqual([
+        newestVideoId,
+        readyIncludedVideoId,
+      ]);
+      expect(firstPage.nextCursor).not.toBeNull();
+
+      const secondPage = await fetchCatalog({
+        limit: 2,
+        cursor: firstPage.nextCursor as string,
+      });
+
+      expect(secondPage.videos.map((video) => video.id)).toEqual([
+        olderVideoId,
+      ]);
+      expect(secondPage.nextCursor).toBeNull();
+    });
+
+    const fetchAllVideoIds = async (query: Record<string, string | number>) => {
+      const videoIds: string[] = [];
+      let cursor: string | null = null;
+
+      do {
+        const page = await fetchCatalog(cursor ? { ...query, cursor } : query);
+        videoIds.push(...page.videos.map((video) => video.id));
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      return videoIds;
+    };
+
+    it('moves videos with saved progress behind unwatched ones across pages', async () => {
+      state.videoProgress.push({
+        user_id: learnerUserId,
+        video_id: newestVideoId,
+        last_position_seconds: 0,
+      });
+
+      const firstPage = await fetchCatalog({
+        order: 'unwatched_first',
+        limit: 2,
+      });
+
+      expect(firstPage.videos.map((video) => video.id)).toEqual([
+        readyIncludedVideoId,
+        olderVideoId,
+      ]);
+      await expect(
+        fetchAllVideoIds({ order: 'unwatched_first', limit: 1 }),
+      ).resolves.toEqual([readyIncludedVideoId, olderVideoId, newestVideoId]);
+    });
+
+    it('pages by publish date with unpublished videos last', async () => {
+      const olderVideo = state.videos.find(
+        (video) => video.id === olderVideoId,
+      ) as VideoRow;
+      olderVideo.published_at = null;
+      olderVideo.created_at = '2026-03-05T10:00:00.000Z';
+
+      await expect(
+        fetchAllVideoIds({ order: 'published_at', limit: 1 }),
+      ).resolves.toEqual([newestVideoId, readyIncludedVideoId, olderVideoId]);
+    });
+
+    it('keeps scanning past batches without playable videos', async () => {
+      for (let index = 0; index < 120; index += 1) {
+        const createdAt = new Date(
+          Date.parse('2026-03-10T00:00:00.000Z') + index * 1000,
+        ).toISOString();
+
+        state.videos.push({
+          id: `dddddddd-dddd-4ddd-8ddd-${String(index).padStart(12, '0')}`,
+          title: `Untagged clip ${index}`,
+          description: null,
+          status: 'ready',
+          duration_seconds: 30,
+          thumbnail_url: null,
+          published_at: createdAt,
+          created_at: createdAt,
+          updated_at: createdAt,
+        });
+      }
+
+      const page = await fetchCatalog({ limit: 2 });
+
+      expect(page.videos.map((video) => video.id)).toEqual([
+        newestVideoId,
+        readyIncludedVideoId,
+      ]);
+      expect(page.nextCursor).not.toBeNull();
+    });
+
+    it('rejects cursors that were not issued for the requested order', async () => {
+      const firstPage = await fetchCatalog({ limit: 1 });
+
+      await request(app.getHttpServer())
+        .get('/v1/feed/catalog')
+        .query({
+          order: 'published_at',
+          cursor: firstPage.nextCursor as string,
+        })
+        .set('Authorization', 'Bearer token-learner')
+        .expect(400);
+    });
+  });
+
+  it('hides videos blocked by a parent directly or through a content tag', async () => {
+    const parentUserId = 'dddddddd-dddd-4ddd-8ddd-dddddddddddd';
+    const checkingTagId = 'eeeeeeee-eeee-4eee-8eee-eeeeeeeeeeee';
+    const checkingVideoId = 'ffffffff-ffff-4fff-8fff-ffffffffffff';
+    const passingVideoId = 'abababab-abab-4bab-8bab-abababababab';
+
+    state.contentTags.push({
+      id: checkingTagId,
+      slug: 'body-checking',
+      name: 'Body Checking',
+      is_active: true,
+    });
+
+    for (const [videoId, contentTagIds] of [
+      [checkingVideoId, [activeTagId, checkingTagId]],
+      [passingVideoId, [activeTagId]],
+    ] as const) {
+      state.videos.push({
+        id: videoId,
+        title: `Clip ${videoId.slice(0, 4)}`,
+        description: null,
+        status: 'ready',
+        duration_seconds: 30,
+        thumbnail_url: null,
+        published_at: '2026-03-02T10:00:00.000Z',
+        created_at: '2026-03-02T10:00:00.000Z',
+        updated_at: '2026-03-02T10:00:00.000Z',
+      });
+      state.videoAssets.push({
+        video_id: videoId,
+        mux_playback_id: `playback${videoId.slice(0, 4)}`,
+        playback_policy: 'public',
+        encoding_status: 'ready',
+      });
+
+      for (const contentTagId of contentTagIds) {
+        state.videoContentTags.push({
+          video_id: videoId,
+          content_tag_id: contentTagId,
+        });
+      }
+    }
+
+    state.parentChildLinks.push({
+      parent_user_id: parentUserId,
+      child_user_id: learnerUserId,
+      relationship_status: 'active',
+      guardian_role: 'primary',
+    });
+    state.parentContentRestrictions.push(
+      {
+        parent_user_id: parentUserId,
+        child_user_id: learnerUserId,
+        content_type_id: null,
+        content_tag_id: checkingTagId,
+        video_id: null,
+      },
+      {
+        parent_user_id: parentUserId,
+        child_user_id: learnerUserId,
+        content_type_id: null,
+        content_tag_id: null,
+        video_id: readyIncludedVideoId,
+      },
+    );
+
+    const response = await request(app.getHttpServer())
+      .get('/v1/feed/catalog')
+      .set('Authorization', 'Bearer token-learner')
+      .expect(200);
+
+    const parsedResponse = feedCatalogEnvelopeSchema.parse(
+      response.body as unknown,
+    );
+
+    expect(parsedResponse.data.videos.map((video) => video.id)).toEqual([
+      passingVideoId,
+    ]);
+  });
+
+  it('serves only parent-approved videos while approval mode is on', async () => {
+    const parentUserId = 'dddddddd-dddd-4ddd-8ddd-dddddddddddd';
+
+    state.parentChildLinks.push({
+      parent_user_id: parentUserId,
+      child_user_id: learnerUserId,
+      relationship_status: 'active',
+      guardian_role: 'primary',
+    });
+    state.childContentApprovalSettings.push({
+      child_user_id: learnerUserId,
+      approval_required: true,
+    });
+
+    const fetchVideoIds = async () => {
+      const response = await request(app.getHttpServer())
+        .get('/v1/feed/catalog')
+        .set('Authorization', 'Bearer token-learner')
+        .expect(200);
+
+      return feedCatalogEnvelopeSchema
+        .parse(response.body as unknown)
+        .data.videos.map((video) => video.id);
+    };
+
+    await expect(fetchVideoIds()).resolves.toEqual([]);
+
+    state.childVideoApprovals.push({
+      child_user_id: learnerUserId,
+      video_id: readyIncludedVideoId,
+      decision: 'approved',
+    });
+
+    await expect(fetchVideoIds()).resolves.toEqual([readyIncludedVideoId]);
+
+    // Without an active primary guardian nobody is left to approve, so the
+    // flag stops applying even while a co-guardian is still linked.
+    state.parentChildLinks = [
+      {
+        parent_user_id: parentUserId,
+        child_user_id: learnerUserId,
+        relationship_status: 'active',
+        guardian_role: 'co_guardian',
+      },
+    ];
+    state.childVideoApprovals = [];
+
+    await expect(fetchVideoIds()).resolves.toEqual([readyIncludedVideoId]);
+  });
+
+  it('returns the resume position for partially watched videos', async () => {
+    state.videoProgress.push({
+      user_id: learnerUserId,
+      video_id: readyIncludedVideoId,
+      last_position_seconds: 42,
+    });
+
+    const response = await request(app.getHttpServer())
+      .get('/v1/feed/catalog')
+      .set('Authorization', 'Bearer token-learner')
+      .expect(200);
+
+    const parsedResponse = feedCatalogEnvelopeSchema.parse(
+      response.body as unknown,
+    );
+
+    expect(parsedResponse.data.videos[0]?.resumePositionSeconds).toBe(42);
+  });
+
+  it('restarts videos that were watched to the end', async () => {
+    state.videoProgress.push({
+      user_id: learnerUserId,
+      video_id: readyIncludedVideoId,
+      last_position_seconds: 89,
+    });
+
+    const response = await request(app.getHttpServer())
+      .get('/v1/feed/catalog')
+      .set('Authorization', 'Bearer token-learner')
+      .expect(200);
+
+    const parsedResponse = feedCatalogEnvelopeSchema.parse(
+      response.body as unknown,
+    );
+
+    expect(parsedResponse.data.videos[0]?.resumePositionSeconds).toBeNull();
   });
 
   it('requires an authenticated bearer token', async () => {
@@ -0,0 +1,395 @@
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { z } from 'zod';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/modules/supabase/supabase.service';
+
+type RelationshipStatus = 'pending' | 'active' | 'revoked';
+type SupportedTable =
+  | 'profiles'
+  | 'parent_child_links'
+  | 'content_types'
+  | 'video_progress'
+  | 'videos'
+  | 'video_content_tags'
+  | 'content_tags'
+  | 'content_type_tag_mappings'
+  | 'engagement_daily_rollups';
+
+type QueryExecutionResult = {
+  data: unknown;
+  error: null;
+};
+
+type InMemoryState = Record<SupportedTable, Record<string, unknown>[]>;
+
+const childHistoryEnvelopeSchema = z.object({
+  data: z.object({
+    parentUserId: z.string().uuid(),
+    userId: z.string().uuid(),
+    childUsername: z.string(),
+    items: z.array(
+      z.object({
+        videoId: z.string().uuid(),
+        title: z.string(),
+        isCompleted: z.boolean(),
+      }),
+    ),
+    nextCursor: z.string().nullable(),
+  }),
+});
+
+const weeklySummaryEnvelopeSchema = z.object({
+  data: z.object({
+    childUserId: z.string().uuid(),
+    childUsername: z.string(),
+    weeks: z.array(
+      z.object({
+        weekStart: z.string(),
+        weekEnd: z.string(),
+        watchSeconds: z.number().int(),
+        completions: z.number().int(),
+        activeMinutes: z.number().int(),
+        topContentTypes: z.array(
+          z.object({
+            contentTypeId: z.string(),
+            name: z.string().nullable(),
+            slug: z.string().nullable(),
+            watchSeconds: z.number().int(),
+            completions: z.number().int(),
+          }),
+        ),
+      }),
+    ),
+  }),
+});
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function createInMemorySupabaseService() {
+  const parentUserId = '11111111-1111-4111-8111-111111111111';
+  const otherParentUserId = '22222222-2222-4222-8222-222222222222';
+  const childUserId = '33333333-3333-4333-8333-333333333333';
+  const hockeyContentTypeId = '44444444-4444-4444-8444-444444444444';
+  const hockeyTagId = '55555555-5555-4555-8555-555555555555';
+  const videoId = '66666666-6666-4666-8666-666666666666';
+
+  const usersByToken = new Map<string, { id: string; email: string }>([
+    ['token-parent', { id: parentUserId, email: 'parent@example.com' }],
+    [
+      'token-other-parent',
+      { id: otherParentUserId, email: 'other-parent@example.com' },
+    ],
+  ]);
+
+  // Anchor activity to the start of today (UTC) so it always lands in the
+  // current summary week.
+  const todayStart = Date.parse(
+    `${new Date().toISOString().slice(0, 10)}T00:00:00.000Z`,
+  );
+  const at = (offsetSeconds: number) =>
+    new Date(todayStart + offsetSeconds * 1000).toISOString();
+
+  const state: InMemoryState = {
+    profiles: [
+      { id: parentUserId, username: 'hockey_parent', account_type: 'parent' },
+      {
+        id: otherParentUserId,
+        username: 'other_parent',
+        account_type: 'parent',
+      },
+      { id: childUserId, username: 'young_skater', account_type: 'learner' },
+    ],
+    parent_child_links: [
+      {
+        id: '88888888-8888-4888-8888-888888888888',
+        parent_user_id: parentUserId,
+        child_user_id: childUserId,
+        relationship_status: 'active' as RelationshipStatus,
+        guardian_role: 'primary',
+      },
+      {
+        id: '99999999-9999-4999-8999-999999999999',
+        parent_user_id: otherParentUserId,
+        child_user_id: childUserId,
+        relationship_status: 'revoked' as RelationshipStatus,
+        guardian_role: 'primary',
+      },
+    ],
+    content_types: [
+      {
+        id: hockeyContentTypeId,
+        slug: 'hockey',
+        name: 'Hockey',
+        description: 'Hockey skills',
+        icon_key: null,
+        sort_order: 1,
+        is_active: true,
+      },
+    ],
+    video_progress: [
+      {
+        user_id: childUserId,
+        video_id: videoId,
+        last_position_seconds: 40,
+        completion_percent: 100,
+        completed_at: at(100),
+        last_watched_at: at(100),
+        updated_at: at(100),
+      },
+    ],
+    videos: [
+      {
+        id: videoId,
+        title: 'Crossovers',
+        thumbnail_url: null,
+        duration_seconds: 40,
+        status: 'ready',
+      },
+    ],
+    video_content_tags: [{ video_id: videoId, content_tag_id: hockeyTagId }],
+    content_tags: [
+      { id: hockeyTagId, slug: 'hockey', name: 'Hockey', is_active: true },
+    ],
+    content_type_tag_mappings: [
+      { content_type_id: hockeyContentTypeId, content_tag_id: hockeyTagId },
+    ],
+    engagement_daily_rollups: [
+      {
+        user_id: childUserId,
+        content_type_id: hockeyContentTypeId,
+        date: at(0).slice(0, 10),
+        watch_seconds: 40,
+        completions: 1,
+        active_minutes: 1,
+      },
+    ],
+  };
+
+  class InMemoryQueryBuilder implements PromiseLike<QueryExecutionResult> {
+    private readonly filters: Array<(row: Record<string, unknown>) => boolean> =
+      [];
+    private resultMode: 'many' | 'maybeSingle' = 'many';
+    private maxRows: number | null = null;
+    private rowRange: { from: number; to: number } | null = null;
+
+    constructor(private readonly table: SupportedTable) {}
+
+    select(columns: string) {
+      void columns;
+      return this;
+    }
+
+    eq(field: string, value: unknown) {
+      this.filters.push((row) => row[field] === value);
+      return this;
+    }
+
+    in(field: string, values: unknown[]) {
+      this.filters.push((row) => values.includes(row[field]));
+      return this;
+    }
+
+    gte(field: string, value: string) {
+      this.filters.push((row) => (row[field] as string) >= value);
+      return this;
+    }
+
+    lte(field: string, value: string) {
+      this.filters.push((row) => (row[field] as string) <= value);
+      return this;
+    }
+
+    lt(field: string, value: string) {
+      this.filters.push((row) => (row[field] as string) < value);
+      return this;
+    }
+
+    order(field: string, options?: { ascending?: boolean }) {
+      void field;
+      void options;
+      return this;
+    }
+
+    limit(value: number) {
+      this.maxRows = value;
+      return this;
+    }
+
+    range(from: number, to: number) {
+      this.rowRange = { from, to };
+      return this;
+    }
+
+    maybeSingle() {
+      this.resultMode = 'maybeSingle';
+      return this.execute();
+    }
+
+    then<TResult1 = QueryExecutionResult, TResult2 = never>(
+      onfulfilled?:
+        | ((value: QueryExecutionResult) => TResult1 | PromiseLike<TResult1>)
+        | null,
+      onrejected?:
+        | ((reason: unknown) => TResult2 | PromiseLike<TResult2>)
+        | null,
+    ): Promise<TResult1 | TResult2> {
+      return this.execute().then(onfulfilled, onrejected);
+    }
+
+    private execute(): Promise<QueryExecutionResult> {
+      const matchingRows = state[this.table].filter((row) =>
+        this.filters.every((filter) => filter(row)),
+      );
+
+      if (this.resultMode === 'maybeSingle') {
+        return Promise.resolve({
+          data: clone(matchingRows[0] ?? null),
+          error: null,
+        });
+      }
+
+      let resultRows = this.rowRange
+        ? matchingRows.slice(this.rowRange.from, this.rowRange.to + 1)
+        : matchingRows;
+
+      if (this.maxRows !== null) {
+        resultRows = resultRows.slice(0, this.maxRows);
+      }
+
+      return Promise.resolve({ data: clone(resultRows), error: null });
+    }
+  }
+
+  const serviceClient = {
+    auth: {
+      getUser: (accessToken: string) => {
+        const user = usersByToken.get(accessToken);
+
+        if (!user) {
+          return Promise.resolve({
+            data: { user: null },
+            error: { message: 'Invalid token' },
+          });
+        }
+
+        return Promise.resolve({
+          data: { user },
+          error: null,
+        });
+      },
+    },
+    from: (table: SupportedTable) => new InMemoryQueryBuilder(table),
+  };
+
+  return {
+    childUserId,
+    hockeyContentTypeId,
+    videoId,
+    getServiceClient: () => serviceClient,
+  };
+}
+
+describe('Parent child history (e2e)', () => {
+  let app: INestApplication<App>;
+  let inMemorySupabaseService: ReturnType<typeof createInMemorySupabaseService>;
+
+  beforeEach(async () => {
+    inMemorySupabaseService = createInMemorySupabaseService();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue({ getServiceClient: inMemorySupabaseService.getServiceClient })
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('returns the linked child watch history', async () => {
+    const response = await request(app.getHttpServer())
+      .get(`/v1/parent/children/${inMemorySupabaseService.childUserId}/history`)
+      .set('Authorization', 'Bearer token-parent')
+      .expect(200);
+
+    const parsedResponse = childHistoryEnvelopeSchema.parse(
+      response.body as unknown,
+    );
+
+    expect(parsedResponse.data.userId).toBe(
+      inMemorySupabaseService.childUserId,
+    );
+    expect(parsedResponse.data.childUsername).toBe('young_skater');
+    expect(parsedResponse.data.items).toEqual([
+      {
+        videoId: inMemorySupabaseService.videoId,
+        title: 'Crossovers',
+        isCompleted: true,
+      },
+    ]);
+  });
+
+  it('summarizes watch time, completions and top content types per week', async () => {
+    const response = await request(app.getHttpServer())
+      .get(
+        `/v1/parent/children/${inMemorySupabaseService.childUserId}/weekly-summary`,
+      )
+      .query({ weeks: 2 })
+      .set('Authorization', 'Bearer token-parent')
+      .expect(200);
+
+    const parsedResponse = weeklySummaryEnvelopeSchema.parse(
+      response.body as unknown,
+    );
+    const [currentWeek, previousWeek] = parsedResponse.data.weeks;
+
+    expect(parsedResponse.data.weeks).toHaveLength(2);
+    expect(currentWeek).toEqual(
+      expect.objectContaining({
+        watchSeconds: 40,
+        completions: 1,
+        activeMinutes: 1,
+        topContentTypes: [
+          {
+            contentTypeId: inMemorySupabaseService.hockeyContentTypeId,
+            name: 'Hockey',
+            slug: 'hockey',
+            watchSeconds: 40,
+            completions: 1,
+          },
+        ],
+      }),
+    );
+    expect(previousWeek).toEqual(
+      expect.objectContaining({
+        watchSeconds: 0,
+        completions: 0,
+        topContentTypes: [],
+      }),
+    );
+  });
+
+  it('requires an active parent-child link for both views', async () => {
+    await request(app.getHttpServer())
+      .get(`/v1/parent/children/${inMemorySupabaseService.childUserId}/history`)
+      .set('Authorization', 'Bearer token-other-parent')
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .get(
+        `/v1/parent/children/${inMemorySupabaseService.childUserId}/weekly-summary`,
+      )
+      .set('Authorization', 'Bearer token-other-parent')
+      .expect(403);
+  });
+});
@@ -0,0 +1,398 @@
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/modules/supabase/supabase.service';
+
+type SupportedTable =
+  | 'profiles'
+  | 'parent_child_links'
+  | 'age_gates'
+  | 'parental_consents'
+  | 'child_time_limits'
+  | 'content_types'
+  | 'user_content_preferences'
+  | 'parent_content_restrictions'
+  | 'content_type_tag_mappings'
+  | 'content_tags'
+  | 'video_content_tags'
+  | 'videos'
+  | 'video_assets'
+  | 'video_progress'
+  | 'child_content_approval_settings'
+  | 'child_video_approvals';
+
+type Row = Record<string, unknown>;
+type InMemoryState = Record<SupportedTable, Row[]>;
+
+const parentUserId = '11111111-1111-4111-8111-111111111111';
+const childUserId = '22222222-2222-4222-8222-222222222222';
+const coGuardianUserId = '33333333-3333-4333-8333-333333333333';
+const hockeyContentTypeId = '44444444-4444-4444-8444-444444444444';
+const skatingTagId = '55555555-5555-4555-8555-555555555555';
+const olderVideoId = '66666666-6666-4666-8666-666666666666';
+const newerVideoId = '77777777-7777-4777-8777-777777777777';
+const processingVideoId = '88888888-8888-4888-8888-888888888888';
+
+function createInMemorySupabaseService() {
+  const usersByToken = new Map<string, string>([
+    ['token-parent', parentUserId],
+    ['token-child', childUserId],
+    ['token-co-guardian', coGuardianUserId],
+  ]);
+
+  const activeLink = (
+    id: string,
+    guardianUserId: string,
+    guardianRole: string,
+  ): Row => ({
+    id,
+    parent_user_id: guardianUserId,
+    child_user_id: childUserId,
+    relationship_status: 'active',
+    guardian_role: guardianRole,
+    linked_at: '2026-03-01T00:00:00.000Z',
+    created_at: '2026-03-01T00:00:00.000Z',
+    updated_at: '2026-03-01T00:00:00.000Z',
+  });
+
+  const readyVideo = (id: string, title: string, publishedAt: string) => ({
+    id,
+    title,
+    description: null,
+    status: 'ready',
+    duration_seconds: 45,
+    thumbnail_url: null,
+    published_at: publishedAt,
+    created_at: publishedAt,
+    updated_at: publishedAt,
+  });
+
+  const state: InMemoryState = {
+    profiles: [
+      { id: parentUserId, username: 'hockey_parent', account_type: 'parent' },
+      { id: childUserId, username: 'young_skater', account_type: 'learner' },
+      { id: coGuardianUserId, username: 'co_parent', account_type: 'parent' },
+    ],
+    parent_child_links: [
+      activeLink(
+        '99999999-9999-4999-8999-999999999991',
+        parentUserId,
+        'primary',
+      ),
+      activeLink(
+        '99999999-9999-4999-8999-999999999992',
+        coGuardianUserId,
+        'co_guardian',
+      ),
+    ],
+    age_gates: [],
+    parental_consents: [],
+    child_time_limits: [],
+    content_types: [
+      {
+        id: hockeyContentTypeId,
+        slug: 'hockey',
+        name: 'Hockey',
+        description: 'Hockey topics',
+        icon_key: null,
+        sort_order: 1,
+        is_active: true,
+      },
+    ],
+    user_content_preferences: [],
+    parent_content_restrictions: [],
+    content_type_tag_mappings: [
+      { content_type_id: hockeyContentTypeId, content_tag_id: skatingTagId },
+    ],
+    content_tags: [
+      { id: skatingTagId, slug: 'skating', name: 'Skating', is_active: true },
+    ],
+    video_content_tags: [olderVideoId, newerVideoId, processingVideoId].map(
+      (videoId) => ({ video_id: videoId, content_tag_id: skatingTagId }),
+    ),
+    videos: [
+      readyVideo(olderVideoId, 'Crossover basics', '2026-03-01T10:00:00.000Z'),
+      readyVideo(newerVideoId, 'Hockey stop drill', '2026-03-03T10:00:00.000Z'),
+      {
+        ...readyVideo(
+          processingVideoId,
+          'Still encoding',
+          '2026-03-04T10:00:00.000Z',
+        ),
+        status: 'processing',
+      },
+    ],
+    video_assets: [olderVideoId, newerVideoId, processingVideoId].map(
+      (videoId) => ({
+        video_id: videoId,
+        mux_playback_id: `playback${videoId.slice(0, 4)}`,
+        playback_policy: 'public',
+        encoding_status: 'ready',
+      }),
+    ),
+    video_progress: [],
+    child_content_approval_settings: [],
+    child_video_approvals: [],
+  };
+
+  class QueryBuilder {
+    private readonly filters: Array<(row: Row) => boolean> = [];
+    private readonly orderBys: Array<{ field: string; ascending: boolean }> =
+      [];
+    private pendingUpsert: Row | null = null;
+    private maxRows: number | null = null;
+
+    constructor(private readonly table: SupportedTable) {}
+
+    select(columns: string) {
+      void columns;
+      return this;
+    }
+
+    eq(field: string, value: unknown) {
+      this.filters.push((row) => row[field] === value);
+      return this;
+    }
+
+    in(field: string, values: unknown[]) {
+      this.filters.push((row) => values.includes(row[field]));
+      return this;
+    }
+
+    order(field: string, options: { ascending: boolean }) {
+      this.orderBys.push({ field, ascending: options.ascending });
+      return this;
+    }
+
+    limit(value: number) {
+      this.maxRows = value;
+      return this;
+    }
+
+    upsert(row: Row, options: { onConflict: string }) {
+      const conflictFields = options.onConflict.split(',');
+      const existingRow = state[this.table].find((candidate) =>
+        conflictFields.every((field) => candidate[field] === row[field]),
+      );
+
+      if (existingRow) {
+        Object.assign(existingRow, row);
+        this.pendingUpsert = existingRow;
+      } else {
+        this.pendingUpsert = { ...row };
+        state[this.table].push(this.pendingUpsert);
+      }
+
+      return this;
+    }
+
+    maybeSingle() {
+      return Promise.resolve({ data: this.execute()[0] ?? null, error: null });
+    }
+
+    single() {
+      return Promise.resolve({ data: this.execute()[0], error: null });
+    }
+
+    then<T>(
+      resolve: (value: { data: Row[]; error: null }) => T,
+      reject?: (reason: unknown) => T,
+    ) {
+      return Promise.resolve({ data: this.execute(), error: null }).then(
+        resolve,
+        reject,
+      );
+    }
+
+    private execute(): Row[] {
+      if (this.pendingUpsert) {
+        return [JSON.parse(JSON.stringify(this.pendingUpsert)) as Row];
+      }
+
+      const rows = state[this.table].filter((row) =>
+        this.filters.every((filter) => filter(row)),
+      );
+
+      for (const { field, ascending } of [...this.orderBys].reverse()) {
+        rows.sort((firstRow, secondRow) => {
+          const comparison = String(firstRow[field]).localeCompare(
+            String(secondRow[field]),
+          );
+
+          return ascending ? comparison : -comparison;
+        });
+      }
+
+      return (this.maxRows === null ? rows : rows.slice(0, this.maxRows)).map(
+        (row) => JSON.parse(JSON.stringify(row)) as Row,
+      );
+    }
+  }
+
+  const serviceClient = {
+    auth: {
+      getUser: (accessToken: string) => {
+        const userId = usersByToken.get(accessToken);
+
+        if (!userId) {
+          return Promise.resolve({
+            data: { user: null },
+            error: { message: 'Invalid token' },
+          });
+        }
+
+        return Promise.resolve({
+          data: { user: { id: userId, email: null } },
+          error: null,
+        });
+      },
+    },
+    from: (table: SupportedTable) => new QueryBuilder(table),
+  };
+
+  return {
+    state,
+    service: { getServiceClient: () => serviceClient },
+  };
+}
+
+describe('Parent content approvals (e2e)', () => {
+  let app: INestApplication<App>;
+  let state: InMemoryState;
+
+  beforeEach(async () => {
+    const inMemorySupabase = createInMemorySupabaseService();
+    state = inMemorySupabase.state;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(inMemorySupabase.service)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const fetchChildFeedVideoIds = async () => {
+    const response = await request(app.getHttpServer())
+      .get('/v1/feed/catalog')
+      .set('Authorization', 'Bearer token-child')
+      .expect(200);
+    const body = response.body as { data: { videos: Array<{ id: string }> } };
+
+    return body.data.videos.map((video) => video.id);
+  };
+
+  it('holds new videos back from the feed until a parent approves them', async () => {
+    await expect(fetchChildFeedVideoIds()).resolves.toEqual([
+      newerVideoId,
+      olderVideoId,
+    ]);
+
+    await request(app.getHttpServer())
+      .put(`/v1/parent/children/${childUserId}/content-approvals/settings`)
+      .set('Authorization', 'Bearer token-parent')
+      .send({ approvalRequired: true })
+      .expect(200)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({
+          data: {
+            childUsername: 'young_skater',
+            approvalRequired: true,
+            pendingVideos: [
+              { id: newerVideoId, title: 'Hockey stop drill' },
+              { id: olderVideoId, title: 'Crossover basics' },
+            ],
+          },
+        });
+      });
+
+    await expect(fetchChildFeedVideoIds()).resolves.toEqual([]);
+
+    await request(app.getHttpServer())
+      .post(
+        `/v1/parent/children/${childUserId}/content-approvals/${olderVideoId}`,
+      )
+      .set('Authorization', 'Bearer token-parent')
+      .send({ decision: 'approved' })
+      .expect(201);
+
+    await request(app.getHttpServer())
+      .post(
+        `/v1/parent/children/${childUserId}/content-approvals/${newerVideoId}`,
+      )
+      .set('Authorization', 'Bearer token-parent')
+      .send({ decision: 'rejected' })
+      .expect(201)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({ data: { pendingVideos: [] } });
+      });
+
+    expect(state.child_video_approvals).toEqual([
+      expect.objectContaining({
+        video_id: olderVideoId,
+        decision: 'approved',
+        decided_by_parent_user_id: parentUserId,
+      }),
+      expect.objectContaining({ video_id: newerVideoId, decision: 'rejected' }),
+    ]);
+    await expect(fetchChildFeedVideoIds()).resolves.toEqual([olderVideoId]);
+  });
+
+  it('lets co-guardians see the queue but only the primary guardian decide', async () => {
+    state.child_content_approval_settings.push({
+      child_user_id: childUserId,
+      approval_required: true,
+    });
+
+    await request(app.getHttpServer())
+      .get(`/v1/parent/children/${childUserId}/content-approvals`)
+      .set('Authorization', 'Bearer token-co-guardian')
+      .expect(200)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({
+          data: { approvalRequired: true, pendingVideos: [{}, {}] },
+        });
+      });
+
+    await request(app.getHttpServer())
+      .post(
+        `/v1/parent/children/${childUserId}/content-approvals/${olderVideoId}`,
+      )
+      .set('Authorization', 'Bearer token-co-guardian')
+      .send({ decision: 'approved' })
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .put(`/v1/parent/children/${childUserId}/content-approvals/settings`)
+      .set('Authorization', 'Bearer token-co-guardian')
+      .send({ approvalRequired: false })
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .post(
+        `/v1/parent/children/${childUserId}/content-approvals/${processingVideoId}`,
+      )
+      .set('Authorization', 'Bearer token-parent')
+      .send({ decision: 'approved' })
+      .expect(404);
+
+    await request(app.getHttpServer())
+      .post(
+        `/v1/parent/children/${childUserId}/content-approvals/${olderVideoId}`,
+      )
+      .set('Authorization', 'Bearer token-parent')
+      .send({ decision: 'maybe' })
+      .expect(400);
+
+    expect(state.child_video_approvals).toHaveLength(0);
+  });
+});
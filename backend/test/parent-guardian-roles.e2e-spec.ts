@@ -0,0 +1,409 @@
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { randomUUID } from 'node:crypto';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/modules/supabase/supabase.service';
+
+type SupportedTable =
+  | 'profiles'
+  | 'parent_child_links'
+  | 'parent_content_restrictions';
+type Row = Record<string, unknown>;
+type InMemoryState = Record<SupportedTable, Row[]>;
+
+const primaryUserId = '11111111-1111-4111-8111-111111111111';
+const childUserId = '22222222-2222-4222-8222-222222222222';
+const coParentUserId = '33333333-3333-4333-8333-333333333333';
+const coachUserId = '44444444-4444-4444-8444-444444444444';
+const primaryLinkId = '55555555-5555-4555-8555-555555555555';
+
+function createInMemorySupabaseService() {
+  const usersByToken = new Map<string, string>([
+    ['token-primary', primaryUserId],
+    ['token-co-parent', coParentUserId],
+    ['token-coach', coachUserId],
+  ]);
+
+  const state: InMemoryState = {
+    profiles: [
+      { id: primaryUserId, username: 'first_parent', account_type: 'parent' },
+      { id: childUserId, username: 'young_skater', account_type: 'learner' },
+      { id: coParentUserId, username: 'second_parent', account_type: 'parent' },
+      { id: coachUserId, username: 'team_coach', account_type: 'parent' },
+    ],
+    parent_child_links: [
+      {
+        id: primaryLinkId,
+        parent_user_id: primaryUserId,
+        child_user_id: childUserId,
+        relationship_status: 'active',
+        guardian_role: 'primary',
+        linked_at: '2026-03-01T00:00:00.000Z',
+        created_at: '2026-03-01T00:00:00.000Z',
+        updated_at: '2026-03-01T00:00:00.000Z',
+      },
+    ],
+    parent_content_restrictions: [],
+  };
+
+  class QueryBuilder {
+    private readonly filters: Array<(row: Row) => boolean> = [];
+    private pendingUpsert: Row | null = null;
+    private pendingUpdate: Row | null = null;
+    private pendingDelete = false;
+
+    constructor(private readonly table: SupportedTable) {}
+
+    select(columns: string) {
+      void columns;
+      return this;
+    }
+
+    eq(field: string, value: unknown) {
+      this.filters.push((row) => row[field] === value);
+      return this;
+    }
+
+    ilike(field: string, value: string) {
+      this.filters.push(
+        (row) => String(row[field]).toLowerCase() === value.toLowerCase(),
+      );
+      return this;
+    }
+
+    in(field: string, values: unknown[]) {
+      this.filters.push((row) => values.includes(row[field]));
+      return this;
+    }
+
+    order(field: string) {
+      void field;
+      return this;
+    }
+
+    upsert(row: Row) {
+      this.pendingUpsert = row;
+      return this;
+    }
+
+    update(patch: Row) {
+      this.pendingUpdate = patch;
+      return this;
+    }
+
+    delete() {
+      this.pendingDelete = true;
+      return this;
+    }
+
+    maybeSingle() {
+      return Promise.resolve({ data: this.execute()[0] ?? null, error: null });
+    }
+
+    single() {
+      return Promise.resolve({ data: this.execute()[0], error: null });
+    }
+
+    then<T>(
+      resolve: (value: { data: Row[]; error: null }) => T,
+      reject?: (reason: unknown) => T,
+    ) {
+      return Promise.resolve({ data: this.execute(), error: null }).then(
+        resolve,
+        reject,
+      );
+    }
+
+    private execute(): Row[] {
+      const tableRows = state[this.table];
+
+      if (this.pendingUpsert) {
+        const upsert = this.pendingUpsert;
+        const existingRow = tableRows.find(
+          (row) =>
+            row.parent_user_id === upsert.parent_user_id &&
+            row.child_user_id === upsert.child_user_id,
+        );
+        const timestamp = new Date().toISOString();
+
+        if (existingRow) {
+          Object.assign(existingRow, upsert, { updated_at: timestamp });
+          return [{ ...existingRow }];
+        }
+
+        const insertedRow = {
+          id: randomUUID(),
+          linked_at: null,
+          created_at: timestamp,
+          updated_at: timestamp,
+          ...upsert,
+        };
+        tableRows.push(insertedRow);
+        return [{ ...insertedRow }];
+      }
+
+      const rows = tableRows.filter((row) =>
+        this.filters.every((filter) => filter(row)),
+      );
+
+      if (this.pendingDelete) {
+        state[this.table] = tableRows.filter((row) => !rows.includes(row));
+      }
+
+      if (this.pendingUpdate) {
+        for (const row of rows) {
+          Object.assign(row, this.pendingUpdate);
+        }
+      }
+
+      return rows.map((row) => ({ ...row }));
+    }
+  }
+
+  // Mirrors public.set_guardian_role.
+  const setGuardianRole = (args: {
+    p_link_id: string;
+    p_child_user_id: string;
+    p_primary_user_id: string;
+    p_guardian_role: string;
+  }) => {
+    const childLinks = state.parent_child_links.filter(
+      (row) => row.child_user_id === args.p_child_user_id,
+    );
+    const link = childLinks.find(
+      (row) =>
+        row.id === args.p_link_id && row.relationship_status === 'active',
+    );
+
+    if (!link) {
+      return { message: 'Active guardian link was not found.' };
+    }
+
+    if (args.p_guardian_role === 'primary') {
+      for (const row of childLinks) {
+        if (row.parent_user_id === args.p_primary_user_id) {
+          row.guardian_role = 'co_guardian';
+        }
+      }
+    }
+
+    link.guardian_role = args.p_guardian_role;
+    return null;
+  };
+
+  const serviceClient = {
+    rpc: (functionName: string, args: unknown) => {
+      if (functionName !== 'set_guardian_role') {
+        throw new Error(
+          `Unsupported RPC for guardian roles E2E: ${functionName}`,
+        );
+      }
+
+      return Promise.resolve({
+        data: null,
+        error: setGuardianRole(args as Parameters<typeof setGuardianRole>[0]),
+      });
+    },
+    auth: {
+      getUser: (accessToken: string) => {
+        const userId = usersByToken.get(accessToken);
+
+        if (!userId) {
+          return Promise.resolve({
+            data: { user: null },
+            error: { message: 'Invalid token' },
+          });
+        }
+
+        return Promise.resolve({
+          data: { user: { id: userId, email: null } },
+          error: null,
+        });
+      },
+    },
+    from: (table: SupportedTable) => new QueryBuilder(table),
+  };
+
+  return {
+    state,
+    service: { getServiceClient: () => serviceClient },
+  };
+}
+
+describe('Parent guardian roles (e2e)', () => {
+  let app: INestApplication<App>;
+  let state: InMemoryState;
+
+  beforeEach(async () => {
+    const inMemorySupabase = createInMemorySupabaseService();
+    state = inMemorySupabase.state;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(inMemorySupabase.service)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const addGuardian = (guardianUsername: string, guardianRole: string) =>
+    request(app.getHttpServer())
+      .post(`/v1/parent/children/${childUserId}/guardians`)
+      .set('Authorization', 'Bearer token-primary')
+      .send({ guardianUsername, guardianRole });
+
+  it('lets the primary guardian add co-guardians and coaches with scoped access', async () => {
+    await addGuardian('second_parent', 'co_guardian')
+      .expect(201)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({
+          data: {
+            parentUserId: coParentUserId,
+            relationshipStatus: 'active',
+            guardianRole: 'co_guardian',
+          },
+        });
+      });
+    await addGuardian('team_coach', 'coach_viewer').expect(201);
+    await addGuardian('young_skater', 'co_guardian').expect(400);
+    await addGuardian('team_coach', 'primary').expect(400);
+
+    await request(app.getHttpServer())
+      .get(`/v1/parent/children/${childUserId}/guardians`)
+      .set('Authorization', 'Bearer token-co-parent')
+      .expect(200)
+      .expect(({ body }) => {
+        expect(
+          (body as { data: Array<{ guardianRole: string }> }).data.map(
+            (link) => link.guardianRole,
+          ),
+        ).toEqual(['primary', 'co_guardian', 'coach_viewer']);
+      });
+
+    await request(app.getHttpServer())
+      .get(`/v1/parent/children/${childUserId}/guardians`)
+      .set('Authorization', 'Bearer token-coach')
+      .expect(403);
+
+    for (const token of ['token-co-parent', 'token-coach']) {
+      await request(app.getHttpServer())
+        .put(`/v1/parent/children/${childUserId}/content-restrictions`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ blockedContentTypeIds: [] })
+        .expect(403);
+
+      await request(app.getHttpServer())
+        .post(`/v1/parent/children/${childUserId}/guardians`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ guardianUsername: 'first_parent', guardianRole: 'co_guardian' })
+        .expect(403);
+    }
+  });
+
+  it('hands over the primary role and lets the primary remove guardians', async () => {
+    await addGuardian('second_parent', 'co_guardian').expect(201);
+    await addGuardian('team_coach', 'coach_viewer').expect(201);
+
+    const coachLink = state.parent_child_links.find(
+      (row) => row.parent_user_id === coachUserId,
+    );
+
+    await request(app.getHttpServer())
+      .post(`/v1/parent/links/${String(coachLink?.id)}/revoke`)
+      .set('Authorization', 'Bearer token-primary')
+      .expect(201)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({ data: { relationshipStatus: 'revoked' } });
+      });
+
+    const coParentLink = state.parent_child_links.find(
+      (row) => row.parent_user_id === coParentUserId,
+    );
+
+    await request(app.getHttpServer())
+      .put(
+        `/v1/parent/children/${childUserId}/guardians/${String(coParentLink?.id)}/role`,
+      )
+      .set('Authorization', 'Bearer token-primary')
+      .send({ guardianRole: 'primary' })
+      .expect(200)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({ data: { guardianRole: 'primary' } });
+      });
+
+    expect(
+      state.parent_child_links.find((row) => row.id === primaryLinkId),
+    ).toMatchObject({ guardian_role: 'co_guardian' });
+
+    await addGuardian('team_coach', 'coach_viewer').expect(403);
+  });
+
+  it('refuses to remove the primary guardian until the role is handed over', async () => {
+    await addGuardian('second_parent', 'co_guardian').expect(201);
+    state.parent_content_restrictions.push({
+      parent_user_id: primaryUserId,
+      child_user_id: childUserId,
+      content_type_id: '66666666-6666-4666-8666-666666666666',
+    });
+
+    await request(app.getHttpServer())
+      .post(`/v1/parent/links/${primaryLinkId}/revoke`)
+      .set('Authorization', 'Bearer token-primary')
+      .expect(400);
+
+    expect(
+      state.parent_child_links.find((row) => row.id === primaryLinkId),
+    ).toMatchObject({
+      relationship_status: 'active',
+      guardian_role: 'primary',
+    });
+    expect(state.parent_content_restrictions).toHaveLength(1);
+
+    const coParentLink = state.parent_child_links.find(
+      (row) => row.parent_user_id === coParentUserId,
+    );
+
+    await request(app.getHttpServer())
+      .put(
+        `/v1/parent/children/${childUserId}/guardians/${String(coParentLink?.id)}/role`,
+      )
+      .set('Authorization', 'Bearer token-primary')
+      .send({ guardianRole: 'primary' })
+      .expect(200);
+
+    await request(app.getHttpServer())
+      .post(`/v1/parent/links/${primaryLinkId}/revoke`)
+      .set('Authorization', 'Bearer token-primary')
+      .expect(201)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({ data: { relationshipStatus: 'revoked' } });
+      });
+
+    expect(
+      state.parent_child_links.filter(
+        (row) =>
+          row.relationship_status === 'active' &&
+          row.guardian_role === 'primary',
+      ),
+    ).toEqual([expect.objectContaining({ parent_user_id: coParentUserId })]);
+  });
+
+  it('lets a sole primary guardian remove themselves', async () => {
+    await request(app.getHttpServer())
+      .post(`/v1/parent/links/${primaryLinkId}/revoke`)
+      .set('Authorization', 'Bearer token-primary')
+      .expect(201)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({ data: { relationshipStatus: 'revoked' } });
+      });
+  });
+});
@@ -0,0 +1,333 @@
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { randomUUID } from 'node:crypto';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { z } from 'zod';
+import { AppModule } from './../src/app.module';
+import { CLOCK } from './../src/modules/scheduler/clock';
+import { SupabaseService } from './../src/modules/supabase/supabase.service';
+
+type SupportedTable =
+  | 'profiles'
+  | 'parent_child_links'
+  | 'parent_link_invites'
+  | 'account_security_events';
+
+type Row = Record<string, unknown>;
+type InMemoryState = Record<SupportedTable, Row[]>;
+
+const parentUserId = '11111111-1111-4111-8111-111111111111';
+const childUserId = '22222222-2222-4222-8222-222222222222';
+const otherParentUserId = '33333333-3333-4333-8333-333333333333';
+
+const inviteEnvelopeSchema = z.object({
+  data: z.object({
+    inviteId: z.string().uuid(),
+    code: z.string().regex(/^[A-Z2-9]{4}-[A-Z2-9]{4}$/),
+    qrPayload: z.string().url(),
+    expiresAt: z.string(),
+  }),
+});
+
+function createInMemorySupabaseService() {
+  const usersByToken = new Map<string, string>([
+    ['token-parent', parentUserId],
+    ['token-child', childUserId],
+    ['token-other-parent', otherParentUserId],
+  ]);
+
+  const state: InMemoryState = {
+    profiles: [
+      { id: parentUserId, username: 'hockey_parent', account_type: 'parent' },
+      { id: childUserId, username: 'young_skater', account_type: 'learner' },
+      {
+        id: otherParentUserId,
+        username: 'other_parent',
+        account_type: 'parent',
+      },
+    ],
+    parent_child_links: [],
+    parent_link_invites: [],
+    account_security_events: [],
+  };
+
+  class QueryBuilder {
+    private readonly filters: Array<(row: Row) => boolean> = [];
+    private pendingInsert: Row | null = null;
+    private pendingUpdate: Row | null = null;
+
+    constructor(private readonly table: SupportedTable) {}
+
+    select(columns: string) {
+      void columns;
+      return this;
+    }
+
+    eq(field: string, value: unknown) {
+      this.filters.push((row) => row[field] === value);
+      return this;
+    }
+
+    is(field: string, value: null) {
+      this.filters.push((row) => (row[field] ?? null) === value);
+      return this;
+    }
+
+    gt(field: string, value: string) {
+      this.filters.push((row) => String(row[field]) > value);
+      return this;
+    }
+
+    in(field: string, values: unknown[]) {
+      this.filters.push((row) => values.includes(row[field]));
+      return this;
+    }
+
+    insert(row: Row) {
+      const timestamp = new Date().toISOString();
+      this.pendingInsert = {
+        id: randomUUID(),
+        created_at: timestamp,
+        updated_at: timestamp,
+        ...row,
+      };
+      state[this.table].push(this.pendingInsert);
+      return this;
+    }
+
+    update(patch: Row) {
+      this.pendingUpdate = patch;
+      return this;
+    }
+
+    maybeSingle() {
+      return Promise.resolve({ data: this.execute()[0] ?? null, error: null });
+    }
+
+    single() {
+      return Promise.resolve({ data: this.execute()[0], error: null });
+    }
+
+    then<T>(
+      resolve: (value: { data: Row[]; error: null }) => T,
+      reject?: (reason: unknown) => T,
+    ) {
+      return Promise.resolve({ data: this.execute(), error: null }).then(
+        resolve,
+        reject,
+      );
+    }
+
+    private execute(): Row[] {
+      if (this.pendingInsert) {
+        return [{ ...this.pendingInsert }];
+      }
+
+      const rows = state[this.table].filter((row) =>
+        this.filters.every((filter) => filter(row)),
+      );
+
+      if (this.pendingUpdate) {
+        for (const row of rows) {
+          Object.assign(row, this.pendingUpdate);
+        }
+      }
+
+      return rows.map((row) => ({ ...row }));
+    }
+  }
+
+  const serviceClient = {
+    auth: {
+      getUser: (accessToken: string) => {
+        const userId = usersByToken.get(accessToken);
+
+        if (!userId) {
+          return Promise.resolve({
+            data: { user: null },
+            error: { message: 'Invalid token' },
+          });
+        }
+
+        return Promise.resolve({
+          data: { user: { id: userId, email: null } },
+          error: null,
+        });
+      },
+    },
+    from: (table: SupportedTable) => new QueryBuilder(table),
+  };
+
+  return {
+    state,
+    service: { getServiceClient: () => serviceClient },
+  };
+}
+
+describe('Parent link invites (e2e)', () => {
+  let app: INestApplication<App>;
+  let state: InMemoryState;
+  let now: Date;
+
+  beforeEach(async () => {
+    const inMemorySupabase = createInMemorySupabaseService();
+    state = inMemorySupabase.state;
+    now = new Date('2026-03-04T12:00:00.000Z');
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(inMemorySupabase.service)
+      .overrideProvider(CLOCK)
+      .useValue({ now: () => now })
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const createInvite = async () => {
+    const response = await request(app.getHttpServer())
+      .post('/v1/parent/links/invites')
+      .set('Authorization', 'Bearer token-child')
+      .expect(201);
+
+    return inviteEnvelopeSchema.parse(response.body as unknown).data;
+  };
+
+  it('links a parent who redeems a learner invite, once', async () => {
+    const invite = await createInvite();
+
+    expect(invite.qrPayload).toBe(
+      `http://localhost:3000/settings?linkInvite=${invite.code}`,
+    );
+    expect(JSON.stringify(state.parent_link_invites)).not.toContain(
+      invite.code.replace('-', ''),
+    );
+
+    await request(app.getHttpServer())
+      .post('/v1/parent/links/invites/redeem')
+      .set('Authorization', 'Bearer token-parent')
+      .send({ code: invite.code.toLowerCase().replace('-', ' ') })
+      .expect(201)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({
+          data: {
+            parentUserId,
+            childUserId,
+            childUsername: 'young_skater',
+            relationshipStatus: 'active',
+          },
+        });
+      });
+
+    await request(app.getHttpServer())
+      .post('/v1/parent/links/invites/redeem')
+      .set('Authorization', 'Bearer token-other-parent')
+      .send({ code: invite.code })
+      .expect(404);
+
+    expect(
+      state.account_security_events.map((event) => [
+        event.user_id,
+        event.event_type,
+      ]),
+    ).toEqual([
+      [childUserId, 'parent_link_invite_created'],
+      [childUserId, 'parent_link_invite_redeemed'],
+    ]);
+  });
+
+  it('rejects expired and replaced invites and non-learner issuers', async () => {
+    const firstInvite = await createInvite();
+    const secondInvite = await createInvite();
+
+    await request(app.getHttpServer())
+      .post('/v1/parent/links/invites/redeem')
+      .set('Authorization', 'Bearer token-parent')
+      .send({ code: firstInvite.code })
+      .expect(404);
+
+    now = new Date('2026-03-04T12:31:00.000Z');
+
+    await request(app.getHttpServer())
+      .post('/v1/parent/links/invites/redeem')
+      .set('Authorization', 'Bearer token-parent')
+      .send({ code: secondInvite.code })
+      .expect(404);
+
+    await request(app.getHttpServer())
+      .post('/v1/parent/links/invites')
+      .set('Authorization', 'Bearer token-parent')
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .post('/v1/parent/links/invites/redeem')
+      .set('Authorization', 'Bearer token-child')
+      .send({ code: secondInvite.code })
+      .expect(403);
+
+    expect(state.parent_child_links).toHaveLength(0);
+  });
+
+  it('keeps the code usable when a revoked guardian tries to redeem it', async () => {
+    state.parent_child_links.push({
+      id: '44444444-4444-4444-8444-444444444444',
+      parent_user_id: parentUserId,
+      child_user_id: childUserId,
+      relationship_status: 'revoked',
+      guardian_role: 'co_guardian',
+      linked_at: null,
+      created_at: '2026-03-01T00:00:00.000Z',
+      updated_at: '2026-03-02T00:00:00.000Z',
+    });
+    const invite = await createInvite();
+
+    await request(app.getHttpServer())
+      .post('/v1/parent/links/invites/redeem')
+      .set('Authorization', 'Bearer token-parent')
+      .send({ code: invite.code })
+      .expect(403);
+
+    expect(state.parent_child_links[0]).toMatchObject({
+      relationship_status: 'revoked',
+    });
+    expect(state.parent_link_invites[0]).not.toHaveProperty('redeemed_at');
+
+    await request(app.getHttpServer())
+      .post('/v1/parent/links/invites/redeem')
+      .set('Authorization', 'Bearer token-other-parent')
+      .send({ code: invite.code })
+      .expect(201)
+      .expect(({ body }) => {
+        expect(body).toMatchObject({
+          data: {
+            parentUserId: otherParentUserId,
+            relationshipStatus: 'active',
+          },
+        });
+      });
+  });
+
+  it('rate limits invite redemption attempts', async () => {
+    for (let attempt = 0; attempt < 10; attempt += 1) {
+      await request(app.getHttpServer())
+        .post('/v1/parent/links/invites/redeem')
+        .set('Authorization', 'Bearer token-parent')
+        .send({ code: 'AAAA-AAAA' })
+        .expect(404);
+    }
+
+    await request(app.getHttpServer())
+      .post('/v1/parent/links/invites/redeem')
+      .set('Authorization', 'Bearer token-parent')
+      .send({ code: 'AAAA-AAAA' })
+      .expect(429);
+  });
+});
@@ -8,6 +8,7 @@ import { SupabaseService } from './../src/modules/supabase/supabase.service';
 
 type AccountType = 'learner' | 'parent' | 'admin';
 type RelationshipStatus = 'pending' | 'active' | 'revoked';
+type GuardianRole = 'primary' | 'co_guardian' | 'coach_viewer';
 
 type ProfileRow = {
   id: string;
@@ -21,6 +22,7 @@ type ParentChildLinkRow = {
   parent_user_id: string;
   child_user_id: string;
   relationship_status: RelationshipStatus;
+  guardian_role: GuardianRole;
   linked_at: string | null;
   created_at: string;
   updated_at: string;
@@ -222,6 +224,8 @@ function createInMemorySupabaseService() {
           child_user_id: String(row.child_user_id),
           relationship_status:
             (row.relationship_status as RelationshipStatus) ?? 'pending',
+          guardian_role:
+            (row.guardian_role as GuardianRole | undefined) ?? 'primary',
           linked_at: (row.linked_at as string | null | undefined) ?? null,
           created_at: timestamp,
           updated_at: timestamp,
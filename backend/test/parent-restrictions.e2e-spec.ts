@@ -8,12 +8,16 @@ import { SupabaseService } from './../src/modules/supabase/supabase.service';
 
 type AccountType = 'learner' | 'parent' | 'admin';
 type RelationshipStatus = 'pending' | 'active' | 'revoked';
+type GuardianRole = 'primary' | 'co_guardian' | 'coach_viewer';
 type SupportedTable =
   | 'profiles'
   | 'parent_child_links'
   | 'content_types'
+  | 'content_tags'
+  | 'videos'
   | 'user_content_preferences'
-  | 'parent_content_restrictions';
+  | 'parent_content_restrictions'
+  | 'child_content_approval_settings';
 
 type ProfileRow = {
   id: string;
@@ -27,6 +31,7 @@ type ParentChildLinkRow = {
   parent_user_id: string;
   child_user_id: string;
   relationship_status: RelationshipStatus;
+  guardian_role: GuardianRole;
   linked_at: string | null;
   created_at: string;
   updated_at: string;
@@ -42,6 +47,18 @@ type ContentTypeRow = {
   is_active: boolean;
 };
 
+type ContentTagRow = {
+  id: string;
+  slug: string;
+  name: string;
+  is_active: boolean;
+};
+
+type VideoRow = {
+  id: string;
+  title: string;
+};
+
 type UserContentPreferenceRow = {
   user_id: string;
   content_type_id: string;
@@ -51,7 +68,9 @@ type UserContentPreferenceRow = {
 type ParentContentRestrictionRow = {
   parent_user_id: string;
   child_user_id: string;
-  content_type_id: string;
+  content_type_id: string | null;
+  content_tag_id: string | null;
+  video_id: string | null;
   created_at: string;
   updated_at: string;
 };
@@ -65,8 +84,11 @@ type InMemoryState = {
   profiles: ProfileRow[];
   parentChildLinks: ParentChildLinkRow[];
   contentTypes: ContentTypeRow[];
+  contentTags: ContentTagRow[];
+  videos: VideoRow[];
   userContentPreferences: UserContentPreferenceRow[];
   parentContentRestrictions: ParentContentRestrictionRow[];
+  childContentApprovalSettings: Record<string, unknown>[];
   timestamps: number;
 };
 
@@ -89,6 +111,17 @@ const contentTypeSummarySchema = z.object({
   isActive: z.boolean(),
 });
 
+const contentTagSummarySchema = z.object({
+  id: contentTypeIdSchema,
+  slug: z.string(),
+  name: z.string(),
+});
+
+const blockedVideoSummarySchema = z.object({
+  id: contentTypeIdSchema,
+  title: z.string(),
+});
+
 const effectivePreferencesEnvelopeSchema = z.object({
   data: z.object({
     userId: z.string().uuid(),
@@ -96,8 +129,13 @@ const effectivePreferencesEnvelopeSchema = z.object({
     selectedContentTypes: z.array(contentTypeSummarySchema),
     blockedContentTypeIds: z.array(contentTypeIdSchema),
     blockedContentTypes: z.array(contentTypeSummarySchema),
+    blockedContentTagIds: z.array(contentTypeIdSchema),
+    blockedContentTags: z.array(contentTagSummarySchema),
+    blockedVideoIds: z.array(contentTypeIdSchema),
+    blockedVideos: z.array(blockedVideoSummarySchema),
     effectiveContentTypeIds: z.array(contentTypeIdSchema),
     effectiveContentTypes: z.array(contentTypeSummarySchema),
+    approvalRequired: z.boolean(),
     isParentRestricted: z.boolean(),
   }),
 });
@@ -109,6 +147,11 @@ const childRestrictionsEnvelopeSchema = z.object({
     childUsername: z.string(),
     blockedContentTypeIds: z.array(contentTypeIdSchema),
     blockedContentTypes: z.array(contentTypeSummarySchema),
+    blockedContentTagIds: z.array(contentTypeIdSchema),
+    blockedContentTags: z.array(contentTagSummarySchema),
+    blockedVideoIds: z.array(contentTypeIdSchema),
+    blockedVideos: z.array(blockedVideoSummarySchema),
+    availableContentTags: z.array(contentTagSummarySchema),
     effectiveContentPreferences: effectivePreferencesEnvelopeSchema.shape.data,
   }),
 });
@@ -123,6 +166,9 @@ function createInMemorySupabaseService() {
   const outsiderParentUserId = '44444444-4444-4444-8444-444444444444';
   const blockedContentTypeId = 'cccccccc-cccc-cccc-cccc-cccccccccccc';
   const allowedContentTypeId = 'dddddddd-dddd-dddd-dddd-dddddddddddd';
+  const checkingTagId = 'eeeeeeee-eeee-eeee-eeee-eeeeeeeeeee1';
+  const retiredTagId = 'eeeeeeee-eeee-eeee-eeee-eeeeeeeeeee2';
+  const fightHighlightsVideoId = 'ffffffff-ffff-ffff-ffff-fffffffffff1';
 
   const usersByToken = new Map<string, InMemoryUser>([
     [
@@ -175,6 +221,7 @@ function createInMemorySupabaseService() {
         parent_user_id: parentUserId,
         child_user_id: childUserId,
         relationship_status: 'active',
+        guardian_role: 'primary',
         linked_at: '2026-02-28T00:00:00.000Z',
         created_at: '2026-02-28T00:00:00.000Z',
         updated_at: '2026-02-28T00:00:00.000Z',
@@ -200,6 +247,21 @@ function createInMemorySupabaseService() {
         is_active: true,
       },
     ],
+    contentTags: [
+      {
+        id: checkingTagId,
+        slug: 'body-checking',
+        name: 'Body Checking',
+        is_active: true,
+      },
+      {
+        id: retiredTagId,
+        slug: 'retired-drills',
+        name: 'Retired Drills',
+        is_active: false,
+      },
+    ],
+    videos: [{ id: fightHighlightsVideoId, title: 'Big Hits of the Week' }],
     userContentPreferences: [
       {
         user_id: childUserId,
@@ -213,6 +275,7 @@ function createInMemorySupabaseService() {
       },
     ],
     parentContentRestrictions: [],
+    childContentApprovalSettings: [],
     timestamps: 10,
   };
 
@@ -238,10 +301,22 @@ function createInMemorySupabaseService() {
       return state.contentTypes;
     }
 
+    if (table === 'content_tags') {
+      return state.contentTags;
+    }
+
+    if (table === 'videos') {
+      return state.videos;
+    }
+
     if (table === 'user_content_preferences') {
       return state.userContentPreferences;
     }
 
+    if (table === 'child_content_approval_settings') {
+      return state.childContentApprovalSettings;
+    }
+
     return state.parentContentRestrictions;
   };
 
@@ -352,40 +427,6 @@ function createInMemorySupabaseService() {
     }
 
     private executeInsert(): Record<string, unknown>[] {
-      if (this.table === 'parent_content_restrictions') {
-        const tableRows = getTableRows(
-          this.table,
-        ) as ParentContentRestrictionRow[];
-
-        const insertedRows = this.pendingInsertRows.map((pendingRow) => {
-          const timestamp = nextTimestamp();
-          const insertedRow: ParentContentRestrictionRow = {
-            parent_user_id: String(pendingRow.parent_user_id),
-            child_user_id: String(pendingRow.child_user_id),
-            content_type_id: String(pendingRow.content_type_id),
-            created_at: timestamp,
-            updated_at: timestamp,
-          };
-
-          const duplicateIndex = tableRows.findIndex(
-            (existingRow) =>
-              existingRow.parent_user_id === insertedRow.parent_user_id &&
-              existingRow.child_user_id === insertedRow.child_user_id &&
-              existingRow.content_type_id === insertedRow.content_type_id,
-          );
-
-          if (duplicateIndex >= 0) {
-            tableRows.splice(duplicateIndex, 1, insertedRow);
-          } else {
-            tableRows.push(insertedRow);
-          }
-
-          return insertedRow as Record<string, unknown>;
-        });
-
-        return insertedRows;
-      }
-
       if (this.table === 'user_content_preferences') {
         const tableRows = getTableRows(
           this.table,
@@ -417,6 +458,9 @@ function createInMemorySupabaseService() {
             relationship_status:
               (pendingRow.relationship_status as RelationshipStatus) ??
               'pending',
+            guardian_role:
+              (pendingRow.guardian_role as GuardianRole | undefined) ??
+              'primary',
             linked_at:
               (pendingRow.linked_at as string | null | undefined) ?? null,
             created_at: timestamp,
@@ -508,7 +552,56 @@ function createInMemorySupabaseService() {
     }
   }
 
+  // Mirrors public.replace_parent_content_restrictions.
+  const replaceParentContentRestrictions = (args: {
+    p_parent_user_id: string;
+    p_child_user_id: string;
+    p_content_type_ids: string[];
+    p_content_tag_ids: string[];
+    p_video_ids: string[];
+  }) => {
+    const target = (
+      contentTypeId: string | null,
+      contentTagId: string | null,
+      videoId: string | null,
+    ): ParentContentRestrictionRow => {
+      const timestamp = nextTimestamp();
+
+      return {
+        parent_user_id: args.p_parent_user_id,
+        child_user_id: args.p_child_user_id,
+        content_type_id: contentTypeId,
+        content_tag_id: contentTagId,
+        video_id: videoId,
+        created_at: timestamp,
+        updated_at: timestamp,
+      };
+    };
+
+    state.parentContentRestrictions = [
+      ...state.parentContentRestrictions.filter(
+        (row) => row.child_user_id !== args.p_child_user_id,
+      ),
+      ...args.p_content_type_ids.map((id) => target(id, null, null)),
+      ...args.p_content_tag_ids.map((id) => target(null, id, null)),
+      ...args.p_video_ids.map((id) => target(null, null, id)),
+    ];
+  };
+
   const serviceClient = {
+    rpc: (functionName: string, args: unknown) => {
+      if (functionName !== 'replace_parent_content_restrictions') {
+        throw new Error(
+          `Unsupported RPC for parent restrictions E2E: ${functionName}`,
+        );
+      }
+
+      replaceParentContentRestrictions(
+        args as Parameters<typeof replaceParentContentRestrictions>[0],
+      );
+
+      return Promise.resolve({ data: null, error: null });
+    },
     auth: {
       getUser: (accessToken: string) => {
         const user = usersByToken.get(accessToken);
@@ -540,6 +633,9 @@ function createInMemorySupabaseService() {
     outsiderParentUserId,
     blockedContentTypeId,
     allowedContentTypeId,
+    checkingTagId,
+    retiredTagId,
+    fightHighlightsVideoId,
     getServiceClient: () => serviceClient,
   };
 }
@@ -551,6 +647,9 @@ describe('Parent restriction override flow (e2e)', () => {
   let outsiderParentUserId: string;
   let blockedContentTypeId: string;
   let allowedContentTypeId: string;
+  let checkingTagId: string;
+  let retiredTagId: string;
+  let fightHighlightsVideoId: string;
 
   beforeEach(async () => {
     const inMemorySupabaseService = createInMemorySupabaseService();
@@ -559,6 +658,9 @@ describe('Parent restriction override flow (e2e)', () => {
     outsiderParentUserId = inMemorySupabaseService.outsiderParentUserId;
     blockedContentTypeId = inMemorySupabaseService.blockedContentTypeId;
     allowedContentTypeId = inMemorySupabaseService.allowedContentTypeId;
+    checkingTagId = inMemorySupabaseService.checkingTagId;
+    retiredTagId = inMemorySupabaseService.retiredTagId;
+    fightHighlightsVideoId = inMemorySupabaseService.fightHighlightsVideoId;
 
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [AppModule],
@@ -627,6 +729,68 @@ describe('Parent restriction override flow (e2e)', () => {
     expect(parsedEffectivePreferences.data.isParentRestricted).toBe(true);
   });
 
+  it('blocks individual content tags and videos alongside content types', async () => {
+    const updateRestrictionsResponse = await request(app.getHttpServer())
+      .put(`/v1/parent/children/${childUserId}/content-restrictions`)
+      .set('Authorization', 'Bearer token-parent')
+      .send({
+        blockedContentTagIds: [checkingTagId, checkingTagId],
+        blockedVideoIds: [fightHighlightsVideoId],
+      })
+      .expect(200);
+
+    const parsedUpdateRestrictions = childRestrictionsEnvelopeSchema.parse(
+      updateRestrictionsResponse.body as unknown,
+    );
+
+    expect(parsedUpdateRestrictions.data.blockedContentTypeIds).toEqual([]);
+    expect(parsedUpdateRestrictions.data.blockedContentTags).toEqual([
+      { id: checkingTagId, slug: 'body-checking', name: 'Body Checking' },
+    ]);
+    expect(parsedUpdateRestrictions.data.blockedVideos).toEqual([
+      { id: fightHighlightsVideoId, title: 'Big Hits of the Week' },
+    ]);
+    expect(
+      parsedUpdateRestrictions.data.availableContentTags.map((tag) => tag.id),
+    ).toEqual([checkingTagId]);
+
+    const effectivePreferencesResponse = await request(app.getHttpServer())
+      .get('/v1/me/effective-content-preferences')
+      .set('Authorization', 'Bearer token-child')
+      .expect(200);
+
+    const parsedEffectivePreferences = effectivePreferencesEnvelopeSchema.parse(
+      effectivePreferencesResponse.body as unknown,
+    );
+
+    // Tag and video rules leave the child's content types untouched.
+    expect(parsedEffectivePreferences.data.effectiveContentTypeIds).toEqual([
+      blockedContentTypeId,
+      allowedContentTypeId,
+    ]);
+    expect(parsedEffectivePreferences.data.blockedContentTagIds).toEqual([
+      checkingTagId,
+    ]);
+    expect(parsedEffectivePreferences.data.blockedVideoIds).toEqual([
+      fightHighlightsVideoId,
+    ]);
+    expect(parsedEffectivePreferences.data.isParentRestricted).toBe(true);
+  });
+
+  it('rejects inactive content tags and unknown videos', async () => {
+    await request(app.getHttpServer())
+      .put(`/v1/parent/children/${childUserId}/content-restrictions`)
+      .set('Authorization', 'Bearer token-parent')
+      .send({ blockedContentTagIds: [retiredTagId] })
+      .expect(400);
+
+    await request(app.getHttpServer())
+      .put(`/v1/parent/children/${childUserId}/content-restrictions`)
+      .set('Authorization', 'Bearer token-parent')
+      .send({ blockedVideoIds: ['ffffffff-ffff-ffff-ffff-fffffffffff9'] })
+      .expect(400);
+  });
+
   it('forbids an unlinked parent from viewing or updating a learner restriction scope', async () => {
     await request(app.getHttpServer())
       .get(`/v1/parent/children/${childUserId}/content-restrictions`)
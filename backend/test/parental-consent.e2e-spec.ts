@@ -0,0 +1,774 @@
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { z } from 'zod';
+import { AppModule } from './../src/app.module';
+import {
+  MAIL_TRANSPORT,
+  type OutgoingMail,
+} from './../src/modules/mail/mail-transport';
+import {
+  CONSENT_POLICIES,
+  type ConsentPolicy,
+} from './../src/modules/onboarding/consent-policies';
+import { ConsentPolicyService } from './../src/modules/onboarding/consent-policy.service';
+import { ParentConsentTokensService } from './../src/modules/onboarding/parent-consent-tokens.service';
+import { SupabaseService } from './../src/modules/supabase/supabase.service';
+
+type SupportedTable =
+  | 'profiles'
+  | 'parent_child_links'
+  | 'age_gates'
+  | 'parental_consents'
+  | 'video_progress'
+  | 'child_time_limits';
+
+type QueryExecutionResult = {
+  data: unknown;
+  error: null;
+};
+
+type InMemoryState = Record<SupportedTable, Record<string, unknown>[]>;
+
+const consentStateEnvelopeSchema = z.object({
+  data: z.object({
+    childUserId: z.string().uuid(),
+    requiresParentalConsent: z.boolean(),
+    status: z.enum([
+      'not_required',
+      'missing',
+      'pending',
+      'approved',
+      'reconsent_required',
+      'expired',
+      'revoked',
+    ]),
+    accessMode: z.enum([
+      'full',
+      'pending_parent_consent',
+      'consent_expired_limited',
+    ]),
+    consent: z
+      .object({
+        consentId: z.string().uuid(),
+        consentStatus: z.string(),
+        expiresAt: z.string().nullable(),
+        revokedAt: z.string().nullable(),
+      })
+      .nullable(),
+  }),
+});
+
+const consentForbiddenSchema = z.object({
+  message: z.string(),
+  consentStatus: z.string(),
+  accessMode: z.string(),
+});
+
+const parentConsentReviewEnvelopeSchema = z.object({
+  data: z.object({
+    consentId: z.string().uuid(),
+    childUsername: z.string().nullable(),
+    parentEmail: z.string(),
+    consentStatus: z.string(),
+    consentText: z.string(),
+  }),
+});
+
+const attestationPayload = {
+  parentFullName: 'Pat Skater',
+  parentEmail: 'pat@example.com',
+  relationshipToChild: 'parent',
+  attestationAccepted: true,
+};
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function birthdateYearsAgo(years: number): string {
+  const birthdate = new Date();
+  birthdate.setUTCFullYear(birthdate.getUTCFullYear() - years);
+  birthdate.setUTCDate(birthdate.getUTCDate() - 1);
+
+  return birthdate.toISOString().slice(0, 10);
+}
+
+function createInMemorySupabaseService() {
+  const parentUserId = '11111111-1111-4111-8111-111111111111';
+  const otherParentUserId = '22222222-2222-4222-8222-222222222222';
+  const childUserId = '33333333-3333-4333-8333-333333333333';
+  const teenUserId = '44444444-4444-4444-8444-444444444444';
+  let insertedConsentCount = 0;
+
+  const usersByToken = new Map<string, { id: string; email: string }>([
+    ['token-parent', { id: parentUserId, email: 'parent@example.com' }],
+    [
+      'token-other-parent',
+      { id: otherParentUserId, email: 'other-parent@example.com' },
+    ],
+    ['token-child', { id: childUserId, email: 'child@example.com' }],
+    ['token-teen', { id: teenUserId, email: 'teen@example.com' }],
+  ]);
+
+  const state: InMemoryState = {
+    profiles: [
+      { id: parentUserId, username: 'hockey_parent', account_type: 'parent' },
+      {
+        id: otherParentUserId,
+        username: 'other_parent',
+        account_type: 'parent',
+      },
+      { id: childUserId, username: 'young_skater', account_type: 'learner' },
+      { id: teenUserId, username: 'teen_skater', account_type: 'learner' },
+    ],
+    parent_child_links: [
+      {
+        id: '55555555-5555-4555-8555-555555555555',
+        parent_user_id: parentUserId,
+        child_user_id: childUserId,
+        relationship_status: 'active',
+        guardian_role: 'primary',
+      },
+    ],
+    age_gates: [
+      {
+        user_id: childUserId,
+        birthdate: birthdateYearsAgo(10),
+        calculated_age_at_signup: 10,
+      },
+      {
+        user_id: teenUserId,
+        birthdate: birthdateYearsAgo(15),
+        calculated_age_at_signup: 15,
+      },
+    ],
+    parental_consents: [],
+    video_progress: [],
+    child_time_limits: [],
+  };
+
+  const seedConsent = (overrides: Record<string, unknown>) => {
+    state.parental_consents.push({
+      id: '66666666-6666-4666-8666-666666666666',
+      child_user_id: childUserId,
+      parent_email: 'pat@example.com',
+      consent_status: 'approved',
+      parent_full_name: 'Pat Skater',
+      relationship_to_child: 'parent',
+      consent_method: 'interim_attestation',
+      approved_at: '2025-01-01T00:00:00.000Z',
+      expires_at: '2026-01-01T00:00:00.000Z',
+      revoked_at: null,
+      token_hash: null,
+      token_expires_at: null,
+      policy_version: 'v1',
+      created_at: '2025-01-01T00:00:00.000Z',
+      ...overrides,
+    });
+  };
+
+  class InMemoryQueryBuilder implements PromiseLike<QueryExecutionResult> {
+    private readonly filters: Array<(row: Record<string, unknown>) => boolean> =
+      [];
+    private pendingOperation: 'select' | 'insert' | 'update' = 'select';
+    private pendingPayload: Record<string, unknown> = {};
+    private resultMode: 'many' | 'single' | 'maybeSingle' = 'many';
+    private orderBy: { field: string; ascending: boolean } | null = null;
+    private maxRows: number | null = null;
+
+    constructor(private readonly table: SupportedTable) {}
+
+    select(columns: string) {
+      void columns;
+      return this;
+    }
+
+    insert(payload: Record<string, unknown>) {
+      this.pendingOperation = 'insert';
+      this.pendingPayload = payload;
+      return this;
+    }
+
+    update(payload: Record<string, unknown>) {
+      this.pendingOperation = 'update';
+      this.pendingPayload = payload;
+      return this;
+    }
+
+    eq(field: string, value: unknown) {
+      this.filters.push((row) => row[field] === value);
+      return this;
+    }
+
+    in(field: string, values: unknown[]) {
+      this.filters.push((row) => values.includes(row[field]));
+      return this;
+    }
+
+    order(field: string, options?: { ascending?: boolean }) {
+      this.orderBy = { field, ascending: options?.ascending ?? true };
+      return this;
+    }
+
+    limit(value: number) {
+      this.maxRows = value;
+      return this;
+    }
+
+    single() {
+      this.resultMode = 'single';
+      return this.execute();
+    }
+
+    maybeSingle() {
+      this.resultMode = 'maybeSingle';
+      return this.execute();
+    }
+
+    then<TResult1 = QueryExecutionResult, TResult2 = never>(
+      onfulfilled?:
+        | ((value: QueryExecutionResult) => TResult1 | PromiseLike<TResult1>)
+        | null,
+      onrejected?:
+        | ((reason: unknown) => TResult2 | PromiseLike<TResult2>)
+        | null,
+    ): Promise<TResult1 | TResult2> {
+      return this.execute().then(onfulfilled, onrejected);
+    }
+
+    private execute(): Promise<QueryExecutionResult> {
+      const tableRows = state[this.table];
+
+      if (this.pendingOperation === 'insert') {
+        insertedConsentCount += 1;
+        const insertedRow = {
+          id: `77777777-7777-4777-8777-${insertedConsentCount.toString().padStart(12, '0')}`,
+          parent_full_name: null,
+          relationship_to_child: null,
+          approved_at: null,
+          expires_at: null,
+          token_hash: null,
+          revoked_at: null,
+          token_expires_at: null,
+          created_at: new Date(
+            Date.now() + insertedConsentCount * 1000,
+          ).toISOString(),
+          ...clone(this.pendingPayload),
+        };
+        tableRows.push(insertedRow);
+
+        return this.resolveResult([insertedRow]);
+      }
+
+      let matchingRows = tableRows.filter((row) =>
+        this.filters.every((filter) => filter(row)),
+      );
+
+      if (this.pendingOperation === 'update') {
+        for (const row of matchingRows) {
+          Object.assign(row, clone(this.pendingPayload));
+        }
+
+        return this.resolveResult(matchingRows);
+      }
+
+      const orderBy = this.orderBy;
+
+      if (orderBy) {
+        matchingRows = [...matchingRows].sort((firstRow, secondRow) => {
+          const comparison = String(firstRow[orderBy.field]).localeCompare(
+            String(secondRow[orderBy.field]),
+          );
+
+          return orderBy.ascending ? comparison : comparison * -1;
+        });
+      }
+
+      if (this.maxRows !== null) {
+        matchingRows = matchingRows.slice(0, this.maxRows);
+      }
+
+      return this.resolveResult(matchingRows);
+    }
+
+    private resolveResult(rows: Record<string, unknown>[]) {
+      if (this.resultMode === 'many') {
+        return Promise.resolve({ data: clone(rows), error: null });
+      }
+
+      return Promise.resolve({ data: clone(rows[0] ?? null), error: null });
+    }
+  }
+
+  const serviceClient = {
+    auth: {
+      getUser: (accessToken: string) => {
+        const user = usersByToken.get(accessToken);
+
+        if (!user) {
+          return Promise.resolve({
+            data: { user: null },
+            error: { message: 'Invalid token' },
+          });
+        }
+
+        return Promise.resolve({
+          data: { user },
+          error: null,
+        });
+      },
+    },
+    from: (table: SupportedTable) => new InMemoryQueryBuilder(table),
+  };
+
+  return {
+    childUserId,
+    state,
+    seedConsent,
+    getServiceClient: () => serviceClient,
+  };
+}
+
+describe('Parental consent lifecycle (e2e)', () => {
+  let app: INestApplication<App>;
+  let childUserId: string;
+  let state: InMemoryState;
+  let seedConsent: (overrides: Record<string, unknown>) => void;
+  let sentMail: OutgoingMail[];
+
+  const readConsentTokenFromMail = (mail: OutgoingMail | undefined) => {
+    const consentLink = /\/parent-consent\/(\S+)/.exec(mail?.text ?? '');
+
+    if (!consentLink) {
+      throw new Error('Parent consent mail did not contain a consent link.');
+    }
+
+    return consentLink[1];
+  };
+
+  beforeEach(async () => {
+    sentMail = [];
+    const inMemorySupabaseService = createInMemorySupabaseService();
+    childUserId = inMemorySupabaseService.childUserId;
+    state = inMemorySupabaseService.state;
+    seedConsent = inMemorySupabaseService.seedConsent;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue({ getServiceClient: inMemorySupabaseService.getServiceClient })
+      .overrideProvider(MAIL_TRANSPORT)
+      .useValue({
+        send: (mail: OutgoingMail) => {
+          sentMail.push(mail);
+          return Promise.resolve();
+        },
+      })
+      .overrideProvider(ParentConsentTokensService)
+      .useValue(
+        new ParentConsentTokensService({
+          get: (key: string) =>
+            key === 'PARENT_CONSENT_TOKEN_SECRET'
+              ? 'parent-consent-test-secret-0123456789'
+              : undefined,
+        } as never),
+      )
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('blocks under-13 learners without consent and lets 13+ learners through', async () => {
+    const blockedResponse = await request(app.getHttpServer())
+      .get('/v1/me/progress')
+      .set('Authorization', 'Bearer token-child')
+      .expect(403);
+
+    expect(
+      consentForbiddenSchema.parse(blockedResponse.body as unknown),
+    ).toMatchObject({
+      consentStatus: 'missing',
+      accessMode: 'pending_parent_consent',
+    });
+
+    await request(app.getHttpServer())
+      .get('/v1/me/progress')
+      .set('Authorization', 'Bearer token-teen')
+      .expect(200);
+
+    const teenConsentResponse = await request(app.getHttpServer())
+      .get('/v1/onboarding/parental-consent')
+      .set('Authorization', 'Bearer token-teen')
+      .expect(200);
+
+    expect(
+      consentStateEnvelopeSchema.parse(teenConsentResponse.body as unknown)
+        .data,
+    ).toMatchObject({
+      requiresParentalConsent: false,
+      status: 'not_required',
+      accessMode: 'full',
+    });
+  });
+
+  it('expires lapsed consent into limited mode until it is renewed', async () => {
+    seedConsent({});
+
+    const consentResponse = await request(app.getHttpServer())
+      .get('/v1/onboarding/parental-consent')
+      .set('Authorization', 'Bearer token-child')
+      .expect(200);
+
+    expect(
+      consentStateEnvelopeSchema.parse(consentResponse.body as unknown).data,
+    ).toMatchObject({
+      childUserId,
+      status: 'expired',
+      accessMode: 'consent_expired_limited',
+    });
+    expect(state.parental_consents[0]?.consent_status).toBe('expired');
+
+    const blockedResponse = await request(app.getHttpServer())
+      .post('/v1/engagement/watch-events')
+      .set('Authorization', 'Bearer token-child')
+      .send({})
+      .expect(403);
+
+    expect(
+      consentForbiddenSchema.parse(blockedResponse.body as unknown),
+    ).toMatchObject({
+      consentStatus: 'expired',
+      accessMode: 'consent_expired_limited',
+    });
+
+    await request(app.getHttpServer())
+      .post('/v1/onboarding/parental-consent/renew')
+      .set('Authorization', 'Bearer token-child')
+      .send(attestationPayload)
+      .expect(201);
+
+    const renewedResponse = await request(app.getHttpServer())
+      .get('/v1/onboarding/parental-consent')
+      .set('Authorization', 'Bearer token-child')
+      .expect(200);
+
+    expect(
+      consentStateEnvelopeSchema.parse(renewedResponse.body as unknown).data,
+    ).toMatchObject({
+      status: 'approved',
+      accessMode: 'full',
+    });
+
+    await request(app.getHttpServer())
+      .get('/v1/me/progress')
+      .set('Authorization', 'Bearer token-child')
+      .expect(200);
+  });
+
+  it('rejects renewal when no consent was ever recorded', async () => {
+    await request(app.getHttpServer())
+      .post('/v1/onboarding/parental-consent/renew')
+      .set('Authorization', 'Bearer token-child')
+      .send(attestationPayload)
+      .expect(409);
+  });
+
+  it('lets a linked parent revoke consent and keeps the child from re-attesting', async () => {
+    seedConsent({ expires_at: '2999-01-01T00:00:00.000Z' });
+
+    await request(app.getHttpServer())
+      .get('/v1/me/progress')
+      .set('Authorization', 'Bearer token-child')
+      .expect(200);
+
+    await request(app.getHttpServer())
+      .post(`/v1/parent/children/${childUserId}/parental-consent/revoke`)
+      .set('Authorization', 'Bearer token-other-parent')
+      .expect(403);
+
+    const revokeResponse = await request(app.getHttpServer())
+      .post(`/v1/parent/children/${childUserId}/parental-consent/revoke`)
+      .set('Authorization', 'Bearer token-parent')
+      .expect(201);
+
+    const revokedState = consentStateEnvelopeSchema.parse(
+      revokeResponse.body as unknown,
+    ).data;
+
+    expect(revokedState).toMatchObject({
+      status: 'revoked',
+      accessMode: 'consent_expired_limited',
+    });
+    expect(revokedState.consent?.revokedAt).toEqual(expect.any(String));
+
+    await request(app.getHttpServer())
+      .get('/v1/me/progress')
+      .set('Authorization', 'Bearer token-child')
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .post('/v1/onboarding/parental-consent/renew')
+      .set('Authorization', 'Bearer token-child')
+      .send(attestationPayload)
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .post('/v1/onboarding/parental-attestation')
+      .set('Authorization', 'Bearer token-child')
+      .send(attestationPayload)
+      .expect(403);
+  });
+
+  it('emails the parent a signed link that approves consent once', async () => {
+    const requestResponse = await request(app.getHttpServer())
+      .post('/v1/onboarding/parent-consent')
+      .set('Authorization', 'Bearer token-child')
+      .send({ parentEmail: 'Pat@Example.com' })
+      .expect(201);
+
+    expect(requestResponse.body).toMatchObject({
+      data: {
+        consentStatus: 'pending',
+        consentMethod: 'email_verification',
+        parentEmail: 'pat@example.com',
+      },
+    });
+    expect(sentMail).toHaveLength(1);
+    expect(sentMail[0]).toMatchObject({
+      to: 'pat@example.com',
+      from: 'TeachTok <no-reply@teachtok.local>',
+    });
+
+    const token = readConsentTokenFromMail(sentMail[0]);
+
+    const blockedResponse = await request(app.getHttpServer())
+      .get('/v1/me/progress')
+      .set('Authorization', 'Bearer token-child')
+      .expect(403);
+
+    expect(
+      consentForbiddenSchema.parse(blockedResponse.body as unknown),
+    ).toMatchObject({ consentStatus: 'pending' });
+
+    const reviewResponse = await request(app.getHttpServer())
+      .get(`/v1/onboarding/parent-consent/${token}`)
+      .expect(200);
+
+    expect(
+      parentConsentReviewEnvelopeSchema.parse(reviewResponse.body as unknown)
+        .data,
+    ).toMatchObject({
+      childUsername: 'young_skater',
+      parentEmail: 'pat@example.com',
+      consentStatus: 'pending',
+    });
+
+    await request(app.getHttpServer())
+      .post(`/v1/onboarding/parent-consent/${token}`)
+      .send({ decision: 'approve' })
+      .expect(400);
+
+    await request(app.getHttpServer())
+      .post(`/v1/onboarding/parent-consent/${token}`)
+      .send({
+        decision: 'approve',
+        parentFullName: 'Pat Skater',
+        relationshipToChild: 'Mother',
+        attestationAccepted: true,
+      })
+      .expect(201);
+
+    expect(state.parental_consents[0]).toMatchObject({
+      consent_status: 'approved',
+      consent_method: 'email_verification',
+      parent_full_name: 'Pat Skater',
+    });
+
+    await request(app.getHttpServer())
+      .get('/v1/me/progress')
+      .set('Authorization', 'Bearer token-child')
+      .expect(200);
+
+    await request(app.getHttpServer())
+      .post(`/v1/onboarding/parent-consent/${token}`)
+      .send({ decision: 'deny' })
+      .expect(409);
+  });
+
+  it('invalidates superseded and tampered links and records denials', async () => {
+    for (let attempt = 0; attempt < 2; attempt += 1) {
+      await request(app.getHttpServer())
+        .post('/v1/onboarding/parent-consent')
+        .set('Authorization', 'Bearer token-child')
+        .send({ parentEmail: 'pat@example.com' })
+        .expect(201);
+    }
+
+    const supersededToken = readConsentTokenFromMail(sentMail[0]);
+    const currentToken = readConsentTokenFromMail(sentMail[1]);
+
+    await request(app.getHttpServer())
+      .get(`/v1/onboarding/parent-consent/${supersededToken}`)
+      .expect(200);
+
+    await request(app.getHttpServer())
+      .post(`/v1/onboarding/parent-consent/${supersededToken}`)
+      .send({ decision: 'deny' })
+      .expect(409);
+
+    await request(app.getHttpServer())
+      .get(`/v1/onboarding/parent-consent/${currentToken.slice(0, -2)}xx`)
+      .expect(400);
+
+    await request(app.getHttpServer())
+      .post(`/v1/onboarding/parent-consent/${currentToken}`)
+      .send({ decision: 'deny' })
+      .expect(201);
+
+    const consentResponse = await request(app.getHttpServer())
+      .get('/v1/onboarding/parental-consent')
+      .set('Authorization', 'Bearer token-child')
+      .expect(200);
+
+    expect(
+      consentStateEnvelopeSchema.parse(consentResponse.body as unknown).data,
+    ).toMatchObject({
+      status: 'missing',
+      accessMode: 'pending_parent_consent',
+    });
+    expect(
+      state.parental_consents.map((consent) => consent.consent_status),
+    ).toEqual(['expired', 'rejected']);
+
+    await request(app.getHttpServer())
+      .post('/v1/onboarding/parental-attestation')
+      .set('Authorization', 'Bearer token-child')
+      .send(attestationPayload)
+      .expect(403);
+
+    await request(app.getHttpServer())
+      .post('/v1/onboarding/parental-consent/renew')
+      .set('Authorization', 'Bearer token-child')
+      .send(attestationPayload)
+      .expect(403);
+
+    expect(state.parental_consents).toHaveLength(2);
+  });
+});
+
+describe('Parental consent policy changes (e2e)', () => {
+  let app: INestApplication<App>;
+  let state: InMemoryState;
+  let seedConsent: (overrides: Record<string, unknown>) => void;
+
+  const reconsentPolicy: ConsentPolicy = {
+    version: 'v2',
+    effectiveAt: '2026-01-01T00:00:00.000Z',
+    attestationText: 'Updated attestation wording for the v2 policy.',
+    emailConsentText: 'Updated email consent wording for the v2 policy.',
+    requiresReconsent: true,
+  };
+
+  beforeEach(async () => {
+    const inMemorySupabaseService = createInMemorySupabaseService();
+    state = inMemorySupabaseService.state;
+    seedConsent = inMemorySupabaseService.seedConsent;
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue({ getServiceClient: inMemorySupabaseService.getServiceClient })
+      .overrideProvider(ConsentPolicyService)
+      .useValue(
+        new ConsentPolicyService(
+          {
+            get: (key: string) =>
+              key === 'CONSENT_POLICY_VERSION' ? 'v2' : undefined,
+          } as never,
+          [...CONSENT_POLICIES, reconsentPolicy],
+        ),
+      )
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('serves the active policy wording from the registry', async () => {
+    const policyResponse = await request(app.getHttpServer())
+      .get('/v1/onboarding/consent-policy')
+      .expect(200);
+
+    expect(policyResponse.body).toEqual({ data: reconsentPolicy });
+  });
+
+  it('routes children approved under an older policy back through consent', async () => {
+    seedConsent({ expires_at: '2099-01-01T00:00:00.000Z' });
+
+    const consentResponse = await request(app.getHttpServer())
+      .get('/v1/onboarding/parental-consent')
+      .set('Authorization', 'Bearer token-child')
+      .expect(200);
+
+    expect(
+      consentStateEnvelopeSchema.parse(consentResponse.body as unknown).data,
+    ).toMatchObject({
+      status: 'reconsent_required',
+      accessMode: 'consent_expired_limited',
+    });
+
+    const blockedResponse = await request(app.getHttpServer())
+      .get('/v1/me/progress')
+      .set('Authorization', 'Bearer token-child')
+      .expect(403);
+
+    expect(
+      consentForbiddenSchema.parse(blockedResponse.body as unknown),
+    ).toMatchObject({
+      consentStatus: 'reconsent_required',
+      accessMode: 'consent_expired_limited',
+    });
+
+    await request(app.getHttpServer())
+      .post('/v1/onboarding/parental-consent/renew')
+      .set('Authorization', 'Bearer token-child')
+      .send(attestationPayload)
+      .expect(201);
+
+    expect(state.parental_consents.at(-1)).toMatchObject({
+      consent_status: 'approved',
+      policy_version: 'v2',
+      attestation_text: reconsentPolicy.attestationText,
+    });
+
+    await request(app.getHttpServer())
+      .get('/v1/me/progress')
+      .set('Authorization', 'Bearer token-child')
+      .expect(200);
+  });
+
+  it('keeps consents recorded under the active policy in full access', async () => {
+    seedConsent({
+      expires_at: '2099-01-01T00:00:00.000Z',
+      policy_version: 'v2',
+    });
+
+    await request(app.getHttpServer())
+      .get('/v1/me/progress')
+      .set('Authorization', 'Bearer token-child')
+      .expect(200);
+  });
+});
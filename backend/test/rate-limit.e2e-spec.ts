@@ -0,0 +1,107 @@
+import { INestApplication } from '@nestjs/common';
+import type { NestExpressApplication } from '@nestjs/platform-express';
+import { Test, TestingModule } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/modules/supabase/supabase.service';
+
+function createInMemorySupabaseService() {
+  const serviceClient = {
+    rpc: () => Promise.resolve({ data: null, error: null }),
+    auth: {
+      signInWithPassword: () =>
+        Promise.resolve({
+          data: { session: null, user: null },
+          error: { message: 'Invalid login credentials' },
+        }),
+    },
+    from: (table: string) => {
+      throw new Error(
+        `Unsupported in-memory table for rate limit E2E: ${table}`,
+      );
+    },
+  };
+
+  return {
+    getServiceClient: () => serviceClient,
+  };
+}
+
+describe('Auth rate limiting (e2e)', () => {
+  let app: INestApplication<App>;
+
+  beforeEach(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue(createInMemorySupabaseService())
+      .compile();
+
+    const expressApp =
+      moduleFixture.createNestApplication<NestExpressApplication>();
+    // Mirrors TRUST_PROXY_HOPS=1: one load balancer appends the client address.
+    expressApp.set('trust proxy', 1);
+    app = expressApp;
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('returns 429 with Retry-After once the login budget for an email is spent', async () => {
+    // Default login budget is 10 attempts per 15 minutes.
+    for (let attempt = 0; attempt < 10; attempt += 1) {
+      await request(app.getHttpServer())
+        .post('/v1/auth/login')
+        .set('X-Forwarded-For', `198.51.100.${attempt}`)
+        .send({ email: 'Learner@Example.com', password: 'WrongPass123' })
+        .expect(401);
+    }
+
+    const limitedResponse = await request(app.getHttpServer())
+      .post('/v1/auth/login')
+      .set('X-Forwarded-For', '198.51.100.200')
+      .send({ email: ' learner@example.com ', password: 'WrongPass123' })
+      .expect(429);
+
+    const retryAfterSeconds = Number(limitedResponse.headers['retry-after']);
+
+    expect(retryAfterSeconds).toBeGreaterThan(0);
+    expect(retryAfterSeconds).toBeLessThanOrEqual(900);
+    expect(limitedResponse.body).toMatchObject({
+      message: 'Too many attempts. Try again later.',
+      retryAfterSeconds,
+    });
+
+    // A different account from a fresh address still gets through.
+    await request(app.getHttpServer())
+      .post('/v1/auth/login')
+      .set('X-Forwarded-For', '198.51.100.201')
+      .send({ email: 'someone-else@example.com', password: 'WrongPass123' })
+      .expect(401);
+  });
+
+  it('keys the IP budget on the address added by the trusted proxy', async () => {
+    // Rotating the client-supplied part of the header does not reset the
+    // per-IP budget.
+    for (let attempt = 0; attempt < 10; attempt += 1) {
+      await request(app.getHttpServer())
+        .post('/v1/auth/login')
+        .set('X-Forwarded-For', `203.0.113.${attempt}, 198.51.100.7`)
+        .send({
+          email: `learner-${attempt}@example.com`,
+          password: 'WrongPass123',
+        })
+        .expect(401);
+    }
+
+    await request(app.getHttpServer())
+      .post('/v1/auth/login')
+      .set('X-Forwarded-For', '203.0.113.200, 198.51.100.7')
+      .send({ email: 'fresh@example.com', password: 'WrongPass123' })
+      .expect(429);
+  });
+});
@@ -0,0 +1,427 @@
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { z } from 'zod';
+import { AppModule } from './../src/app.module';
+import { SupabaseService } from './../src/modules/supabase/supabase.service';
+
+type SupportedTable =
+  | 'video_progress'
+  | 'videos'
+  | 'video_content_tags'
+  | 'content_tags'
+  | 'content_type_tag_mappings';
+
+type VideoProgressRow = {
+  user_id: string;
+  video_id: string;
+  last_position_seconds: number;
+  completion_percent: number;
+  completed_at: string | null;
+  last_watched_at: string | null;
+  updated_at: string;
+};
+
+type VideoRow = {
+  id: string;
+  title: string;
+  thumbnail_url: string | null;
+  duration_seconds: number | null;
+  status: 'draft' | 'processing' | 'ready' | 'blocked' | 'archived';
+};
+
+type VideoContentTagRow = {
+  video_id: string;
+  content_tag_id: string;
+};
+
+type ContentTagRow = {
+  id: string;
+  slug: string;
+  name: string;
+  is_active: boolean;
+};
+
+type ContentTypeTagMappingRow = {
+  content_type_id: string;
+  content_tag_id: string;
+};
+
+type InMemoryState = {
+  videoProgress: VideoProgressRow[];
+  videos: VideoRow[];
+  videoContentTags: VideoContentTagRow[];
+  contentTags: ContentTagRow[];
+  contentTypeTagMappings: ContentTypeTagMappingRow[];
+};
+
+type QueryExecutionResult = {
+  data: unknown;
+  error: null;
+};
+
+const watchHistoryEnvelopeSchema = z.object({
+  data: z.object({
+    userId: z.string().uuid(),
+    contentTypeId: z.string().nullable(),
+    items: z.array(
+      z.object({
+        videoId: z.string().uuid(),
+        title: z.string(),
+        thumbnailUrl: z.string().nullable(),
+        durationSeconds: z.number().int().nullable(),
+        lastPositionSeconds: z.number().int(),
+        completionPercent: z.number(),
+        isCompleted: z.boolean(),
+        completedAt: z.string().nullable(),
+        lastWatchedAt: z.string(),
+        contentTags: z.array(
+          z.object({
+            id: z.string().uuid(),
+            slug: z.string(),
+            name: z.string(),
+          }),
+        ),
+        contentTypeIds: z.array(z.string().uuid()),
+      }),
+    ),
+    nextCursor: z.string().nullable(),
+  }),
+});
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function createInMemorySupabaseService() {
+  const learnerUserId = '11111111-1111-4111-8111-111111111111';
+  const hockeyContentTypeId = '22222222-2222-4222-8222-222222222222';
+  const baseballContentTypeId = '33333333-3333-4333-8333-333333333333';
+  const hockeyTagId = '44444444-4444-4444-8444-444444444444';
+  const baseballTagId = '55555555-5555-4555-8555-555555555555';
+  const skatingVideoId = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+  const passingVideoId = 'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb';
+  const pitchingVideoId = 'cccccccc-cccc-4ccc-8ccc-cccccccccccc';
+  const archivedVideoId = 'dddddddd-dddd-4ddd-8ddd-dddddddddddd';
+
+  const usersByToken = new Map<string, { id: string; email: string }>([
+    ['token-learner', { id: learnerUserId, email: 'learner@example.com' }],
+  ]);
+
+  const progress = (
+    videoId: string,
+    updatedAt: string,
+    completedAt: string | null = null,
+  ): VideoProgressRow => ({
+    user_id: learnerUserId,
+    video_id: videoId,
+    last_position_seconds: completedAt ? 60 : 12,
+    completion_percent: completedAt ? 100 : 20,
+    completed_at: completedAt,
+    last_watched_at: updatedAt,
+    updated_at: updatedAt,
+  });
+
+  const state: InMemoryState = {
+    videoProgress: [
+      progress(skatingVideoId, '2026-03-03T09:00:00.000Z'),
+      progress(
+        passingVideoId,
+        '2026-03-02T09:00:00.000Z',
+        '2026-03-02T09:00:00.000Z',
+      ),
+      progress(pitchingVideoId, '2026-03-01T09:00:00.000Z'),
+      progress(archivedVideoId, '2026-03-04T09:00:00.000Z'),
+    ],
+    videos: [
+      {
+        id: skatingVideoId,
+        title: 'Edge work',
+        thumbnail_url: 'https://image.mux.com/skating/thumbnail.jpg',
+        duration_seconds: 60,
+        status: 'ready',
+      },
+      {
+        id: passingVideoId,
+        title: 'Tape-to-tape passing',
+        thumbnail_url: null,
+        duration_seconds: 60,
+        status: 'ready',
+      },
+      {
+        id: pitchingVideoId,
+        title: 'Pitching grips',
+        thumbnail_url: null,
+        duration_seconds: 60,
+        status: 'ready',
+      },
+      {
+        id: archivedVideoId,
+        title: 'Retired clip',
+        thumbnail_url: null,
+        duration_seconds: 60,
+        status: 'archived',
+      },
+    ],
+    videoContentTags: [
+      { video_id: skatingVideoId, content_tag_id: hockeyTagId },
+      { video_id: passingVideoId, content_tag_id: hockeyTagId },
+      { video_id: pitchingVideoId, content_tag_id: baseballTagId },
+      { video_id: archivedVideoId, content_tag_id: hockeyTagId },
+    ],
+    contentTags: [
+      { id: hockeyTagId, slug: 'hockey', name: 'Hockey', is_active: true },
+      {
+        id: baseballTagId,
+        slug: 'baseball',
+        name: 'Baseball',
+        is_active: true,
+      },
+    ],
+    contentTypeTagMappings: [
+      { content_type_id: hockeyContentTypeId, content_tag_id: hockeyTagId },
+      { content_type_id: baseballContentTypeId, content_tag_id: baseballTagId },
+    ],
+  };
+
+  const getTableRows = (table: SupportedTable): Record<string, unknown>[] => {
+    if (table === 'video_progress') {
+      return state.videoProgress;
+    }
+
+    if (table === 'videos') {
+      return state.videos;
+    }
+
+    if (table === 'video_content_tags') {
+      return state.videoContentTags;
+    }
+
+    if (table === 'content_tags') {
+      return state.contentTags;
+    }
+
+    return state.contentTypeTagMappings;
+  };
+
+  class InMemoryQueryBuilder implements PromiseLike<QueryExecutionResult> {
+    private readonly filters: Array<(row: Record<string, unknown>) => boolean> =
+      [];
+    private readonly orderBys: Array<{ field: string; ascending: boolean }> =
+      [];
+    private maxRows: number | null = null;
+
+    constructor(private readonly table: SupportedTable) {}
+
+    select(columns: string) {
+      void columns;
+      return this;
+    }
+
+    eq(field: string, value: unknown) {
+      this.filters.push((row) => row[field] === value);
+      return this;
+    }
+
+    in(field: string, values: unknown[]) {
+      this.filters.push((row) => values.includes(row[field]));
+      return this;
+    }
+
+    // Supports the keyset filter shape used by watch-history pagination.
+    or(expression: string) {
+      const match =
+        /^updated_at\.lt\."([^"]+)",and\(updated_at\.eq\."([^"]+)",video_id\.lt\.([^)]+)\)$/.exec(
+          expression,
+        );
+
+      if (!match) {
+        throw new Error(`Unsupported or() filter: ${expression}`);
+      }
+
+      const [, updatedAt, , videoId] = match;
+      this.filters.push((row) => {
+        const rowUpdatedAt = row.updated_at as string;
+        const rowVideoId = row.video_id as string;
+
+        return (
+          rowUpdatedAt < updatedAt ||
+          (rowUpdatedAt === updatedAt && rowVideoId < videoId)
+        );
+      });
+      return this;
+    }
+
+    order(field: string, options?: { ascending?: boolean }) {
+      this.orderBys.push({ field, ascending: options?.ascending ?? true });
+      return this;
+    }
+
+    limit(value: number) {
+      this.maxRows = value;
+      return this;
+    }
+
+    then<TResult1 = QueryExecutionResult, TResult2 = never>(
+      onfulfilled?:
+        | ((value: QueryExecutionResult) => TResult1 | PromiseLike<TResult1>)
+        | null,
+      onrejected?:
+        | ((reason: unknown) => TResult2 | PromiseLike<TResult2>)
+        | null,
+    ): Promise<TResult1 | TResult2> {
+      return this.execute().then(onfulfilled, onrejected);
+    }
+
+    private execute(): Promise<QueryExecutionResult> {
+      const rows = getTableRows(this.table).filter((row) =>
+        this.filters.every((filter) => filter(row)),
+      );
+
+      rows.sort((firstRow, secondRow) => {
+        for (const orderBy of this.orderBys) {
+          const comparison = (firstRow[orderBy.field] as string).localeCompare(
+            secondRow[orderBy.field] as string,
+          );
+
+          if (comparison !== 0) {
+            return orderBy.ascending ? comparison : comparison * -1;
+          }
+        }
+
+        return 0;
+      });
+
+      return Promise.resolve({
+        data: clone(this.maxRows === null ? rows : rows.slice(0, this.maxRows)),
+        error: null,
+      });
+    }
+  }
+
+  const serviceClient = {
+    auth: {
+      getUser: (accessToken: string) => {
+        const user = usersByToken.get(accessToken);
+
+        if (!user) {
+          return Promise.resolve({
+            data: { user: null },
+            error: { message: 'Invalid token' },
+          });
+        }
+
+        return Promise.resolve({
+          data: { user },
+          error: null,
+        });
+      },
+    },
+    from: (table: SupportedTable) => new InMemoryQueryBuilder(table),
+  };
+
+  return {
+    baseballContentTypeId,
+    skatingVideoId,
+    passingVideoId,
+    pitchingVideoId,
+    getServiceClient: () => serviceClient,
+  };
+}
+
+describe('Learner watch history (e2e)', () => {
+  let app: INestApplication<App>;
+  let inMemorySupabaseService: ReturnType<typeof createInMemorySupabaseService>;
+
+  beforeEach(async () => {
+    inMemorySupabaseService = createInMemorySupabaseService();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(SupabaseService)
+      .useValue({ getServiceClient: inMemorySupabaseService.getServiceClient })
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('pages through recently watched ready videos with a cursor', async () => {
+    const firstResponse = await request(app.getHttpServer())
+      .get('/v1/me/history')
+      .query({ limit: 2 })
+      .set('Authorization', 'Bearer token-learner')
+      .expect(200);
+
+    const firstPage = watchHistoryEnvelopeSchema.parse(
+      firstResponse.body as unknown,
+    ).data;
+
+    // The archived clip occupies a slot in the first page but is not returned.
+    expect(firstPage.items.map((item) => item.videoId)).toEqual([
+      inMemorySupabaseService.skatingVideoId,
+    ]);
+    expect(firstPage.items[0]).toEqual(
+      expect.objectContaining({
+        title: 'Edge work',
+        thumbnailUrl: 'https://image.mux.com/skating/thumbnail.jpg',
+        lastPositionSeconds: 12,
+        isCompleted: false,
+        contentTags: [
+          expect.objectContaining({ slug: 'hockey', name: 'Hockey' }),
+        ],
+      }),
+    );
+    expect(firstPage.nextCursor).not.toBeNull();
+
+    const secondResponse = await request(app.getHttpServer())
+      .get('/v1/me/history')
+      .query({ limit: 2, cursor: firstPage.nextCursor })
+      .set('Authorization', 'Bearer token-learner')
+      .expect(200);
+
+    const secondPage = watchHistoryEnvelopeSchema.parse(
+      secondResponse.body as unknown,
+    ).data;
+
+    expect(secondPage.items.map((item) => item.videoId)).toEqual([
+      inMemorySupabaseService.passingVideoId,
+      inMemorySupabaseService.pitchingVideoId,
+    ]);
+    expect(secondPage.items[0]?.isCompleted).toBe(true);
+    expect(secondPage.nextCursor).toBeNull();
+  });
+
+  it('filters history by content type', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/v1/me/history')
+      .query({ contentTypeId: inMemorySupabaseService.baseballContentTypeId })
+      .set('Authorization', 'Bearer token-learner')
+      .expect(200);
+
+    const page = watchHistoryEnvelopeSchema.parse(
+      response.body as unknown,
+    ).data;
+
+    expect(page.contentTypeId).toBe(
+      inMemorySupabaseService.baseballContentTypeId,
+    );
+    expect(page.items.map((item) => item.videoId)).toEqual([
+      inMemorySupabaseService.pitchingVideoId,
+    ]);
+  });
+
+  it('rejects malformed cursors', async () => {
+    await request(app.getHttpServer())
+      .get('/v1/me/history')
+      .query({ cursor: 'garbage' })
+      .set('Authorization', 'Bearer token-learner')
+      .expect(400);
+  });
+});
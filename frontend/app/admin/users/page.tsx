@@ -0,0 +1,5 @@
+import { AdminUsersPage } from "@/features/admin/AdminUsersPage";
+
+export default function AdminUsersRoutePage() {
+  return <AdminUsersPage />;
+}
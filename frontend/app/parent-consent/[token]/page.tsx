@@ -0,0 +1,11 @@
+import { ParentConsentReviewScreen } from "@/features/onboarding/ParentConsentReviewScreen";
+
+type ParentConsentPageProps = {
+  params: Promise<{ token: string }>;
+};
+
+export default async function ParentConsentPage({ params }: ParentConsentPageProps) {
+  const { token } = await params;
+
+  return <ParentConsentReviewScreen consentToken={token} />;
+}
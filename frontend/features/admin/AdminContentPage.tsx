@@ -9,6 +9,7 @@ import {
   createMuxDirectUpload,
   listAdminContentTags,
   listAdminVideos,
+  signOutCurrentSession,
   unarchiveAdminContentTag,
   updateAdminVideo,
   updateAdminContentTag,
@@ -16,7 +17,7 @@ import {
   type AdminVideoSummary,
   type VideoStatus,
 } from "@/lib/apiClient";
-import { clearAuthSession, readAuthSession } from "@/lib/authSession";
+import { readAuthSession } from "@/lib/authSession";
 
 type Outcome = {
   type: "success" | "error";
@@ -665,8 +666,9 @@ export function AdminContentPage() {
   };
 
   const handleSignOut = () => {
-    clearAuthSession();
-    setAuthSession(null);
+    void signOutCurrentSession().then(() => {
+      setAuthSession(null);
+    });
   };
 
   if (!authSession) {
@@ -738,6 +740,9 @@ export function AdminContentPage() {
             >
               Refresh
             </button>
+            <Link href="/admin/users" className="text-sm font-semibold text-brand-muted hover:text-accent-strong">
+              Users
+            </Link>
             <Link href="/settings" className="text-sm font-semibold text-brand-muted hover:text-accent-strong">
               Settings
             </Link>
@@ -0,0 +1,522 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import {
+  getAdminUserDetail,
+  listAdminUsers,
+  signOutCurrentSession,
+  unlockAdminUser,
+  type AccountType,
+  type AdminUserAgeBucket,
+  type AdminUserDetail,
+  type AdminUserSummary,
+  type ListAdminUsersQuery,
+  type ParentalConsentStatus,
+} from "@/lib/apiClient";
+import { readAuthSession } from "@/lib/authSession";
+
+type UserFilters = {
+  accountType: AccountType | "";
+  ageBucket: AdminUserAgeBucket | "";
+  consentStatus: ParentalConsentStatus | "";
+};
+
+const USER_PAGE_SIZE = 25;
+
+const accountTypes: AccountType[] = ["learner", "parent", "admin"];
+
+const ageBucketLabels: Record<AdminUserAgeBucket, string> = {
+  under_13: "Under 13",
+  "13_to_17": "13 to 17",
+  "18_plus": "18+",
+  unknown: "No age gate",
+};
+
+const consentStatuses: ParentalConsentStatus[] = [
+  "not_required",
+  "missing",
+  "pending",
+  "approved",
+  "reconsent_required",
+  "expired",
+  "revoked",
+];
+
+const initialFilters: UserFilters = {
+  accountType: "",
+  ageBucket: "",
+  consentStatus: "",
+};
+
+function toListQuery(filters: UserFilters, offset: number): ListAdminUsersQuery {
+  return {
+    accountType: filters.accountType || undefined,
+    ageBucket: filters.ageBucket || undefined,
+    consentStatus: filters.consentStatus || undefined,
+    limit: USER_PAGE_SIZE,
+    offset,
+  };
+}
+
+function formatDateTime(value: string | null): string {
+  if (!value) {
+    return "-";
+  }
+
+  const parsed = new Date(value);
+
+  if (Number.isNaN(parsed.getTime())) {
+    return value;
+  }
+
+  return parsed.toLocaleString();
+}
+
+export function AdminUsersPage() {
+  const [authSession, setAuthSession] = useState(() => readAuthSession());
+  const [filters, setFilters] = useState<UserFilters>(initialFilters);
+  const [users, setUsers] = useState<AdminUserSummary[]>([]);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [selectedUser, setSelectedUser] = useState<AdminUserDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [loadingUserId, setLoadingUserId] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const isAdmin = authSession?.user.accountType === "admin";
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadUsers = async () => {
+      if (!authSession || authSession.user.accountType !== "admin") {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      setErrorMessage(null);
+
+      try {
+        const page = await listAdminUsers(authSession.accessToken, toListQuery(filters, 0));
+
+        if (!cancelled) {
+          setUsers(page.users);
+          setNextOffset(page.nextOffset);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setErrorMessage(
+            error instanceof Error ? error.message : "Unable to load users right now.",
+          );
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    void loadUsers();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [authSession, filters]);
+
+  const handleLoadMore = async () => {
+    if (!authSession || nextOffset === null) {
+      return;
+    }
+
+    setIsLoadingMore(true);
+    setErrorMessage(null);
+
+    try {
+      const page = await listAdminUsers(
+        authSession.accessToken,
+        toListQuery(filters, nextOffset),
+      );
+
+      setUsers((currentUsers) => [...currentUsers, ...page.users]);
+      setNextOffset(page.nextOffset);
+    } catch (error) {
+      setErrorMessage(
+        error instanceof Error ? error.message : "Unable to load more users right now.",
+      );
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleSelectUser = async (userId: string) => {
+    if (!authSession) {
+      return;
+    }
+
+    setLoadingUserId(userId);
+    setErrorMessage(null);
+
+    try {
+      setSelectedUser(await getAdminUserDetail(authSession.accessToken, userId));
+    } catch (error) {
+      setErrorMessage(
+        error instanceof Error ? error.message : "Unable to load this user right now.",
+      );
+    } finally {
+      setLoadingUserId(null);
+    }
+  };
+
+  const handleUnlockUser = async (userId: string) => {
+    if (!authSession) {
+      return;
+    }
+
+    setIsUnlocking(true);
+    setErrorMessage(null);
+
+    try {
+      await unlockAdminUser(authSession.accessToken, userId);
+      setSelectedUser(await getAdminUserDetail(authSession.accessToken, userId));
+    } catch (error) {
+      setErrorMessage(
+        error instanceof Error ? error.message : "Unable to clear this lockout right now.",
+      );
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleSignOut = () => {
+    void signOutCurrentSession().then(() => {
+      setAuthSession(null);
+    });
+  };
+
+  if (!authSession) {
+    return (
+      <main className="min-h-[100dvh] px-5 py-6 sm:px-8">
+        <section className="mx-auto flex min-h-[calc(100dvh-3rem)] w-full max-w-3xl flex-col justify-center rounded-3xl border border-white/10 bg-surface/95 p-6 text-center shadow-[0_24px_80px_-36px_rgba(254,44,85,0.42)] ring-1 ring-accent/25 backdrop-blur-sm sm:p-8">
+          <p className="text-sm text-foreground/80">
+            Admin session missing. Please log in with your admin account.
+          </p>
+          <Link href="/auth" className="mt-4 text-sm font-semibold text-brand-muted hover:text-accent-strong">
+            Go to account login →
+          </Link>
+        </section>
+      </main>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <main className="min-h-[100dvh] px-5 py-6 sm:px-8">
+        <section className="mx-auto flex min-h-[calc(100dvh-3rem)] w-full max-w-3xl flex-col justify-center rounded-3xl border border-white/10 bg-surface/95 p-6 text-center shadow-[0_24px_80px_-36px_rgba(254,44,85,0.42)] ring-1 ring-accent/25 backdrop-blur-sm sm:p-8">
+          <p className="text-sm text-foreground/80">
+            This area is restricted to admin accounts.
+          </p>
+          <div className="mt-4 flex items-center justify-center gap-4">
+            <Link href="/settings" className="text-sm font-semibold text-brand-muted hover:text-accent-strong">
+              Go to settings
+            </Link>
+            <button
+              type="button"
+              onClick={handleSignOut}
+              className="text-sm font-semibold text-accent-strong hover:text-brand-muted"
+            >
+              Sign out
+            </button>
+          </div>
+        </section>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-[100dvh] px-5 py-6 sm:px-8">
+      <section className="mx-auto flex min-h-[calc(100dvh-3rem)] w-full max-w-5xl flex-col rounded-3xl border border-white/10 bg-surface/95 p-6 shadow-[0_24px_80px_-36px_rgba(37,244,238,0.45)] ring-1 ring-brand/20 backdrop-blur-sm sm:p-8">
+        <header className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.26em] text-brand-muted">
+              Admin controls
+            </p>
+            <h1 className="font-brand mt-3 bg-gradient-to-r from-foreground via-brand-muted to-accent bg-clip-text text-3xl text-transparent">
+              Users &amp; Consent
+            </h1>
+            <p className="mt-3 text-sm leading-6 text-foreground/80">
+              Review accounts, age gates, parental consent status, parent links, and recent
+              security events.
+            </p>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Link href="/admin" className="text-sm font-semibold text-brand-muted hover:text-accent-strong">
+              Content Studio
+            </Link>
+            <Link href="/settings" className="text-sm font-semibold text-brand-muted hover:text-accent-strong">
+              Settings
+            </Link>
+          </div>
+        </header>
+
+        <div className="mt-6 grid gap-3 rounded-2xl border border-white/10 bg-black/30 p-4 md:grid-cols-3">
+          <label className="space-y-2">
+            <span className="text-xs font-semibold text-foreground/80">Account type</span>
+            <select
+              value={filters.accountType}
+              onChange={(event) => {
+                setSelectedUser(null);
+                setFilters((current) => ({
+                  ...current,
+                  accountType: event.target.value as UserFilters["accountType"],
+                }));
+              }}
+              className="w-full rounded-xl border border-white/15 bg-surface-soft/80 px-3 py-2 text-sm outline-none transition focus:border-brand/70"
+            >
+              <option value="">All</option>
+              {accountTypes.map((accountType) => (
+                <option key={accountType} value={accountType}>
+                  {accountType}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="space-y-2">
+            <span className="text-xs font-semibold text-foreground/80">Age bucket</span>
+            <select
+              value={filters.ageBucket}
+              onChange={(event) => {
+                setSelectedUser(null);
+                setFilters((current) => ({
+                  ...current,
+                  ageBucket: event.target.value as UserFilters["ageBucket"],
+                }));
+              }}
+              className="w-full rounded-xl border border-white/15 bg-surface-soft/80 px-3 py-2 text-sm outline-none transition focus:border-brand/70"
+            >
+              <option value="">All</option>
+              {Object.entries(ageBucketLabels).map(([ageBucket, label]) => (
+                <option key={ageBucket} value={ageBucket}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="space-y-2">
+            <span className="text-xs font-semibold text-foreground/80">Consent status</span>
+            <select
+              value={filters.consentStatus}
+              onChange={(event) => {
+                setSelectedUser(null);
+                setFilters((current) => ({
+                  ...current,
+                  consentStatus: event.target.value as UserFilters["consentStatus"],
+                }));
+              }}
+              className="w-full rounded-xl border border-white/15 bg-surface-soft/80 px-3 py-2 text-sm outline-none transition focus:border-brand/70"
+            >
+              <option value="">All</option>
+              {consentStatuses.map((consentStatus) => (
+                <option key={consentStatus} value={consentStatus}>
+                  {consentStatus}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {errorMessage ? (
+          <p className="mt-4 rounded-xl border border-accent/40 bg-accent/10 px-3 py-2 text-sm text-accent-strong">
+            {errorMessage}
+          </p>
+        ) : null}
+
+        <div className="mt-6 grid gap-4 lg:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
+          <section className="rounded-2xl border border-white/10 bg-black/30 p-4">
+            <h2 className="text-sm font-semibold uppercase tracking-[0.2em] text-brand-muted">
+              Accounts
+            </h2>
+
+            {isLoading ? (
+              <p className="mt-3 text-sm text-foreground/70">Loading users...</p>
+            ) : users.length === 0 ? (
+              <p className="mt-3 text-sm text-foreground/70">No users match these filters.</p>
+            ) : (
+              <ul className="mt-3 space-y-2">
+                {users.map((user) => (
+                  <li key={user.id}>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        void handleSelectUser(user.id);
+                      }}
+                      disabled={loadingUserId !== null}
+                      className={`w-full rounded-xl border px-3 py-2 text-left transition disabled:cursor-wait ${
+                        selectedUser?.profile.id === user.id
+                          ? "border-brand/60 bg-brand/10"
+                          : "border-white/10 bg-surface-soft/40 hover:border-white/25"
+                      }`}
+                    >
+                      <p className="text-sm font-semibold text-foreground">
+                        @{user.username}
+                        <span className="ml-2 text-xs font-normal text-foreground/60">
+                          {user.accountType}
+                        </span>
+                      </p>
+                      <p className="mt-1 text-xs text-foreground/70">
+                        {ageBucketLabels[user.ageBucket]} • Consent: {user.consentStatus}
+                      </p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {nextOffset !== null && !isLoading ? (
+              <button
+                type="button"
+                onClick={() => {
+                  void handleLoadMore();
+                }}
+                disabled={isLoadingMore}
+                className="mt-3 rounded-xl border border-white/15 px-3 py-2 text-xs font-semibold text-foreground/80 hover:text-foreground disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {isLoadingMore ? "Loading..." : "Load more"}
+              </button>
+            ) : null}
+          </section>
+
+          <section className="rounded-2xl border border-white/10 bg-black/30 p-4">
+            <h2 className="text-sm font-semibold uppercase tracking-[0.2em] text-brand-muted">
+              Account detail
+            </h2>
+
+            {!selectedUser ? (
+              <p className="mt-3 text-sm text-foreground/70">
+                {loadingUserId ? "Loading account..." : "Select an account to see its detail."}
+              </p>
+            ) : (
+              <div className="mt-3 space-y-4 text-sm text-foreground/80">
+                <div>
+                  <p className="font-semibold text-foreground">@{selectedUser.profile.username}</p>
+                  <p className="text-xs text-foreground/70">
+                    {selectedUser.profile.accountType} • Joined{" "}
+                    {formatDateTime(selectedUser.profile.createdAt)} • Email verified:{" "}
+                    {formatDateTime(selectedUser.profile.emailVerifiedAt)}
+                  </p>
+                </div>
+
+                <div>
+                  <h3 className="text-xs font-semibold uppercase tracking-[0.2em] text-foreground/70">
+                    Age gate
+                  </h3>
+                  <p className="mt-1">
+                    {selectedUser.ageGate
+                      ? `Born ${selectedUser.ageGate.birthdate} (${selectedUser.ageGate.countryCode}), age ${selectedUser.profile.age ?? "-"}`
+                      : "No age gate recorded."}
+                  </p>
+                </div>
+
+                <div>
+                  <h3 className="text-xs font-semibold uppercase tracking-[0.2em] text-foreground/70">
+                    Parental consent
+                  </h3>
+                  <p className="mt-1">
+                    {selectedUser.consent.status} ({selectedUser.consent.accessMode})
+                  </p>
+                  {selectedUser.consentHistory.length > 0 ? (
+                    <ul className="mt-2 space-y-1 text-xs text-foreground/70">
+                      {selectedUser.consentHistory.map((consent) => (
+                        <li key={consent.consentId}>
+                          {formatDateTime(consent.createdAt)} • {consent.consentStatus} via{" "}
+                          {consent.consentMethod} • {consent.parentEmail} • policy{" "}
+                          {consent.policyVersion}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : null}
+                </div>
+
+                <div>
+                  <h3 className="text-xs font-semibold uppercase tracking-[0.2em] text-foreground/70">
+                    Parent links
+                  </h3>
+                  {selectedUser.parentLinks.asParent.length === 0 &&
+                  selectedUser.parentLinks.asChild.length === 0 ? (
+                    <p className="mt-1">No parent links.</p>
+                  ) : (
+                    <ul className="mt-1 space-y-1 text-xs text-foreground/70">
+                      {selectedUser.parentLinks.asParent.map((link) => (
+                        <li key={link.id}>
+                          Parent of @{link.childUsername} • {link.relationshipStatus}
+                        </li>
+                      ))}
+                      {selectedUser.parentLinks.asChild.map((link) => (
+                        <li key={link.id}>
+                          Child of @{link.parentUsername} • {link.relationshipStatus}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                <div>
+                  <h3 className="text-xs font-semibold uppercase tracking-[0.2em] text-foreground/70">
+                    Sign-in lockout
+                  </h3>
+                  <p className="mt-1">
+                    {selectedUser.loginLockout.isLocked
+                      ? `Locked until ${formatDateTime(selectedUser.loginLockout.lockedUntil)}`
+                      : "Not locked."}
+                  </p>
+                  <p className="text-xs text-foreground/70">
+                    Recent failed attempts: {selectedUser.loginLockout.failedAttemptCount} •
+                    Lockouts: {selectedUser.loginLockout.lockoutCount} • Last failure:{" "}
+                    {formatDateTime(selectedUser.loginLockout.lastFailedAt)}
+                  </p>
+                  {selectedUser.loginLockout.isLocked ||
+                  selectedUser.loginLockout.failedAttemptCount > 0 ||
+                  selectedUser.loginLockout.lockoutCount > 0 ? (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        void handleUnlockUser(selectedUser.profile.id);
+                      }}
+                      disabled={isUnlocking}
+                      className="mt-2 rounded-xl border border-white/15 px-3 py-2 text-xs font-semibold text-foreground/80 hover:text-foreground disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      {isUnlocking ? "Clearing..." : "Clear lockout"}
+                    </button>
+                  ) : null}
+                </div>
+
+                <div>
+                  <h3 className="text-xs font-semibold uppercase tracking-[0.2em] text-foreground/70">
+                    Recent security events
+                  </h3>
+                  {selectedUser.recentSecurityEvents.length === 0 ? (
+                    <p className="mt-1">No security events recorded.</p>
+                  ) : (
+                    <ul className="mt-1 space-y-1 text-xs text-foreground/70">
+                      {selectedUser.recentSecurityEvents.map((event) => (
+                        <li key={event.id}>
+                          {formatDateTime(event.createdAt)} • {event.eventType}
+                          {event.ipAddress ? ` • ${event.ipAddress}` : ""}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            )}
+          </section>
+        </div>
+      </section>
+    </main>
+  );
+}
@@ -12,7 +12,7 @@ import {
   type AccountType,
   type SignupResult,
 } from "@/lib/apiClient";
-import { saveAuthSession } from "@/lib/authSession";
+import { readAuthSession, saveAuthSession } from "@/lib/authSession";
 import { AgeGateCard } from "@/features/onboarding/AgeGateCard";
 
 type AuthMode = "signup" | "login";
@@ -176,10 +176,12 @@ export function AuthScreen() {
         },
       );
 
+      // The stored session may hold renewed tokens since this screen loaded.
+      const currentSession = readAuthSession() ?? loginSession;
       const updatedSession = {
-        ...loginSession,
+        ...currentSession,
         user: {
-          ...loginSession.user,
+          ...currentSession.user,
           email: changeResult.email,
           emailVerified: changeResult.emailVerified,
         },
@@ -512,7 +514,8 @@ export function AuthScreen() {
 
           {mode === "signup" ? (
             <p className="rounded-xl border border-brand/25 bg-black/30 px-3 py-2 text-xs text-foreground/75">
-              Password rules: 10+ chars, at least one uppercase, one lowercase, and one number.
+              Password rules: 10+ chars, at least one uppercase, one lowercase, and one number. Avoid
+              common passwords and anything containing your username or email.
             </p>
           ) : null}
 
@@ -1,10 +1,19 @@
 "use client";
 
 import Link from "next/link";
-import { useEffect, useRef, useState } from "react";
-import { getFeedCatalog } from "@/lib/apiClient";
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  getFeedCatalog,
+  ScreenTimeLimitError,
+  type FeedCatalogVideoSummary,
+} from "@/lib/apiClient";
 import { readAuthSession } from "@/lib/authSession";
-import { youthHockeyVideos } from "./videoData";
+import { useWatchEventTracker } from "./useWatchEventTracker";
+import { youthHockeyVideos, type HockeyFeedVideo } from "./videoData";
+
+const FEED_PAGE_SIZE = 10;
+// Start fetching the next page while this many clips are still ahead.
+const LOAD_MORE_THRESHOLD = 3;
 
 type FeedSource = "backend" | "static";
 
@@ -14,6 +23,18 @@ type YouthHockeyFeedProps = {
   source?: FeedSource;
 };
 
+function toHockeyFeedVideo(
+  video: FeedCatalogVideoSummary,
+  clipNumber: number,
+): HockeyFeedVideo {
+  return {
+    id: video.id,
+    src: video.playbackUrl,
+    caption: video.title.trim().length > 0 ? video.title : `Lesson clip ${clipNumber}`,
+    resumePositionSeconds: video.resumePositionSeconds,
+  };
+}
+
 type TapFeedbackState = {
   icon: "play" | "pause";
   panelIndex: number;
@@ -28,6 +49,7 @@ export function YouthHockeyFeed({
   const containerRef = useRef<HTMLDivElement | null>(null);
   const panelRefs = useRef<Array<HTMLElement | null>>([]);
   const videoRefs = useRef<Array<HTMLVideoElement | null>>([]);
+  const resumedVideoIdsRef = useRef<Set<string>>(new Set());
   const tapFeedbackFadeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(
     null,
   );
@@ -43,14 +65,29 @@ export function YouthHockeyFeed({
     source === "backend",
   );
   const [catalogError, setCatalogError] = useState<string | null>(null);
+  const [isScreenTimeLimited, setIsScreenTimeLimited] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const loadMoreFailedAtPanelRef = useRef<number | null>(null);
   const [needsTapToStart, setNeedsTapToStart] = useState(false);
   const [hasUserInteracted, setHasUserInteracted] = useState(false);
   const [tapFeedback, setTapFeedback] = useState<TapFeedbackState | null>(null);
   const endPanelIndex = feedVideos.length;
+  // A parent's time limit can land mid-session; the feed closes and explains
+  // when it opens again.
+  const showScreenTimeLimit = useCallback((error: ScreenTimeLimitError) => {
+    setFeedVideos([]);
+    setNextCursor(null);
+    setCatalogError(error.message);
+    setIsScreenTimeLimited(true);
+  }, []);
+  // Static clips are not catalog videos, so only backend playback is tracked.
+  const watchEventTracker = useWatchEventTracker(source === "backend", showScreenTimeLimit);
 
   useEffect(() => {
     if (source === "static") {
       setFeedVideos(youthHockeyVideos);
+      setNextCursor(null);
       setCatalogError(null);
       setIsCatalogLoading(false);
       return;
@@ -70,22 +107,23 @@ export function YouthHockeyFeed({
     const loadFeedCatalog = async () => {
       setIsCatalogLoading(true);
       setCatalogError(null);
+      setIsScreenTimeLimited(false);
 
       try {
-        const catalog = await getFeedCatalog(authSession.accessToken);
+        const catalog = await getFeedCatalog(authSession.accessToken, {
+          limit: FEED_PAGE_SIZE,
+        });
 
         if (cancelled) {
           return;
         }
 
         setFeedVideos(
-          catalog.videos.map((video, index) => ({
-            id: video.id,
-            src: video.playbackUrl,
-            caption:
-              video.title.trim().length > 0 ? video.title : `Lesson clip ${index + 1}`,
-          })),
+          catalog.videos.map((video, index) => toHockeyFeedVideo(video, index + 1)),
         );
+        setNextCursor(catalog.nextCursor);
+        loadMoreFailedAtPanelRef.current = null;
+        resumedVideoIdsRef.current = new Set();
         setActivePanelIndex(0);
         setNeedsTapToStart(false);
       } catch (error) {
@@ -93,12 +131,18 @@ export function YouthHockeyFeed({
           return;
         }
 
+        if (error instanceof ScreenTimeLimitError) {
+          showScreenTimeLimit(error);
+          return;
+        }
+
         const message =
           error instanceof Error
             ? error.message
             : "Unable to load your feed catalog right now.";
 
         setFeedVideos([]);
+        setNextCursor(null);
         setCatalogError(message);
       } finally {
         if (!cancelled) {
@@ -112,7 +156,70 @@ export function YouthHockeyFeed({
     return () => {
       cancelled = true;
     };
-  }, [source]);
+  }, [showScreenTimeLimit, source]);
+
+  useEffect(() => {
+    if (
+      source !== "backend" ||
+      !nextCursor ||
+      isLoadingMore ||
+      activePanelIndex < feedVideos.length - LOAD_MORE_THRESHOLD ||
+      loadMoreFailedAtPanelRef.current === activePanelIndex
+    ) {
+      return;
+    }
+
+    const authSession = readAuthSession();
+
+    if (!authSession) {
+      return;
+    }
+
+    const loadNextPage = async () => {
+      setIsLoadingMore(true);
+
+      try {
+        const catalog = await getFeedCatalog(authSession.accessToken, {
+          cursor: nextCursor,
+          limit: FEED_PAGE_SIZE,
+        });
+
+        setFeedVideos((currentVideos) => {
+          const loadedVideoIds = new Set(currentVideos.map((video) => video.id));
+
+          return [
+            ...currentVideos,
+            ...catalog.videos
+              .filter((video) => !loadedVideoIds.has(video.id))
+              .map((video, index) =>
+                toHockeyFeedVideo(video, currentVideos.length + index + 1),
+              ),
+          ];
+        });
+        setNextCursor(catalog.nextCursor);
+        loadMoreFailedAtPanelRef.current = null;
+      } catch (error) {
+        if (error instanceof ScreenTimeLimitError) {
+          showScreenTimeLimit(error);
+          return;
+        }
+
+        // Retry once the learner moves to another clip instead of looping.
+        loadMoreFailedAtPanelRef.current = activePanelIndex;
+      } finally {
+        setIsLoadingMore(false);
+      }
+    };
+
+    void loadNextPage();
+  }, [
+    activePanelIndex,
+    feedVideos.length,
+    isLoadingMore,
+    nextCursor,
+    showScreenTimeLimit,
+    source,
+  ]);
 
   useEffect(() => {
     const rootElement = containerRef.current;
@@ -319,6 +426,25 @@ export function YouthHockeyFeed({
     showTapFeedback("pause", panelIndex);
   };
 
+  const handleLoadedMetadata = (panelIndex: number) => {
+    const video = feedVideos[panelIndex];
+    const videoElement = videoRefs.current[panelIndex];
+
+    if (!video || !videoElement || resumedVideoIdsRef.current.has(video.id)) {
+      return;
+    }
+
+    // Only resume once per catalog load so looping and replay start from zero.
+    resumedVideoIdsRef.current.add(video.id);
+
+    if (
+      video.resumePositionSeconds &&
+      video.resumePositionSeconds < videoElement.duration
+    ) {
+      videoElement.currentTime = video.resumePositionSeconds;
+    }
+  };
+
   const handleReplay = () => {
     const firstVideo = videoRefs.current[0];
 
@@ -356,7 +482,7 @@ export function YouthHockeyFeed({
           <section className="flex h-[100dvh] snap-start items-center justify-center bg-gradient-to-b from-[#08080f] via-[#0c0b14] to-[#12060c] px-6 text-center">
             <div className="w-full max-w-sm rounded-3xl border border-accent/35 bg-black/45 p-7 shadow-[0_26px_65px_-38px_rgba(254,44,85,0.65)] ring-1 ring-accent/25 backdrop-blur-sm">
               <p className="text-xs font-semibold uppercase tracking-[0.24em] text-accent-strong">
-                Feed unavailable
+                {isScreenTimeLimited ? "Time's up" : "Feed unavailable"}
               </p>
               <p className="mt-3 text-sm text-white/85">{catalogError}</p>
               <div className="mt-5 flex flex-wrap items-center justify-center gap-3">
@@ -410,6 +536,21 @@ export function YouthHockeyFeed({
               onClick={() => {
                 void handleVideoTap(index);
               }}
+              onLoadedMetadata={() => {
+                handleLoadedMetadata(index);
+              }}
+              onPlay={(event) => {
+                watchEventTracker.handlePlay(video.id, event.currentTarget);
+              }}
+              onPause={(event) => {
+                watchEventTracker.handlePause(video.id, event.currentTarget);
+              }}
+              onTimeUpdate={(event) => {
+                watchEventTracker.handleTimeUpdate(video.id, event.currentTarget);
+              }}
+              onEnded={(event) => {
+                watchEventTracker.handleEnded(video.id, event.currentTarget);
+              }}
               loop
               playsInline
               autoPlay
@@ -488,10 +629,10 @@ export function YouthHockeyFeed({
           >
             <div className="w-full max-w-sm rounded-3xl border border-white/15 bg-black/45 p-7 text-center shadow-[0_26px_65px_-38px_rgba(37,244,238,0.6)] ring-1 ring-brand/25 backdrop-blur-sm">
               <p className="text-xs font-semibold uppercase tracking-[0.24em] text-white/70">
-                That&apos;s all for now
+                {nextCursor ? "Loading more clips" : "That's all for now"}
               </p>
               <h2 className="font-brand mt-3 bg-gradient-to-r from-foreground via-brand-muted to-accent bg-clip-text text-3xl text-transparent">
-                More videos coming soon!
+                {nextCursor ? "Hang tight..." : "More videos coming soon!"}
               </h2>
               <button
                 type="button"
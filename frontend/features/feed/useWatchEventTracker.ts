@@ -0,0 +1,261 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import {
+  ScreenTimeLimitError,
+  trackWatchEventBatch,
+  type BatchWatchEventRequest,
+  type WatchEventType,
+} from "@/lib/apiClient";
+import { readAuthSession } from "@/lib/authSession";
+
+const FLUSH_INTERVAL_MS = 10_000;
+const FLUSH_THRESHOLD = 20;
+const MAX_BATCH_SIZE = 50;
+const MAX_QUEUED_EVENTS = 200;
+// Looping clips wrap back to zero without firing "ended", so a large backwards
+// jump from near the end is treated as a completed pass followed by a replay.
+const LOOP_END_TOLERANCE_SECONDS = 1.5;
+const REWIND_THRESHOLD_SECONDS = 1;
+// timeupdate fires a few times per second, so a larger forward jump is a seek
+// (such as resuming) and the milestones it skips were not actually watched.
+const SEEK_THRESHOLD_SECONDS = 2;
+
+const progressMilestones: Array<{
+  percent: number;
+  eventType: Extract<WatchEventType, "progress_25" | "progress_50" | "progress_75">;
+}> = [
+  { percent: 25, eventType: "progress_25" },
+  { percent: 50, eventType: "progress_50" },
+  { percent: 75, eventType: "progress_75" },
+];
+
+type PlaybackState = {
+  lastPositionSeconds: number;
+  emittedEventTypes: Set<WatchEventType>;
+};
+
+export type WatchEventTracker = {
+  handlePlay: (videoId: string, videoElement: HTMLVideoElement) => void;
+  handlePause: (videoId: string, videoElement: HTMLVideoElement) => void;
+  handleTimeUpdate: (videoId: string, videoElement: HTMLVideoElement) => void;
+  handleEnded: (videoId: string, videoElement: HTMLVideoElement) => void;
+};
+
+export function useWatchEventTracker(
+  enabled: boolean,
+  onScreenTimeLimit?: (error: ScreenTimeLimitError) => void,
+): WatchEventTracker {
+  const sessionIdRef = useRef<string | null>(null);
+  const onScreenTimeLimitRef = useRef(onScreenTimeLimit);
+  const queueRef = useRef<BatchWatchEventRequest[]>([]);
+  const isFlushingRef = useRef(false);
+  const playbackStateByVideoIdRef = useRef<Map<string, PlaybackState>>(new Map());
+
+  useEffect(() => {
+    onScreenTimeLimitRef.current = onScreenTimeLimit;
+  }, [onScreenTimeLimit]);
+
+  const flush = useCallback(async (keepalive = false) => {
+    // A page-hide flush must not wait behind an in-flight request, and the two
+    // never share events because each flush takes its batch off the queue.
+    if ((isFlushingRef.current && !keepalive) || queueRef.current.length === 0) {
+      return;
+    }
+
+    const authSession = readAuthSession();
+
+    if (!authSession) {
+      queueRef.current = [];
+      return;
+    }
+
+    const batch = queueRef.current.splice(0, MAX_BATCH_SIZE);
+    isFlushingRef.current = true;
+
+    try {
+      await trackWatchEventBatch(authSession.accessToken, { events: batch }, { keepalive });
+    } catch (error) {
+      // Events refused for screen time would be refused again, so drop them.
+      if (error instanceof ScreenTimeLimitError) {
+        queueRef.current = [];
+        onScreenTimeLimitRef.current?.(error);
+        return;
+      }
+
+      // Each event carries its own eventId, so re-sending after a failed or
+      // partially applied request cannot double count.
+      queueRef.current = [...batch, ...queueRef.current].slice(-MAX_QUEUED_EVENTS);
+    } finally {
+      isFlushingRef.current = false;
+    }
+  }, []);
+
+  const enqueue = useCallback(
+    (videoId: string, eventType: WatchEventType, positionSeconds: number) => {
+      if (!enabled) {
+        return;
+      }
+
+      sessionIdRef.current ??= crypto.randomUUID();
+
+      queueRef.current.push({
+        videoId,
+        eventType,
+        positionSeconds: Math.max(0, Math.floor(positionSeconds)),
+        sessionId: sessionIdRef.current,
+        eventId: crypto.randomUUID(),
+        occurredAt: new Date().toISOString(),
+      });
+
+      if (queueRef.current.length > MAX_QUEUED_EVENTS) {
+        queueRef.current = queueRef.current.slice(-MAX_QUEUED_EVENTS);
+      }
+
+      if (queueRef.current.length >= FLUSH_THRESHOLD) {
+        void flush();
+      }
+    },
+    [enabled, flush],
+  );
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const intervalId = setInterval(() => {
+      void flush();
+    }, FLUSH_INTERVAL_MS);
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        void flush(true);
+      }
+    };
+
+    const handlePageHide = () => {
+      void flush(true);
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("pagehide", handlePageHide);
+
+    return () => {
+      clearInterval(intervalId);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("pagehide", handlePageHide);
+      void flush(true);
+    };
+  }, [enabled, flush]);
+
+  const getPlaybackState = useCallback((videoId: string): PlaybackState => {
+    const existingState = playbackStateByVideoIdRef.current.get(videoId);
+
+    if (existingState) {
+      return existingState;
+    }
+
+    const playbackState: PlaybackState = {
+      lastPositionSeconds: 0,
+      emittedEventTypes: new Set(),
+    };
+
+    playbackStateByVideoIdRef.current.set(videoId, playbackState);
+    return playbackState;
+  }, []);
+
+  const completePass = useCallback(
+    (videoId: string, playbackState: PlaybackState, positionSeconds: number) => {
+      if (!playbackState.emittedEventTypes.has("complete")) {
+        playbackState.emittedEventTypes.add("complete");
+        enqueue(videoId, "complete", positionSeconds);
+      }
+    },
+    [enqueue],
+  );
+
+  const handlePlay = useCallback(
+    (videoId: string, videoElement: HTMLVideoElement) => {
+      const playbackState = getPlaybackState(videoId);
+
+      playbackState.lastPositionSeconds = videoElement.currentTime;
+      enqueue(videoId, "play", videoElement.currentTime);
+    },
+    [enqueue, getPlaybackState],
+  );
+
+  const handlePause = useCallback(
+    (videoId: string, videoElement: HTMLVideoElement) => {
+      // Ended media also reports a pause; "complete" already covers it.
+      if (videoElement.ended) {
+        return;
+      }
+
+      getPlaybackState(videoId).lastPositionSeconds = videoElement.currentTime;
+      enqueue(videoId, "pause", videoElement.currentTime);
+    },
+    [enqueue, getPlaybackState],
+  );
+
+  const handleTimeUpdate = useCallback(
+    (videoId: string, videoElement: HTMLVideoElement) => {
+      const { currentTime, duration } = videoElement;
+
+      if (!Number.isFinite(duration) || duration <= 0) {
+        return;
+      }
+
+      const playbackState = getPlaybackState(videoId);
+      const previousPositionSeconds = playbackState.lastPositionSeconds;
+      playbackState.lastPositionSeconds = currentTime;
+
+      if (currentTime < previousPositionSeconds - REWIND_THRESHOLD_SECONDS) {
+        if (previousPositionSeconds >= duration - LOOP_END_TOLERANCE_SECONDS) {
+          completePass(videoId, playbackState, duration);
+        }
+
+        if (playbackState.emittedEventTypes.has("complete")) {
+          playbackState.emittedEventTypes = new Set();
+          enqueue(videoId, "replay", currentTime);
+        }
+
+        return;
+      }
+
+      const percentWatched = (currentTime / duration) * 100;
+      const isSeek = currentTime - previousPositionSeconds > SEEK_THRESHOLD_SECONDS;
+
+      for (const milestone of progressMilestones) {
+        if (
+          percentWatched >= milestone.percent &&
+          !playbackState.emittedEventTypes.has(milestone.eventType)
+        ) {
+          playbackState.emittedEventTypes.add(milestone.eventType);
+
+          if (!isSeek) {
+            enqueue(videoId, milestone.eventType, currentTime);
+          }
+        }
+      }
+    },
+    [completePass, enqueue, getPlaybackState],
+  );
+
+  const handleEnded = useCallback(
+    (videoId: string, videoElement: HTMLVideoElement) => {
+      const playbackState = getPlaybackState(videoId);
+
+      playbackState.lastPositionSeconds = videoElement.currentTime;
+      completePass(videoId, playbackState, videoElement.duration);
+    },
+    [completePass, getPlaybackState],
+  );
+
+  return {
+    handlePlay,
+    handlePause,
+    handleTimeUpdate,
+    handleEnded,
+  };
+}
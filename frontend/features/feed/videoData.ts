@@ -2,6 +2,7 @@ export type HockeyFeedVideo = {
   id: string;
   src: string;
   caption: string;
+  resumePositionSeconds?: number | null;
 };
 
 export const youthHockeyVideos: HockeyFeedVideo[] = [
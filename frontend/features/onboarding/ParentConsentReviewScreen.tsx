@@ -0,0 +1,203 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  getParentConsentRequest,
+  respondToParentConsentRequest,
+  type ParentConsentDecisionResult,
+  type ParentConsentRequestReview,
+} from "@/lib/apiClient";
+
+type ParentConsentReviewScreenProps = {
+  consentToken: string;
+};
+
+export function ParentConsentReviewScreen({ consentToken }: ParentConsentReviewScreenProps) {
+  const [review, setReview] = useState<ParentConsentRequestReview | null>(null);
+  const [decision, setDecision] = useState<ParentConsentDecisionResult | null>(null);
+  const [parentFullName, setParentFullName] = useState("");
+  const [relationshipToChild, setRelationshipToChild] = useState("");
+  const [attestationAccepted, setAttestationAccepted] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+
+    getParentConsentRequest(consentToken)
+      .then((result) => {
+        if (isActive) {
+          setReview(result);
+        }
+      })
+      .catch((error: unknown) => {
+        if (isActive) {
+          setErrorMessage(
+            error instanceof Error ? error.message : "Failed to load this consent request.",
+          );
+        }
+      })
+      .finally(() => {
+        if (isActive) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      isActive = false;
+    };
+  }, [consentToken]);
+
+  const submitDecision = async (nextDecision: "approve" | "deny") => {
+    if (nextDecision === "approve" && !attestationAccepted) {
+      setErrorMessage("A legal parent or guardian must accept the consent statement.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrorMessage(null);
+
+    try {
+      const result = await respondToParentConsentRequest(
+        consentToken,
+        nextDecision === "approve"
+          ? {
+              decision: "approve",
+              parentFullName,
+              relationshipToChild,
+              attestationAccepted,
+            }
+          : { decision: "deny" },
+      );
+
+      setDecision(result);
+    } catch (error) {
+      setErrorMessage(
+        error instanceof Error ? error.message : "Failed to record your decision.",
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const childLabel = review?.childUsername ? `@${review.childUsername}` : "your child";
+
+  return (
+    <main className="min-h-[100dvh] px-5 py-6 sm:px-8">
+      <section className="mx-auto flex w-full max-w-md flex-col rounded-3xl border border-white/10 bg-surface/95 p-6 shadow-[0_24px_80px_-36px_rgba(37,244,238,0.45)] ring-1 ring-brand/20 backdrop-blur-sm sm:p-8">
+        <p className="text-xs font-semibold uppercase tracking-[0.2em] text-brand-muted">
+          Parent/Guardian Consent
+        </p>
+        <h1 className="mt-2 text-xl font-bold text-foreground">
+          {review ? `Approve ${childLabel} on TeachTok?` : "TeachTok consent request"}
+        </h1>
+
+        {isLoading ? (
+          <p className="mt-4 text-sm text-foreground/70">Loading consent request...</p>
+        ) : null}
+
+        {decision ? (
+          <p className="mt-4 rounded-xl border border-brand/25 bg-black/35 px-3 py-2 text-sm text-foreground/80">
+            {decision.consentStatus === "approved"
+              ? `Thanks. ${childLabel} can now use TeachTok.`
+              : "Thanks. We recorded that you did not approve this account."}
+          </p>
+        ) : null}
+
+        {review && !decision && review.consentStatus !== "pending" ? (
+          <p className="mt-4 rounded-xl border border-white/10 bg-black/20 px-3 py-2 text-sm text-foreground/80">
+            This request is no longer open. Ask your child to send a new one if you still need to respond.
+          </p>
+        ) : null}
+
+        {review && !decision && review.consentStatus === "pending" ? (
+          <form
+            onSubmit={(event) => {
+              event.preventDefault();
+              void submitDecision("approve");
+            }}
+            className="mt-4 space-y-3"
+          >
+            <p className="rounded-xl border border-brand/25 bg-black/35 px-3 py-2 text-sm text-foreground/80">
+              {review.consentText}
+            </p>
+
+            <label className="block space-y-1">
+              <span className="text-sm font-semibold text-foreground/85">Full legal name</span>
+              <input
+                type="text"
+                value={parentFullName}
+                onChange={(event) => {
+                  setParentFullName(event.target.value);
+                }}
+                className="w-full rounded-xl border border-white/15 bg-surface-soft/85 px-3 py-2 text-sm outline-none transition focus:border-brand/70"
+                placeholder="Full legal name"
+                autoComplete="name"
+                minLength={3}
+                maxLength={120}
+                required
+              />
+            </label>
+
+            <label className="block space-y-1">
+              <span className="text-sm font-semibold text-foreground/85">Relationship to child</span>
+              <input
+                type="text"
+                value={relationshipToChild}
+                onChange={(event) => {
+                  setRelationshipToChild(event.target.value);
+                }}
+                className="w-full rounded-xl border border-white/15 bg-surface-soft/85 px-3 py-2 text-sm outline-none transition focus:border-brand/70"
+                placeholder="Mother, Father, Guardian..."
+                minLength={2}
+                maxLength={60}
+                required
+              />
+            </label>
+
+            <label className="flex items-start gap-2 rounded-xl border border-white/10 bg-black/20 px-3 py-2">
+              <input
+                type="checkbox"
+                checked={attestationAccepted}
+                onChange={(event) => {
+                  setAttestationAccepted(event.target.checked);
+                }}
+                className="mt-0.5"
+              />
+              <span className="text-sm text-foreground/80">
+                I certify that I am a legal parent or guardian and approve this learner using TeachTok.
+              </span>
+            </label>
+
+            <div className="mt-2 flex gap-2">
+              <button
+                type="button"
+                disabled={isSubmitting}
+                onClick={() => {
+                  void submitDecision("deny");
+                }}
+                className="inline-flex flex-1 items-center justify-center rounded-xl border border-white/20 px-4 py-2 text-sm font-semibold text-foreground/80 transition hover:text-foreground disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Deny
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="inline-flex flex-1 items-center justify-center rounded-xl bg-gradient-to-r from-accent to-brand px-4 py-2 text-sm font-extrabold text-background transition hover:brightness-110 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {isSubmitting ? "Saving..." : "Approve"}
+              </button>
+            </div>
+          </form>
+        ) : null}
+
+        {errorMessage ? (
+          <p className="mt-4 rounded-xl border border-accent/40 bg-accent/10 px-3 py-2 text-sm text-accent-strong">
+            {errorMessage}
+          </p>
+        ) : null}
+      </section>
+    </main>
+  );
+}
@@ -1,8 +1,10 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
+  getConsentPolicy,
   submitParentalAttestation,
+  type ConsentPolicy,
   type ParentalAttestationResult,
 } from "@/lib/apiClient";
 
@@ -13,9 +15,6 @@ type ParentalAttestationModalProps = {
   onSuccess: (result: ParentalAttestationResult) => void;
 };
 
-const INTERIM_PARENTAL_ATTESTATION_COPY =
-  "By checking this box and typing my full legal name, I certify that I am the child's legal parent or guardian and I consent to the child's use of TeachTok under these Terms and Privacy Policy.";
-
 export function ParentalAttestationModal({
   isOpen,
   accessToken,
@@ -28,6 +27,33 @@ export function ParentalAttestationModal({
   const [attestationAccepted, setAttestationAccepted] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [consentPolicy, setConsentPolicy] = useState<ConsentPolicy | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || consentPolicy) {
+      return;
+    }
+
+    let isActive = true;
+
+    getConsentPolicy()
+      .then((policy) => {
+        if (isActive) {
+          setConsentPolicy(policy);
+        }
+      })
+      .catch((error: unknown) => {
+        if (isActive) {
+          setErrorMessage(
+            error instanceof Error ? error.message : "Failed to load the consent policy.",
+          );
+        }
+      });
+
+    return () => {
+      isActive = false;
+    };
+  }, [isOpen, consentPolicy]);
 
   if (!isOpen) {
     return null;
@@ -82,7 +108,7 @@ export function ParentalAttestationModal({
           Interim parental attestation
         </h3>
         <p className="mt-2 rounded-xl border border-brand/25 bg-black/35 px-3 py-2 text-sm text-foreground/80">
-          {INTERIM_PARENTAL_ATTESTATION_COPY}
+          {consentPolicy ? consentPolicy.attestationText : "Loading consent policy..."}
         </p>
 
         <form onSubmit={handleSubmit} className="mt-4 space-y-3">
@@ -164,7 +190,7 @@ export function ParentalAttestationModal({
             </button>
             <button
               type="submit"
-              disabled={isSubmitting}
+              disabled={isSubmitting || !consentPolicy}
               className="inline-flex flex-1 items-center justify-center rounded-xl bg-gradient-to-r from-accent to-brand px-4 py-2 text-sm font-extrabold text-background transition hover:brightness-110 disabled:cursor-not-allowed disabled:opacity-60"
             >
               {isSubmitting ? "Saving..." : "Agree and continue"}
@@ -2,8 +2,12 @@
 
 import Link from "next/link";
 import { useState } from "react";
-import { changeEmailWithPassword } from "@/lib/apiClient";
-import type { StoredAuthSession } from "@/lib/authSession";
+import { changeEmailWithPassword, logoutAllSessions } from "@/lib/apiClient";
+import {
+  clearAuthSession,
+  readAuthSession,
+  type StoredAuthSession,
+} from "@/lib/authSession";
 import { ParentLinkSection } from "./ParentLinkSection";
 
 type Outcome = {
@@ -27,6 +31,7 @@ export function AccountProfileTab({
   const [newEmail, setNewEmail] = useState("");
   const [currentPassword, setCurrentPassword] = useState("");
   const [isChangingEmail, setIsChangingEmail] = useState(false);
+  const [isSigningOutEverywhere, setIsSigningOutEverywhere] = useState(false);
   const [outcome, setOutcome] = useState<Outcome | null>(null);
 
   const handleEmailChange = async (event: React.FormEvent<HTMLFormElement>) => {
@@ -74,10 +79,12 @@ export function AccountProfileTab({
         },
       );
 
+      // The stored session may hold renewed tokens since this tab loaded.
+      const currentSession = readAuthSession() ?? authSession;
       const updatedSession: StoredAuthSession = {
-        ...authSession,
+        ...currentSession,
         user: {
-          ...authSession.user,
+          ...currentSession.user,
           email: changedAccount.email,
           emailVerified: changedAccount.emailVerified,
         },
@@ -100,6 +107,30 @@ export function AccountProfileTab({
     }
   };
 
+  const handleSignOutEverywhere = async () => {
+    if (!authSession) {
+      return;
+    }
+
+    setIsSigningOutEverywhere(true);
+    setOutcome(null);
+
+    try {
+      await logoutAllSessions(authSession.accessToken);
+      // Every token is revoked now, so there is nothing left to sign out remotely.
+      clearAuthSession();
+      onSignOut();
+    } catch (error) {
+      const message =
+        error instanceof Error
+          ? error.message
+          : "Unable to sign out of all devices right now.";
+
+      setOutcome({ type: "error", message });
+      setIsSigningOutEverywhere(false);
+    }
+  };
+
   if (isSessionReady && !authSession) {
     return (
       <div className="space-y-3">
@@ -186,6 +217,15 @@ export function AccountProfileTab({
         >
           Sign out on this device
         </button>
+
+        <button
+          type="button"
+          onClick={() => void handleSignOutEverywhere()}
+          disabled={isSigningOutEverywhere}
+          className="inline-flex w-full items-center justify-center rounded-xl border border-accent/35 bg-accent/10 px-4 py-2 text-sm font-semibold text-accent-strong transition hover:border-accent/60 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {isSigningOutEverywhere ? "Signing out..." : "Sign out of all devices"}
+        </button>
       </form>
 
       {isAdmin ? (
@@ -0,0 +1,219 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  decideChildVideoApproval,
+  getChildContentApprovals,
+  updateChildContentApprovalSettings,
+  type ChildContentApprovalsResult,
+  type ContentApprovalDecision,
+} from "@/lib/apiClient";
+import type { StoredAuthSession } from "@/lib/authSession";
+
+type Outcome = {
+  type: "success" | "error";
+  message: string;
+};
+
+type ChildContentApprovalsPanelProps = {
+  authSession: StoredAuthSession;
+  childUserId: string;
+  canManage: boolean;
+};
+
+function formatDuration(durationSeconds: number | null): string | null {
+  if (durationSeconds === null) {
+    return null;
+  }
+
+  const minutes = Math.floor(durationSeconds / 60);
+  const seconds = durationSeconds % 60;
+
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
+
+export function ChildContentApprovalsPanel({
+  authSession,
+  childUserId,
+  canManage,
+}: ChildContentApprovalsPanelProps) {
+  const [approvals, setApprovals] = useState<ChildContentApprovalsResult | null>(null);
+  const [pendingVideoId, setPendingVideoId] = useState<string | null>(null);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
+  const [outcome, setOutcome] = useState<Outcome | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadApprovals = async () => {
+      try {
+        const childApprovals = await getChildContentApprovals(
+          authSession.accessToken,
+          childUserId,
+        );
+
+        if (!cancelled) {
+          setApprovals(childApprovals);
+        }
+      } catch (error) {
+        if (cancelled) {
+          return;
+        }
+
+        const message =
+          error instanceof Error ? error.message : "Unable to load the approval queue.";
+        setOutcome({ type: "error", message });
+      }
+    };
+
+    void loadApprovals();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [authSession.accessToken, childUserId]);
+
+  const handleToggleApprovalRequired = async (approvalRequired: boolean) => {
+    setIsSavingSettings(true);
+    setOutcome(null);
+
+    try {
+      const nextApprovals = await updateChildContentApprovalSettings(
+        authSession.accessToken,
+        childUserId,
+        approvalRequired,
+      );
+      setApprovals(nextApprovals);
+      setOutcome({
+        type: "success",
+        message: approvalRequired
+          ? `@${nextApprovals.childUsername} now only sees videos you approve.`
+          : `Approval mode turned off for @${nextApprovals.childUsername}.`,
+      });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unable to update approval mode.";
+      setOutcome({ type: "error", message });
+    } finally {
+      setIsSavingSettings(false);
+    }
+  };
+
+  const handleDecide = async (videoId: string, decision: ContentApprovalDecision) => {
+    setPendingVideoId(videoId);
+    setOutcome(null);
+
+    try {
+      const nextApprovals = await decideChildVideoApproval(
+        authSession.accessToken,
+        childUserId,
+        videoId,
+        decision,
+      );
+      setApprovals(nextApprovals);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unable to save the decision.";
+      setOutcome({ type: "error", message });
+    } finally {
+      setPendingVideoId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2 border-t border-white/10 pt-3">
+      <p className="text-xs font-semibold uppercase tracking-[0.14em] text-foreground/70">
+        Video approvals
+      </p>
+
+      <label className="flex cursor-pointer items-center justify-between rounded-lg border border-white/10 bg-surface-soft/35 px-3 py-2">
+        <div>
+          <p className="text-sm font-semibold text-foreground/90">Require my approval</p>
+          <p className="text-xs text-foreground/65">
+            While on, the feed only shows videos a parent approved.
+          </p>
+        </div>
+        <input
+          type="checkbox"
+          checked={approvals?.approvalRequired ?? false}
+          onChange={(event) => {
+            void handleToggleApprovalRequired(event.target.checked);
+          }}
+          disabled={!canManage || !approvals || isSavingSettings}
+          className="size-4"
+        />
+      </label>
+
+      {approvals && approvals.pendingVideos.length === 0 ? (
+        <p className="text-xs text-foreground/70">No videos are waiting for a decision.</p>
+      ) : null}
+
+      {approvals?.pendingVideos.map((video) => {
+        const duration = formatDuration(video.durationSeconds);
+
+        return (
+          <div
+            key={video.id}
+            className="flex items-center gap-3 rounded-lg border border-white/10 bg-surface-soft/35 px-3 py-2"
+          >
+            <div className="min-w-0 flex-1">
+              <p className="truncate text-sm font-semibold text-foreground/90">{video.title}</p>
+              <p className="text-xs text-foreground/65">
+                {[
+                  duration,
+                  video.publishedAt
+                    ? `Published ${new Date(video.publishedAt).toLocaleDateString()}`
+                    : null,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </p>
+            </div>
+            {canManage ? (
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => {
+                    void handleDecide(video.id, "approved");
+                  }}
+                  disabled={pendingVideoId === video.id}
+                  className="rounded-xl border border-brand/35 bg-brand/15 px-3 py-1 text-xs font-semibold text-brand-muted transition hover:border-accent/60 hover:text-foreground disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  Approve
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    void handleDecide(video.id, "rejected");
+                  }}
+                  disabled={pendingVideoId === video.id}
+                  className="rounded-xl border border-white/15 px-3 py-1 text-xs font-semibold text-foreground/80 transition hover:text-foreground disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  Reject
+                </button>
+              </div>
+            ) : null}
+          </div>
+        );
+      })}
+
+      {!canManage ? (
+        <p className="text-xs text-foreground/70">
+          Only the primary guardian can approve videos.
+        </p>
+      ) : null}
+
+      {outcome ? (
+        <p
+          className={`rounded-xl border px-3 py-2 text-xs ${
+            outcome.type === "success"
+              ? "border-brand/35 bg-brand/10 text-brand-muted"
+              : "border-accent/40 bg-accent/10 text-accent-strong"
+          }`}
+        >
+          {outcome.message}
+        </p>
+      ) : null}
+    </div>
+  );
+}
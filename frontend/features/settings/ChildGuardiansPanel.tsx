@@ -0,0 +1,225 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  addChildGuardian,
+  listChildGuardians,
+  revokeParentLink,
+  updateChildGuardianRole,
+  type GuardianRole,
+  type ParentLinkSummary,
+} from "@/lib/apiClient";
+import type { StoredAuthSession } from "@/lib/authSession";
+
+type Outcome = {
+  type: "success" | "error";
+  message: string;
+};
+
+type ChildGuardiansPanelProps = {
+  authSession: StoredAuthSession;
+  childUserId: string;
+  canManage: boolean;
+  onGuardiansChanged: () => void;
+};
+
+export const GUARDIAN_ROLE_LABELS: Record<GuardianRole, string> = {
+  primary: "Primary guardian",
+  co_guardian: "Co-guardian",
+  coach_viewer: "Coach viewer",
+};
+
+export function ChildGuardiansPanel({
+  authSession,
+  childUserId,
+  canManage,
+  onGuardiansChanged,
+}: ChildGuardiansPanelProps) {
+  const [guardians, setGuardians] = useState<ParentLinkSummary[]>([]);
+  const [guardianUsernameInput, setGuardianUsernameInput] = useState("");
+  const [newGuardianRole, setNewGuardianRole] =
+    useState<Exclude<GuardianRole, "primary">>("co_guardian");
+  const [outcome, setOutcome] = useState<Outcome | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadGuardians = async () => {
+      try {
+        const childGuardians = await listChildGuardians(authSession.accessToken, childUserId);
+
+        if (!cancelled) {
+          setGuardians(childGuardians);
+        }
+      } catch (error) {
+        if (cancelled) {
+          return;
+        }
+
+        const message =
+          error instanceof Error ? error.message : "Unable to load child guardians.";
+        setOutcome({ type: "error", message });
+      }
+    };
+
+    void loadGuardians();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [authSession.accessToken, childUserId, reloadKey]);
+
+  const runGuardianChange = async (change: () => Promise<string>) => {
+    try {
+      const message = await change();
+      setOutcome({ type: "success", message });
+      setReloadKey((currentKey) => currentKey + 1);
+      onGuardiansChanged();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unable to update child guardians.";
+      setOutcome({ type: "error", message });
+    }
+  };
+
+  const handleAddGuardian = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const guardianUsername = guardianUsernameInput.trim();
+    if (!guardianUsername) {
+      setOutcome({ type: "error", message: "Guardian username is required." });
+      return;
+    }
+
+    await runGuardianChange(async () => {
+      const link = await addChildGuardian(authSession.accessToken, childUserId, {
+        guardianUsername,
+        guardianRole: newGuardianRole,
+      });
+      setGuardianUsernameInput("");
+
+      return `@${link.parentUsername} added as ${GUARDIAN_ROLE_LABELS[link.guardianRole].toLowerCase()}.`;
+    });
+  };
+
+  const handleChangeRole = (link: ParentLinkSummary, guardianRole: GuardianRole) =>
+    runGuardianChange(async () => {
+      await updateChildGuardianRole(authSession.accessToken, childUserId, link.id, guardianRole);
+
+      return `@${link.parentUsername} is now ${GUARDIAN_ROLE_LABELS[guardianRole].toLowerCase()}.`;
+    });
+
+  const handleRemove = (link: ParentLinkSummary) =>
+    runGuardianChange(async () => {
+      await revokeParentLink(authSession.accessToken, link.id);
+
+      return `@${link.parentUsername} was removed.`;
+    });
+
+  return (
+    <div className="space-y-2 border-t border-white/10 pt-3">
+      <p className="text-xs font-semibold uppercase tracking-[0.14em] text-foreground/70">
+        Guardians
+      </p>
+
+      {guardians.map((link) => {
+        const isSelf = link.parentUserId === authSession.user.id;
+        const canChangeLink =
+          canManage && !isSelf && link.relationshipStatus === "active";
+
+        return (
+          <div
+            key={link.id}
+            className="rounded-lg border border-white/10 bg-surface-soft/35 px-3 py-2"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-foreground/85">
+                @{link.parentUsername}
+                {isSelf ? " (you)" : ""}
+              </p>
+              <span className="text-xs uppercase tracking-[0.12em] text-foreground/65">
+                {link.relationshipStatus === "active"
+                  ? GUARDIAN_ROLE_LABELS[link.guardianRole]
+                  : link.relationshipStatus}
+              </span>
+            </div>
+            {canChangeLink ? (
+              <div className="mt-2 flex flex-wrap gap-3">
+                {(["primary", "co_guardian", "coach_viewer"] as const)
+                  .filter((guardianRole) => guardianRole !== link.guardianRole)
+                  .map((guardianRole) => (
+                    <button
+                      key={guardianRole}
+                      type="button"
+                      onClick={() => {
+                        void handleChangeRole(link, guardianRole);
+                      }}
+                      className="text-xs font-semibold text-brand-muted hover:text-foreground"
+                    >
+                      {guardianRole === "primary"
+                        ? "Hand over primary"
+                        : `Make ${GUARDIAN_ROLE_LABELS[guardianRole].toLowerCase()}`}
+                    </button>
+                  ))}
+                <button
+                  type="button"
+                  onClick={() => {
+                    void handleRemove(link);
+                  }}
+                  className="text-xs font-semibold text-accent-strong hover:text-foreground"
+                >
+                  Remove
+                </button>
+              </div>
+            ) : null}
+          </div>
+        );
+      })}
+
+      {canManage ? (
+        <form onSubmit={handleAddGuardian} className="space-y-2">
+          <input
+            type="text"
+            value={guardianUsernameInput}
+            onChange={(event) => {
+              setGuardianUsernameInput(event.target.value);
+            }}
+            className="w-full rounded-xl border border-white/15 bg-surface-soft/80 px-3 py-2 text-sm outline-none transition focus:border-brand/70"
+            placeholder="guardian_username"
+          />
+          <div className="flex gap-2">
+            <select
+              value={newGuardianRole}
+              onChange={(event) => {
+                setNewGuardianRole(event.target.value as Exclude<GuardianRole, "primary">);
+              }}
+              className="flex-1 rounded-xl border border-white/15 bg-surface-soft/80 px-3 py-2 text-sm outline-none transition focus:border-brand/70"
+            >
+              <option value="co_guardian">Co-guardian (can view history)</option>
+              <option value="coach_viewer">Coach viewer (weekly summaries only)</option>
+            </select>
+            <button
+              type="submit"
+              className="inline-flex rounded-xl border border-brand/35 bg-brand/15 px-4 py-2 text-sm font-semibold text-brand-muted transition hover:border-accent/60 hover:text-foreground"
+            >
+              Add guardian
+            </button>
+          </div>
+        </form>
+      ) : null}
+
+      {outcome ? (
+        <p
+          className={`rounded-xl border px-3 py-2 text-xs ${
+            outcome.type === "success"
+              ? "border-brand/35 bg-brand/10 text-brand-muted"
+              : "border-accent/40 bg-accent/10 text-accent-strong"
+          }`}
+        >
+          {outcome.message}
+        </p>
+      ) : null}
+    </div>
+  );
+}
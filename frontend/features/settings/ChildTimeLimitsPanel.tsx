@@ -0,0 +1,304 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  getChildTimeLimits,
+  updateChildTimeLimits,
+  type AllowedWindow,
+  type ChildTimeLimitsResult,
+  type Weekday,
+} from "@/lib/apiClient";
+import type { StoredAuthSession } from "@/lib/authSession";
+
+type Outcome = {
+  type: "success" | "error";
+  message: string;
+};
+
+type ChildTimeLimitsPanelProps = {
+  authSession: StoredAuthSession;
+  childUserId: string;
+  canManage: boolean;
+};
+
+const WEEKDAY_LABELS: Array<{ day: Weekday; label: string }> = [
+  { day: "mon", label: "Mon" },
+  { day: "tue", label: "Tue" },
+  { day: "wed", label: "Wed" },
+  { day: "thu", label: "Thu" },
+  { day: "fri", label: "Fri" },
+  { day: "sat", label: "Sat" },
+  { day: "sun", label: "Sun" },
+];
+
+const DEFAULT_WINDOW: AllowedWindow = {
+  days: ["sun", "mon", "tue", "wed", "thu"],
+  startTime: "07:00",
+  endTime: "21:00",
+};
+
+function describeScreenTime(timeLimits: ChildTimeLimitsResult): string {
+  const { screenTime } = timeLimits;
+  const watchedMinutes = Math.floor(screenTime.watchedSecondsToday / 60);
+  const usage =
+    screenTime.remainingSeconds === null
+      ? `${watchedMinutes} min watched today`
+      : `${watchedMinutes} min watched today, ${Math.ceil(screenTime.remainingSeconds / 60)} min left`;
+
+  if (screenTime.limitReason === "daily_limit_reached") {
+    return `${usage}. Daily limit reached.`;
+  }
+
+  if (screenTime.limitReason === "outside_allowed_hours") {
+    return `${usage}. Outside allowed hours right now.`;
+  }
+
+  return `${usage}.`;
+}
+
+export function ChildTimeLimitsPanel({
+  authSession,
+  childUserId,
+  canManage,
+}: ChildTimeLimitsPanelProps) {
+  const [timeLimits, setTimeLimits] = useState<ChildTimeLimitsResult | null>(null);
+  const [dailyMinutesInput, setDailyMinutesInput] = useState("");
+  const [timeZone, setTimeZone] = useState("UTC");
+  const [allowedWindows, setAllowedWindows] = useState<AllowedWindow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [outcome, setOutcome] = useState<Outcome | null>(null);
+
+  const applyTimeLimits = (nextTimeLimits: ChildTimeLimitsResult) => {
+    setTimeLimits(nextTimeLimits);
+    setDailyMinutesInput(
+      nextTimeLimits.dailyWatchMinutes === null ? "" : String(nextTimeLimits.dailyWatchMinutes),
+    );
+    // Limits that were never saved default to the parent's own time zone.
+    setTimeZone(
+      nextTimeLimits.updatedAt
+        ? nextTimeLimits.timeZone
+        : Intl.DateTimeFormat().resolvedOptions().timeZone,
+    );
+    setAllowedWindows(nextTimeLimits.allowedWindows);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadTimeLimits = async () => {
+      try {
+        const childTimeLimits = await getChildTimeLimits(authSession.accessToken, childUserId);
+
+        if (!cancelled) {
+          applyTimeLimits(childTimeLimits);
+        }
+      } catch (error) {
+        if (cancelled) {
+          return;
+        }
+
+        const message =
+          error instanceof Error ? error.message : "Unable to load time limits.";
+        setOutcome({ type: "error", message });
+      }
+    };
+
+    void loadTimeLimits();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [authSession.accessToken, childUserId]);
+
+  const updateWindow = (windowIndex: number, patch: Partial<AllowedWindow>) => {
+    setAllowedWindows((currentWindows) =>
+      currentWindows.map((window, index) =>
+        index === windowIndex ? { ...window, ...patch } : window,
+      ),
+    );
+  };
+
+  const toggleWindowDay = (windowIndex: number, day: Weekday) => {
+    const window = allowedWindows[windowIndex];
+
+    updateWindow(windowIndex, {
+      days: window.days.includes(day)
+        ? window.days.filter((currentDay) => currentDay !== day)
+        : [...window.days, day],
+    });
+  };
+
+  const handleSave = async () => {
+    const trimmedMinutes = dailyMinutesInput.trim();
+    const dailyWatchMinutes = trimmedMinutes ? Number(trimmedMinutes) : null;
+
+    if (dailyWatchMinutes !== null && !Number.isInteger(dailyWatchMinutes)) {
+      setOutcome({ type: "error", message: "Daily minutes must be a whole number." });
+      return;
+    }
+
+    setIsSaving(true);
+    setOutcome(null);
+
+    try {
+      const savedTimeLimits = await updateChildTimeLimits(authSession.accessToken, childUserId, {
+        dailyWatchMinutes,
+        timeZone,
+        allowedWindows,
+      });
+      applyTimeLimits(savedTimeLimits);
+      setOutcome({ type: "success", message: "Time limits saved." });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unable to save time limits.";
+      setOutcome({ type: "error", message });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 border-t border-white/10 pt-3">
+      <p className="text-xs font-semibold uppercase tracking-[0.14em] text-foreground/70">
+        Screen time
+      </p>
+
+      {timeLimits ? (
+        <p className="text-xs text-foreground/70">{describeScreenTime(timeLimits)}</p>
+      ) : null}
+
+      <div className="flex gap-2">
+        <label className="flex-1 space-y-1">
+          <span className="text-xs text-foreground/70">Daily minutes (blank for no limit)</span>
+          <input
+            type="number"
+            min={5}
+            max={1440}
+            value={dailyMinutesInput}
+            onChange={(event) => {
+              setDailyMinutesInput(event.target.value);
+            }}
+            disabled={!canManage}
+            className="w-full rounded-xl border border-white/15 bg-surface-soft/80 px-3 py-2 text-sm outline-none transition focus:border-brand/70"
+          />
+        </label>
+        <label className="flex-1 space-y-1">
+          <span className="text-xs text-foreground/70">Time zone</span>
+          <input
+            type="text"
+            value={timeZone}
+            onChange={(event) => {
+              setTimeZone(event.target.value);
+            }}
+            disabled={!canManage}
+            className="w-full rounded-xl border border-white/15 bg-surface-soft/80 px-3 py-2 text-sm outline-none transition focus:border-brand/70"
+          />
+        </label>
+      </div>
+
+      <p className="text-xs text-foreground/70">
+        {allowedWindows.length === 0
+          ? "No viewing schedule: the feed is open at any time of day."
+          : "The feed is only open during these windows."}
+      </p>
+
+      {allowedWindows.map((window, windowIndex) => (
+        <div
+          key={windowIndex}
+          className="space-y-2 rounded-lg border border-white/10 bg-surface-soft/35 px-3 py-2"
+        >
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAY_LABELS.map(({ day, label }) => (
+              <label key={day} className="flex items-center gap-1 text-xs text-foreground/80">
+                <input
+                  type="checkbox"
+                  checked={window.days.includes(day)}
+                  onChange={() => {
+                    toggleWindowDay(windowIndex, day);
+                  }}
+                  disabled={!canManage}
+                  className="size-3"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="time"
+              value={window.startTime}
+              onChange={(event) => {
+                updateWindow(windowIndex, { startTime: event.target.value });
+              }}
+              disabled={!canManage}
+              className="rounded-xl border border-white/15 bg-surface-soft/80 px-2 py-1 text-sm outline-none transition focus:border-brand/70"
+            />
+            <span className="text-xs text-foreground/70">to</span>
+            <input
+              type="time"
+              value={window.endTime === "24:00" ? "23:59" : window.endTime}
+              onChange={(event) => {
+                updateWindow(windowIndex, { endTime: event.target.value });
+              }}
+              disabled={!canManage}
+              className="rounded-xl border border-white/15 bg-surface-soft/80 px-2 py-1 text-sm outline-none transition focus:border-brand/70"
+            />
+            {canManage ? (
+              <button
+                type="button"
+                onClick={() => {
+                  setAllowedWindows((currentWindows) =>
+                    currentWindows.filter((_, index) => index !== windowIndex),
+                  );
+                }}
+                className="ml-auto text-xs font-semibold text-accent-strong hover:text-foreground"
+              >
+                Remove
+              </button>
+            ) : null}
+          </div>
+        </div>
+      ))}
+
+      {canManage ? (
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => {
+              setAllowedWindows((currentWindows) => [...currentWindows, DEFAULT_WINDOW]);
+            }}
+            className="inline-flex rounded-xl border border-white/15 px-4 py-2 text-sm font-semibold text-foreground/80 transition hover:text-foreground"
+          >
+            Add window
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              void handleSave();
+            }}
+            disabled={isSaving}
+            className="inline-flex flex-1 items-center justify-center rounded-xl border border-brand/35 bg-brand/15 px-4 py-2 text-sm font-semibold text-brand-muted transition hover:border-accent/60 hover:text-foreground disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isSaving ? "Saving..." : "Save time limits"}
+          </button>
+        </div>
+      ) : (
+        <p className="text-xs text-foreground/70">
+          Only the primary guardian can change screen time.
+        </p>
+      )}
+
+      {outcome ? (
+        <p
+          className={`rounded-xl border px-3 py-2 text-xs ${
+            outcome.type === "success"
+              ? "border-brand/35 bg-brand/10 text-brand-muted"
+              : "border-accent/40 bg-accent/10 text-accent-strong"
+          }`}
+        >
+          {outcome.message}
+        </p>
+      ) : null}
+    </div>
+  );
+}
@@ -3,8 +3,10 @@
 import { useEffect, useMemo, useState } from "react";
 import {
   acceptParentLink,
+  createParentLinkInvite,
   getMyParentLinks,
   revokeParentLink,
+  type ParentLinkInvite,
   type ParentLinkSummary,
 } from "@/lib/apiClient";
 import type { StoredAuthSession } from "@/lib/authSession";
@@ -23,6 +25,8 @@ export function ParentLinkLearnerPanel({ authSession }: ParentLinkLearnerPanelPr
   const [childLinks, setChildLinks] = useState<ParentLinkSummary[]>([]);
   const [outcome, setOutcome] = useState<Outcome | null>(null);
   const [reloadKey, setReloadKey] = useState(0);
+  const [invite, setInvite] = useState<ParentLinkInvite | null>(null);
+  const [isCreatingInvite, setIsCreatingInvite] = useState(false);
 
   const pendingIncomingLinks = useMemo(
     () => childLinks.filter((link) => link.relationshipStatus === "pending"),
@@ -82,6 +86,35 @@ export function ParentLinkLearnerPanel({ authSession }: ParentLinkLearnerPanelPr
     }
   };
 
+  const handleCreateInvite = async () => {
+    setIsCreatingInvite(true);
+
+    try {
+      const nextInvite = await createParentLinkInvite(authSession.accessToken);
+      setInvite(nextInvite);
+      setOutcome(null);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unable to create an invite code.";
+      setOutcome({ type: "error", message });
+    } finally {
+      setIsCreatingInvite(false);
+    }
+  };
+
+  const handleCopyInviteLink = async () => {
+    if (!invite) {
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(invite.qrPayload);
+      setOutcome({ type: "success", message: "Invite link copied." });
+    } catch {
+      setOutcome({ type: "error", message: "Unable to copy the invite link." });
+    }
+  };
+
   const handleDeclineOrRevoke = async (linkId: string) => {
     try {
       await revokeParentLink(authSession.accessToken, linkId);
@@ -135,6 +168,47 @@ export function ParentLinkLearnerPanel({ authSession }: ParentLinkLearnerPanelPr
         )}
       </div>
 
+      <div className="mt-3 space-y-2 rounded-xl border border-white/10 bg-black/20 p-3">
+        <p className="text-xs font-semibold uppercase tracking-[0.14em] text-foreground/70">
+          Invite a parent
+        </p>
+        {invite ? (
+          <div className="space-y-1">
+            <p className="font-mono text-lg font-semibold tracking-[0.2em] text-foreground">
+              {invite.code}
+            </p>
+            <p className="text-xs text-foreground/70">
+              Share this code with your parent, or send them the invite link. It works once
+              and expires at{" "}
+              {new Date(invite.expiresAt).toLocaleTimeString()}.
+            </p>
+            <button
+              type="button"
+              onClick={() => {
+                void handleCopyInviteLink();
+              }}
+              className="text-xs font-semibold text-accent-strong hover:text-foreground"
+            >
+              Copy invite link
+            </button>
+          </div>
+        ) : (
+          <p className="text-xs text-foreground/70">
+            Create a one-time code your parent can enter to link with your account.
+          </p>
+        )}
+        <button
+          type="button"
+          onClick={() => {
+            void handleCreateInvite();
+          }}
+          disabled={isCreatingInvite}
+          className="inline-flex rounded-lg border border-brand/35 bg-brand/15 px-3 py-1.5 text-xs font-semibold text-brand-muted transition hover:border-accent/60 hover:text-foreground disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {invite ? "Create a new code" : "Create invite code"}
+        </button>
+      </div>
+
       <div className="mt-3 space-y-1">
         <p className="text-xs font-semibold uppercase tracking-[0.14em] text-foreground/70">
           Active linked parents
@@ -3,16 +3,23 @@
 import { useEffect, useMemo, useState } from "react";
 import {
   getChildContentRestrictions,
+  getChildWatchHistory,
   getContentTypes,
   getMyParentLinks,
+  redeemParentLinkInvite,
   requestParentLink,
   revokeParentLink,
+  signOutChildEverywhere,
   updateChildContentRestrictions,
+  type BlockedVideoSummary,
   type ChildContentRestrictionsResult,
   type ContentTypeSummary,
   type ParentLinkSummary,
 } from "@/lib/apiClient";
 import type { StoredAuthSession } from "@/lib/authSession";
+import { ChildContentApprovalsPanel } from "./ChildContentApprovalsPanel";
+import { ChildGuardiansPanel, GUARDIAN_ROLE_LABELS } from "./ChildGuardiansPanel";
+import { ChildTimeLimitsPanel } from "./ChildTimeLimitsPanel";
 
 type Outcome = {
   type: "success" | "error";
@@ -32,7 +39,11 @@ export function ParentLinkParentPanel({ authSession }: ParentLinkParentPanelProp
   const [childRestrictions, setChildRestrictions] =
     useState<ChildContentRestrictionsResult | null>(null);
   const [blockedContentTypeIds, setBlockedContentTypeIds] = useState<string[]>([]);
+  const [blockedContentTagIds, setBlockedContentTagIds] = useState<string[]>([]);
+  const [blockedVideoIds, setBlockedVideoIds] = useState<string[]>([]);
+  const [recentlyWatchedVideos, setRecentlyWatchedVideos] = useState<BlockedVideoSummary[]>([]);
   const [childUsernameInput, setChildUsernameInput] = useState("");
+  const [inviteCodeInput, setInviteCodeInput] = useState("");
   const [outcome, setOutcome] = useState<Outcome | null>(null);
   const [reloadKey, setReloadKey] = useState(0);
 
@@ -41,6 +52,34 @@ export function ParentLinkParentPanel({ authSession }: ParentLinkParentPanelProp
     [parentLinks],
   );
 
+  const selectedGuardianRole =
+    activeChildLinks.find((link) => link.childUserId === selectedChildUserId)
+      ?.guardianRole ?? null;
+  const isPrimaryGuardian = selectedGuardianRole === "primary";
+
+  // Already-blocked videos stay listed so they can be unblocked, followed by
+  // whatever the child watched recently.
+  const blockableVideos = useMemo(() => {
+    const listedVideos = [...(childRestrictions?.blockedVideos ?? [])];
+
+    for (const video of recentlyWatchedVideos) {
+      if (!listedVideos.some((listedVideo) => listedVideo.id === video.id)) {
+        listedVideos.push(video);
+      }
+    }
+
+    return listedVideos;
+  }, [childRestrictions, recentlyWatchedVideos]);
+
+  // Scanning a learner's invite QR code opens settings with the code attached.
+  useEffect(() => {
+    const sharedInviteCode = new URLSearchParams(window.location.search).get("linkInvite");
+
+    if (sharedInviteCode) {
+      setInviteCodeInput(sharedInviteCode);
+    }
+  }, []);
+
   useEffect(() => {
     let cancelled = false;
 
@@ -103,9 +142,13 @@ export function ParentLinkParentPanel({ authSession }: ParentLinkParentPanelProp
   }, [authSession.accessToken, reloadKey]);
 
   useEffect(() => {
-    if (!selectedChildUserId) {
+    // Coach viewers only see weekly summaries, not the child's restrictions.
+    if (!selectedChildUserId || selectedGuardianRole === "coach_viewer") {
       setChildRestrictions(null);
       setBlockedContentTypeIds([]);
+      setBlockedContentTagIds([]);
+      setBlockedVideoIds([]);
+      setRecentlyWatchedVideos([]);
       return;
     }
 
@@ -116,10 +159,10 @@ export function ParentLinkParentPanel({ authSession }: ParentLinkParentPanelProp
       setOutcome(null);
 
       try {
-        const restrictions = await getChildContentRestrictions(
-          authSession.accessToken,
-          selectedChildUserId,
-        );
+        const [restrictions, recentHistory] = await Promise.all([
+          getChildContentRestrictions(authSession.accessToken, selectedChildUserId),
+          getChildWatchHistory(authSession.accessToken, selectedChildUserId, { limit: 10 }),
+        ]);
 
         if (cancelled) {
           return;
@@ -127,6 +170,11 @@ export function ParentLinkParentPanel({ authSession }: ParentLinkParentPanelProp
 
         setChildRestrictions(restrictions);
         setBlockedContentTypeIds(restrictions.blockedContentTypeIds);
+        setBlockedContentTagIds(restrictions.blockedContentTagIds);
+        setBlockedVideoIds(restrictions.blockedVideoIds);
+        setRecentlyWatchedVideos(
+          recentHistory.items.map((item) => ({ id: item.videoId, title: item.title })),
+        );
       } catch (error) {
         if (cancelled) {
           return;
@@ -150,7 +198,7 @@ export function ParentLinkParentPanel({ authSession }: ParentLinkParentPanelProp
     return () => {
       cancelled = true;
     };
-  }, [authSession.accessToken, selectedChildUserId]);
+  }, [authSession.accessToken, selectedChildUserId, selectedGuardianRole]);
 
   const handleRequestLink = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -174,6 +222,30 @@ export function ParentLinkParentPanel({ authSession }: ParentLinkParentPanelProp
     }
   };
 
+  const handleRedeemInvite = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    const code = inviteCodeInput.trim();
+    if (!code) {
+      setOutcome({ type: "error", message: "Invite code is required." });
+      return;
+    }
+
+    try {
+      const link = await redeemParentLinkInvite(authSession.accessToken, code);
+      setInviteCodeInput("");
+      setOutcome({
+        type: "success",
+        message: `You are now linked to @${link.childUsername}.`,
+      });
+      setReloadKey((currentKey) => currentKey + 1);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unable to redeem invite code.";
+      setOutcome({ type: "error", message });
+    }
+  };
+
   const handleRevoke = async (linkId: string) => {
     try {
       await revokeParentLink(authSession.accessToken, linkId);
@@ -185,6 +257,20 @@ export function ParentLinkParentPanel({ authSession }: ParentLinkParentPanelProp
     }
   };
 
+  const handleSignOutChildEverywhere = async (link: ParentLinkSummary) => {
+    try {
+      await signOutChildEverywhere(authSession.accessToken, link.childUserId);
+      setOutcome({
+        type: "success",
+        message: `@${link.childUsername} was signed out of all devices.`,
+      });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Unable to sign out child devices.";
+      setOutcome({ type: "error", message });
+    }
+  };
+
   const handleToggleBlockedContentType = (contentTypeId: string) => {
     setBlockedContentTypeIds((currentBlockedIds) =>
       currentBlockedIds.includes(contentTypeId)
@@ -193,6 +279,22 @@ export function ParentLinkParentPanel({ authSession }: ParentLinkParentPanelProp
     );
   };
 
+  const handleToggleBlockedContentTag = (contentTagId: string) => {
+    setBlockedContentTagIds((currentBlockedIds) =>
+      currentBlockedIds.includes(contentTagId)
+        ? currentBlockedIds.filter((currentId) => currentId !== contentTagId)
+        : [...currentBlockedIds, contentTagId],
+    );
+  };
+
+  const handleToggleBlockedVideo = (videoId: string) => {
+    setBlockedVideoIds((currentBlockedIds) =>
+      currentBlockedIds.includes(videoId)
+        ? currentBlockedIds.filter((currentId) => currentId !== videoId)
+        : [...currentBlockedIds, videoId],
+    );
+  };
+
   const handleSaveRestrictions = async () => {
     if (!selectedChildUserId) {
       setOutcome({ type: "error", message: "Select an active child first." });
@@ -205,11 +307,13 @@ export function ParentLinkParentPanel({ authSession }: ParentLinkParentPanelProp
       const nextRestrictions = await updateChildContentRestrictions(
         authSession.accessToken,
         selectedChildUserId,
-        { blockedContentTypeIds },
+        { blockedContentTypeIds, blockedContentTagIds, blockedVideoIds },
       );
 
       setChildRestrictions(nextRestrictions);
       setBlockedContentTypeIds(nextRestrictions.blockedContentTypeIds);
+      setBlockedContentTagIds(nextRestrictions.blockedContentTagIds);
+      setBlockedVideoIds(nextRestrictions.blockedVideoIds);
       setOutcome({
         type: "success",
         message: `Restrictions saved for @${nextRestrictions.childUsername}.`,
@@ -254,24 +358,63 @@ export function ParentLinkParentPanel({ authSession }: ParentLinkParentPanelProp
         </button>
       </form>
 
+      <form onSubmit={handleRedeemInvite} className="mt-3 space-y-2">
+        <label className="block space-y-1">
+          <span className="text-xs font-semibold uppercase tracking-[0.14em] text-foreground/70">
+            Redeem learner invite code
+          </span>
+          <input
+            type="text"
+            value={inviteCodeInput}
+            onChange={(event) => {
+              setInviteCodeInput(event.target.value);
+            }}
+            autoCapitalize="characters"
+            className="w-full rounded-xl border border-white/15 bg-surface-soft/80 px-3 py-2 text-sm uppercase tracking-[0.2em] outline-none transition focus:border-brand/70"
+            placeholder="ABCD-EFGH"
+          />
+        </label>
+        <button
+          type="submit"
+          className="inline-flex rounded-xl border border-brand/35 bg-brand/15 px-4 py-2 text-sm font-semibold text-brand-muted transition hover:border-accent/60 hover:text-foreground"
+        >
+          Link with invite code
+        </button>
+      </form>
+
       <div className="mt-3 space-y-2">
         {parentLinks.map((link) => (
           <div key={link.id} className="rounded-xl border border-white/10 bg-black/20 px-3 py-2">
             <div className="flex items-center justify-between gap-2">
               <p className="text-sm font-semibold text-foreground/90">@{link.childUsername}</p>
               <span className="text-xs uppercase tracking-[0.12em] text-foreground/65">
-                {link.relationshipStatus}
+                {link.relationshipStatus === "active"
+                  ? GUARDIAN_ROLE_LABELS[link.guardianRole]
+                  : link.relationshipStatus}
               </span>
             </div>
-            <button
-              type="button"
-              onClick={() => {
-                void handleRevoke(link.id);
-              }}
-              className="mt-2 text-xs font-semibold text-accent-strong hover:text-foreground"
-            >
-              Revoke link
-            </button>
+            <div className="mt-2 flex flex-wrap gap-3">
+              <button
+                type="button"
+                onClick={() => {
+                  void handleRevoke(link.id);
+                }}
+                className="text-xs font-semibold text-accent-strong hover:text-foreground"
+              >
+                Revoke link
+              </button>
+              {link.relationshipStatus === "active" && link.guardianRole === "primary" ? (
+                <button
+                  type="button"
+                  onClick={() => {
+                    void handleSignOutChildEverywhere(link);
+                  }}
+                  className="text-xs font-semibold text-accent-strong hover:text-foreground"
+                >
+                  Sign out of all devices
+                </button>
+              ) : null}
+            </div>
           </div>
         ))}
       </div>
@@ -297,7 +440,20 @@ export function ParentLinkParentPanel({ authSession }: ParentLinkParentPanelProp
             </select>
           </label>
 
-          {contentTypes.map((contentType) => {
+          {selectedGuardianRole === "coach_viewer" ? (
+            <p className="text-xs text-foreground/70">
+              As a coach viewer you can see weekly summaries for this learner, but not their
+              history or restrictions.
+            </p>
+          ) : null}
+
+          {selectedGuardianRole === "co_guardian" ? (
+            <p className="text-xs text-foreground/70">
+              Only the primary guardian can change restrictions.
+            </p>
+          ) : null}
+
+          {selectedGuardianRole !== "coach_viewer" && contentTypes.map((contentType) => {
             const isBlocked = blockedContentTypeIds.includes(contentType.id);
 
             return (
@@ -315,22 +471,80 @@ export function ParentLinkParentPanel({ authSession }: ParentLinkParentPanelProp
                   onChange={() => {
                     handleToggleBlockedContentType(contentType.id);
                   }}
+                  disabled={!isPrimaryGuardian}
                   className="size-4"
                 />
               </label>
             );
           })}
 
-          <button
-            type="button"
-            onClick={() => {
-              void handleSaveRestrictions();
-            }}
-            disabled={isSavingRestrictions || !selectedChildUserId}
-            className="inline-flex w-full items-center justify-center rounded-xl border border-brand/35 bg-brand/15 px-4 py-2 text-sm font-semibold text-brand-muted transition hover:border-accent/60 hover:text-foreground disabled:cursor-not-allowed disabled:opacity-60"
-          >
-            {isSavingRestrictions ? "Saving..." : "Save child restrictions"}
-          </button>
+          {childRestrictions && childRestrictions.availableContentTags.length > 0 ? (
+            <div className="space-y-1">
+              <p className="text-xs font-semibold uppercase tracking-[0.14em] text-foreground/70">
+                Blocked tags
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {childRestrictions.availableContentTags.map((contentTag) => (
+                  <label
+                    key={contentTag.id}
+                    className="flex items-center gap-1 rounded-lg border border-white/10 bg-surface-soft/35 px-2 py-1 text-xs text-foreground/80"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={blockedContentTagIds.includes(contentTag.id)}
+                      onChange={() => {
+                        handleToggleBlockedContentTag(contentTag.id);
+                      }}
+                      disabled={!isPrimaryGuardian}
+                      className="size-3"
+                    />
+                    {contentTag.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ) : null}
+
+          {blockableVideos.length > 0 ? (
+            <div className="space-y-1">
+              <p className="text-xs font-semibold uppercase tracking-[0.14em] text-foreground/70">
+                Blocked videos
+              </p>
+              <p className="text-xs text-foreground/70">
+                Block a single clip from the child&apos;s recent history.
+              </p>
+              {blockableVideos.map((video) => (
+                <label
+                  key={video.id}
+                  className="flex cursor-pointer items-center justify-between rounded-lg border border-white/10 bg-surface-soft/35 px-3 py-2"
+                >
+                  <span className="text-sm text-foreground/90">{video.title}</span>
+                  <input
+                    type="checkbox"
+                    checked={blockedVideoIds.includes(video.id)}
+                    onChange={() => {
+                      handleToggleBlockedVideo(video.id);
+                    }}
+                    disabled={!isPrimaryGuardian}
+                    className="size-4"
+                  />
+                </label>
+              ))}
+            </div>
+          ) : null}
+
+          {isPrimaryGuardian ? (
+            <button
+              type="button"
+              onClick={() => {
+                void handleSaveRestrictions();
+              }}
+              disabled={isSavingRestrictions || !selectedChildUserId}
+              className="inline-flex w-full items-center justify-center rounded-xl border border-brand/35 bg-brand/15 px-4 py-2 text-sm font-semibold text-brand-muted transition hover:border-accent/60 hover:text-foreground disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {isSavingRestrictions ? "Saving..." : "Save child restrictions"}
+            </button>
+          ) : null}
 
           {childRestrictions ? (
             <p className="text-xs text-foreground/70">
@@ -340,6 +554,35 @@ export function ParentLinkParentPanel({ authSession }: ParentLinkParentPanelProp
                 .join(", ") || "none"}
             </p>
           ) : null}
+
+          {selectedChildUserId && selectedGuardianRole !== "coach_viewer" ? (
+            <ChildContentApprovalsPanel
+              key={selectedChildUserId}
+              authSession={authSession}
+              childUserId={selectedChildUserId}
+              canManage={isPrimaryGuardian}
+            />
+          ) : null}
+
+          {selectedChildUserId && selectedGuardianRole !== "coach_viewer" ? (
+            <ChildTimeLimitsPanel
+              key={selectedChildUserId}
+              authSession={authSession}
+              childUserId={selectedChildUserId}
+              canManage={isPrimaryGuardian}
+            />
+          ) : null}
+
+          {selectedChildUserId && selectedGuardianRole !== "coach_viewer" ? (
+            <ChildGuardiansPanel
+              authSession={authSession}
+              childUserId={selectedChildUserId}
+              canManage={isPrimaryGuardian}
+              onGuardiansChanged={() => {
+                setReloadKey((currentKey) => currentKey + 1);
+              }}
+            />
+          ) : null}
         </div>
       ) : (
         <p className="mt-3 text-xs text-foreground/70">
@@ -3,8 +3,8 @@
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
+import { signOutCurrentSession } from "@/lib/apiClient";
 import {
-  clearAuthSession,
   readAuthSession,
   saveAuthSession,
   type StoredAuthSession,
@@ -49,9 +49,10 @@ export function SettingsPage() {
   };
 
   const handleSignOut = () => {
-    clearAuthSession();
-    setAuthSession(null);
-    router.replace("/");
+    void signOutCurrentSession().then(() => {
+      setAuthSession(null);
+      router.replace("/");
+    });
   };
 
   return (
@@ -1,9 +1,14 @@
+import { clearAuthSession, readAuthSession, saveAuthSession } from './authSession';
+
 export type BackendHealthResponse = {
   status: string;
 };
 
 type BackendErrorResponse = {
   message?: string;
+  errors?: Record<string, string[] | undefined>;
+  limitReason?: ScreenTimeLimitReason;
+  resumesAt?: string | null;
 };
 
 type ApiEnvelope<TData> = {
@@ -45,6 +50,12 @@ export type LoginResult = {
   };
 };
 
+export type LogoutResult = {
+  userId: string;
+  scope: 'local' | 'global';
+  signedOutAt: string;
+};
+
 export type ChangeEmailRequest = {
   newEmail: string;
   password: string;
@@ -72,14 +83,30 @@ export type MyContentPreferencesResult = {
   selectedContentTypes: ContentTypeSummary[];
 };
 
+export type ContentTagSummary = {
+  id: string;
+  slug: string;
+  name: string;
+};
+
+export type BlockedVideoSummary = {
+  id: string;
+  title: string;
+};
+
 export type EffectiveContentPreferencesResult = {
   userId: string;
   selectedContentTypeIds: string[];
   selectedContentTypes: ContentTypeSummary[];
   blockedContentTypeIds: string[];
   blockedContentTypes: ContentTypeSummary[];
+  blockedContentTagIds: string[];
+  blockedContentTags: ContentTagSummary[];
+  blockedVideoIds: string[];
+  blockedVideos: BlockedVideoSummary[];
   effectiveContentTypeIds: string[];
   effectiveContentTypes: ContentTypeSummary[];
+  approvalRequired: boolean;
   isParentRestricted: boolean;
 };
 
@@ -95,12 +122,23 @@ export type FeedCatalogVideoSummary = {
   playbackPolicy: 'public' | 'signed';
   playbackUrl: string;
   contentTagIds: string[];
+  resumePositionSeconds: number | null;
 };
 
+export type FeedCatalogOrder = 'newest' | 'published_at' | 'unwatched_first';
+
 export type FeedCatalogResult = {
   userId: string;
   effectiveContentTypeIds: string[];
+  order: FeedCatalogOrder;
   videos: FeedCatalogVideoSummary[];
+  nextCursor: string | null;
+};
+
+export type FeedCatalogQuery = {
+  cursor?: string;
+  limit?: number;
+  order?: FeedCatalogOrder;
 };
 
 export type UpdateMyContentPreferencesRequest = {
@@ -136,6 +174,89 @@ export type ParentalAttestationResult = {
   policyVersion: string;
 };
 
+export type ParentConsentEmailRequest = {
+  parentEmail: string;
+};
+
+export type ParentConsentEmailRequestResult = {
+  consentId: string;
+  childUserId: string;
+  consentStatus: 'pending';
+  consentMethod: 'email_verification';
+  parentEmail: string;
+  tokenExpiresAt: string;
+  policyVersion: string;
+};
+
+export type ParentConsentRequestReview = {
+  consentId: string;
+  childUsername: string | null;
+  parentEmail: string;
+  consentStatus: 'pending' | 'approved' | 'rejected' | 'expired' | 'revoked';
+  tokenExpiresAt: string | null;
+  policyVersion: string;
+  consentText: string;
+};
+
+export type ParentConsentDecisionRequest =
+  | {
+      decision: 'approve';
+      parentFullName: string;
+      relationshipToChild: string;
+      attestationAccepted: boolean;
+    }
+  | {
+      decision: 'deny';
+    };
+
+export type ParentConsentDecisionResult = {
+  consentId: string;
+  consentStatus: 'approved' | 'rejected';
+  approvedAt: string | null;
+  expiresAt: string | null;
+};
+
+export type ConsentPolicy = {
+  version: string;
+  effectiveAt: string;
+  attestationText: string;
+  emailConsentText: string;
+  requiresReconsent: boolean;
+};
+
+export type ParentalConsentStatus =
+  | 'not_required'
+  | 'missing'
+  | 'pending'
+  | 'approved'
+  | 'reconsent_required'
+  | 'expired'
+  | 'revoked';
+
+export type ParentalConsentAccessMode =
+  | 'full'
+  | 'pending_parent_consent'
+  | 'consent_expired_limited';
+
+export type ParentalConsentState = {
+  childUserId: string;
+  requiresParentalConsent: boolean;
+  status: ParentalConsentStatus;
+  accessMode: ParentalConsentAccessMode;
+  consent: {
+    consentId: string;
+    consentStatus: 'pending' | 'approved' | 'rejected' | 'expired' | 'revoked';
+    consentMethod: 'email_verification' | 'interim_attestation';
+    approvedAt: string | null;
+    expiresAt: string | null;
+    revokedAt: string | null;
+    policyVersion: string;
+    createdAt: string;
+  } | null;
+};
+
+export type GuardianRole = 'primary' | 'co_guardian' | 'coach_viewer';
+
 export type ParentLinkSummary = {
   id: string;
   parentUserId: string;
@@ -143,6 +264,7 @@ export type ParentLinkSummary = {
   childUserId: string;
   childUsername: string;
   relationshipStatus: 'pending' | 'active' | 'revoked';
+  guardianRole: GuardianRole;
   linkedAt: string | null;
   createdAt: string;
   updatedAt: string;
@@ -159,8 +281,22 @@ export type RequestParentLinkRequest = {
   childUsername: string;
 };
 
+export type AddChildGuardianRequest = {
+  guardianUsername: string;
+  guardianRole: Exclude<GuardianRole, 'primary'>;
+};
+
+export type ParentLinkInvite = {
+  inviteId: string;
+  code: string;
+  qrPayload: string;
+  expiresAt: string;
+};
+
 export type UpdateChildContentRestrictionsRequest = {
   blockedContentTypeIds: string[];
+  blockedContentTagIds: string[];
+  blockedVideoIds: string[];
 };
 
 export type ChildContentRestrictionsResult = {
@@ -169,9 +305,63 @@ export type ChildContentRestrictionsResult = {
   childUsername: string;
   blockedContentTypeIds: string[];
   blockedContentTypes: ContentTypeSummary[];
+  blockedContentTagIds: string[];
+  blockedContentTags: ContentTagSummary[];
+  blockedVideoIds: string[];
+  blockedVideos: BlockedVideoSummary[];
+  availableContentTags: ContentTagSummary[];
   effectiveContentPreferences: EffectiveContentPreferencesResult;
 };
 
+export type ContentApprovalDecision = 'approved' | 'rejected';
+
+export type ApprovalQueueVideoSummary = {
+  id: string;
+  title: string;
+  description: string | null;
+  durationSeconds: number | null;
+  thumbnailUrl: string | null;
+  publishedAt: string | null;
+  contentTagIds: string[];
+};
+
+export type ChildContentApprovalsResult = {
+  parentUserId: string;
+  childUserId: string;
+  childUsername: string;
+  approvalRequired: boolean;
+  pendingVideos: ApprovalQueueVideoSummary[];
+};
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+export type AllowedWindow = {
+  days: Weekday[];
+  startTime: string;
+  endTime: string;
+};
+
+export type ScreenTimeLimitReason = 'daily_limit_reached' | 'outside_allowed_hours';
+
+export type UpdateChildTimeLimitsRequest = {
+  dailyWatchMinutes: number | null;
+  timeZone: string;
+  allowedWindows: AllowedWindow[];
+};
+
+export type ChildTimeLimitsResult = UpdateChildTimeLimitsRequest & {
+  parentUserId: string;
+  childUserId: string;
+  childUsername: string;
+  updatedAt: string | null;
+  screenTime: {
+    limitReason: ScreenTimeLimitReason | null;
+    watchedSecondsToday: number;
+    remainingSeconds: number | null;
+    resumesAt: string | null;
+  };
+};
+
 export type VideoStatus =
   | 'draft'
   | 'processing'
@@ -232,6 +422,73 @@ export type ListAdminVideosQuery = {
   status?: VideoStatus;
 };
 
+export type AdminUserAgeBucket = 'under_13' | '13_to_17' | '18_plus' | 'unknown';
+
+export type AdminUserSummary = {
+  id: string;
+  username: string;
+  displayName: string | null;
+  accountType: AccountType;
+  emailVerifiedAt: string | null;
+  createdAt: string;
+  age: number | null;
+  ageBucket: AdminUserAgeBucket;
+  consentStatus: ParentalConsentStatus;
+  accessMode: ParentalConsentAccessMode;
+};
+
+export type AdminUserListPage = {
+  users: AdminUserSummary[];
+  nextOffset: number | null;
+};
+
+export type ListAdminUsersQuery = {
+  accountType?: AccountType;
+  ageBucket?: AdminUserAgeBucket;
+  consentStatus?: ParentalConsentStatus;
+  limit?: number;
+  offset?: number;
+};
+
+export type AdminUserLoginLockout = {
+  isLocked: boolean;
+  lockedUntil: string | null;
+  failedAttemptCount: number;
+  lockoutCount: number;
+  lastFailedAt: string | null;
+};
+
+export type AdminUserDetail = {
+  profile: AdminUserSummary;
+  ageGate: {
+    birthdate: string;
+    calculatedAgeAtSignup: number;
+    countryCode: string;
+    createdAt: string;
+  } | null;
+  consent: ParentalConsentState;
+  consentHistory: Array<
+    NonNullable<ParentalConsentState['consent']> & {
+      parentEmail: string;
+      parentFullName: string | null;
+      relationshipToChild: string | null;
+    }
+  >;
+  parentLinks: {
+    asParent: ParentLinkSummary[];
+    asChild: ParentLinkSummary[];
+  };
+  loginLockout: AdminUserLoginLockout;
+  recentSecurityEvents: Array<{
+    id: string;
+    eventType: string;
+    ipAddress: string | null;
+    userAgent: string | null;
+    eventMetadata: Record<string, unknown>;
+    createdAt: string;
+  }>;
+};
+
 export type CreateAdminContentTagRequest = {
   name: string;
   description?: string;
@@ -268,6 +525,7 @@ export type TrackWatchEventRequest = {
   eventType: WatchEventType;
   positionSeconds?: number;
   sessionId?: string;
+  eventId?: string;
 };
 
 export type WatchEventResult = {
@@ -278,6 +536,124 @@ export type WatchEventResult = {
   positionSeconds: number | null;
   occurredAt: string;
   sessionId: string | null;
+  eventId: string | null;
+};
+
+export type VideoProgressResult = {
+  videoId: string;
+  lastPositionSeconds: number;
+  completionPercent: number;
+  completedAt: string | null;
+  lastWatchedAt: string | null;
+  updatedAt: string;
+};
+
+export type WatchSessionSummary = {
+  sessionId: string;
+  clientSessionId: string | null;
+  videoId: string;
+  startedAt: string;
+  endedAt: string | null;
+  lastEventAt: string | null;
+  watchSeconds: number;
+  endReason: 'pause' | 'complete' | 'inactivity' | null;
+};
+
+export type WatchSessionListResult = {
+  userId: string;
+  since: string | null;
+  totalWatchSeconds: number;
+  sessions: WatchSessionSummary[];
+};
+
+export type ListWatchSessionsQuery = {
+  since?: string;
+  limit?: number;
+};
+
+export type WatchHistoryItem = {
+  videoId: string;
+  title: string;
+  thumbnailUrl: string | null;
+  durationSeconds: number | null;
+  lastPositionSeconds: number;
+  completionPercent: number;
+  isCompleted: boolean;
+  completedAt: string | null;
+  lastWatchedAt: string;
+  contentTags: Array<{
+    id: string;
+    slug: string;
+    name: string;
+  }>;
+  contentTypeIds: string[];
+};
+
+export type WatchHistoryPage = {
+  userId: string;
+  contentTypeId: string | null;
+  items: WatchHistoryItem[];
+  nextCursor: string | null;
+};
+
+export type ListWatchHistoryQuery = {
+  contentTypeId?: string;
+  cursor?: string;
+  limit?: number;
+};
+
+export type ChildWatchHistoryResult = WatchHistoryPage & {
+  parentUserId: string;
+  childUsername: string;
+};
+
+export type WeeklyContentTypeEngagement = {
+  contentTypeId: string;
+  name: string | null;
+  slug: string | null;
+  watchSeconds: number;
+  completions: number;
+};
+
+export type ChildWeeklySummaryResult = {
+  parentUserId: string;
+  childUserId: string;
+  childUsername: string;
+  weeks: Array<{
+    weekStart: string;
+    weekEnd: string;
+    watchSeconds: number;
+    completions: number;
+    activeMinutes: number;
+    topContentTypes: WeeklyContentTypeEngagement[];
+  }>;
+};
+
+export type BatchWatchEventRequest = TrackWatchEventRequest & {
+  occurredAt?: string;
+};
+
+export type TrackWatchEventBatchRequest = {
+  events: BatchWatchEventRequest[];
+};
+
+export type WatchEventBatchItemResult =
+  | {
+      index: number;
+      status: 'accepted';
+      event: WatchEventResult;
+    }
+  | {
+      index: number;
+      status: 'rejected';
+      reason: 'video_not_trackable';
+      message: string;
+    };
+
+export type WatchEventBatchResult = {
+  acceptedCount: number;
+  rejectedCount: number;
+  items: WatchEventBatchItemResult[];
 };
 
 const apiBaseUrl = process.env.NEXT_PUBLIC_API_BASE_URL ?? '';
@@ -294,21 +670,153 @@ function getApiBaseUrlOrThrow(): string {
   return apiBaseUrl.replace(/\/$/, '');
 }
 
+class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+  }
+}
+
+// The feed and watch events are refused once a parent's daily budget is spent
+// or outside the hours they allowed; the message is ready to show as is.
+export class ScreenTimeLimitError extends ApiRequestError {
+  constructor(
+    message: string,
+    readonly limitReason: ScreenTimeLimitReason,
+    readonly resumesAt: string | null,
+  ) {
+    super(message, 403);
+  }
+}
+
+// Renew a little before the access token expires so slow requests do not
+// reach the backend with a token that lapsed in flight.
+const SESSION_RENEWAL_LEEWAY_MS = 60 * 1000;
+
+let pendingSessionRenewal: Promise<string | null> | null = null;
+
+function readBearerToken(init?: RequestInit): string | null {
+  const authorization = new Headers(init?.headers).get('Authorization');
+
+  return authorization?.startsWith('Bearer ') ? authorization.slice(7) : null;
+}
+
+function withBearerToken(init: RequestInit | undefined, accessToken: string): RequestInit {
+  const headers = new Headers(init?.headers);
+  headers.set('Authorization', `Bearer ${accessToken}`);
+
+  return { ...init, headers };
+}
+
+async function renewStoredSession(): Promise<string | null> {
+  const storedSession = readAuthSession();
+
+  if (!storedSession?.refreshToken) {
+    return null;
+  }
+
+  try {
+    const renewedSession = await refreshAuthSession(storedSession.refreshToken);
+    saveAuthSession(renewedSession);
+
+    return renewedSession.accessToken;
+  } catch (error) {
+    // A rejected refresh token means the user has to sign in again.
+    if (error instanceof ApiRequestError && error.status === 401) {
+      clearAuthSession();
+    }
+
+    return null;
+  }
+}
+
+// Concurrent requests share one renewal so the refresh token is spent once.
+function renewSession(): Promise<string | null> {
+  if (!pendingSessionRenewal) {
+    pendingSessionRenewal = renewStoredSession().finally(() => {
+      pendingSessionRenewal = null;
+    });
+  }
+
+  return pendingSessionRenewal;
+}
+
+async function readFreshAccessToken(requestedToken: string): Promise<string> {
+  const storedSession = readAuthSession();
+
+  if (!storedSession) {
+    return requestedToken;
+  }
+
+  if (
+    storedSession.expiresAt !== undefined &&
+    storedSession.expiresAt - Date.now() < SESSION_RENEWAL_LEEWAY_MS
+  ) {
+    return (await renewSession()) ?? storedSession.accessToken;
+  }
+
+  return storedSession.accessToken;
+}
+
+// Authenticated calls use the latest stored token, renew it shortly before
+// expiry, and retry once after a 401 with a renewed session.
 async function requestJson<T>(path: string, init?: RequestInit): Promise<T> {
+  const requestedToken = readBearerToken(init);
+
+  if (!requestedToken) {
+    return sendJsonRequest<T>(path, init);
+  }
+
+  const accessToken = await readFreshAccessToken(requestedToken);
+
+  try {
+    return await sendJsonRequest<T>(path, withBearerToken(init, accessToken));
+  } catch (error) {
+    if (!(error instanceof ApiRequestError) || error.status !== 401) {
+      throw error;
+    }
+
+    const renewedToken = await renewSession();
+
+    if (!renewedToken) {
+      throw error;
+    }
+
+    return sendJsonRequest<T>(path, withBearerToken(init, renewedToken));
+  }
+}
+
+async function sendJsonRequest<T>(path: string, init?: RequestInit): Promise<T> {
   const response = await fetch(`${getApiBaseUrlOrThrow()}${path}`, init);
 
   if (!response.ok) {
     let backendMessage: string | undefined;
+    let errorPayload: BackendErrorResponse | undefined;
 
     try {
-      const errorPayload = (await response.json()) as BackendErrorResponse;
-      backendMessage = errorPayload.message;
+      errorPayload = (await response.json()) as BackendErrorResponse;
+      // Field errors say what to fix; the top-level message only names the payload.
+      const firstFieldError = Object.values(errorPayload.errors ?? {})
+        .flat()
+        .find((fieldError) => typeof fieldError === 'string');
+      backendMessage = firstFieldError ?? errorPayload.message;
     } catch {
       backendMessage = undefined;
     }
 
-    throw new Error(
+    if (response.status === 403 && errorPayload?.limitReason && backendMessage) {
+      throw new ScreenTimeLimitError(
+        backendMessage,
+        errorPayload.limitReason,
+        errorPayload.resumesAt ?? null,
+      );
+    }
+
+    throw new ApiRequestError(
       backendMessage ?? `Backend returned HTTP ${response.status}`,
+      response.status,
     );
   }
 
@@ -483,6 +991,63 @@ export async function listAdminVideos(
   return response.data;
 }
 
+export async function listAdminUsers(
+  accessToken: string,
+  query?: ListAdminUsersQuery,
+): Promise<AdminUserListPage> {
+  const response = await requestJson<ApiEnvelope<AdminUserListPage>>(
+    `/v1/admin/users${toQueryString({
+      accountType: query?.accountType,
+      ageBucket: query?.ageBucket,
+      consentStatus: query?.consentStatus,
+      limit: query?.limit?.toString(),
+      offset: query?.offset?.toString(),
+    })}`,
+    {
+      cache: 'no-store',
+      headers: {
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+    },
+  );
+
+  return response.data;
+}
+
+export async function getAdminUserDetail(
+  accessToken: string,
+  userId: string,
+): Promise<AdminUserDetail> {
+  const response = await requestJson<ApiEnvelope<AdminUserDetail>>(
+    `/v1/admin/users/${encodeURIComponent(userId)}`,
+    {
+      cache: 'no-store',
+      headers: {
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+    },
+  );
+
+  return response.data;
+}
+
+export async function unlockAdminUser(
+  accessToken: string,
+  userId: string,
+): Promise<AdminUserLoginLockout> {
+  const response = await requestJson<ApiEnvelope<AdminUserLoginLockout>>(
+    `/v1/admin/users/${encodeURIComponent(userId)}/unlock`,
+    {
+      method: 'PUT',
+      headers: {
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+    },
+  );
+
+  return response.data;
+}
+
 export async function createAdminVideo(
   accessToken: string,
   payload: CreateAdminVideoRequest,
@@ -540,9 +1105,14 @@ export async function getMyEffectiveContentPreferences(
 
 export async function getFeedCatalog(
   accessToken: string,
+  query: FeedCatalogQuery = {},
 ): Promise<FeedCatalogResult> {
   const response = await requestJson<ApiEnvelope<FeedCatalogResult>>(
-    '/v1/feed/catalog',
+    `/v1/feed/catalog${toQueryString({
+      cursor: query.cursor,
+      limit: query.limit?.toString(),
+      order: query.order,
+    })}`,
     {
       cache: 'no-store',
       headers: {
@@ -657,33 +1227,50 @@ export async function submitParentalAttestation(
   return response.data;
 }
 
-export async function getMyParentLinks(
+export async function requestParentConsentEmail(
   accessToken: string,
-): Promise<MyParentLinksResult> {
-  const response = await requestJson<ApiEnvelope<MyParentLinksResult>>(
-    '/v1/parent/links',
+  payload: ParentConsentEmailRequest,
+): Promise<ParentConsentEmailRequestResult> {
+  const response = await requestJson<ApiEnvelope<ParentConsentEmailRequestResult>>(
+    '/v1/onboarding/parent-consent',
     {
-      cache: 'no-store',
+      method: 'POST',
       headers: {
+        'Content-Type': 'application/json',
         Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
       },
+      body: JSON.stringify(payload),
     },
   );
 
   return response.data;
 }
 
-export async function requestParentLink(
-  accessToken: string,
-  payload: RequestParentLinkRequest,
-): Promise<ParentLinkSummary> {
-  const response = await requestJson<ApiEnvelope<ParentLinkSummary>>(
-    '/v1/parent/links/request',
+// Parent consent links are opened from email without a TeachTok session; the
+// signed token in the URL is the only credential.
+export async function getParentConsentRequest(
+  consentToken: string,
+): Promise<ParentConsentRequestReview> {
+  const response = await requestJson<ApiEnvelope<ParentConsentRequestReview>>(
+    `/v1/onboarding/parent-consent/${encodeURIComponent(consentToken)}`,
+    {
+      cache: 'no-store',
+    },
+  );
+
+  return response.data;
+}
+
+export async function respondToParentConsentRequest(
+  consentToken: string,
+  payload: ParentConsentDecisionRequest,
+): Promise<ParentConsentDecisionResult> {
+  const response = await requestJson<ApiEnvelope<ParentConsentDecisionResult>>(
+    `/v1/onboarding/parent-consent/${encodeURIComponent(consentToken)}`,
     {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
       },
       body: JSON.stringify(payload),
     },
@@ -692,14 +1279,130 @@ export async function requestParentLink(
   return response.data;
 }
 
-export async function acceptParentLink(
+export async function getConsentPolicy(): Promise<ConsentPolicy> {
+  const response = await requestJson<ApiEnvelope<ConsentPolicy>>(
+    '/v1/onboarding/consent-policy',
+    {
+      cache: 'no-store',
+    },
+  );
+
+  return response.data;
+}
+
+export async function getMyParentalConsent(
   accessToken: string,
-  linkId: string,
-): Promise<ParentLinkSummary> {
-  const response = await requestJson<ApiEnvelope<ParentLinkSummary>>(
-    `/v1/parent/links/${encodeURIComponent(linkId)}/accept`,
+): Promise<ParentalConsentState> {
+  const response = await requestJson<ApiEnvelope<ParentalConsentState>>(
+    '/v1/onboarding/parental-consent',
     {
-      method: 'POST',
+      cache: 'no-store',
+      headers: {
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+    },
+  );
+
+  return response.data;
+}
+
+export async function renewParentalConsent(
+  accessToken: string,
+  payload: ParentalAttestationRequest,
+): Promise<ParentalAttestationResult> {
+  const response = await requestJson<ApiEnvelope<ParentalAttestationResult>>(
+    '/v1/onboarding/parental-consent/renew',
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+      body: JSON.stringify(payload),
+    },
+  );
+
+  return response.data;
+}
+
+export async function getMyParentLinks(
+  accessToken: string,
+): Promise<MyParentLinksResult> {
+  const response = await requestJson<ApiEnvelope<MyParentLinksResult>>(
+    '/v1/parent/links',
+    {
+      cache: 'no-store',
+      headers: {
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+    },
+  );
+
+  return response.data;
+}
+
+export async function requestParentLink(
+  accessToken: string,
+  payload: RequestParentLinkRequest,
+): Promise<ParentLinkSummary> {
+  const response = await requestJson<ApiEnvelope<ParentLinkSummary>>(
+    '/v1/parent/links/request',
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+      body: JSON.stringify(payload),
+    },
+  );
+
+  return response.data;
+}
+
+export async function createParentLinkInvite(
+  accessToken: string,
+): Promise<ParentLinkInvite> {
+  const response = await requestJson<ApiEnvelope<ParentLinkInvite>>(
+    '/v1/parent/links/invites',
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+    },
+  );
+
+  return response.data;
+}
+
+export async function redeemParentLinkInvite(
+  accessToken: string,
+  code: string,
+): Promise<ParentLinkSummary> {
+  const response = await requestJson<ApiEnvelope<ParentLinkSummary>>(
+    '/v1/parent/links/invites/redeem',
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+      body: JSON.stringify({ code }),
+    },
+  );
+
+  return response.data;
+}
+
+export async function acceptParentLink(
+  accessToken: string,
+  linkId: string,
+): Promise<ParentLinkSummary> {
+  const response = await requestJson<ApiEnvelope<ParentLinkSummary>>(
+    `/v1/parent/links/${encodeURIComponent(linkId)}/accept`,
+    {
+      method: 'POST',
       headers: {
         Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
       },
@@ -726,6 +1429,64 @@ export async function revokeParentLink(
   return response.data;
 }
 
+export async function listChildGuardians(
+  accessToken: string,
+  childUserId: string,
+): Promise<ParentLinkSummary[]> {
+  const response = await requestJson<ApiEnvelope<ParentLinkSummary[]>>(
+    `/v1/parent/children/${encodeURIComponent(childUserId)}/guardians`,
+    {
+      cache: 'no-store',
+      headers: {
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+    },
+  );
+
+  return response.data;
+}
+
+export async function addChildGuardian(
+  accessToken: string,
+  childUserId: string,
+  payload: AddChildGuardianRequest,
+): Promise<ParentLinkSummary> {
+  const response = await requestJson<ApiEnvelope<ParentLinkSummary>>(
+    `/v1/parent/children/${encodeURIComponent(childUserId)}/guardians`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+      body: JSON.stringify(payload),
+    },
+  );
+
+  return response.data;
+}
+
+export async function updateChildGuardianRole(
+  accessToken: string,
+  childUserId: string,
+  linkId: string,
+  guardianRole: GuardianRole,
+): Promise<ParentLinkSummary> {
+  const response = await requestJson<ApiEnvelope<ParentLinkSummary>>(
+    `/v1/parent/children/${encodeURIComponent(childUserId)}/guardians/${encodeURIComponent(linkId)}/role`,
+    {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+      body: JSON.stringify({ guardianRole }),
+    },
+  );
+
+  return response.data;
+}
+
 export async function getChildContentRestrictions(
   accessToken: string,
   childUserId: string,
@@ -743,6 +1504,116 @@ export async function getChildContentRestrictions(
   return response.data;
 }
 
+export async function getChildTimeLimits(
+  accessToken: string,
+  childUserId: string,
+): Promise<ChildTimeLimitsResult> {
+  const response = await requestJson<ApiEnvelope<ChildTimeLimitsResult>>(
+    `/v1/parent/children/${encodeURIComponent(childUserId)}/time-limits`,
+    {
+      cache: 'no-store',
+      headers: {
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+    },
+  );
+
+  return response.data;
+}
+
+export async function getChildWatchHistory(
+  accessToken: string,
+  childUserId: string,
+  query: ListWatchHistoryQuery = {},
+): Promise<ChildWatchHistoryResult> {
+  const response = await requestJson<ApiEnvelope<ChildWatchHistoryResult>>(
+    `/v1/parent/children/${encodeURIComponent(childUserId)}/history${toQueryString({
+      contentTypeId: query.contentTypeId,
+      cursor: query.cursor,
+      limit: query.limit?.toString(),
+    })}`,
+    {
+      cache: 'no-store',
+      headers: {
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+    },
+  );
+
+  return response.data;
+}
+
+export async function getChildWeeklySummary(
+  accessToken: string,
+  childUserId: string,
+  weeks?: number,
+): Promise<ChildWeeklySummaryResult> {
+  const response = await requestJson<ApiEnvelope<ChildWeeklySummaryResult>>(
+    `/v1/parent/children/${encodeURIComponent(childUserId)}/weekly-summary${toQueryString({
+      weeks: weeks?.toString(),
+    })}`,
+    {
+      cache: 'no-store',
+      headers: {
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+    },
+  );
+
+  return response.data;
+}
+
+export async function getChildParentalConsent(
+  accessToken: string,
+  childUserId: string,
+): Promise<ParentalConsentState> {
+  const response = await requestJson<ApiEnvelope<ParentalConsentState>>(
+    `/v1/parent/children/${encodeURIComponent(childUserId)}/parental-consent`,
+    {
+      cache: 'no-store',
+      headers: {
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+    },
+  );
+
+  return response.data;
+}
+
+export async function revokeChildParentalConsent(
+  accessToken: string,
+  childUserId: string,
+): Promise<ParentalConsentState> {
+  const response = await requestJson<ApiEnvelope<ParentalConsentState>>(
+    `/v1/parent/children/${encodeURIComponent(childUserId)}/parental-consent/revoke`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+    },
+  );
+
+  return response.data;
+}
+
+export async function signOutChildEverywhere(
+  accessToken: string,
+  childUserId: string,
+): Promise<LogoutResult> {
+  const response = await requestJson<ApiEnvelope<LogoutResult>>(
+    `/v1/parent/children/${encodeURIComponent(childUserId)}/sign-out-everywhere`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+    },
+  );
+
+  return response.data;
+}
+
 export async function updateChildContentRestrictions(
   accessToken: string,
   childUserId: string,
@@ -763,6 +1634,84 @@ export async function updateChildContentRestrictions(
   return response.data;
 }
 
+export async function getChildContentApprovals(
+  accessToken: string,
+  childUserId: string,
+): Promise<ChildContentApprovalsResult> {
+  const response = await requestJson<ApiEnvelope<ChildContentApprovalsResult>>(
+    `/v1/parent/children/${encodeURIComponent(childUserId)}/content-approvals`,
+    {
+      cache: 'no-store',
+      headers: {
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+    },
+  );
+
+  return response.data;
+}
+
+export async function updateChildContentApprovalSettings(
+  accessToken: string,
+  childUserId: string,
+  approvalRequired: boolean,
+): Promise<ChildContentApprovalsResult> {
+  const response = await requestJson<ApiEnvelope<ChildContentApprovalsResult>>(
+    `/v1/parent/children/${encodeURIComponent(childUserId)}/content-approvals/settings`,
+    {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+      body: JSON.stringify({ approvalRequired }),
+    },
+  );
+
+  return response.data;
+}
+
+export async function decideChildVideoApproval(
+  accessToken: string,
+  childUserId: string,
+  videoId: string,
+  decision: ContentApprovalDecision,
+): Promise<ChildContentApprovalsResult> {
+  const response = await requestJson<ApiEnvelope<ChildContentApprovalsResult>>(
+    `/v1/parent/children/${encodeURIComponent(childUserId)}/content-approvals/${encodeURIComponent(videoId)}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+      body: JSON.stringify({ decision }),
+    },
+  );
+
+  return response.data;
+}
+
+export async function updateChildTimeLimits(
+  accessToken: string,
+  childUserId: string,
+  payload: UpdateChildTimeLimitsRequest,
+): Promise<ChildTimeLimitsResult> {
+  const response = await requestJson<ApiEnvelope<ChildTimeLimitsResult>>(
+    `/v1/parent/children/${encodeURIComponent(childUserId)}/time-limits`,
+    {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+      body: JSON.stringify(payload),
+    },
+  );
+
+  return response.data;
+}
+
 export async function trackWatchEvent(
   accessToken: string,
   payload: TrackWatchEventRequest,
@@ -782,6 +1731,139 @@ export async function trackWatchEvent(
   return response.data;
 }
 
+export async function trackWatchEventBatch(
+  accessToken: string,
+  payload: TrackWatchEventBatchRequest,
+  options: { keepalive?: boolean } = {},
+): Promise<WatchEventBatchResult> {
+  const response = await requestJson<ApiEnvelope<WatchEventBatchResult>>(
+    '/v1/engagement/watch-events/batch',
+    {
+      method: 'POST',
+      // keepalive lets a flush started during page hide outlive the page.
+      keepalive: options.keepalive,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+      body: JSON.stringify(payload),
+    },
+  );
+
+  return response.data;
+}
+
+export async function getMyVideoProgress(
+  accessToken: string,
+): Promise<VideoProgressResult[]> {
+  const response = await requestJson<ApiEnvelope<VideoProgressResult[]>>(
+    '/v1/me/progress',
+    {
+      cache: 'no-store',
+      headers: {
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+    },
+  );
+
+  return response.data;
+}
+
+export async function getMyWatchSessions(
+  accessToken: string,
+  query: ListWatchSessionsQuery = {},
+): Promise<WatchSessionListResult> {
+  const response = await requestJson<ApiEnvelope<WatchSessionListResult>>(
+    `/v1/me/watch-sessions${toQueryString({
+      since: query.since,
+      limit: query.limit?.toString(),
+    })}`,
+    {
+      cache: 'no-store',
+      headers: {
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+    },
+  );
+
+  return response.data;
+}
+
+export async function getMyWatchHistory(
+  accessToken: string,
+  query: ListWatchHistoryQuery = {},
+): Promise<WatchHistoryPage> {
+  const response = await requestJson<ApiEnvelope<WatchHistoryPage>>(
+    `/v1/me/history${toQueryString({
+      contentTypeId: query.contentTypeId,
+      cursor: query.cursor,
+      limit: query.limit?.toString(),
+    })}`,
+    {
+      cache: 'no-store',
+      headers: {
+        Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+      },
+    },
+  );
+
+  return response.data;
+}
+
+export async function logoutSession(accessToken: string): Promise<LogoutResult> {
+  const response = await requestJson<ApiEnvelope<LogoutResult>>('/v1/auth/logout', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+    },
+  });
+
+  return response.data;
+}
+
+export async function logoutAllSessions(accessToken: string): Promise<LogoutResult> {
+  const response = await requestJson<ApiEnvelope<LogoutResult>>('/v1/auth/logout-all', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${readBearerTokenOrThrow(accessToken)}`,
+    },
+  });
+
+  return response.data;
+}
+
+// Revokes the session on the backend, renewing an expired access token first
+// so the server-side session really ends, then clears it locally either way.
+// If the backend is unreachable the token simply runs out its remaining
+// lifetime.
+export async function signOutCurrentSession(): Promise<void> {
+  const storedSession = readAuthSession();
+
+  if (!storedSession) {
+    return;
+  }
+
+  try {
+    await logoutSession(storedSession.accessToken);
+  } catch {
+    // The local session is cleared below regardless.
+  } finally {
+    clearAuthSession();
+  }
+}
+
+export async function refreshAuthSession(refreshToken: string): Promise<LoginResult> {
+  const response = await requestJson<ApiEnvelope<LoginResult>>('/v1/auth/refresh', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ refreshToken }),
+  });
+
+  return response.data;
+}
+
 export async function loginWithEmail(payload: LoginRequest): Promise<LoginResult> {
   const response = await requestJson<ApiEnvelope<LoginResult>>('/v1/auth/login', {
     method: 'POST',
@@ -6,7 +6,11 @@ import {
 
 const AUTH_SESSION_COOKIE_LIFETIME_SECONDS = 60 * 60 * 24 * 30;
 
-export type StoredAuthSession = LoginResult;
+// expiresAt is the access token expiry in epoch milliseconds, derived from
+// expiresIn when the session is saved.
+export type StoredAuthSession = LoginResult & {
+  expiresAt?: number;
+};
 
 function canUseStorage(): boolean {
   return typeof window !== 'undefined' && typeof window.localStorage !== 'undefined';
@@ -57,8 +61,13 @@ export function readAuthSession(): StoredAuthSession | null {
 }
 
 export function saveAuthSession(session: StoredAuthSession): void {
+  const storedSession: StoredAuthSession = {
+    ...session,
+    expiresAt: session.expiresAt ?? Date.now() + session.expiresIn * 1000,
+  };
+
   if (canUseStorage()) {
-    window.localStorage.setItem(AUTH_SESSION_STORAGE_KEY, JSON.stringify(session));
+    window.localStorage.setItem(AUTH_SESSION_STORAGE_KEY, JSON.stringify(storedSession));
   }
 
   setAuthSessionCookie();